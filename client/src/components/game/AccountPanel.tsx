@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useAuth } from '../../lib/stores/useAuth';
+import { useAudio } from '../../lib/stores/useAudio';
+
+/**
+ * Sign in, sign up or sign out of the account used for online play and saved games
+ */
+const AccountPanel: React.FC = () => {
+  const { user, checked, loading, error, fetchUser, login, register, logout, clearError } = useAuth();
+  const { playSound } = useAudio();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  // Pick up a session left over from an earlier visit
+  useEffect(() => {
+    if (!checked) {
+      void fetchUser();
+    }
+  }, [checked, fetchUser]);
+
+  if (!checked) return null;
+
+  if (user) {
+    return (
+      <div className="flex items-center justify-between text-white">
+        <span>
+          Signed in as <span className="font-bold text-yellow-400">{user.username}</span>
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            playSound('button_click');
+            void logout();
+          }}
+        >
+          Sign Out
+        </Button>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (action: typeof login) => {
+    playSound('button_click');
+    if (await action(username, password)) {
+      setPassword('');
+    }
+  };
+
+  return (
+    <form
+      className="flex flex-col gap-2 text-white"
+      onSubmit={(event) => {
+        event.preventDefault();
+        void handleSubmit(login);
+      }}
+    >
+      <div className="text-sm opacity-80">Sign in to play online and keep saved games</div>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Username"
+          autoComplete="username"
+          value={username}
+          onChange={(event) => {
+            setUsername(event.target.value);
+            clearError();
+          }}
+        />
+        <Input
+          type="password"
+          placeholder="Password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(event) => {
+            setPassword(event.target.value);
+            clearError();
+          }}
+        />
+      </div>
+      {error && <div className="text-sm text-red-400">{error}</div>}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={loading || !username || !password}>
+          Sign In
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={loading || !username || !password}
+          onClick={() => void handleSubmit(register)}
+        >
+          Create Account
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AccountPanel;
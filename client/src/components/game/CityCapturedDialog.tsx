@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { useAudio } from '../../lib/stores/useAudio';
+import { getBuildingDefinition } from '../../game/config/buildings';
+import { dispatchDOMEvent, listenForGameEvent, COMMANDS } from '../../game/utils/events';
+
+// Captured city details sent by the game scene
+interface CapturedCityInfo {
+  cityId: string;
+  name: string;
+  destroyedBuildings: string[];
+  canRaze: boolean;
+  canLiberate: boolean;
+}
+
+/**
+ * Choice of keeping, razing or liberating a city the player has just captured
+ */
+const CityCapturedDialog: React.FC = () => {
+  const [captured, setCaptured] = useState<CapturedCityInfo | null>(null);
+  const { playSound } = useAudio();
+
+  useEffect(() => {
+    return listenForGameEvent<CapturedCityInfo>(COMMANDS.CITY_CAPTURED, setCaptured);
+  }, []);
+
+  if (!captured) return null;
+
+  const handleChoice = (command?: string) => {
+    playSound('button_click');
+    if (command) {
+      dispatchDOMEvent(command, { cityId: captured.cityId });
+    }
+    setCaptured(null);
+  };
+
+  const destroyed = captured.destroyedBuildings
+    .map(id => getBuildingDefinition(id)?.name ?? id)
+    .join(', ');
+
+  return (
+    <div className="absolute inset-0 z-[55] bg-black/50 flex items-center justify-center">
+      <div className="bg-black/80 rounded-lg p-6 max-w-sm text-center text-white">
+        <h2 className="text-2xl font-bold mb-2">{captured.name} has fallen</h2>
+        {destroyed && (
+          <p className="text-sm opacity-70 mb-4">Destroyed in the fighting: {destroyed}</p>
+        )}
+        <div className="flex flex-col gap-2 mt-4">
+          <Button onClick={() => handleChoice()}>Keep the city</Button>
+          {captured.canLiberate && (
+            <Button variant="secondary" onClick={() => handleChoice(COMMANDS.LIBERATE_CITY)}>
+              Return it to its founder
+            </Button>
+          )}
+          {captured.canRaze && (
+            <Button variant="destructive" onClick={() => handleChoice(COMMANDS.RAZE_CITY)}>
+              Raze it to the ground
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CityCapturedDialog;
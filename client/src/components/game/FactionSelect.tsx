@@ -1,5 +1,5 @@
 import React from 'react';
-import { FACTIONS, FactionType } from '../../game/config/factions';
+import { FactionType, getFactionConfig } from '../../game/config/factions';
 import { useAudio } from '../../lib/stores/useAudio';
 
 interface FactionSelectProps {
@@ -21,7 +21,7 @@ const FactionSelect: React.FC<FactionSelectProps> = ({
   
   // Render faction card
   const renderFactionCard = (faction: FactionType) => {
-    const factionData = FACTIONS[faction];
+    const factionData = getFactionConfig(faction);
     const isSelected = selectedFaction === faction;
     
     return (
@@ -60,7 +60,7 @@ const FactionSelect: React.FC<FactionSelectProps> = ({
                 {factionData.bonuses.map((bonus, index) => (
                   <li key={index} className="flex items-center gap-1">
                     <span className="text-yellow-400">•</span>
-                    {`${bonus.amount > 0 ? '+' : ''}${bonus.amount}${bonus.operation === 'percentage' ? '%' : ''} ${bonus.type} for ${bonus.target}`}
+                    <span className="font-semibold">{bonus.description}:</span> {bonus.effect}
                   </li>
                 ))}
               </ul>
@@ -68,12 +68,12 @@ const FactionSelect: React.FC<FactionSelectProps> = ({
             
             <div className="mt-2 space-y-1">
               <h4 className="text-xs uppercase tracking-wide text-gray-400">Unique Units</h4>
-              <p className="text-xs text-gray-300">{factionData.uniqueUnits.join(', ')}</p>
+              <p className="text-xs text-gray-300">{factionData.specialUnits.join(', ')}</p>
             </div>
             
             <div className="mt-2 space-y-1">
               <h4 className="text-xs uppercase tracking-wide text-gray-400">Unique Buildings</h4>
-              <p className="text-xs text-gray-300">{factionData.uniqueBuildings.join(', ')}</p>
+              <p className="text-xs text-gray-300">{factionData.specialBuildings.join(', ')}</p>
             </div>
           </div>
         )}
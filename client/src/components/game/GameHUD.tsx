@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useGameState } from '../../lib/stores/useGameState';
-import { dispatchDOMEvent, COMMANDS } from '../../game/utils/events';
+import { dispatchDOMEvent, listenForGameEvent, COMMANDS } from '../../game/utils/events';
 import { Button } from '../ui/button';
 import ResourceBar from './ResourceBar';
 
@@ -14,11 +14,46 @@ const GameHUD: React.FC = () => {
   // Find current player
   const currentPlayer = players.find(p => p.id === currentPlayerId);
   
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false });
+  
   // Handle end turn
   const handleEndTurn = () => {
     dispatchDOMEvent(COMMANDS.END_TURN, {});
   };
   
+  // Handle undo/redo of moves made this turn
+  const handleUndo = () => {
+    dispatchDOMEvent(COMMANDS.UNDO, undefined);
+  };
+  
+  const handleRedo = () => {
+    dispatchDOMEvent(COMMANDS.REDO, undefined);
+  };
+  
+  // Track whether there is anything to undo or redo
+  useEffect(() => {
+    return listenForGameEvent<{canUndo: boolean, canRedo: boolean}>(COMMANDS.HISTORY_CHANGED, setHistory);
+  }, []);
+  
+  // Ctrl+Z to undo, Ctrl+Y or Ctrl+Shift+Z to redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+  
   // Handle menu button
   const handleOpenMenu = () => {
     setActivePanel('menu');
@@ -50,6 +85,27 @@ const GameHUD: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-2">
+          {/* Undo/Redo Buttons */}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!history.canUndo}
+            onClick={handleUndo}
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </Button>
+          
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!history.canRedo}
+            onClick={handleRedo}
+            title="Redo (Ctrl+Y)"
+          >
+            Redo
+          </Button>
+          
           {/* Menu Button */}
           <Button 
             variant="outline" 
@@ -1,9 +1,22 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '../ui/button';
-import { useGameState } from '../../lib/stores/useGameState';
+import { MapSettings, PlayerType, useGameState } from '../../lib/stores/useGameState';
 import { useAudio } from '../../lib/stores/useAudio';
 import FactionSelect from './FactionSelect';
+import MapSetup from './MapSetup';
+import AccountPanel from './AccountPanel';
+import OnlineLobby from './OnlineLobby';
+import MapEditorPanel from './MapEditorPanel';
+import { useAuth } from '../../lib/stores/useAuth';
 import { FactionType } from '../../game/config/factions';
+import { COMMANDS, dispatchDOMEvent, listenForGameEvent } from '../../game/utils/events';
+import type { GameConfig } from '../../game/scenes/GameScene';
+
+// Browser storage key of the quick save
+const QUICK_SAVE_KEY = 'bom-kingdoms-quicksave';
+
+// Active panel while the map editor is open
+export const MAP_EDITOR_PANEL = 'map_editor';
 
 const GameMenu: React.FC = () => {
   const [selectedFaction, setSelectedFaction] = useState<FactionType>(FactionType.NEPHITE);
@@ -14,18 +27,105 @@ const GameMenu: React.FC = () => {
   const setGameStarted = useGameState(state => state.setGameStarted);
   const setGamePaused = useGameState(state => state.setGamePaused);
   const setActivePanel = useGameState(state => state.setActivePanel);
+  const activePanel = useGameState(state => state.activePanel);
+  const initializeGame = useGameState(state => state.initializeGame);
+  const [mapSettings, setMapSettings] = useState<MapSettings>(() => useGameState.getState().settings.mapSettings);
+  const user = useAuth(state => state.user);
   const { playSound, toggleMuteMusic, toggleMuteSfx, muteMusic, muteSfx } = useAudio();
+  const [hasQuickSave, setHasQuickSave] = useState(() => localStorage.getItem(QUICK_SAVE_KEY) !== null);
+  
+  // Store the save the game scene produces
+  useEffect(() => {
+    return listenForGameEvent<{json: string}>(COMMANDS.GAME_SAVED, ({ json }) => {
+      localStorage.setItem(QUICK_SAVE_KEY, json);
+      setHasQuickSave(true);
+    });
+  }, []);
+  
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  
+  // Download the replay the game scene exports
+  useEffect(() => {
+    return listenForGameEvent<{json: string}>(COMMANDS.REPLAY_EXPORTED, ({ json }) => {
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `replay-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  }, []);
+  
+  // Export the game so far as a replay file
+  const handleDownloadReplay = () => {
+    playSound('button_click');
+    dispatchDOMEvent(COMMANDS.EXPORT_REPLAY, undefined);
+  };
+  
+  // Watch a replay file chosen by the player
+  const handleWatchReplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    dispatchDOMEvent(COMMANDS.LOAD_REPLAY, { json: await file.text() });
+    setGamePaused(false);
+    setActivePanel(null);
+  };
+  
+  // Save the game in progress
+  const handleSaveGame = () => {
+    playSound('button_click');
+    dispatchDOMEvent(COMMANDS.SAVE_GAME, undefined);
+  };
+  
+  // Load the quick save, replacing the game in progress
+  const handleLoadGame = () => {
+    const json = localStorage.getItem(QUICK_SAVE_KEY);
+    if (!json) return;
+    
+    playSound('button_click');
+    dispatchDOMEvent(COMMANDS.LOAD_GAME, { json });
+    setGamePaused(false);
+    setActivePanel(null);
+  };
   
-  // Start new game
+  // Start a new game on the chosen map against a computer opponent
   const handleStartGame = () => {
     playSound('button_click');
     
-    // Initialize game with selected faction
+    // A blank seed means a new map every game
+    const seed = mapSettings.seed ?? Math.floor(Math.random() * 1000000000);
+    const opponentFaction = Object.values(FactionType).find(faction => faction !== selectedFaction)!;
+    
+    initializeGame([
+      { id: 'player_1', faction: selectedFaction, type: PlayerType.HUMAN },
+      { id: 'player_2', faction: opponentFaction, type: PlayerType.AI }
+    ], { mapSettings: { ...mapSettings, seed } });
+    
+    const config: GameConfig = {
+      mapWidth: mapSettings.width,
+      mapHeight: mapSettings.height,
+      mapType: mapSettings.terrainType,
+      mapShape: mapSettings.shape,
+      wrapX: mapSettings.wrapX,
+      seed,
+      players: [
+        { id: 'player_1', faction: selectedFaction, isHuman: true },
+        { id: 'player_2', faction: opponentFaction, isHuman: false }
+      ]
+    };
+    dispatchDOMEvent(COMMANDS.START_GAME, config);
+    
     setGameStarted(true);
     setActivePanel(null);
-    
-    // This would normally dispatch an event to initialize the game in Phaser
-    console.log(`Starting new game with faction: ${selectedFaction}`);
+  };
+  
+  // Design maps in the map editor
+  const handleOpenEditor = () => {
+    playSound('button_click');
+    dispatchDOMEvent(COMMANDS.OPEN_MAP_EDITOR, undefined);
+    setActivePanel(MAP_EDITOR_PANEL);
   };
   
   // Resume paused game
@@ -35,6 +135,19 @@ const GameMenu: React.FC = () => {
     setActivePanel(null);
   };
   
+  // Map editor (before game starts)
+  if (!gameStarted && activePanel === MAP_EDITOR_PANEL) {
+    return (
+      <MapEditorPanel
+        onPlay={() => {
+          setGameStarted(true);
+          setActivePanel(null);
+        }}
+        onClose={() => setActivePanel(null)}
+      />
+    );
+  }
+  
   // Main menu (before game starts)
   if (!gameStarted) {
     return (
@@ -48,6 +161,10 @@ const GameMenu: React.FC = () => {
           onSelectFaction={setSelectedFaction}
         />
         
+        <div className="mt-6">
+          <MapSetup settings={mapSettings} onChange={setMapSettings} />
+        </div>
+        
         <div className="mt-8 flex justify-center gap-4">
           <Button
             size="lg"
@@ -56,6 +173,14 @@ const GameMenu: React.FC = () => {
             Start Game
           </Button>
           
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={handleOpenEditor}
+          >
+            Map Editor
+          </Button>
+          
           <Button
             variant="outline"
             size="lg"
@@ -78,6 +203,21 @@ const GameMenu: React.FC = () => {
             {muteSfx ? 'Enable Sound' : 'Disable Sound'}
           </Button>
         </div>
+        
+        <div className="mt-8 border-t border-white/20 pt-6 flex flex-col gap-4">
+          <h2 className="text-xl font-bold text-white">Play Online</h2>
+          <AccountPanel />
+          {user && (
+            <OnlineLobby
+              user={user}
+              selectedFaction={selectedFaction}
+              onPlay={() => {
+                setGameStarted(true);
+                setActivePanel(null);
+              }}
+            />
+          )}
+        </div>
       </div>
     );
   }
@@ -98,6 +238,49 @@ const GameMenu: React.FC = () => {
             Resume Game
           </Button>
           
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={handleSaveGame}
+          >
+            Save Game
+          </Button>
+          
+          <Button
+            variant="outline"
+            size="lg"
+            disabled={!hasQuickSave}
+            onClick={handleLoadGame}
+          >
+            Load Game
+          </Button>
+          
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={handleDownloadReplay}
+          >
+            Download Replay
+          </Button>
+          
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={() => {
+              playSound('button_click');
+              replayInputRef.current?.click();
+            }}
+          >
+            Watch Replay
+          </Button>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleWatchReplay}
+          />
+          
           <Button
             variant="outline"
             size="lg"
@@ -151,6 +334,14 @@ const GameMenu: React.FC = () => {
         )}
         
         <div className="flex flex-col gap-4">
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={handleDownloadReplay}
+          >
+            Download Replay
+          </Button>
+          
           <Button
             size="lg"
             onClick={() => {
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { useGameState } from '../../lib/stores/useGameState';
+import { useAudio } from '../../lib/stores/useAudio';
+import { getFactionConfig, FactionType } from '../../game/config/factions';
+import { dispatchDOMEvent, listenForGameEvent, COMMANDS } from '../../game/utils/events';
+
+// Handoff details sent by the game scene
+interface HandoffInfo {
+  playerId: string;
+  faction?: FactionType;
+  turn: number;
+}
+
+/**
+ * Opaque "pass the device" screen shown between human turns in hot-seat games
+ */
+const HandoffScreen: React.FC = () => {
+  const [handoff, setHandoff] = useState<HandoffInfo | null>(null);
+  const players = useGameState(state => state.players);
+  const beginHandoff = useGameState(state => state.beginHandoff);
+  const completeHandoff = useGameState(state => state.completeHandoff);
+  const { playSound } = useAudio();
+
+  useEffect(() => {
+    return listenForGameEvent<HandoffInfo>(COMMANDS.HOTSEAT_HANDOFF, (info) => {
+      beginHandoff(info.playerId);
+      setHandoff(info);
+    });
+  }, [beginHandoff]);
+
+  if (!handoff) return null;
+
+  const playerName = players[handoff.playerId]?.name
+    ?? (handoff.faction ? getFactionConfig(handoff.faction).name : handoff.playerId);
+
+  const handleReady = () => {
+    playSound('button_click');
+    completeHandoff();
+    dispatchDOMEvent(COMMANDS.HOTSEAT_READY, { playerId: handoff.playerId });
+    setHandoff(null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-black flex items-center justify-center">
+      <div className="text-center text-white">
+        <div className="text-sm opacity-70 mb-2">Turn {handoff.turn}</div>
+        <h2 className="text-3xl font-bold mb-6">
+          Pass the device to <span className="text-yellow-400">{playerName}</span>
+        </h2>
+        <Button size="lg" onClick={handleReady}>
+          I'm {playerName}, start my turn
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default HandoffScreen;
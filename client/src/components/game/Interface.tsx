@@ -1,7 +1,10 @@
 import React from 'react';
 import { GameView } from './GameView';
 import GameHUD from './GameHUD';
-import GameMenu from './GameMenu';
+import GameMenu, { MAP_EDITOR_PANEL } from './GameMenu';
+import ReplayControls from './ReplayControls';
+import HandoffScreen from './HandoffScreen';
+import CityCapturedDialog from './CityCapturedDialog';
 import { useGameState } from '../../lib/stores/useGameState';
 
 interface InterfaceProps {
@@ -25,8 +28,24 @@ export function Interface({ className }: InterfaceProps) {
         <GameHUD />
       )}
       
+      {/* Replay Playback Controls */}
+      <ReplayControls />
+      
+      {/* Hot-seat Turn Handoff (covers the map between human turns) */}
+      <HandoffScreen />
+      
+      {/* Keep, Raze or Liberate a Captured City */}
+      <CityCapturedDialog />
+      
+      {/* Map Editor Tools (beside the map being edited) */}
+      {!gameStarted && activePanel === MAP_EDITOR_PANEL && (
+        <div className="absolute top-4 right-4 bottom-4 z-50 flex">
+          <GameMenu />
+        </div>
+      )}
+      
       {/* Menu Overlay */}
-      {(!gameStarted || gamePaused || gameOver || activePanel === 'menu') && (
+      {((!gameStarted && activePanel !== MAP_EDITOR_PANEL) || gamePaused || gameOver || activePanel === 'menu') && (
         <div className="absolute inset-0 z-50 bg-black/50 flex items-center justify-center">
           <GameMenu />
         </div>
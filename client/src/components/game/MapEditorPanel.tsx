@@ -0,0 +1,294 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useAudio } from '../../lib/stores/useAudio';
+import { FactionType, getFactionConfig } from '../../game/config/factions';
+import { TerrainType, getTerrainConfig } from '../../game/config/terrain';
+import { UNITS } from '../../game/config/units';
+import { MAP_IMPROVEMENTS, MAP_RESOURCES, MAX_ELEVATION, MIN_ELEVATION } from '../../game/utils/customMap';
+import { DEFAULT_MAP_SIZE, MAP_SIZES, MAP_TYPES, MapType } from '../../game/utils/mapGenerator';
+import { EditorBrush, EditorTool, MAX_BRUSH_SIZE } from '../../game/managers/MapEditorManager';
+import type { EditorStatus } from '../../game/scenes/MapEditorScene';
+import { COMMANDS, dispatchDOMEvent, listenForGameEvent } from '../../game/utils/events';
+
+// Select value meaning "remove" for resources and improvements
+const NONE = 'none';
+
+// Select value meaning "start from a blank map" when creating a new one
+const BLANK = 'blank';
+
+// Tools offered by the editor, in display order
+const TOOLS: { id: EditorTool; name: string }[] = [
+  { id: 'terrain', name: 'Terrain' },
+  { id: 'elevation', name: 'Elevation' },
+  { id: 'resource', name: 'Resource' },
+  { id: 'improvement', name: 'Improvement' },
+  { id: 'start', name: 'Start' },
+  { id: 'city', name: 'City' },
+  { id: 'unit', name: 'Unit' },
+  { id: 'erase', name: 'Erase' }
+];
+
+interface MapEditorPanelProps {
+  onPlay: () => void; // Called once the map has been handed to the game scene
+  onClose: () => void;
+}
+
+interface OptionSelectProps {
+  label: string;
+  value: string;
+  options: { value: string; name: string }[];
+  onChange: (value: string) => void;
+}
+
+/**
+ * A labelled select of one brush setting
+ */
+const OptionSelect: React.FC<OptionSelectProps> = ({ label, value, options, onChange }) => (
+  <div className="flex flex-col gap-1">
+    <Label>{label}</Label>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>{option.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+/**
+ * Capitalize an id for display
+ */
+function toName(id: string): string {
+  return id.charAt(0).toUpperCase() + id.slice(1);
+}
+
+/**
+ * Tools and brush settings of the map editor, plus creating, importing,
+ * exporting and playing maps
+ */
+const MapEditorPanel: React.FC<MapEditorPanelProps> = ({ onPlay, onClose }) => {
+  const [status, setStatus] = useState<EditorStatus | null>(null);
+  const [name, setName] = useState('');
+  const [newSize, setNewSize] = useState(DEFAULT_MAP_SIZE.id);
+  const [newType, setNewType] = useState<string>(BLANK);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { playSound } = useAudio();
+
+  // Follow the editor scene's map and brush
+  useEffect(() => {
+    return listenForGameEvent<EditorStatus>(COMMANDS.EDITOR_UPDATED, (updated) => {
+      setStatus(updated);
+      setName(current => current || updated.name);
+    });
+  }, []);
+
+  // Download the map the editor scene exports
+  useEffect(() => {
+    return listenForGameEvent<{json: string}>(COMMANDS.EDITOR_MAP_EXPORTED, ({ json }) => {
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${(name || 'map').replace(/[^\w-]+/g, '-').toLowerCase()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  }, [name]);
+
+  const setBrush = (changes: Partial<EditorBrush>) => {
+    dispatchDOMEvent(COMMANDS.EDITOR_SET_BRUSH, changes);
+  };
+
+  const handleNewMap = () => {
+    const size = MAP_SIZES.find(s => s.id === newSize) ?? DEFAULT_MAP_SIZE;
+    playSound('button_click');
+    dispatchDOMEvent(COMMANDS.EDITOR_NEW_MAP, {
+      width: size.width,
+      height: size.height,
+      mapType: newType === BLANK ? undefined : newType as MapType,
+      seed: Math.floor(Math.random() * 1000000000)
+    });
+  };
+
+  // Load a map file chosen by the player
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setName('');
+    dispatchDOMEvent(COMMANDS.EDITOR_IMPORT_MAP, { json: await file.text() });
+  };
+
+  const handlePlay = () => {
+    playSound('button_click');
+    dispatchDOMEvent(COMMANDS.EDITOR_PLAY_MAP, undefined);
+    onPlay();
+  };
+
+  if (!status) {
+    return <div className="bg-black/80 rounded-lg p-4 text-white">Opening map editor...</div>;
+  }
+
+  const { brush } = status;
+  const placesEntities = brush.tool === 'start' || brush.tool === 'city' || brush.tool === 'unit';
+
+  return (
+    <div className="bg-black/80 rounded-lg p-4 w-80 max-h-full overflow-y-auto text-white flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold">Map Editor</h2>
+        <span className="text-xs opacity-70">{status.width}×{status.height}</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {TOOLS.map(tool => (
+          <Button
+            key={tool.id}
+            size="sm"
+            variant={brush.tool === tool.id ? 'default' : 'outline'}
+            onClick={() => setBrush({ tool: tool.id })}
+          >
+            {tool.name}
+          </Button>
+        ))}
+      </div>
+
+      {brush.tool === 'terrain' && (
+        <OptionSelect
+          label="Terrain"
+          value={brush.terrainType}
+          options={(Object.values(TerrainType) as TerrainType[]).map(type => ({ value: type, name: getTerrainConfig(type).name }))}
+          onChange={(value) => setBrush({ terrainType: value as TerrainType })}
+        />
+      )}
+
+      {brush.tool === 'elevation' && (
+        <div className="flex flex-col gap-1">
+          <Label>Elevation ({MIN_ELEVATION}-{MAX_ELEVATION})</Label>
+          <Input
+            type="number"
+            min={MIN_ELEVATION}
+            max={MAX_ELEVATION}
+            value={brush.elevation}
+            onChange={(event) => setBrush({ elevation: Number(event.target.value) })}
+          />
+        </div>
+      )}
+
+      {brush.tool === 'resource' && (
+        <OptionSelect
+          label="Resource"
+          value={brush.resourceType ?? NONE}
+          options={[{ value: NONE, name: 'None (remove)' }, ...MAP_RESOURCES.map(id => ({ value: id, name: toName(id) }))]}
+          onChange={(value) => setBrush({ resourceType: value === NONE ? null : value })}
+        />
+      )}
+
+      {brush.tool === 'improvement' && (
+        <OptionSelect
+          label="Improvement"
+          value={brush.improvement ?? NONE}
+          options={[{ value: NONE, name: 'None (remove)' }, ...MAP_IMPROVEMENTS.map(id => ({ value: id, name: toName(id) }))]}
+          onChange={(value) => setBrush({ improvement: value === NONE ? null : value })}
+        />
+      )}
+
+      {placesEntities && (
+        <OptionSelect
+          label="Faction"
+          value={brush.faction}
+          options={(Object.values(FactionType) as FactionType[]).map(faction => ({ value: faction, name: getFactionConfig(faction).name }))}
+          onChange={(value) => setBrush({ faction: value as FactionType })}
+        />
+      )}
+
+      {brush.tool === 'unit' && (
+        <OptionSelect
+          label="Unit"
+          value={brush.unitType}
+          options={Object.values(UNITS).map(unit => ({ value: unit.id, name: unit.name }))}
+          onChange={(value) => setBrush({ unitType: value })}
+        />
+      )}
+
+      {!placesEntities && brush.tool !== 'erase' && (
+        <div className="grid grid-cols-2 gap-2">
+          <OptionSelect
+            label="Brush Size"
+            value={String(brush.size)}
+            options={Array.from({ length: MAX_BRUSH_SIZE }, (_, i) => ({ value: String(i + 1), name: `${i + 1}×${i + 1}` }))}
+            onChange={(value) => setBrush({ size: Number(value) })}
+          />
+          <div className="flex flex-col gap-1">
+            <Label>Mode</Label>
+            <Button
+              variant={status.fill ? 'default' : 'outline'}
+              onClick={() => dispatchDOMEvent(COMMANDS.EDITOR_SET_FILL, { fill: !status.fill })}
+            >
+              {status.fill ? 'Flood Fill' : 'Brush'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Button variant="outline" disabled={!status.canUndo} onClick={() => dispatchDOMEvent(COMMANDS.EDITOR_UNDO, undefined)}>
+        Undo
+      </Button>
+
+      <div className="border-t border-white/20 pt-4 flex flex-col gap-2">
+        <Label>New Map</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <OptionSelect
+            label="Size"
+            value={newSize}
+            options={MAP_SIZES.map(s => ({ value: s.id, name: `${s.name} (${s.width}×${s.height})` }))}
+            onChange={setNewSize}
+          />
+          <OptionSelect
+            label="Start From"
+            value={newType}
+            options={[
+              { value: BLANK, name: 'Blank' },
+              ...(Object.keys(MAP_TYPES) as MapType[]).map(type => ({ value: type, name: MAP_TYPES[type].name }))
+            ]}
+            onChange={setNewType}
+          />
+        </div>
+        <Button variant="outline" onClick={handleNewMap}>Create</Button>
+      </div>
+
+      <div className="border-t border-white/20 pt-4 flex flex-col gap-2">
+        <Label>Map Name</Label>
+        <Input value={name} onChange={(event) => setName(event.target.value)} />
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={() => dispatchDOMEvent(COMMANDS.EDITOR_EXPORT_MAP, { name })}>
+            Export
+          </Button>
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            Import
+          </Button>
+        </div>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button className="flex-1" onClick={handlePlay}>Play Map</Button>
+        <Button variant="destructive" onClick={onClose}>Exit</Button>
+      </div>
+    </div>
+  );
+};
+
+export default MapEditorPanel;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import type { MapSettings } from '../../lib/stores/useGameState';
+import { MAP_SHAPES, MAP_SIZES, MAP_TYPES, MapShape, MapType } from '../../game/utils/mapGenerator';
+
+interface MapSetupProps {
+  settings: MapSettings;
+  onChange: (settings: MapSettings) => void;
+}
+
+// Select values of the wrap setting
+const WRAP = 'wrap';
+const NO_WRAP = 'flat';
+
+/**
+ * Choose the map type, shape, size, wrapping and seed of a new game
+ */
+const MapSetup: React.FC<MapSetupProps> = ({ settings, onChange }) => {
+  const size = MAP_SIZES.find(s => s.width === settings.width && s.height === settings.height);
+  const shape = settings.shape ?? 'natural';
+
+  return (
+    <div className="grid grid-cols-1 gap-4 text-white md:grid-cols-3">
+      <div className="flex flex-col gap-2">
+        <Label>Map Type</Label>
+        <Select
+          value={settings.terrainType}
+          onValueChange={(value) => onChange({ ...settings, terrainType: value as MapType })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MAP_TYPES) as MapType[]).map(type => (
+              <SelectItem key={type} value={type}>{MAP_TYPES[type].name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs opacity-70">{MAP_TYPES[settings.terrainType].description}</span>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>Map Shape</Label>
+        <Select
+          value={shape}
+          onValueChange={(value) => onChange({ ...settings, shape: value as MapShape })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MAP_SHAPES) as MapShape[]).map(id => (
+              <SelectItem key={id} value={id}>{MAP_SHAPES[id].name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs opacity-70">{MAP_SHAPES[shape].description}</span>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>Map Size</Label>
+        <Select
+          value={size?.id}
+          onValueChange={(value) => {
+            const selected = MAP_SIZES.find(s => s.id === value);
+            if (selected) {
+              onChange({ ...settings, width: selected.width, height: selected.height });
+            }
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MAP_SIZES.map(s => (
+              <SelectItem key={s.id} value={s.id}>{`${s.name} (${s.width}×${s.height})`}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>Edges</Label>
+        <Select
+          value={settings.wrapX ? WRAP : NO_WRAP}
+          onValueChange={(value) => onChange({ ...settings, wrapX: value === WRAP })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_WRAP}>Flat</SelectItem>
+            <SelectItem value={WRAP}>Wrap east to west</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-xs opacity-70">Wrapping maps can be sailed and marched around</span>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>Seed</Label>
+        <Input
+          type="number"
+          placeholder="Random"
+          value={settings.seed ?? ''}
+          onChange={(event) => {
+            const seed = parseInt(event.target.value, 10);
+            onChange({ ...settings, seed: Number.isNaN(seed) ? undefined : seed });
+          }}
+        />
+        <span className="text-xs opacity-70">The same seed always makes the same map</span>
+      </div>
+    </div>
+  );
+};
+
+export default MapSetup;
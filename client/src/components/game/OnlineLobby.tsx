@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { OnlineGameSummary, PublicUser } from '@shared/schema';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { apiRequest, queryClient } from '../../lib/queryClient';
+import { useAudio } from '../../lib/stores/useAudio';
+import { FactionType, getFactionConfig } from '../../game/config/factions';
+import { COMMANDS, dispatchDOMEvent } from '../../game/utils/events';
+
+// How often open lobbies are refreshed while waiting for players (ms)
+const LOBBY_REFRESH_INTERVAL = 5000;
+
+interface OnlineLobbyProps {
+  user: PublicUser;
+  selectedFaction: FactionType;
+  onPlay: () => void; // Called once the game scene has been asked to join a game
+}
+
+/**
+ * Get the server's message out of a failed API request
+ */
+function getErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Create, join, start and resume online games of the signed-in user
+ */
+const OnlineLobby: React.FC<OnlineLobbyProps> = ({ user, selectedFaction, onPlay }) => {
+  const [code, setCode] = useState('');
+  const { playSound } = useAudio();
+
+  // Keyed by user so another account never sees a cached list
+  const queryKey = ['/api/online-games', user.id];
+  const { data: games = [] } = useQuery<OnlineGameSummary[]>({
+    queryKey,
+    refetchInterval: LOBBY_REFRESH_INTERVAL
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey });
+
+  const createGame = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/online-games', { settings: {}, faction: selectedFaction }),
+    onSuccess
+  });
+
+  const joinGame = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/online-games/join', { code, faction: selectedFaction }),
+    onSuccess: () => {
+      setCode('');
+      return onSuccess();
+    }
+  });
+
+  const startGame = useMutation({
+    mutationFn: (gameId: number) => apiRequest('POST', `/api/online-games/${gameId}/start`),
+    onSuccess
+  });
+
+  const error = createGame.error ?? joinGame.error ?? startGame.error;
+
+  const handlePlay = (game: OnlineGameSummary) => {
+    const seat = game.seats.find(s => s.userId === user.id);
+    if (!seat) return;
+
+    playSound('button_click');
+    dispatchDOMEvent(COMMANDS.PLAY_ONLINE_GAME, { gameId: game.id, playerId: seat.playerId });
+    onPlay();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-white">
+      <div className="flex gap-2">
+        <Button size="sm" disabled={createGame.isPending} onClick={() => createGame.mutate()}>
+          Host Online Game
+        </Button>
+        <Input
+          placeholder="Lobby code"
+          maxLength={6}
+          value={code}
+          onChange={(event) => setCode(event.target.value.toUpperCase())}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={code.length !== 6 || joinGame.isPending}
+          onClick={() => joinGame.mutate()}
+        >
+          Join
+        </Button>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{getErrorMessage(error)}</div>}
+
+      {games.map(game => (
+        <div key={game.id} className="bg-white/10 rounded p-3 flex items-center justify-between gap-4">
+          <div>
+            <div className="font-bold">
+              {game.code} <span className="text-xs font-normal opacity-70">{game.status}</span>
+            </div>
+            <div className="text-xs opacity-80">
+              {game.seats.map(seat => (
+                `${seat.username} (${getFactionConfig(seat.faction as FactionType).name})`
+              )).join(', ')}
+            </div>
+          </div>
+
+          {game.status === 'lobby' && game.hostUserId === user.id && (
+            <Button
+              size="sm"
+              disabled={game.seats.length < 2 || startGame.isPending}
+              onClick={() => startGame.mutate(game.id)}
+            >
+              Start
+            </Button>
+          )}
+          {game.status === 'lobby' && game.hostUserId !== user.id && (
+            <span className="text-xs opacity-70">Waiting for host</span>
+          )}
+          {game.status === 'active' && (
+            <Button size="sm" onClick={() => handlePlay(game)}>
+              Play
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OnlineLobby;
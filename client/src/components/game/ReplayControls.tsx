@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { dispatchDOMEvent, listenForGameEvent, COMMANDS } from '../../game/utils/events';
+
+// Playback state reported by the game scene
+interface ReplayStatus {
+  position: number;
+  length: number;
+  turn: number;
+  currentPlayerId: string;
+  playing: boolean;
+  speed: number;
+}
+
+// Speeds offered by the speed button, cycled in order
+const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+const ReplayControls: React.FC = () => {
+  const [status, setStatus] = useState<ReplayStatus | null>(null);
+
+  // Only shown while the scene is playing a replay (null when it stops)
+  useEffect(() => {
+    return listenForGameEvent<ReplayStatus | null>(COMMANDS.REPLAY_UPDATED, setStatus);
+  }, []);
+
+  if (!status) return null;
+
+  const step = (direction: 'forward' | 'back', by: 'action' | 'turn') => {
+    dispatchDOMEvent(COMMANDS.REPLAY_STEP, { direction, by });
+  };
+
+  const handleTogglePlay = () => {
+    dispatchDOMEvent(status.playing ? COMMANDS.REPLAY_PAUSE : COMMANDS.REPLAY_PLAY, undefined);
+  };
+
+  const handleCycleSpeed = () => {
+    const index = REPLAY_SPEEDS.indexOf(status.speed);
+    const speed = REPLAY_SPEEDS[(index + 1) % REPLAY_SPEEDS.length];
+    dispatchDOMEvent(COMMANDS.REPLAY_SET_SPEED, { speed });
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black/70 rounded-lg p-3 text-white z-40 flex items-center gap-2">
+      <div className="px-2 text-sm">
+        <div className="font-bold">Turn {status.turn}</div>
+        <div className="text-xs opacity-80">
+          Action {status.position} / {status.length} · {status.currentPlayerId}
+        </div>
+      </div>
+
+      <Button variant="outline" size="sm" onClick={() => step('back', 'turn')} title="Previous turn">
+        ⏮
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => step('back', 'action')} title="Previous action">
+        ◀
+      </Button>
+      <Button size="sm" onClick={handleTogglePlay}>
+        {status.playing ? 'Pause' : 'Play'}
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => step('forward', 'action')} title="Next action">
+        ▶
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => step('forward', 'turn')} title="Next turn">
+        ⏭
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleCycleSpeed} title="Playback speed">
+        {status.speed}x
+      </Button>
+    </div>
+  );
+};
+
+export default ReplayControls;
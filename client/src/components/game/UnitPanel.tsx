@@ -1,7 +1,21 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { phaserEvents, COMMANDS } from '@/game/utils/events';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { phaserEvents, COMMANDS, dispatchDOMEvent } from '@/game/utils/events';
+import type { CombatPrediction, DamageRange } from '@/game/engine/rules/combat';
+import type { CombatModifier } from '@/game/engine/types';
+import { LEVEL_EXPERIENCE, PromotionDefinition, getPromotionDefinition } from '@/game/config/promotions';
+import { FORTIFY_BONUS } from '@/game/engine/rules/units';
+
+/**
+ * An enemy unit the selected unit can attack, with the predicted outcome
+ */
+export interface AttackTarget {
+  unitId: string;
+  name: string;
+  prediction: CombatPrediction;
+}
 
 interface UnitPanelProps {
   unitData: {
@@ -13,10 +27,65 @@ interface UnitPanelProps {
     hasActed: boolean;
     health: number;
     maxHealth: number;
+    experience: number;
+    level: number;
+    promotions: string[];
+    fortification: number; // Turns spent fortified
   };
+  targets?: AttackTarget[]; // Enemies in range of the unit
+  availablePromotions?: PromotionDefinition[]; // Promotions the unit could choose next
+  tradeRouteCities?: { cityId: string; name: string }[]; // Cities a merchant could trade with
+}
+
+/**
+ * Format a chance as a whole percentage
+ */
+function formatChance(chance: number): string {
+  return `${Math.round(chance * 100)}%`;
 }
 
-const UnitPanel: React.FC<UnitPanelProps> = ({ unitData }) => {
+/**
+ * Format a damage range as "expected (min-max)"
+ */
+function formatDamage(range: DamageRange): string {
+  return `${range.expected.toFixed(1)} (${range.min}-${range.max})`;
+}
+
+/**
+ * List strength modifiers, one per line
+ */
+const ModifierList: React.FC<{ title: string; strength: number; modifiers: CombatModifier[] }> = ({ title, strength, modifiers }) => (
+  <div>
+    <p className="font-semibold">{title}: {strength.toFixed(1)}</p>
+    {modifiers.length === 0 && <p className="opacity-70">No modifiers</p>}
+    {modifiers.map(modifier => (
+      <p key={modifier.name}>
+        {modifier.value > 0 ? '+' : ''}{modifier.value}% {modifier.name}
+      </p>
+    ))}
+  </div>
+);
+
+/**
+ * Predicted outcome of an attack, shown before committing to it
+ */
+const CombatPreview: React.FC<{ prediction: CombatPrediction }> = ({ prediction }) => (
+  <div className="flex flex-col gap-2 text-xs">
+    <div>
+      <p>Damage dealt: {formatDamage(prediction.damage)}</p>
+      <p>Damage taken: {formatDamage(prediction.counterDamage)}</p>
+      <p>Chance to kill: {formatChance(prediction.defenderKillChance)}</p>
+      <p>Chance to die: {formatChance(prediction.attackerKillChance)}</p>
+    </div>
+    <ModifierList title="Attack" strength={prediction.attackStrength} modifiers={prediction.attackModifiers} />
+    <ModifierList title="Defense" strength={prediction.defenseStrength} modifiers={prediction.defenseModifiers} />
+  </div>
+);
+
+const UnitPanel: React.FC<UnitPanelProps> = ({ unitData, targets = [], availablePromotions = [], tradeRouteCities = [] }) => {
+  const nextLevelExperience = LEVEL_EXPERIENCE[unitData.level];
+  const canPromote = unitData.level > unitData.promotions.length;
+  
   // Handle unit actions
   const handleMoveUnit = () => {
     // Enter move mode for this unit
@@ -26,12 +95,20 @@ const UnitPanel: React.FC<UnitPanelProps> = ({ unitData }) => {
     window.dispatchEvent(event);
   };
   
-  const handleAttackWithUnit = () => {
-    // Enter attack mode for this unit
-    const event = new CustomEvent(COMMANDS.ATTACK_UNIT, {
-      detail: { unitId: unitData.unitId }
-    });
-    window.dispatchEvent(event);
+  const handlePromote = (promotionId: string) => {
+    dispatchDOMEvent(COMMANDS.PROMOTE_UNIT, { unitId: unitData.unitId, promotionId });
+  };
+  
+  const handleFortify = () => {
+    dispatchDOMEvent(COMMANDS.FORTIFY_UNIT, { unitId: unitData.unitId });
+  };
+  
+  const handleTradeRoute = (cityId: string) => {
+    dispatchDOMEvent(COMMANDS.ESTABLISH_TRADE_ROUTE, { unitId: unitData.unitId, cityId });
+  };
+  
+  const handleAttackTarget = (target: AttackTarget) => {
+    dispatchDOMEvent(COMMANDS.ATTACK_WITH_UNIT, { unitId: unitData.unitId, targetId: target.unitId, targetKind: 'unit' });
   };
   
   // Get unit name in a more readable format
@@ -61,9 +138,57 @@ const UnitPanel: React.FC<UnitPanelProps> = ({ unitData }) => {
         <div>
           <p className="text-sm text-muted-foreground">Movement</p>
           <span className="text-sm">{unitData.movementLeft} tiles left</span>
+          {unitData.fortification > 0 && (
+            <p className="text-xs">Fortified +{unitData.fortification * FORTIFY_BONUS}% defense</p>
+          )}
+        </div>
+        
+        <div className="col-span-2">
+          <p className="text-sm text-muted-foreground">Level {unitData.level}</p>
+          {nextLevelExperience !== undefined ? (
+            <div className="flex items-center gap-2">
+              <Progress className="h-2" value={(unitData.experience / nextLevelExperience) * 100} />
+              <span className="text-xs">{unitData.experience}/{nextLevelExperience} XP</span>
+            </div>
+          ) : (
+            <span className="text-xs">{unitData.experience} XP (highest level)</span>
+          )}
         </div>
       </div>
       
+      {unitData.promotions.length > 0 && (
+        <div className="mb-2">
+          <p className="text-sm text-muted-foreground">Promotions</p>
+          <ul className="text-xs">
+            {unitData.promotions.map(id => {
+              const promotion = getPromotionDefinition(id);
+              return promotion && (
+                <li key={id}><span className="font-semibold">{promotion.name}</span>: {promotion.description}</li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+      
+      {canPromote && availablePromotions.length > 0 && (
+        <div className="mb-2">
+          <p className="text-sm text-muted-foreground">Choose a promotion</p>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {availablePromotions.map(promotion => (
+              <Button
+                key={promotion.id}
+                size="sm"
+                variant="secondary"
+                title={promotion.description}
+                onClick={() => handlePromote(promotion.id)}
+              >
+                {promotion.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+      
       <div className="flex space-x-2 mt-3">
         <Button 
           size="sm" 
@@ -76,11 +201,11 @@ const UnitPanel: React.FC<UnitPanelProps> = ({ unitData }) => {
         
         <Button 
           size="sm" 
-          variant="destructive"
-          disabled={unitData.hasActed}
-          onClick={handleAttackWithUnit}
+          variant="secondary"
+          disabled={unitData.hasActed || unitData.fortification > 0}
+          onClick={handleFortify}
         >
-          Attack
+          Fortify
         </Button>
         
         <Button 
@@ -100,6 +225,52 @@ const UnitPanel: React.FC<UnitPanelProps> = ({ unitData }) => {
           Focus
         </Button>
       </div>
+      
+      {tradeRouteCities.length > 0 && (
+        <div className="mt-3">
+          <p className="text-sm text-muted-foreground">Trade route</p>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {tradeRouteCities.map(city => (
+              <Button
+                key={city.cityId}
+                size="sm"
+                variant="secondary"
+                disabled={unitData.hasActed}
+                onClick={() => handleTradeRoute(city.cityId)}
+              >
+                {city.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      {targets.length > 0 && (
+        <div className="mt-3">
+          <p className="text-sm text-muted-foreground">Attack</p>
+          <TooltipProvider>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {targets.map(target => (
+                <Tooltip key={target.unitId}>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={unitData.hasActed}
+                      onClick={() => handleAttackTarget(target)}
+                    >
+                      {target.name} ({formatChance(target.prediction.defenderKillChance)})
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <CombatPreview prediction={target.prediction} />
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+          </TooltipProvider>
+        </div>
+      )}
     </div>
   );
 };
@@ -15,6 +15,7 @@ export enum BuildingType {
   LIBRARY = 'library',
   GRANARY = 'granary',
   MONUMENT = 'monument',
+  WALLS = 'walls',
   
   // Nephite Buildings
   TEMPLE_COMPLEX = 'temple_complex',
@@ -41,8 +42,17 @@ export enum BuildingCategory {
   WONDER = 'wonder'
 }
 
+// What an effect without a resource speeds up
+export enum BuildingBonus {
+  UNIT_TRAINING = 'unit_training',
+  RESEARCH = 'research',
+  GROWTH = 'growth',
+  CITY_DEFENSE = 'city_defense'
+}
+
 export interface BuildingEffect {
   resource?: ResourceType;
+  bonus?: BuildingBonus;
   type: 'flat' | 'percentage';
   amount: number;
 }
@@ -61,7 +71,7 @@ export interface BuildingDefinition {
   effects: BuildingEffect[];
   requiredTech?: string;
   faction?: FactionType;
-  maintenance?: number;
+  maintenance?: number; // Production paid from the owner's stockpile every turn
   description: string;
   spriteIndex: number;
   footprint: { width: number, height: number }; // Size on the grid
@@ -118,6 +128,7 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
       { resource: ResourceType.FAITH, amount: 3, type: 'flat' }
     ],
     requiredTech: 'priesthood',
+    maintenance: 1,
     description: 'A place of worship that generates faith and enables religious ceremonies.',
     spriteIndex: 3,
     footprint: { width: 1, height: 1 },
@@ -129,12 +140,27 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
     category: BuildingCategory.MILITARY,
     cost: { [ResourceType.PRODUCTION]: 30 },
     effects: [
-      { amount: 25, type: 'percentage' } // 25% faster unit training
+      { bonus: BuildingBonus.UNIT_TRAINING, amount: 25, type: 'percentage' }
     ],
+    maintenance: 1,
     description: 'Military training facility that allows production of advanced units and speeds training.',
     spriteIndex: 4,
     footprint: { width: 1, height: 1 }
   },
+  [BuildingType.WALLS]: {
+    id: BuildingType.WALLS,
+    name: 'Walls',
+    category: BuildingCategory.MILITARY,
+    cost: { [ResourceType.PRODUCTION]: 35 },
+    effects: [
+      { bonus: BuildingBonus.CITY_DEFENSE, amount: 50, type: 'percentage' }
+    ],
+    requiredTech: 'masonry',
+    maintenance: 1,
+    description: 'Stone walls that make the city harder to damage and strengthen its ranged strike.',
+    spriteIndex: 16,
+    footprint: { width: 1, height: 1 }
+  },
   [BuildingType.MARKETPLACE]: {
     id: BuildingType.MARKETPLACE,
     name: 'Marketplace',
@@ -145,6 +171,7 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
       { resource: ResourceType.FOOD, amount: 1, type: 'flat' }
     ],
     requiredTech: 'currency',
+    maintenance: 1,
     description: 'Commercial center that increases production and enables trade.',
     spriteIndex: 5,
     footprint: { width: 1, height: 1 }
@@ -155,9 +182,10 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
     category: BuildingCategory.CULTURAL,
     cost: { [ResourceType.PRODUCTION]: 25 },
     effects: [
-      { amount: 25, type: 'percentage' } // 25% faster research
+      { bonus: BuildingBonus.RESEARCH, amount: 25, type: 'percentage' }
     ],
     requiredTech: 'writing',
+    maintenance: 1,
     description: 'Repository of knowledge that accelerates technology research.',
     spriteIndex: 6,
     footprint: { width: 1, height: 1 },
@@ -171,6 +199,7 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
     effects: [
       { resource: ResourceType.FOOD, amount: 2, type: 'flat' }
     ],
+    maintenance: 1,
     description: 'Food storage facility that increases the city\'s food production and enables growth.',
     spriteIndex: 7,
     footprint: { width: 1, height: 1 }
@@ -196,10 +225,11 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
     cost: { [ResourceType.PRODUCTION]: 35, [ResourceType.FAITH]: 15 },
     effects: [
       { resource: ResourceType.FAITH, amount: 5, type: 'flat' },
-      { amount: 15, type: 'percentage' } // 15% faster research
+      { bonus: BuildingBonus.RESEARCH, amount: 15, type: 'percentage' }
     ],
     requiredTech: 'priesthood',
-    faction: FactionType.NEPHITE,
+    faction: FactionType.NEPHITES,
+    maintenance: 2,
     description: 'Advanced Nephite temple that provides significant faith and knowledge benefits.',
     spriteIndex: 9,
     footprint: { width: 2, height: 2 },
@@ -214,8 +244,9 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
       { resource: ResourceType.PRODUCTION, amount: 10, type: 'percentage' },
       { resource: ResourceType.FAITH, amount: 2, type: 'flat' }
     ],
-    requiredTech: 'governance',
-    faction: FactionType.NEPHITE,
+    requiredTech: 'law_of_moses',
+    faction: FactionType.NEPHITES,
+    maintenance: 1,
     description: 'Nephite center of governance that improves city efficiency and faith.',
     spriteIndex: 10,
     footprint: { width: 1, height: 1 },
@@ -229,9 +260,10 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
     category: BuildingCategory.MILITARY,
     cost: { [ResourceType.PRODUCTION]: 25 },
     effects: [
-      { amount: 35, type: 'percentage' } // 35% faster unit training
+      { bonus: BuildingBonus.UNIT_TRAINING, amount: 35, type: 'percentage' }
     ],
-    faction: FactionType.LAMANITE,
+    faction: FactionType.LAMANITES,
+    maintenance: 1,
     description: 'Lamanite military facility that greatly accelerates unit training.',
     spriteIndex: 10,
     footprint: { width: 1, height: 1 },
@@ -245,7 +277,7 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
     effects: [
       { resource: ResourceType.FOOD, amount: 4, type: 'flat' }
     ],
-    faction: FactionType.LAMANITE,
+    faction: FactionType.LAMANITES,
     description: 'Lamanite hunting area that produces abundant food resources.',
     spriteIndex: 11,
     footprint: { width: 1, height: 1 },
@@ -263,7 +295,8 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
       { resource: ResourceType.FAITH, amount: 3, type: 'flat' }
     ],
     requiredTech: 'masonry',
-    faction: FactionType.JAREDITE,
+    faction: FactionType.JAREDITES,
+    maintenance: 2,
     description: 'Massive Jaredite structure that demonstrates engineering prowess and generates significant resources.',
     spriteIndex: 12,
     footprint: { width: 2, height: 2 },
@@ -276,9 +309,10 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
     cost: { [ResourceType.PRODUCTION]: 30 },
     effects: [
       { resource: ResourceType.PRODUCTION, amount: 3, type: 'flat' },
-      { amount: 15, type: 'percentage' } // 15% faster growth
+      { bonus: BuildingBonus.GROWTH, amount: 15, type: 'percentage' }
     ],
-    faction: FactionType.JAREDITE,
+    faction: FactionType.JAREDITES,
+    maintenance: 1,
     description: 'Jaredite communal structure that enhances city productivity and growth.',
     spriteIndex: 13,
     footprint: { width: 1, height: 1 }
@@ -294,7 +328,7 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
       { resource: ResourceType.PRODUCTION, amount: 2, type: 'flat' },
       { resource: ResourceType.FOOD, amount: 2, type: 'flat' }
     ],
-    faction: FactionType.MULEKITE,
+    faction: FactionType.MULEKITES,
     description: 'Mulekite trading hub that generates diverse resources from commercial activity.',
     spriteIndex: 14,
     footprint: { width: 1, height: 1 },
@@ -306,14 +340,21 @@ export const BUILDINGS: Record<BuildingType, BuildingDefinition> = {
     category: BuildingCategory.CULTURAL,
     cost: { [ResourceType.PRODUCTION]: 25, [ResourceType.FAITH]: 10 },
     effects: [
-      { amount: 20, type: 'percentage' }, // 20% faster research
+      { bonus: BuildingBonus.RESEARCH, amount: 20, type: 'percentage' },
       { resource: ResourceType.FAITH, amount: 2, type: 'flat' }
     ],
     requiredTech: 'writing',
-    faction: FactionType.MULEKITE,
+    faction: FactionType.MULEKITES,
+    maintenance: 1,
     description: 'Mulekite knowledge repository that preserves diverse cultural traditions and accelerates technological advances.',
     spriteIndex: 15,
     footprint: { width: 1, height: 1 },
     flavorText: 'And it came to pass that the people of Zarahemla, and of Mosiah, did unite together; and Mosiah was appointed to be their king.'
   }
-};
\ No newline at end of file
+};
+/**
+ * Get the definition of a building type, or undefined if the type is unknown
+ */
+export function getBuildingDefinition(type: string): BuildingDefinition | undefined {
+  return BUILDINGS[type as BuildingType];
+}
@@ -1,3 +1,5 @@
+import { TerrainType } from './terrain';
+
 /**
  * Faction types available in the game
  */
@@ -8,12 +10,63 @@ export enum FactionType {
   MULEKITES = 'mulekites'
 }
 
+/**
+ * What a faction modifier is checked against
+ */
+export enum ModifierScope {
+  PLAYER = 'player',
+  CITY = 'city',
+  TILE = 'tile',
+  UNIT = 'unit'
+}
+
+/**
+ * Game value changed by a faction modifier
+ */
+export enum ModifierStat {
+  TECH_FAITH_COST = 'tech_faith_cost', // Percent change to the faith cost of technologies
+  STARTING_TECH = 'starting_tech', // Technology known from the start (condition.techId)
+  FAITH_YIELD = 'faith_yield', // Flat faith per turn
+  PRODUCTION_YIELD = 'production_yield', // Flat production per turn
+  BUILDING_PRODUCTION = 'building_production', // Percent added to production from buildings
+  CITY_DEFENSE = 'city_defense', // Percent change to city defensive strength
+  ATTACK_STRENGTH = 'attack_strength', // Percent change to strength when attacking
+  MOVEMENT_COST = 'movement_cost', // Flat change to the cost of entering a tile (minimum 1)
+  STARTING_POPULATION = 'starting_population', // Extra population of newly founded cities
+  PRODUCTION_COST = 'production_cost', // Percent change to the production cost of units
+  FOREIGN_TRADE_ROUTE_FAITH = 'foreign_trade_route_faith', // Flat faith per trade route to another player's city
+  FOUND_CITY = 'found_city' // Cities may be founded on the condition's terrain
+}
+
+/**
+ * When a faction modifier applies; every listed condition must hold
+ */
+export interface ModifierCondition {
+  terrain?: TerrainType[]; // Tile is one of these terrains
+  capital?: boolean; // City is the player's capital
+  improvedResource?: boolean; // Tile has both a resource and an improvement
+  combatUnits?: boolean; // Unit is able to attack
+  navalUnits?: boolean; // Unit sails on water
+  techId?: string; // Technology granted by STARTING_TECH
+}
+
+/**
+ * A typed change to one game value for a faction
+ */
+export interface FactionModifier {
+  scope: ModifierScope;
+  stat: ModifierStat;
+  value: number;
+  condition?: ModifierCondition;
+}
+
 /**
  * Configuration for each faction's bonuses
  */
 export interface FactionBonus {
   description: string;
   effect: string;
+  modifiers: FactionModifier[]; // What the bonus does in the rules
 }
 
 /**
@@ -64,15 +117,24 @@ export const factionConfigs: Record<FactionType, FactionConfig> = {
     bonuses: [
       {
         description: 'Righteous Learning',
-        effect: 'Technologies cost 15% less faith to research'
+        effect: 'Technologies cost 15% less faith to research',
+        modifiers: [
+          { scope: ModifierScope.PLAYER, stat: ModifierStat.TECH_FAITH_COST, value: -15 }
+        ]
       },
       {
         description: 'City of Zarahemla',
-        effect: 'Capital city produces +2 faith per turn'
+        effect: 'Capital city produces +2 faith per turn',
+        modifiers: [
+          { scope: ModifierScope.CITY, stat: ModifierStat.FAITH_YIELD, value: 2, condition: { capital: true } }
+        ]
       },
       {
         description: 'Fortifications',
-        effect: 'Cities have +25% defensive strength'
+        effect: 'Cities have +25% defensive strength',
+        modifiers: [
+          { scope: ModifierScope.CITY, stat: ModifierStat.CITY_DEFENSE, value: 25 }
+        ]
       }
     ],
     preferredTerrain: ['plains', 'hills', 'forest'],
@@ -100,15 +162,29 @@ export const factionConfigs: Record<FactionType, FactionConfig> = {
     bonuses: [
       {
         description: 'Wilderness Survival',
-        effect: 'Units gain +1 movement in forest and jungle terrain'
+        effect: 'Units gain +1 movement in forest and jungle terrain',
+        modifiers: [
+          {
+            scope: ModifierScope.UNIT,
+            stat: ModifierStat.MOVEMENT_COST,
+            value: -1,
+            condition: { terrain: [TerrainType.FOREST, TerrainType.JUNGLE] }
+          }
+        ]
       },
       {
         description: 'Tribal Unity',
-        effect: 'New cities start with +3 population'
+        effect: 'New cities start with +3 population',
+        modifiers: [
+          { scope: ModifierScope.CITY, stat: ModifierStat.STARTING_POPULATION, value: 3 }
+        ]
       },
       {
         description: 'Fierce Warriors',
-        effect: 'Combat units have +15% strength when attacking'
+        effect: 'Combat units have +15% strength when attacking',
+        modifiers: [
+          { scope: ModifierScope.UNIT, stat: ModifierStat.ATTACK_STRENGTH, value: 15, condition: { combatUnits: true } }
+        ]
       }
     ],
     preferredTerrain: ['jungle', 'forest', 'swamp'],
@@ -136,15 +212,25 @@ export const factionConfigs: Record<FactionType, FactionConfig> = {
     bonuses: [
       {
         description: 'Master Craftsmen',
-        effect: 'Buildings provide +20% production output'
+        effect: 'Buildings provide +20% production output',
+        modifiers: [
+          { scope: ModifierScope.CITY, stat: ModifierStat.BUILDING_PRODUCTION, value: 20 }
+        ]
       },
       {
         description: 'Ancient Knowledge',
-        effect: 'Start with Mining and Metallurgy technologies'
+        effect: 'Start with Mining and Metallurgy technologies',
+        modifiers: [
+          { scope: ModifierScope.PLAYER, stat: ModifierStat.STARTING_TECH, value: 1, condition: { techId: 'mining' } },
+          { scope: ModifierScope.PLAYER, stat: ModifierStat.STARTING_TECH, value: 1, condition: { techId: 'metallurgy' } }
+        ]
       },
       {
         description: 'Resource Extraction',
-        effect: 'Improved resource tiles yield +1 production'
+        effect: 'Improved resource tiles yield +1 production',
+        modifiers: [
+          { scope: ModifierScope.TILE, stat: ModifierStat.PRODUCTION_YIELD, value: 1, condition: { improvedResource: true } }
+        ]
       }
     ],
     preferredTerrain: ['mountains', 'hills', 'plains'],
@@ -172,15 +258,29 @@ export const factionConfigs: Record<FactionType, FactionConfig> = {
     bonuses: [
       {
         description: 'Maritime Heritage',
-        effect: 'Naval units cost 25% less to produce'
+        effect: 'Naval units cost 25% less to produce',
+        modifiers: [
+          { scope: ModifierScope.UNIT, stat: ModifierStat.PRODUCTION_COST, value: -25, condition: { navalUnits: true } }
+        ]
       },
       {
         description: 'Cultural Exchange',
-        effect: 'Cities generate +2 faith from foreign trade routes'
+        effect: 'Cities generate +2 faith from foreign trade routes',
+        modifiers: [
+          { scope: ModifierScope.CITY, stat: ModifierStat.FOREIGN_TRADE_ROUTE_FAITH, value: 2 }
+        ]
       },
       {
         description: 'Adaptable People',
-        effect: 'Cities can be built on coast tiles'
+        effect: 'Cities can be built on coast tiles',
+        modifiers: [
+          {
+            scope: ModifierScope.TILE,
+            stat: ModifierStat.FOUND_CITY,
+            value: 1,
+            condition: { terrain: [TerrainType.COAST] }
+          }
+        ]
       }
     ],
     preferredTerrain: ['coast', 'plains', 'hills'],
@@ -199,6 +299,41 @@ export function getFactionConfig(type: FactionType): FactionConfig {
   return factionConfigs[type];
 }
 
+// Modifiers of each bonus list by stat, gathered on first use since rules such as
+// movement costs ask for them for every tile a search visits. Keyed by the list
+// itself, so a faction given new bonuses is gathered again.
+const modifiersByStat = new WeakMap<FactionBonus[], Map<ModifierStat, FactionModifier[]>>();
+
+/**
+ * Get a faction's modifiers that change a stat (treat as read-only, the list is shared)
+ */
+export function getFactionModifiers(type: FactionType, stat: ModifierStat): FactionModifier[] {
+  const faction = factionConfigs[type];
+  if (!faction) return [];
+
+  let byStat = modifiersByStat.get(faction.bonuses);
+  if (!byStat) {
+    byStat = new Map();
+    modifiersByStat.set(faction.bonuses, byStat);
+  }
+
+  let modifiers = byStat.get(stat);
+  if (!modifiers) {
+    modifiers = faction.bonuses.flatMap(bonus => bonus.modifiers.filter(modifier => modifier.stat === stat));
+    byStat.set(stat, modifiers);
+  }
+  return modifiers;
+}
+
+/**
+ * Get the technologies a faction knows from the start
+ */
+export function getStartingTechs(type: FactionType): string[] {
+  return getFactionModifiers(type, ModifierStat.STARTING_TECH)
+    .map(modifier => modifier.condition?.techId)
+    .filter((techId): techId is string => techId !== undefined);
+}
+
 /**
  * Get all available factions
  */
@@ -0,0 +1,110 @@
+/**
+ * Tile improvement definitions for the game
+ *
+ * Each improvement can be built by units with one of its abilities, on one of
+ * its terrains or on a tile holding one of its resources.
+ */
+import { TerrainType } from './terrain';
+
+export interface ImprovementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  abilities: string[]; // Units with any of these abilities can build it
+  terrain: TerrainType[]; // Terrains it can be built on
+  resources?: string[]; // Map resources it can also be built on, whatever the terrain
+}
+
+// Abilities of units that build ordinary improvements
+const BUILDERS = ['build_improvement', 'rapid_construction'];
+
+// Abilities of units that build fortifications and crossings
+const ENGINEERS = ['rapid_construction'];
+
+// Land that can be built on
+const LAND_TERRAIN = [
+  TerrainType.PLAINS,
+  TerrainType.HILLS,
+  TerrainType.FOREST,
+  TerrainType.JUNGLE,
+  TerrainType.DESERT,
+  TerrainType.SWAMP
+];
+
+export const IMPROVEMENTS: Record<string, ImprovementDefinition> = {
+  farm: {
+    id: 'farm',
+    name: 'Farm',
+    description: '+2 food',
+    abilities: BUILDERS,
+    terrain: [TerrainType.PLAINS, TerrainType.DESERT, TerrainType.HILLS],
+    resources: ['grain']
+  },
+  mine: {
+    id: 'mine',
+    name: 'Mine',
+    description: '+2 production',
+    abilities: BUILDERS,
+    terrain: [TerrainType.HILLS, TerrainType.MOUNTAINS],
+    resources: ['ore', 'stone']
+  },
+  lumbermill: {
+    id: 'lumbermill',
+    name: 'Lumber Mill',
+    description: '+1 production in forest',
+    abilities: BUILDERS,
+    terrain: [TerrainType.FOREST],
+    resources: ['wood']
+  },
+  pasture: {
+    id: 'pasture',
+    name: 'Pasture',
+    description: '+1 food',
+    abilities: BUILDERS,
+    terrain: [],
+    resources: ['animals']
+  },
+  plantation: {
+    id: 'plantation',
+    name: 'Plantation',
+    description: '+1 food and +1 production',
+    abilities: BUILDERS,
+    terrain: [TerrainType.JUNGLE],
+    resources: ['fruit', 'herbs']
+  },
+  temple: {
+    id: 'temple',
+    name: 'Temple',
+    description: '+2 faith',
+    abilities: BUILDERS,
+    terrain: [...LAND_TERRAIN, TerrainType.MOUNTAINS]
+  },
+  road: {
+    id: 'road',
+    name: 'Road',
+    description: 'Entering the tile costs 1 less movement',
+    abilities: BUILDERS,
+    terrain: LAND_TERRAIN
+  },
+  fort: {
+    id: 'fort',
+    name: 'Fort',
+    description: '+50% defensive strength for units on the tile',
+    abilities: ENGINEERS,
+    terrain: LAND_TERRAIN
+  },
+  bridge: {
+    id: 'bridge',
+    name: 'Bridge',
+    description: 'Lets land units cross the river',
+    abilities: ENGINEERS,
+    terrain: [TerrainType.RIVER]
+  }
+};
+
+/**
+ * Get an improvement definition by id
+ */
+export function getImprovementDefinition(id: string): ImprovementDefinition | undefined {
+  return IMPROVEMENTS[id];
+}
@@ -0,0 +1,159 @@
+/**
+ * Unit experience and promotion definitions for the game
+ *
+ * Units earn experience from combat and some actions. Each level reached lets
+ * the unit pick one promotion from the tree of its unit category.
+ */
+import { TerrainType } from './terrain';
+import { UnitCategory } from './units';
+
+export enum PromotionStat {
+  ATTACK_STRENGTH = 'attack_strength', // Percent change to strength when attacking
+  DEFENSE_STRENGTH = 'defense_strength', // Percent change to strength when defending
+  RANGED_DEFENSE = 'ranged_defense', // Percent change to strength when defending against ranged attacks
+  MOVEMENT = 'movement', // Flat change to movement points per turn
+  MOVEMENT_COST = 'movement_cost' // Flat change to the cost of entering a tile (minimum 1)
+}
+
+/**
+ * A change a promotion makes to one stat of its unit
+ */
+export interface PromotionEffect {
+  stat: PromotionStat;
+  value: number;
+  terrain?: TerrainType[]; // Applies only on these terrains (the tile fought on, or the tile entered)
+}
+
+export interface PromotionDefinition {
+  id: string;
+  name: string;
+  description: string;
+  category: UnitCategory;
+  requires?: string[]; // Needs any one of these promotions first
+  effects: PromotionEffect[];
+}
+
+/**
+ * Experience a unit needs in total to reach each level (index 0 is level 1)
+ */
+export const LEVEL_EXPERIENCE = [10, 25, 45, 70, 100];
+
+/**
+ * Experience earned for each kind of deed
+ */
+export const EXPERIENCE_REWARDS = {
+  attack: 5, // Attacking a unit
+  kill: 3, // Destroying the unit attacked, on top of the attack
+  defend: 4, // Surviving an attack
+  attackCity: 4, // Attacking a city
+  buildImprovement: 3 // Building a tile improvement
+};
+
+// Terrain groups shared by several promotions
+const OPEN_TERRAIN = [TerrainType.PLAINS, TerrainType.DESERT, TerrainType.RIVER];
+const ROUGH_TERRAIN = [TerrainType.HILLS, TerrainType.FOREST, TerrainType.JUNGLE, TerrainType.SWAMP];
+
+export const PROMOTIONS: Record<string, PromotionDefinition> = {
+  // Military promotions
+  shock: {
+    id: 'shock',
+    name: 'Shock',
+    description: '+20% attack strength against units on open terrain',
+    category: UnitCategory.MILITARY,
+    effects: [{ stat: PromotionStat.ATTACK_STRENGTH, value: 20, terrain: OPEN_TERRAIN }]
+  },
+  drill: {
+    id: 'drill',
+    name: 'Drill',
+    description: '+20% attack strength against units on rough terrain',
+    category: UnitCategory.MILITARY,
+    effects: [{ stat: PromotionStat.ATTACK_STRENGTH, value: 20, terrain: ROUGH_TERRAIN }]
+  },
+  hill_fighter: {
+    id: 'hill_fighter',
+    name: 'Hill Fighter',
+    description: '+25% defensive strength on hills and mountains',
+    category: UnitCategory.MILITARY,
+    requires: ['shock', 'drill'],
+    effects: [{ stat: PromotionStat.DEFENSE_STRENGTH, value: 25, terrain: [TerrainType.HILLS, TerrainType.MOUNTAINS] }]
+  },
+  woodsman: {
+    id: 'woodsman',
+    name: 'Woodsman',
+    description: 'Forest and jungle cost 1 less movement to enter',
+    category: UnitCategory.MILITARY,
+    requires: ['drill'],
+    effects: [{ stat: PromotionStat.MOVEMENT_COST, value: -1, terrain: [TerrainType.FOREST, TerrainType.JUNGLE] }]
+  },
+  cover: {
+    id: 'cover',
+    name: 'Cover',
+    description: '+33% defensive strength against ranged attacks',
+    category: UnitCategory.MILITARY,
+    requires: ['shock', 'drill'],
+    effects: [{ stat: PromotionStat.RANGED_DEFENSE, value: 33 }]
+  },
+  forced_march: {
+    id: 'forced_march',
+    name: 'Forced March',
+    description: '+1 movement',
+    category: UnitCategory.MILITARY,
+    requires: ['woodsman', 'hill_fighter'],
+    effects: [{ stat: PromotionStat.MOVEMENT, value: 1 }]
+  },
+
+  // Naval promotions
+  boarding_party: {
+    id: 'boarding_party',
+    name: 'Boarding Party',
+    description: '+20% attack strength',
+    category: UnitCategory.NAVAL,
+    effects: [{ stat: PromotionStat.ATTACK_STRENGTH, value: 20 }]
+  },
+  reinforced_hull: {
+    id: 'reinforced_hull',
+    name: 'Reinforced Hull',
+    description: '+20% defensive strength',
+    category: UnitCategory.NAVAL,
+    effects: [{ stat: PromotionStat.DEFENSE_STRENGTH, value: 20 }]
+  },
+  navigator: {
+    id: 'navigator',
+    name: 'Navigator',
+    description: '+1 movement',
+    category: UnitCategory.NAVAL,
+    requires: ['boarding_party', 'reinforced_hull'],
+    effects: [{ stat: PromotionStat.MOVEMENT, value: 1 }]
+  },
+
+  // Civilian promotions
+  pathfinder: {
+    id: 'pathfinder',
+    name: 'Pathfinder',
+    description: 'Hills, forest and jungle cost 1 less movement to enter',
+    category: UnitCategory.CIVILIAN,
+    effects: [{ stat: PromotionStat.MOVEMENT_COST, value: -1, terrain: [TerrainType.HILLS, TerrainType.FOREST, TerrainType.JUNGLE] }]
+  },
+  swift: {
+    id: 'swift',
+    name: 'Swift',
+    description: '+1 movement',
+    category: UnitCategory.CIVILIAN,
+    requires: ['pathfinder'],
+    effects: [{ stat: PromotionStat.MOVEMENT, value: 1 }]
+  }
+};
+
+/**
+ * Get a promotion definition by id
+ */
+export function getPromotionDefinition(id: string): PromotionDefinition | undefined {
+  return PROMOTIONS[id];
+}
+
+/**
+ * Get the promotions of a unit category, in tree order
+ */
+export function getCategoryPromotions(category: UnitCategory): PromotionDefinition[] {
+  return Object.values(PROMOTIONS).filter(promotion => promotion.category === category);
+}
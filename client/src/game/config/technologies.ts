@@ -33,6 +33,7 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'ancient',
     prerequisites: [],
     unlocks: {
+      units: ['record_keeper', 'diplomat'],
       buildings: ['library'],
       abilities: ['record_keeping']
     },
@@ -61,7 +62,7 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'ancient',
     prerequisites: [],
     unlocks: {
-      units: ['archer'],
+      units: ['hunter'],
       abilities: ['improved_food_gathering']
     },
     description: 'Advanced techniques for tracking and capturing animals for food.',
@@ -88,12 +89,26 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'ancient',
     prerequisites: ['mining'],
     unlocks: {
+      units: ['master_builder'],
       buildings: ['walls'],
       abilities: ['stone_construction']
     },
     description: 'The craft of shaping stones for construction.',
     spriteIndex: 4
   },
+  'metallurgy': {
+    id: 'metallurgy',
+    name: 'Metallurgy',
+    cost: { [ResourceType.FAITH]: 20 },
+    era: 'ancient',
+    prerequisites: ['mining'],
+    unlocks: {
+      abilities: ['ore_smelting']
+    },
+    description: 'The smelting and working of copper, brass and other metals drawn from the earth.',
+    flavorText: 'And I did make tools of the ore which I did molten out of the rock.',
+    spriteIndex: 19
+  },
   
   // Classical Era
   'archery': {
@@ -117,7 +132,7 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'classical',
     prerequisites: ['mining'],
     unlocks: {
-      units: ['spearman'],
+      units: ['swordsman'],
       abilities: ['improved_weapons']
     },
     description: 'The craft of using bronze alloys to create weapons and tools.',
@@ -144,6 +159,7 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'classical',
     prerequisites: ['writing'],
     unlocks: {
+      units: ['merchant'],
       buildings: ['marketplace'],
       abilities: ['trade_routes']
     },
@@ -173,7 +189,6 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'medieval',
     prerequisites: ['bronze_working'],
     unlocks: {
-      units: ['jaredite_champion'],
       abilities: ['improved_combat']
     },
     description: 'Advanced metalworking techniques to create superior weapons.',
@@ -187,6 +202,7 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'medieval',
     prerequisites: ['wheel'],
     unlocks: {
+      units: ['barge_captain'],
       buildings: ['barges'],
       abilities: ['water_travel']
     },
@@ -231,7 +247,7 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'reformed',
     prerequisites: ['law_of_moses'],
     unlocks: {
-      units: ['title_of_liberty_bearer'],
+      units: ['captain'],
       abilities: ['inspire_troops']
     },
     description: 'A rallying symbol used by Captain Moroni to inspire freedom.',
@@ -245,7 +261,6 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'reformed',
     prerequisites: ['currency'],
     unlocks: {
-      units: ['gadianton_robber'],
       abilities: ['stealth_tactics']
     },
     description: 'Clandestine organizations seeking power and wealth.',
@@ -259,7 +274,6 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'reformed',
     prerequisites: ['shipbuilding'],
     unlocks: {
-      units: ['deseret_warrior'],
       abilities: ['healing']
     },
     description: 'The Jaredite word for honey bee, symbolizing industry.',
@@ -273,7 +287,6 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'classical',
     prerequisites: ['currency'],
     unlocks: {
-      units: ['mulekite_merchant'],
       buildings: ['marketplace_of_zarahemla'],
       abilities: ['improved_commerce']
     },
@@ -287,7 +300,6 @@ export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
     era: 'medieval',
     prerequisites: ['writing', 'trading'],
     unlocks: {
-      units: ['interpreter'],
       abilities: ['cultural_exchange']
     },
     description: 'The scholarly analysis and learning of different languages.',
@@ -30,6 +30,8 @@ export interface TerrainConfig {
   textureName: string;
   passable: boolean;
   harvestable: boolean;
+  sightHeight: number; // Terrain taller than a viewer's own tile blocks the view past it
+  sightBonus: number; // Extra sight of units standing on this terrain
 }
 
 /**
@@ -47,7 +49,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'plains',
     passable: true,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 0,
+    sightBonus: 0
   },
   [TerrainType.HILLS]: {
     name: 'Hills',
@@ -60,7 +64,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'hills',
     passable: true,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 1,
+    sightBonus: 1
   },
   [TerrainType.MOUNTAINS]: {
     name: 'Mountains',
@@ -73,7 +79,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 1,
     textureName: 'mountains',
     passable: false,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 2,
+    sightBonus: 0
   },
   [TerrainType.FOREST]: {
     name: 'Forest',
@@ -86,7 +94,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'forest',
     passable: true,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 1,
+    sightBonus: 0
   },
   [TerrainType.JUNGLE]: {
     name: 'Jungle',
@@ -99,7 +109,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'jungle',
     passable: true,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 1,
+    sightBonus: 0
   },
   [TerrainType.DESERT]: {
     name: 'Desert',
@@ -112,7 +124,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'desert',
     passable: true,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 0,
+    sightBonus: 0
   },
   [TerrainType.SWAMP]: {
     name: 'Swamp',
@@ -125,7 +139,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'swamp',
     passable: true,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 0,
+    sightBonus: 0
   },
   [TerrainType.RIVER]: {
     name: 'River',
@@ -138,7 +154,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'river',
     passable: true,
-    harvestable: false
+    harvestable: false,
+    sightHeight: 0,
+    sightBonus: 0
   },
   [TerrainType.LAKE]: {
     name: 'Lake',
@@ -151,7 +169,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'lake',
     passable: false,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 0,
+    sightBonus: 0
   },
   [TerrainType.OCEAN]: {
     name: 'Ocean',
@@ -164,7 +184,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'ocean',
     passable: false,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 0,
+    sightBonus: 0
   },
   [TerrainType.COAST]: {
     name: 'Coast',
@@ -177,7 +199,9 @@ export const terrainConfigs: Record<TerrainType, TerrainConfig> = {
     faithYield: 0,
     textureName: 'coast',
     passable: true,
-    harvestable: true
+    harvestable: true,
+    sightHeight: 0,
+    sightBonus: 0
   }
 };
 
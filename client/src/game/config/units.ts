@@ -58,6 +58,7 @@ export interface UnitDefinition {
   movement: number;
   health: number;
   range: number;
+  sight: number; // Tiles the unit sees around it
   cost: UnitCost;
   abilities: UnitAbility[];
   requiredTech?: string;
@@ -77,6 +78,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 2,
     health: 10,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 30,
       [ResourceType.FOOD]: 20
@@ -100,6 +102,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 2,
     health: 10,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 20
     },
@@ -122,6 +125,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 2,
     health: 20,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 15
     },
@@ -138,6 +142,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 1,
     health: 15,
     range: 2,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 20
     },
@@ -161,11 +166,12 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 2,
     health: 25,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 25
     },
     abilities: [],
-    requiredTech: 'metallurgy',
+    requiredTech: 'bronze_working',
     description: 'Advanced melee unit with improved attack and defense capabilities.',
     spriteIndex: 4
   },
@@ -178,6 +184,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 4,
     health: 20,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 30
     },
@@ -203,6 +210,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 2,
     health: 30,
     range: 0,
+    sight: 3,
     cost: {
       [ResourceType.PRODUCTION]: 30,
       [ResourceType.FAITH]: 5
@@ -214,8 +222,8 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
         description: 'Adjacent friendly units gain +1 defense'
       }
     ],
-    faction: FactionType.NEPHITE,
-    requiredTech: 'leadership',
+    faction: FactionType.NEPHITES,
+    requiredTech: 'title_of_liberty',
     description: 'Elite Nephite military commanders who improve the effectiveness of nearby units.',
     spriteIndex: 6
   },
@@ -228,6 +236,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 2,
     health: 15,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 20,
       [ResourceType.FAITH]: 10
@@ -239,7 +248,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
         description: 'Generates faith and accelerates research'
       }
     ],
-    faction: FactionType.NEPHITE,
+    faction: FactionType.NEPHITES,
     requiredTech: 'writing',
     description: 'Scholarly unit that preserves knowledge and history, generating faith and research bonuses.',
     spriteIndex: 7
@@ -255,6 +264,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 2,
     health: 25,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 20,
       [ResourceType.FAITH]: 5
@@ -266,8 +276,8 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
         description: 'High survival rate in battles'
       }
     ],
-    faction: FactionType.LAMANITE,
-    requiredTech: 'faith',
+    faction: FactionType.LAMANITES,
+    requiredTech: 'faith_in_god',
     description: 'Exceptionally devoted young warriors with enhanced defense and survival abilities.',
     spriteIndex: 8
   },
@@ -280,6 +290,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 3,
     health: 20,
     range: 1,
+    sight: 3,
     cost: {
       [ResourceType.PRODUCTION]: 20
     },
@@ -288,9 +299,15 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
         id: 'wilderness_movement',
         name: 'Wilderness Stealth',
         description: 'Faster movement through forests and jungles'
+      },
+      {
+        id: 'ignore_zone_of_control',
+        name: 'Skirmisher',
+        description: 'Moves past enemy units without being stopped by their zone of control'
       }
     ],
-    faction: FactionType.LAMANITE,
+    faction: FactionType.LAMANITES,
+    requiredTech: 'hunting',
     description: 'Skilled wilderness tracker with enhanced movement through difficult terrain.',
     spriteIndex: 9
   },
@@ -305,6 +322,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 2,
     health: 15,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 25
     },
@@ -315,7 +333,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
         description: 'Builds improvements faster'
       }
     ],
-    faction: FactionType.JAREDITE,
+    faction: FactionType.JAREDITES,
     requiredTech: 'masonry',
     description: 'Expert engineer who can construct buildings and improvements much faster than regular workers.',
     spriteIndex: 10
@@ -329,6 +347,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 4,
     health: 25,
     range: 0,
+    sight: 3,
     cost: {
       [ResourceType.PRODUCTION]: 30
     },
@@ -339,8 +358,8 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
         description: 'Can move across water and transport units'
       }
     ],
-    faction: FactionType.JAREDITE,
-    requiredTech: 'sailing',
+    faction: FactionType.JAREDITES,
+    requiredTech: 'shipbuilding',
     description: 'Specialized naval unit that can transport other units across water.',
     spriteIndex: 11
   },
@@ -355,6 +374,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 3,
     health: 15,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 20,
       [ResourceType.FOOD]: 5
@@ -366,7 +386,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
         description: 'Establishes trade routes between cities'
       }
     ],
-    faction: FactionType.MULEKITE,
+    faction: FactionType.MULEKITES,
     requiredTech: 'currency',
     description: 'Commercial specialist who can establish trade routes between cities for resource bonuses.',
     spriteIndex: 12
@@ -380,6 +400,7 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
     movement: 3,
     health: 10,
     range: 0,
+    sight: 2,
     cost: {
       [ResourceType.PRODUCTION]: 15,
       [ResourceType.FAITH]: 5
@@ -391,9 +412,23 @@ export const UNITS: Record<UnitType, UnitDefinition> = {
         description: 'Can negotiate with neutral villages'
       }
     ],
-    faction: FactionType.MULEKITE,
+    faction: FactionType.MULEKITES,
     requiredTech: 'writing',
     description: 'Diplomatic envoy skilled at negotiating with neutral settlements and villages.',
     spriteIndex: 13
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get the definition of a unit type, or undefined if the type is unknown
+ */
+export function getUnitDefinition(type: string): UnitDefinition | undefined {
+  return UNITS[type as UnitType];
+}
+
+/**
+ * Check if a unit type sails on water instead of walking on land
+ */
+export function isNavalUnitType(type: string): boolean {
+  return getUnitDefinition(type)?.category === UnitCategory.NAVAL;
+}
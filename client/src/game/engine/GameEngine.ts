@@ -0,0 +1,431 @@
+/**
+ * GameEngine owns the headless game state and applies the rules to it.
+ *
+ * It has no dependency on Phaser: scenes subscribe to state changes and
+ * render them, while the same engine can run on a server or in a test.
+ */
+import { BuildingType } from '../config/buildings';
+import { TechnologyDefinition } from '../config/technologies';
+import { UnitType, isNavalUnitType } from '../config/units';
+import { RandomFunction, RandomStreamName, drawRandom } from '../utils/random';
+import { CityState, CombatLogEntry, GameState, GridPosition, RuleContext, StateChange, UnitState } from './types';
+import { EVENTS } from '../utils/events';
+import { ActionLogEntry, ActionResult, GameAction, applyAction, isUndoableAction } from './actions';
+import { cloneState } from './state';
+import { CombatPrediction, canAttack, canAttackCity, predictCombat } from './rules/combat';
+import { canLiberateCity, canRazeCity, getCityStrikeTargets } from './rules/conquest';
+import { canBuildImprovement } from './rules/improvements';
+import { findUnitPath, getMovementRegions, getReachableTiles, isInZoneOfControl } from './rules/movement';
+import { getAvailableTechs } from './rules/research';
+import { getTradeRouteTargets } from './rules/trade';
+import { getTrainableUnits } from './rules/units';
+import { getAvailablePromotions } from './rules/promotions';
+import { PromotionDefinition } from '../config/promotions';
+import { getBuildableBuildings } from './rules/buildings';
+import { StartFairnessReport, placeStartingUnits } from './rules/setup';
+import { startTurn } from './rules/turns';
+import { updateVisibility } from './rules/visibility';
+
+/**
+ * Callback invoked for every change applied to the state
+ */
+export type StateListener = (change: StateChange, state: GameState) => void;
+
+/**
+ * State before an action that can be undone
+ */
+interface UndoEntry {
+  state: GameState;
+  action: GameAction;
+}
+
+/**
+ * Options for dispatching an action
+ */
+export interface DispatchOptions {
+  // Keep the state from before the action so it can be taken back. Only a
+  // local player's own moves can be, so AI, replayed and server moves skip
+  // copying the whole state.
+  undoable?: boolean;
+}
+
+export class GameEngine {
+  private state: GameState;
+  private listeners: Set<StateListener>;
+  private actionLog: ActionLogEntry[];
+  private initialState: GameState | null;
+  private undoStack: UndoEntry[];
+  private redoStack: GameAction[];
+  private startReport: StartFairnessReport | null = null;
+
+  // Movement ranges and paths worked out since the state last changed. Every
+  // change to the state is emitted, so each emit clears them.
+  private reachableCache: Map<string, GridPosition[]> = new Map();
+  private pathCache: Map<string, GridPosition[]> = new Map();
+
+  // Areas land and naval units can cross between. Only a new bridge changes
+  // them, so they are kept until an improvement is built or the state replaced.
+  private regionCache: Map<'land' | 'naval', Int32Array> = new Map();
+
+  /**
+   * @param state State to run, either freshly created or loaded from a save
+   * @param actionLog Actions that led to the state, when resuming a game
+   * @param initialState State before the game started, used to replay it
+   */
+  constructor(state: GameState, actionLog: ActionLogEntry[] = [], initialState: GameState | null = cloneState(state)) {
+    this.state = state;
+    this.listeners = new Set();
+    this.actionLog = actionLog;
+    this.initialState = initialState;
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Get the current game state (treat as read-only outside the rules)
+   */
+  getState(): GameState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to state changes, returning a function that unsubscribes
+   */
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify all subscribers of a change
+   */
+  private emit(type: string, payload: any = {}): void {
+    this.reachableCache.clear();
+    this.pathCache.clear();
+    if (type === EVENTS.IMPROVEMENT_BUILT || type === EVENTS.STATE_RESET) {
+      this.regionCache.clear();
+    }
+
+    const change: StateChange = { type, payload };
+    this.listeners.forEach(listener => listener(change, this.state));
+  }
+
+  /**
+   * Build the context passed to rule functions
+   */
+  private getContext(): RuleContext {
+    return {
+      state: this.state,
+      random: stream => drawRandom(this.state.randomState, stream),
+      emit: (type, payload) => this.emit(type, payload)
+    };
+  }
+
+  /**
+   * Get a random function drawing from one of the game's seeded streams
+   */
+  getRandomStream(stream: RandomStreamName): RandomFunction {
+    return () => drawRandom(this.state.randomState, stream);
+  }
+
+  /**
+   * Place starting units and begin the first player's turn
+   */
+  startGame(): void {
+    const ctx = this.getContext();
+    this.startReport = placeStartingUnits(ctx);
+    startTurn(ctx, this.state.currentPlayerId);
+    updateVisibility(ctx);
+  }
+
+  /**
+   * Get the fairness report of the starting positions, if this engine started the game
+   */
+  getStartReport(): StartFairnessReport | null {
+    return this.startReport;
+  }
+
+  /**
+   * Get the positions a unit can move to this turn (treat as read-only, the
+   * result is shared until the state changes)
+   */
+  getReachableTiles(unitId: string): GridPosition[] {
+    const unit = this.state.units[unitId];
+    if (!unit) return [];
+
+    let reachable = this.reachableCache.get(unitId);
+    if (!reachable) {
+      reachable = getReachableTiles(this.state, unit);
+      this.reachableCache.set(unitId, reachable);
+    }
+    return reachable;
+  }
+
+  /**
+   * Get the cheapest path for a unit to a position, including its own tile, or
+   * an empty path if there is none (treat as read-only, like getReachableTiles)
+   */
+  findUnitPath(unitId: string, x: number, y: number): GridPosition[] {
+    const unit = this.state.units[unitId];
+    if (!unit) return [];
+
+    const key = `${unitId}:${x},${y}`;
+    let path = this.pathCache.get(key);
+    if (!path) {
+      path = findUnitPath(this.state, unit, x, y, this.getMovementRegions(unit));
+      this.pathCache.set(key, path);
+    }
+    return path;
+  }
+
+  /**
+   * Get the areas of the map a unit's kind (land or naval) can cross between
+   */
+  private getMovementRegions(unit: UnitState): Int32Array {
+    const kind = isNavalUnitType(unit.type) ? 'naval' : 'land';
+
+    let regions = this.regionCache.get(kind);
+    if (!regions) {
+      regions = getMovementRegions(this.state, unit.type);
+      this.regionCache.set(kind, regions);
+    }
+    return regions;
+  }
+
+  /**
+   * Check if moving a unit to a position would end its movement in an enemy zone of control
+   */
+  isInZoneOfControl(unitId: string, x: number, y: number): boolean {
+    const unit = this.state.units[unitId];
+    return unit ? isInZoneOfControl(this.state, unit, x, y) : false;
+  }
+
+  /**
+   * Get the technologies a player could research next
+   */
+  getAvailableTechs(playerId: string): TechnologyDefinition[] {
+    return getAvailableTechs(this.state, playerId);
+  }
+
+  /**
+   * Get the unit types a city can train
+   */
+  getTrainableUnits(cityId: string): UnitType[] {
+    const city = this.state.cities[cityId];
+    return city ? getTrainableUnits(this.state, city) : [];
+  }
+
+  /**
+   * Get the building types a city can build
+   */
+  getBuildableBuildings(cityId: string): BuildingType[] {
+    const city = this.state.cities[cityId];
+    return city ? getBuildableBuildings(this.state, city) : [];
+  }
+
+  /**
+   * Check if a unit can attack another unit
+   */
+  canAttack(attackerId: string, defenderId: string): boolean {
+    return canAttack(this.state, attackerId, defenderId);
+  }
+
+  /**
+   * Check if a unit can attack a city
+   */
+  canAttackCity(attackerId: string, cityId: string): boolean {
+    return canAttackCity(this.state, attackerId, cityId);
+  }
+
+  /**
+   * Check if a unit can build an improvement on the tile it stands on
+   */
+  canBuildImprovement(unitId: string, improvementType: string): boolean {
+    return canBuildImprovement(this.state, unitId, improvementType);
+  }
+
+  /**
+   * Get the promotions a unit could choose next
+   */
+  getAvailablePromotions(unitId: string): PromotionDefinition[] {
+    const unit = this.state.units[unitId];
+    return unit ? getAvailablePromotions(unit) : [];
+  }
+
+  /**
+   * Predict the outcome of a unit attacking another unit, or null if either is gone
+   */
+  predictCombat(attackerId: string, defenderId: string): CombatPrediction | null {
+    const attacker = this.state.units[attackerId];
+    const defender = this.state.units[defenderId];
+    return attacker && defender ? predictCombat(this.state, attacker, defender) : null;
+  }
+
+  /**
+   * Get the cities a merchant could set up a trade route to right now
+   */
+  getTradeRouteTargets(unitId: string): CityState[] {
+    return getTradeRouteTargets(this.state, unitId);
+  }
+
+  /**
+   * Get the enemy units a city could strike this turn
+   */
+  getCityStrikeTargets(cityId: string): UnitState[] {
+    return getCityStrikeTargets(this.state, cityId);
+  }
+
+  /**
+   * Check if a player can raze a city they conquered
+   */
+  canRazeCity(playerId: string, cityId: string): boolean {
+    return canRazeCity(this.state, playerId, cityId);
+  }
+
+  /**
+   * Check if a player can give a city they conquered back to its founder
+   */
+  canLiberateCity(playerId: string, cityId: string): boolean {
+    return canLiberateCity(this.state, playerId, cityId);
+  }
+
+  /**
+   * Get the player who has won the game, or null while it goes on
+   */
+  getWinner(): string | null {
+    return this.state.winner;
+  }
+
+  /**
+   * Get the most recent fights, oldest first
+   */
+  getCombatLog(): CombatLogEntry[] {
+    return this.state.combatLog;
+  }
+
+  /**
+   * Validate and apply a player action, recording it in the action log
+   */
+  dispatch(action: GameAction, options: DispatchOptions = {}): ActionResult {
+    return this.applyAndRecord(action, options.undoable ?? false, false);
+  }
+
+  /**
+   * Apply an action and update the action log and undo history
+   */
+  private applyAndRecord(action: GameAction, undoable: boolean, isRedo: boolean): ActionResult {
+    const turn = this.state.turn;
+    const snapshot = undoable && isUndoableAction(action) ? cloneState(this.state) : null;
+    const randomBefore = JSON.stringify(this.state.randomState);
+    const result = applyAction(this.getContext(), action);
+
+    if (!result.success) {
+      this.emit(EVENTS.ACTION_REJECTED, { action, error: result.error });
+      return result;
+    }
+
+    // Vision follows every change the action made
+    const revealed = updateVisibility(this.getContext());
+
+    const entry: ActionLogEntry = {
+      index: this.actionLog.length,
+      turn,
+      action
+    };
+    this.actionLog.push(entry);
+
+    this.emit(EVENTS.ACTION_APPLIED, entry);
+
+    // Anything that rolled dice, showed the player unexplored tiles or can't be
+    // taken back fixes everything before it
+    const revealedTiles = revealed[action.playerId]?.length ?? 0;
+    if (snapshot && JSON.stringify(this.state.randomState) === randomBefore && revealedTiles === 0) {
+      this.undoStack.push({ state: snapshot, action });
+    } else {
+      this.undoStack = [];
+    }
+    if (!isRedo) {
+      this.redoStack = [];
+    }
+    this.emitHistoryChanged();
+
+    return result;
+  }
+
+  /**
+   * Check if the last action can be taken back
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Check if an undone action can be applied again
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Take back the last action of the current turn
+   */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+
+    // The undone action is always the last one in the log
+    this.redoStack.push(entry.action);
+    this.resetState(entry.state, this.actionLog.slice(0, -1));
+    this.emitHistoryChanged();
+    return true;
+  }
+
+  /**
+   * Apply the last undone action again
+   */
+  redo(): boolean {
+    const action = this.redoStack.pop();
+    if (!action) return false;
+
+    // Only undoable actions get undone, so the redone one is undoable again.
+    // A rejected action changed nothing, so it stays ready to redo.
+    const result = this.applyAndRecord(action, true, true);
+    if (!result.success) {
+      this.redoStack.push(action);
+    }
+    return result.success;
+  }
+
+  /**
+   * Tell subscribers whether undo and redo are available
+   */
+  private emitHistoryChanged(): void {
+    this.emit(EVENTS.HISTORY_CHANGED, { canUndo: this.canUndo(), canRedo: this.canRedo() });
+  }
+
+  /**
+   * Get every action applied so far, in order
+   */
+  getActionLog(): ActionLogEntry[] {
+    return this.actionLog;
+  }
+
+  /**
+   * Get the state before the game started, if known
+   */
+  getInitialState(): GameState | null {
+    return this.initialState;
+  }
+
+  /**
+   * Replace the whole state, e.g. to jump within a replay. Subscribers get a
+   * single STATE_RESET change and should rebuild everything they render.
+   */
+  resetState(state: GameState, actionLog: ActionLogEntry[]): void {
+    this.state = state;
+    this.actionLog = actionLog;
+    this.emit(EVENTS.STATE_RESET);
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * Typed player actions and the single validator/reducer that applies them.
+ *
+ * Every change a player makes to the game - human input, the AI or a remote
+ * peer - is expressed as a GameAction, checked by validateAction and applied
+ * by applyAction, so all of them follow exactly the same rules.
+ */
+import { getUnitDefinition } from '../config/units';
+import { getBuildingDefinition } from '../config/buildings';
+import { getImprovementDefinition } from '../config/improvements';
+import { ResourceType } from '../config/resources';
+import { GameState, RuleContext } from './types';
+import { canAttack, canAttackCity, resolveCombat } from './rules/combat';
+import { canBuildBuilding } from './rules/buildings';
+import { canFoundCity, foundCity, queueProduction } from './rules/cities';
+import {
+  canCityStrike,
+  canLiberateCity,
+  canRazeCity,
+  cityStrike,
+  liberateCity,
+  razeCity,
+  resolveCityCombat
+} from './rules/conquest';
+import { buildImprovement, canBuildImprovement } from './rules/improvements';
+import { canMoveUnit, moveUnit } from './rules/movement';
+import { canPromoteUnit, promoteUnit } from './rules/promotions';
+import { canResearch, startResearch } from './rules/research';
+import { canFortifyUnit, canTrainUnit, fortifyUnit, getUnitProductionCost, hasAbility } from './rules/units';
+import { canEstablishTradeRoute, establishTradeRoute } from './rules/trade';
+import { endTurn } from './rules/turns';
+
+/**
+ * Types of actions a player can take
+ */
+export enum ActionType {
+  MOVE_UNIT = 'move_unit',
+  ATTACK = 'attack',
+  FOUND_CITY = 'found_city',
+  BUILD_IMPROVEMENT = 'build_improvement',
+  PROMOTE_UNIT = 'promote_unit',
+  FORTIFY_UNIT = 'fortify_unit',
+  ESTABLISH_TRADE_ROUTE = 'establish_trade_route',
+  CITY_STRIKE = 'city_strike',
+  RAZE_CITY = 'raze_city',
+  LIBERATE_CITY = 'liberate_city',
+  QUEUE_PRODUCTION = 'queue_production',
+  START_RESEARCH = 'start_research',
+  END_TURN = 'end_turn'
+}
+
+export interface MoveUnitAction {
+  type: ActionType.MOVE_UNIT;
+  playerId: string;
+  unitId: string;
+  x: number;
+  y: number;
+}
+
+export interface AttackAction {
+  type: ActionType.ATTACK;
+  playerId: string;
+  unitId: string;
+  target: { kind: 'unit' | 'city', id: string };
+}
+
+export interface FoundCityAction {
+  type: ActionType.FOUND_CITY;
+  playerId: string;
+  unitId: string;
+  name?: string;
+}
+
+export interface BuildImprovementAction {
+  type: ActionType.BUILD_IMPROVEMENT;
+  playerId: string;
+  unitId: string;
+  improvementType: string;
+}
+
+export interface PromoteUnitAction {
+  type: ActionType.PROMOTE_UNIT;
+  playerId: string;
+  unitId: string;
+  promotionId: string;
+}
+
+export interface FortifyUnitAction {
+  type: ActionType.FORTIFY_UNIT;
+  playerId: string;
+  unitId: string;
+}
+
+export interface EstablishTradeRouteAction {
+  type: ActionType.ESTABLISH_TRADE_ROUTE;
+  playerId: string;
+  unitId: string;
+  cityId: string;
+}
+
+export interface CityStrikeAction {
+  type: ActionType.CITY_STRIKE;
+  playerId: string;
+  cityId: string;
+  targetId: string;
+}
+
+export interface RazeCityAction {
+  type: ActionType.RAZE_CITY;
+  playerId: string;
+  cityId: string;
+}
+
+export interface LiberateCityAction {
+  type: ActionType.LIBERATE_CITY;
+  playerId: string;
+  cityId: string;
+}
+
+export interface QueueProductionAction {
+  type: ActionType.QUEUE_PRODUCTION;
+  playerId: string;
+  cityId: string;
+  itemType: 'unit' | 'building';
+  itemId: string;
+}
+
+export interface StartResearchAction {
+  type: ActionType.START_RESEARCH;
+  playerId: string;
+  techId: string;
+}
+
+export interface EndTurnAction {
+  type: ActionType.END_TURN;
+  playerId: string;
+}
+
+/**
+ * Any action a player can take
+ */
+export type GameAction =
+  | MoveUnitAction
+  | AttackAction
+  | FoundCityAction
+  | BuildImprovementAction
+  | PromoteUnitAction
+  | FortifyUnitAction
+  | EstablishTradeRouteAction
+  | CityStrikeAction
+  | RazeCityAction
+  | LiberateCityAction
+  | QueueProductionAction
+  | StartResearchAction
+  | EndTurnAction;
+
+// Omit a key from every member of a union
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+
+/**
+ * An action before the acting player is filled in (e.g. a UI command)
+ */
+export type ActionWithoutPlayer = DistributiveOmit<GameAction, 'playerId'>;
+
+/**
+ * Outcome of dispatching an action
+ */
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * An applied action together with its position in the game
+ */
+export interface ActionLogEntry {
+  index: number;
+  turn: number;
+  action: GameAction;
+}
+
+// Actions a player may take back within their turn, as long as they drew no random numbers
+const UNDOABLE_ACTIONS = new Set<ActionType>([
+  ActionType.MOVE_UNIT,
+  ActionType.BUILD_IMPROVEMENT,
+  ActionType.PROMOTE_UNIT,
+  ActionType.FORTIFY_UNIT,
+  ActionType.ESTABLISH_TRADE_ROUTE,
+  ActionType.RAZE_CITY,
+  ActionType.LIBERATE_CITY,
+  ActionType.QUEUE_PRODUCTION,
+  ActionType.START_RESEARCH
+]);
+
+/**
+ * Check if an action's type can be undone
+ */
+export function isUndoableAction(action: GameAction): boolean {
+  return UNDOABLE_ACTIONS.has(action.type);
+}
+
+/**
+ * Check that a unit exists and belongs to the acting player
+ */
+function validateOwnUnit(state: GameState, playerId: string, unitId: string): string | null {
+  const unit = state.units[unitId];
+  if (!unit) return `Unit ${unitId} does not exist`;
+  if (unit.playerId !== playerId) return `Unit ${unitId} does not belong to ${playerId}`;
+  return null;
+}
+
+/**
+ * Look up the name and production cost of a production item for a player
+ */
+function getProductionItem(
+  state: GameState,
+  playerId: string,
+  itemType: 'unit' | 'building',
+  itemId: string
+): { name: string, cost: number } | null {
+  if (itemType === 'unit') {
+    const unit = getUnitDefinition(itemId);
+    return unit ? { name: unit.name, cost: getUnitProductionCost(state, playerId, itemId) } : null;
+  }
+
+  const building = getBuildingDefinition(itemId);
+  return building ? { name: building.name, cost: building.cost[ResourceType.PRODUCTION] } : null;
+}
+
+/**
+ * Validate an action against the current state, returning an error or null
+ */
+export function validateAction(ctx: RuleContext, action: GameAction): string | null {
+  const { state } = ctx;
+  const player = state.players[action.playerId];
+
+  if (state.winner) return 'The game is over';
+  if (!player || player.isEliminated) return `Player ${action.playerId} is not in the game`;
+  if (state.currentPlayerId !== action.playerId) return `It is not ${action.playerId}'s turn`;
+
+  switch (action.type) {
+    case ActionType.MOVE_UNIT: {
+      const error = validateOwnUnit(state, action.playerId, action.unitId);
+      if (error) return error;
+      return canMoveUnit(state, action.unitId, action.x, action.y) ? null : 'Destination is out of movement range';
+    }
+
+    case ActionType.ATTACK: {
+      const error = validateOwnUnit(state, action.playerId, action.unitId);
+      if (error) return error;
+
+      const allowed = action.target.kind === 'unit'
+        ? canAttack(state, action.unitId, action.target.id)
+        : canAttackCity(state, action.unitId, action.target.id);
+      return allowed ? null : 'Target cannot be attacked';
+    }
+
+    case ActionType.FOUND_CITY: {
+      const error = validateOwnUnit(state, action.playerId, action.unitId);
+      if (error) return error;
+
+      const unit = state.units[action.unitId];
+      if (!hasAbility(unit, 'found_city')) return 'This unit cannot found cities';
+      return canFoundCity(state, action.playerId, unit.x, unit.y) ? null : 'Cannot found a city here';
+    }
+
+    case ActionType.BUILD_IMPROVEMENT: {
+      const error = validateOwnUnit(state, action.playerId, action.unitId);
+      if (error) return error;
+      if (!getImprovementDefinition(action.improvementType)) return `Unknown improvement ${action.improvementType}`;
+      return canBuildImprovement(state, action.unitId, action.improvementType)
+        ? null
+        : `This unit cannot build a ${action.improvementType} here`;
+    }
+
+    case ActionType.PROMOTE_UNIT: {
+      const error = validateOwnUnit(state, action.playerId, action.unitId);
+      if (error) return error;
+      return canPromoteUnit(state, action.unitId, action.promotionId) ? null : `Cannot take promotion ${action.promotionId}`;
+    }
+
+    case ActionType.FORTIFY_UNIT: {
+      const error = validateOwnUnit(state, action.playerId, action.unitId);
+      if (error) return error;
+      return canFortifyUnit(state, action.unitId) ? null : 'This unit cannot fortify';
+    }
+
+    case ActionType.ESTABLISH_TRADE_ROUTE: {
+      const error = validateOwnUnit(state, action.playerId, action.unitId);
+      if (error) return error;
+      if (!state.cities[action.cityId]) return `City ${action.cityId} does not exist`;
+      return canEstablishTradeRoute(state, action.unitId, action.cityId) ? null : 'Cannot set up a trade route to this city';
+    }
+
+    case ActionType.CITY_STRIKE: {
+      const city = state.cities[action.cityId];
+      if (!city) return `City ${action.cityId} does not exist`;
+      if (city.playerId !== action.playerId) return `City ${action.cityId} does not belong to ${action.playerId}`;
+      return canCityStrike(state, action.cityId, action.targetId) ? null : 'Target cannot be struck';
+    }
+
+    case ActionType.RAZE_CITY:
+      return canRazeCity(state, action.playerId, action.cityId) ? null : `Cannot raze city ${action.cityId}`;
+
+    case ActionType.LIBERATE_CITY:
+      return canLiberateCity(state, action.playerId, action.cityId) ? null : `Cannot liberate city ${action.cityId}`;
+
+    case ActionType.QUEUE_PRODUCTION: {
+      const city = state.cities[action.cityId];
+      if (!city) return `City ${action.cityId} does not exist`;
+      if (city.playerId !== action.playerId) return `City ${action.cityId} does not belong to ${action.playerId}`;
+
+      const item = getProductionItem(state, action.playerId, action.itemType, action.itemId);
+      if (!item) return `Unknown ${action.itemType} ${action.itemId}`;
+      if (action.itemType === 'unit' && !canTrainUnit(state, city, action.itemId)) {
+        return `${city.name} cannot train ${item.name}`;
+      }
+      if (action.itemType === 'building' && !canBuildBuilding(state, city, action.itemId)) {
+        return `${city.name} cannot build ${item.name}`;
+      }
+      return null;
+    }
+
+    case ActionType.START_RESEARCH:
+      return canResearch(state, action.playerId, action.techId) ? null : `Cannot research ${action.techId}`;
+
+    case ActionType.END_TURN:
+      return null;
+
+    default:
+      return 'Unknown action';
+  }
+}
+
+/**
+ * Validate and apply an action to the state
+ */
+export function applyAction(ctx: RuleContext, action: GameAction): ActionResult {
+  const error = validateAction(ctx, action);
+  if (error) {
+    return { success: false, error };
+  }
+
+  switch (action.type) {
+    case ActionType.MOVE_UNIT:
+      moveUnit(ctx, action.unitId, action.x, action.y);
+      break;
+
+    case ActionType.ATTACK:
+      if (action.target.kind === 'unit') {
+        resolveCombat(ctx, action.unitId, action.target.id);
+      } else {
+        resolveCityCombat(ctx, action.unitId, action.target.id);
+      }
+      break;
+
+    case ActionType.FOUND_CITY:
+      foundCity(ctx, action.unitId, action.name);
+      break;
+
+    case ActionType.BUILD_IMPROVEMENT:
+      buildImprovement(ctx, action.unitId, action.improvementType);
+      break;
+
+    case ActionType.PROMOTE_UNIT:
+      promoteUnit(ctx, action.unitId, action.promotionId);
+      break;
+
+    case ActionType.FORTIFY_UNIT:
+      fortifyUnit(ctx, action.unitId);
+      break;
+
+    case ActionType.ESTABLISH_TRADE_ROUTE:
+      establishTradeRoute(ctx, action.unitId, action.cityId);
+      break;
+
+    case ActionType.CITY_STRIKE:
+      cityStrike(ctx, action.cityId, action.targetId);
+      break;
+
+    case ActionType.RAZE_CITY:
+      razeCity(ctx, action.cityId);
+      break;
+
+    case ActionType.LIBERATE_CITY:
+      liberateCity(ctx, action.cityId);
+      break;
+
+    case ActionType.QUEUE_PRODUCTION: {
+      const item = getProductionItem(ctx.state, action.playerId, action.itemType, action.itemId)!;
+      queueProduction(ctx, action.cityId, {
+        type: action.itemType,
+        id: action.itemId,
+        name: item.name,
+        cost: item.cost
+      });
+      break;
+    }
+
+    case ActionType.START_RESEARCH:
+      startResearch(ctx, action.playerId, action.techId);
+      break;
+
+    case ActionType.END_TURN:
+      endTurn(ctx);
+      break;
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,242 @@
+/**
+ * Replay recording and playback.
+ *
+ * A replay is the state a game started from plus every action applied to it.
+ * Because all randomness the rules use comes from the seeded streams in the
+ * state, re-applying the actions reproduces the game exactly.
+ */
+import { ActionLogEntry } from './actions';
+import { GameEngine } from './GameEngine';
+import { PlayerSetup, cloneState } from './state';
+import { GameState } from './types';
+
+/**
+ * Current version of the replay format
+ */
+export const REPLAY_FORMAT_VERSION = 1;
+
+// Snapshot the state every this many actions so seeking backwards stays fast
+const CHECKPOINT_INTERVAL = 50;
+
+/**
+ * Settings the recorded game was created with
+ */
+export interface ReplaySettings {
+  mapWidth: number;
+  mapHeight: number;
+  players: PlayerSetup[];
+}
+
+/**
+ * A recorded game
+ */
+export interface Replay {
+  version: number;
+  recordedAt: string;
+  seed: number;
+  settings: ReplaySettings;
+  initialState: GameState;
+  actions: ActionLogEntry[];
+}
+
+/**
+ * Record a replay of the engine's game, or null if its start is unknown
+ */
+export function createReplay(engine: GameEngine): Replay | null {
+  const initialState = engine.getInitialState();
+  if (!initialState) {
+    console.warn('Cannot record a replay of a game whose starting state is unknown');
+    return null;
+  }
+
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    recordedAt: new Date().toISOString(),
+    seed: initialState.seed,
+    settings: {
+      mapWidth: initialState.mapWidth,
+      mapHeight: initialState.mapHeight,
+      players: initialState.playerOrder.map(id => ({
+        id,
+        faction: initialState.players[id].faction,
+        isHuman: initialState.players[id].isHuman
+      }))
+    },
+    initialState: cloneState(initialState),
+    actions: JSON.parse(JSON.stringify(engine.getActionLog()))
+  };
+}
+
+/**
+ * Serialize a replay to JSON
+ */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a replay from JSON, returning null if it is not a readable replay
+ */
+export function parseReplay(json: string): Replay | null {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    console.error('Replay data is not valid JSON', error);
+    return null;
+  }
+
+  if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+    console.error('Replay data is not a replay');
+    return null;
+  }
+
+  if (data.version > REPLAY_FORMAT_VERSION) {
+    console.error(`Replay version ${data.version} is newer than this game supports (${REPLAY_FORMAT_VERSION})`);
+    return null;
+  }
+
+  if (!data.initialState || !Array.isArray(data.actions)) {
+    console.error('Replay is missing its starting state or actions');
+    return null;
+  }
+
+  return data as Replay;
+}
+
+/**
+ * Steps through a replay, driving an engine the scene renders
+ */
+export class ReplayPlayer {
+  private replay: Replay;
+  private engine: GameEngine;
+  private position: number;
+  private checkpoints: Map<number, GameState>;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.engine = new GameEngine(cloneState(replay.initialState), [], cloneState(replay.initialState));
+    this.engine.startGame();
+    this.position = 0;
+    this.checkpoints = new Map([[0, cloneState(this.engine.getState())]]);
+  }
+
+  /**
+   * Get the engine showing the replay
+   */
+  getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  /**
+   * Get the replay being played
+   */
+  getReplay(): Replay {
+    return this.replay;
+  }
+
+  /**
+   * Get the number of actions applied so far
+   */
+  getPosition(): number {
+    return this.position;
+  }
+
+  /**
+   * Get the total number of actions in the replay
+   */
+  getLength(): number {
+    return this.replay.actions.length;
+  }
+
+  /**
+   * Check if every action has been applied
+   */
+  isAtEnd(): boolean {
+    return this.position >= this.replay.actions.length;
+  }
+
+  /**
+   * Apply the next action
+   */
+  stepForward(): boolean {
+    if (this.isAtEnd()) return false;
+
+    const entry = this.replay.actions[this.position];
+    const result = this.engine.dispatch(entry.action);
+    if (!result.success) {
+      console.warn(`Replay diverged at action ${entry.index}: ${result.error}`);
+    }
+
+    this.position++;
+
+    if (this.position % CHECKPOINT_INTERVAL === 0 && !this.checkpoints.has(this.position)) {
+      this.checkpoints.set(this.position, cloneState(this.engine.getState()));
+    }
+
+    return true;
+  }
+
+  /**
+   * Undo the last applied action
+   */
+  stepBack(): boolean {
+    if (this.position === 0) return false;
+
+    this.seek(this.position - 1);
+    return true;
+  }
+
+  /**
+   * Apply actions until the next turn begins
+   */
+  stepForwardTurn(): boolean {
+    if (this.isAtEnd()) return false;
+
+    const turn = this.engine.getState().turn;
+    this.seek(this.getTurnStart(turn + 1));
+    return true;
+  }
+
+  /**
+   * Go back to the start of the current turn, or of the previous turn when
+   * already at the start of one
+   */
+  stepBackTurn(): boolean {
+    if (this.position === 0) return false;
+
+    const turn = this.engine.getState().turn;
+    const turnStart = this.getTurnStart(turn);
+    this.seek(turnStart < this.position ? turnStart : this.getTurnStart(turn - 1));
+    return true;
+  }
+
+  /**
+   * Jump to the point where the given number of actions have been applied
+   */
+  seek(position: number): void {
+    const target = Math.max(0, Math.min(position, this.replay.actions.length));
+
+    if (target < this.position) {
+      // Restore the closest snapshot before the target and play forward from it
+      const checkpoint = Math.max(...Array.from(this.checkpoints.keys()).filter(p => p <= target));
+      this.engine.resetState(
+        cloneState(this.checkpoints.get(checkpoint)!),
+        this.replay.actions.slice(0, checkpoint)
+      );
+      this.position = checkpoint;
+    }
+
+    while (this.position < target) {
+      this.stepForward();
+    }
+  }
+
+  /**
+   * Get the index of the first action taken in a turn
+   */
+  private getTurnStart(turn: number): number {
+    const index = this.replay.actions.findIndex(entry => entry.turn >= turn);
+    return index === -1 ? this.replay.actions.length : index;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Building rules: effects, maintenance and which buildings a city can build
+ */
+import {
+  BUILDINGS,
+  BuildingBonus,
+  BuildingDefinition,
+  BuildingType,
+  getBuildingDefinition
+} from '../../config/buildings';
+import { ModifierStat } from '../../config/factions';
+import { ResourceType } from '../../config/resources';
+import { CityState, GameState, ResourceAmounts } from '../types';
+import { hasTech } from './research';
+import { getModifierTotal } from './modifiers';
+
+// City yield each resource of a building effect adds to
+const YIELD_KEYS: Record<ResourceType, keyof ResourceAmounts> = {
+  [ResourceType.FOOD]: 'food',
+  [ResourceType.PRODUCTION]: 'production',
+  [ResourceType.FAITH]: 'faith'
+};
+
+/**
+ * Get the definitions of a city's buildings, including its implicit city centre
+ */
+export function getCityBuildings(city: CityState): BuildingDefinition[] {
+  const buildings = [BUILDINGS[BuildingType.CITY_CENTER]];
+
+  city.buildings.forEach(id => {
+    const definition = getBuildingDefinition(id);
+    if (definition && definition.id !== BuildingType.CITY_CENTER) {
+      buildings.push(definition);
+    }
+  });
+
+  return buildings;
+}
+
+/**
+ * Apply a city's building effects to its base yields.
+ * Flat bonuses are added first, then percentages are applied to the total.
+ */
+export function applyBuildingEffects(state: GameState, city: CityState, base: ResourceAmounts): ResourceAmounts {
+  const yields: ResourceAmounts = { ...base };
+  const percentages: ResourceAmounts = { food: 0, production: 0, faith: 0 };
+  let buildingProduction = 0;
+
+  getCityBuildings(city).forEach(building => {
+    building.effects.forEach(effect => {
+      if (!effect.resource) return;
+
+      const resource = YIELD_KEYS[effect.resource];
+      if (effect.type === 'flat') {
+        yields[resource] += effect.amount;
+        if (resource === 'production') {
+          buildingProduction += effect.amount;
+        }
+      } else {
+        percentages[resource] += effect.amount;
+      }
+    });
+  });
+
+  // Faction bonuses to what buildings produce
+  const productionModifier = getModifierTotal(state, city.playerId, ModifierStat.BUILDING_PRODUCTION, { city });
+  yields.production += Math.floor(buildingProduction * productionModifier / 100);
+
+  (Object.keys(yields) as (keyof ResourceAmounts)[]).forEach(resource => {
+    yields[resource] = Math.floor(yields[resource] * (100 + percentages[resource]) / 100);
+  });
+
+  return yields;
+}
+
+/**
+ * Get the total percentage bonus a city's buildings give to something other than yields
+ */
+export function getCityBonus(city: CityState, bonus: BuildingBonus): number {
+  return getCityBuildings(city).reduce((total, building) => (
+    total + building.effects
+      .filter(effect => effect.bonus === bonus && effect.type === 'percentage')
+      .reduce((sum, effect) => sum + effect.amount, 0)
+  ), 0);
+}
+
+/**
+ * Get the production a city's buildings cost to maintain each turn
+ */
+export function getCityMaintenance(city: CityState): number {
+  return getCityBuildings(city).reduce((total, building) => total + (building.maintenance ?? 0), 0);
+}
+
+/**
+ * Check if a city can build a building: it must not have it already or have it
+ * queued, and the owner needs its technology and faction
+ */
+export function canBuildBuilding(state: GameState, city: CityState, buildingType: string): boolean {
+  const definition = getBuildingDefinition(buildingType);
+  if (!definition || definition.id === BuildingType.CITY_CENTER) return false;
+
+  const player = state.players[city.playerId];
+  if (!player) return false;
+
+  if (city.buildings.includes(definition.id)) return false;
+  if (city.currentProduction?.id === definition.id) return false;
+  if (city.productionQueue.some(item => item.id === definition.id)) return false;
+
+  if (definition.faction && definition.faction !== player.faction) return false;
+  if (definition.requiredTech && !hasTech(state, city.playerId, definition.requiredTech)) return false;
+
+  return true;
+}
+
+/**
+ * Get the building types a city can build
+ */
+export function getBuildableBuildings(state: GameState, city: CityState): BuildingType[] {
+  return (Object.keys(BUILDINGS) as BuildingType[]).filter(type => canBuildBuilding(state, city, type));
+}
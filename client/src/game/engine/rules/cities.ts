@@ -0,0 +1,380 @@
+/**
+ * City rules: founding, territory, growth and production
+ */
+import { EVENTS } from '../../utils/events';
+import {
+  getCityAt,
+  getSurroundingPositions,
+  getTile,
+  getTileByKey,
+  nextEntityId,
+  parseTileKey,
+  tileKey
+} from '../state';
+import { CityState, GameState, ProductionItem, ResourceAmounts, RuleContext, TileState } from '../types';
+import { getWorkedTileYields, isTilePassable, isWaterTile, scoreWorkedTile } from './tiles';
+import { createUnitNear, hasAbility, removeUnit } from './units';
+import { applyBuildingEffects, getCityBonus } from './buildings';
+import { BuildingBonus } from '../../config/buildings';
+import { ModifierStat } from '../../config/factions';
+import { getModifierTotal, hasModifier } from './modifiers';
+import { getTradeRouteYields } from './trade';
+
+// Chance per turn that a city claims one more tile
+const TERRITORY_EXPANSION_CHANCE = 0.2;
+
+/**
+ * Food needed for a city to grow to the next population level
+ */
+export function getFoodToGrow(population: number): number {
+  return population * 15;
+}
+
+/**
+ * Check if a player can found a city on a position
+ */
+export function canFoundCity(state: GameState, playerId: string, x: number, y: number): boolean {
+  const tile = getTile(state, x, y);
+  if (!tile || !isTilePassable(tile)) return false;
+
+  // Only factions with a bonus for it can settle on the water's edge
+  if (isWaterTile(tile) && !hasModifier(state, playerId, ModifierStat.FOUND_CITY, { tile })) return false;
+
+  // Cities cannot be founded inside another city's territory
+  if (tile.cityId || getCityAt(state, x, y)) return false;
+
+  return true;
+}
+
+/**
+ * Found a city with a settler, consuming the unit
+ */
+export function foundCity(ctx: RuleContext, unitId: string, name?: string): CityState | null {
+  const { state } = ctx;
+  const unit = state.units[unitId];
+
+  if (!unit || !hasAbility(unit, 'found_city')) {
+    console.warn('This unit cannot found cities');
+    return null;
+  }
+
+  if (!canFoundCity(state, unit.playerId, unit.x, unit.y)) {
+    console.warn('Cannot found a city here');
+    return null;
+  }
+
+  // The settler is consumed by founding the city
+  const { playerId, x, y } = unit;
+  removeUnit(ctx, unitId);
+
+  return createCity(ctx, playerId, x, y, name);
+}
+
+/**
+ * Create a city and claim its territory
+ * @param population Starting population, instead of a newly founded city's
+ */
+export function createCity(
+  ctx: RuleContext,
+  playerId: string,
+  x: number,
+  y: number,
+  name?: string,
+  population?: number
+): CityState {
+  const { state } = ctx;
+  const id = nextEntityId(state, 'city');
+  const city: CityState = {
+    id,
+    name: name ?? `City ${Object.keys(state.cities).length + 1}`,
+    playerId,
+    originalPlayerId: playerId,
+    isOriginalCapital: !Object.values(state.cities).some(other => other.originalPlayerId === playerId),
+    x,
+    y,
+    population: 1,
+    maxPopulation: 5,
+    health: 100,
+    maxHealth: 100,
+    hasStruck: false,
+    food: 0,
+    foodToGrow: getFoodToGrow(1),
+    production: 0,
+    faith: 0,
+    yields: { food: 0, production: 0, faith: 0 },
+    tileKeys: [],
+    workedTileKeys: [],
+    buildings: [],
+    currentProduction: null,
+    productionQueue: [],
+    tradeRoutes: []
+  };
+
+  if (population !== undefined) {
+    city.population = Math.max(1, Math.min(city.maxPopulation, population));
+  } else {
+    // Some factions settle new cities with more people
+    const extraPopulation = getModifierTotal(state, playerId, ModifierStat.STARTING_POPULATION, { city });
+    city.population = Math.min(city.maxPopulation, city.population + extraPopulation);
+  }
+  city.foodToGrow = getFoodToGrow(city.population);
+
+  state.cities[id] = city;
+
+  ctx.emit(EVENTS.CITY_FOUNDED, { city });
+
+  claimInitialTerritory(ctx, city);
+  city.yields = calculateCityYields(ctx, city);
+
+  return city;
+}
+
+/**
+ * Claim a tile for a city
+ */
+function claimTile(ctx: RuleContext, city: CityState, tile: TileState): void {
+  // Tiles owned by another player are contested and left alone
+  if (tile.ownerId && tile.ownerId !== city.playerId) return;
+  if (tile.cityId && tile.cityId !== city.id) return;
+
+  tile.ownerId = city.playerId;
+  tile.cityId = city.id;
+
+  const key = tileKey(tile.x, tile.y);
+  if (!city.tileKeys.includes(key)) {
+    city.tileKeys.push(key);
+  }
+
+  ctx.emit(EVENTS.CITY_CLAIMED_TILE, {
+    cityId: city.id,
+    playerId: city.playerId,
+    position: { x: tile.x, y: tile.y }
+  });
+}
+
+/**
+ * Claim the city tile and its surrounding ring
+ */
+function claimInitialTerritory(ctx: RuleContext, city: CityState): void {
+  const centerTile = getTile(ctx.state, city.x, city.y);
+  if (centerTile) {
+    claimTile(ctx, city, centerTile);
+  }
+
+  getSurroundingPositions(ctx.state, city.x, city.y).forEach(pos => {
+    const tile = getTile(ctx.state, pos.x, pos.y);
+    if (tile) {
+      claimTile(ctx, city, tile);
+    }
+  });
+
+  assignCitizensToWork(ctx, city);
+}
+
+/**
+ * Expand the city's territory by claiming the best unclaimed neighbouring tile
+ */
+export function expandTerritory(ctx: RuleContext, city: CityState): void {
+  const candidates: TileState[] = [];
+
+  city.tileKeys.forEach(key => {
+    const { x, y } = parseTileKey(key);
+
+    getSurroundingPositions(ctx.state, x, y).forEach(pos => {
+      const tile = getTile(ctx.state, pos.x, pos.y);
+      if (tile && !tile.ownerId && !candidates.includes(tile)) {
+        candidates.push(tile);
+      }
+    });
+  });
+
+  if (candidates.length === 0) return;
+
+  // Claim the highest scoring tile
+  candidates.sort((a, b) => scoreWorkedTile(ctx.state, b) - scoreWorkedTile(ctx.state, a));
+  claimTile(ctx, city, candidates[0]);
+
+  if (city.workedTileKeys.length < city.population) {
+    assignCitizensToWork(ctx, city);
+  }
+}
+
+/**
+ * Assign citizens to work the best tiles in the city's territory
+ */
+export function assignCitizensToWork(ctx: RuleContext, city: CityState): void {
+  const scored = city.tileKeys.map(key => {
+    const tile = getTileByKey(ctx.state, key);
+    return { key, score: tile ? scoreWorkedTile(ctx.state, tile) : 0 };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+
+  city.workedTileKeys = scored.slice(0, city.population).map(entry => entry.key);
+}
+
+/**
+ * Calculate a city's per-turn yields from worked tiles and buildings
+ */
+export function calculateCityYields(ctx: RuleContext, city: CityState): ResourceAmounts {
+  const yields: ResourceAmounts = { food: 0, production: 0, faith: 0 };
+
+  city.workedTileKeys.forEach(key => {
+    const tile = getTileByKey(ctx.state, key);
+    if (!tile) return;
+
+    const tileYields = getWorkedTileYields(ctx.state, tile);
+    yields.food += tileYields.food;
+    yields.production += tileYields.production + getModifierTotal(ctx.state, city.playerId, ModifierStat.PRODUCTION_YIELD, { tile });
+    yields.faith += tileYields.faith + getModifierTotal(ctx.state, city.playerId, ModifierStat.FAITH_YIELD, { tile });
+  });
+
+  // City-wide faction bonuses
+  yields.production += getModifierTotal(ctx.state, city.playerId, ModifierStat.PRODUCTION_YIELD, { city });
+  yields.faith += getModifierTotal(ctx.state, city.playerId, ModifierStat.FAITH_YIELD, { city });
+
+  const tradeYields = getTradeRouteYields(ctx.state, city);
+  yields.food += tradeYields.food;
+  yields.production += tradeYields.production;
+  yields.faith += tradeYields.faith;
+
+  return applyBuildingEffects(ctx.state, city, yields);
+}
+
+/**
+ * Add an item to a city's production queue
+ */
+export function queueProduction(ctx: RuleContext, cityId: string, item: Omit<ProductionItem, 'progress'>): boolean {
+  const city = ctx.state.cities[cityId];
+  if (!city) return false;
+
+  const entry: ProductionItem = { ...item, progress: 0 };
+
+  if (!city.currentProduction) {
+    city.currentProduction = entry;
+  } else {
+    city.productionQueue.push(entry);
+  }
+
+  ctx.emit(EVENTS.CITY_PRODUCTION_CHANGED, {
+    cityId,
+    playerId: city.playerId,
+    currentProduction: city.currentProduction,
+    queue: city.productionQueue
+  });
+
+  return true;
+}
+
+/**
+ * Process food consumption and population growth
+ */
+function processFood(ctx: RuleContext, city: CityState): void {
+  // Each citizen eats one food, and buildings speed up growth from the surplus
+  let surplus = city.yields.food - city.population;
+  if (surplus > 0) {
+    surplus = Math.floor(surplus * (100 + getCityBonus(city, BuildingBonus.GROWTH)) / 100);
+  }
+  city.food = Math.max(0, city.food + surplus);
+
+  if (city.food >= city.foodToGrow && city.population < city.maxPopulation) {
+    city.food -= city.foodToGrow;
+    city.population += 1;
+    city.foodToGrow = getFoodToGrow(city.population);
+
+    assignCitizensToWork(ctx, city);
+
+    ctx.emit(EVENTS.CITY_GREW, {
+      cityId: city.id,
+      playerId: city.playerId,
+      newPopulation: city.population
+    });
+  }
+}
+
+/**
+ * Complete the item currently in production
+ */
+function completeProduction(ctx: RuleContext, city: CityState, item: ProductionItem): void {
+  if (item.type === 'unit') {
+    const unit = createUnitNear(ctx, item.id, city.playerId, city.x, city.y);
+
+    ctx.emit(EVENTS.CITY_PRODUCED_UNIT, {
+      cityId: city.id,
+      playerId: city.playerId,
+      unitId: unit?.id,
+      unitType: item.id,
+      unitName: item.name
+    });
+  } else {
+    if (!city.buildings.includes(item.id)) {
+      city.buildings.push(item.id);
+    }
+
+    ctx.emit(EVENTS.CITY_BUILT_BUILDING, {
+      cityId: city.id,
+      playerId: city.playerId,
+      buildingId: item.id,
+      buildingName: item.name
+    });
+  }
+}
+
+/**
+ * Add this turn's production and complete the current item when finished
+ */
+function processProduction(ctx: RuleContext, city: CityState): void {
+  city.production += city.yields.production;
+
+  const item = city.currentProduction;
+  if (!item) return;
+
+  // Military buildings speed up unit training
+  const bonus = item.type === 'unit' ? getCityBonus(city, BuildingBonus.UNIT_TRAINING) : 0;
+  item.progress += Math.floor(city.yields.production * (100 + bonus) / 100);
+
+  if (item.progress >= item.cost) {
+    completeProduction(ctx, city, item);
+
+    city.production = 0;
+    city.currentProduction = city.productionQueue.shift() ?? null;
+
+    ctx.emit(EVENTS.CITY_PRODUCTION_CHANGED, {
+      cityId: city.id,
+      playerId: city.playerId,
+      currentProduction: city.currentProduction,
+      queue: city.productionQueue
+    });
+  }
+}
+
+/**
+ * Process a city's turn - gather resources, handle growth and production
+ */
+export function processCity(ctx: RuleContext, city: CityState): ResourceAmounts {
+  city.yields = calculateCityYields(ctx, city);
+
+  processFood(ctx, city);
+  processProduction(ctx, city);
+  city.faith += city.yields.faith;
+
+  if (ctx.random('cities') < TERRITORY_EXPANSION_CHANCE) {
+    expandTerritory(ctx, city);
+  }
+
+  // Buildings or new citizens may have changed the yields
+  city.yields = calculateCityYields(ctx, city);
+
+  ctx.emit(EVENTS.CITY_PROCESSED, {
+    cityId: city.id,
+    playerId: city.playerId,
+    population: city.population,
+    food: city.food,
+    production: city.production,
+    faith: city.faith,
+    yields: { ...city.yields },
+    currentProduction: city.currentProduction
+  });
+
+  return city.yields;
+}
@@ -0,0 +1,466 @@
+/**
+ * Combat rules: unit versus unit, and which units can attack cities
+ * (the siege and capture of cities are conquest rules)
+ */
+import { EVENTS } from '../../utils/events';
+import { getAdjacentPositions, getDistance, getTile, getUnitAt } from '../state';
+import { ModifierStat } from '../../config/factions';
+import { EXPERIENCE_REWARDS, PromotionStat } from '../../config/promotions';
+import { TerrainType, getTerrainConfig } from '../../config/terrain';
+import { CombatLogEntry, CombatModifier, CombatStrength, GameState, GridPosition, RuleContext, UnitState } from '../types';
+import { FORTIFY_BONUS, damageUnit } from './units';
+import { getTileDefensiveBonus, isWaterTile } from './tiles';
+import { applyPercentage, getModifierSources } from './modifiers';
+import { getPromotionSources, grantExperience } from './promotions';
+
+// Strength a unit would lose with no health left, in proportion to the health it is missing (percent)
+const WOUNDED_PENALTY = 50;
+
+// Attack strength lost by melee units attacking out of a river (percent)
+const RIVER_CROSSING_PENALTY = 25;
+
+// Attack strength lost by melee attacks from water onto land (percent)
+const AMPHIBIOUS_PENALTY = 33;
+
+// Attack strength lost by defenders striking back (percent)
+const COUNTER_PENALTY = 30;
+
+// Strength added for each other friendly combat unit next to the defender (percent)
+const FLANKING_BONUS = 10;
+const SUPPORT_BONUS = 10;
+
+// Most neighbouring units that count towards flanking or support
+const MAX_SUPPORTING_UNITS = 3;
+
+// Most fights kept in the combat log
+const COMBAT_LOG_LENGTH = 50;
+
+// How far rolled damage can fall either side of the expected value
+const DAMAGE_SPREAD = 0.2;
+
+/**
+ * Result of a unit attacking another unit
+ */
+export interface CombatResult {
+  damage: number;
+  counterDamage: number;
+  attackerKilled: boolean;
+  defenderKilled: boolean;
+}
+
+/**
+ * Range of damage one side of a fight can deal
+ */
+export interface DamageRange {
+  min: number;
+  max: number;
+  expected: number;
+}
+
+/**
+ * Likely outcome of a unit attacking another unit, before any dice are rolled
+ */
+export interface CombatPrediction {
+  attackStrength: number;
+  defenseStrength: number;
+  attackModifiers: CombatModifier[];
+  defenseModifiers: CombatModifier[];
+  damage: DamageRange; // Dealt to the defender
+  counterDamage: DamageRange; // Dealt back to the attacker, counting the chance there is no counterattack
+  defenderKillChance: number; // 0-1
+  attackerKillChance: number; // 0-1
+}
+
+/**
+ * Get the terrain defence bonus of a unit as a fraction (0.25 = +25%)
+ */
+export function getTerrainDefenseBonus(state: GameState, unit: UnitState): number {
+  const tile = getTile(state, unit.x, unit.y);
+  return tile ? getTileDefensiveBonus(tile) / 100 : 0;
+}
+
+/**
+ * Check if an attack on a target is a melee attack
+ */
+export function isMeleeAttack(state: GameState, unit: UnitState, target: GridPosition): boolean {
+  return unit.range <= 1 && getDistance(state, unit, target) === 1;
+}
+
+/**
+ * Check if a melee attack on a target has to be made across a river
+ */
+function isRiverCrossing(state: GameState, unit: UnitState, target: GridPosition): boolean {
+  if (!isMeleeAttack(state, unit, target)) return false;
+  return getTile(state, unit.x, unit.y)?.terrainType === TerrainType.RIVER;
+}
+
+/**
+ * Check if a melee attack on a target is made from water onto land
+ */
+function isAmphibiousAttack(state: GameState, unit: UnitState, target: GridPosition): boolean {
+  if (!isMeleeAttack(state, unit, target)) return false;
+
+  const from = getTile(state, unit.x, unit.y);
+  const to = getTile(state, target.x, target.y);
+  return !!from && !!to && isWaterTile(from) && !isWaterTile(to);
+}
+
+/**
+ * Apply strength modifiers to a base strength
+ */
+function applyCombatModifiers(strength: number, modifiers: CombatModifier[]): number {
+  const total = modifiers.reduce((sum, modifier) => sum + modifier.value, 0);
+  return strength * (100 + total) / 100;
+}
+
+/**
+ * Work out a strength from its base and modifiers
+ */
+export function createStrength(base: number, modifiers: CombatModifier[]): CombatStrength {
+  return { base, strength: applyCombatModifiers(base, modifiers), modifiers };
+}
+
+/**
+ * Get the strength a unit loses to its wounds at a given health
+ */
+function getHealthModifiers(unit: UnitState, health: number = unit.health): CombatModifier[] {
+  if (health >= unit.maxHealth) return [];
+
+  const penalty = Math.round(WOUNDED_PENALTY * (1 - health / unit.maxHealth));
+  return penalty > 0 ? [{ name: `Wounded (${health}/${unit.maxHealth} health)`, value: -penalty }] : [];
+}
+
+/**
+ * Count a player's combat units next to a position, other than the given unit, up to the most that count
+ */
+function countSupportingUnits(state: GameState, playerId: string, pos: GridPosition, excludeId: string): number {
+  const count = getAdjacentPositions(state, pos.x, pos.y).filter(next => {
+    const unit = getUnitAt(state, next.x, next.y);
+    return !!unit && unit.id !== excludeId && unit.playerId === playerId && unit.attack > 0;
+  }).length;
+
+  return Math.min(MAX_SUPPORTING_UNITS, count);
+}
+
+/**
+ * Get everything that changes a unit's strength when attacking a target:
+ * faction bonuses, promotions, wounds, flanking, and river and amphibious attacks
+ */
+export function getAttackModifiers(state: GameState, unit: UnitState, target?: GridPosition): CombatModifier[] {
+  const targetTile = target ? getTile(state, target.x, target.y) : undefined;
+  const modifiers: CombatModifier[] = [
+    ...getModifierSources(state, unit.playerId, ModifierStat.ATTACK_STRENGTH, { unitType: unit.type }),
+    ...getPromotionSources(unit, PromotionStat.ATTACK_STRENGTH, targetTile),
+    ...getHealthModifiers(unit)
+  ];
+  if (!target) return modifiers;
+
+  const flanking = countSupportingUnits(state, unit.playerId, target, unit.id);
+  if (flanking > 0) {
+    modifiers.push({ name: `Flanking (${flanking} ${flanking === 1 ? 'unit' : 'units'})`, value: flanking * FLANKING_BONUS });
+  }
+  if (isRiverCrossing(state, unit, target)) {
+    modifiers.push({ name: 'Attacking out of a river', value: -RIVER_CROSSING_PENALTY });
+  }
+  if (isAmphibiousAttack(state, unit, target)) {
+    modifiers.push({ name: 'Amphibious attack', value: -AMPHIBIOUS_PENALTY });
+  }
+  return modifiers;
+}
+
+/**
+ * Check if a unit fights from range, so defences against ranged attacks apply
+ */
+export function isRangedUnit(unit: UnitState): boolean {
+  return unit.range > 1;
+}
+
+/**
+ * Get everything that changes a unit's strength when defending: terrain,
+ * promotions, fortification, supporting units and wounds. Ranged defences
+ * only count against ranged attacks.
+ */
+export function getDefenseModifiers(state: GameState, unit: UnitState, ranged: boolean = false): CombatModifier[] {
+  const tile = getTile(state, unit.x, unit.y);
+  if (!tile) return [];
+
+  const modifiers: CombatModifier[] = [];
+  const bonus = getTileDefensiveBonus(tile);
+  if (bonus !== 0) {
+    const terrainName = getTerrainConfig(tile.terrainType).name;
+    modifiers.push({ name: tile.improvement === 'fort' ? `${terrainName} with fort` : terrainName, value: bonus });
+  }
+
+  modifiers.push(...getPromotionSources(unit, PromotionStat.DEFENSE_STRENGTH, tile));
+  if (ranged) {
+    modifiers.push(...getPromotionSources(unit, PromotionStat.RANGED_DEFENSE, tile));
+  }
+
+  if (unit.fortification > 0) {
+    const turns = unit.fortification;
+    modifiers.push({ name: `Fortified (${turns} ${turns === 1 ? 'turn' : 'turns'})`, value: turns * FORTIFY_BONUS });
+  }
+
+  const support = countSupportingUnits(state, unit.playerId, unit, unit.id);
+  if (support > 0) {
+    modifiers.push({ name: `Support (${support} ${support === 1 ? 'unit' : 'units'})`, value: support * SUPPORT_BONUS });
+  }
+
+  modifiers.push(...getHealthModifiers(unit));
+  return modifiers;
+}
+
+/**
+ * Get a unit's strength when attacking a target, after all attack modifiers
+ */
+export function getAttackStrength(state: GameState, unit: UnitState, target?: GridPosition): number {
+  return applyCombatModifiers(unit.attack, getAttackModifiers(state, unit, target));
+}
+
+/**
+ * Get a unit's strength when defending, after all defence modifiers
+ */
+export function getDefenseStrength(state: GameState, unit: UnitState, ranged: boolean = false): number {
+  return applyCombatModifiers(unit.defense, getDefenseModifiers(state, unit, ranged));
+}
+
+/**
+ * Check if a defender that survives an attack strikes back: it needs attack
+ * strength and the attacker within its own reach
+ */
+export function canCounterAttack(state: GameState, attacker: UnitState, defender: UnitState): boolean {
+  return defender.attack > 0 && isInAttackRange(defender, getDistance(state, attacker, defender));
+}
+
+/**
+ * Get a defender's strength when striking back with the health it has left
+ */
+function getCounterAttack(defender: UnitState, health: number): CombatStrength {
+  return createStrength(defender.attack, [
+    { name: 'Striking back', value: -COUNTER_PENALTY },
+    ...getHealthModifiers(defender, health)
+  ]);
+}
+
+/**
+ * Get an attacker's strength against the defender striking back
+ */
+function getCounterDefense(state: GameState, attacker: UnitState, defender: UnitState): CombatStrength {
+  // Attacking ends fortification
+  return createStrength(attacker.defense, getDefenseModifiers(state, { ...attacker, fortification: 0 }, isRangedUnit(defender)));
+}
+
+/**
+ * Roll damage for an attack, with a ±20% spread around the expected value
+ */
+export function rollDamage(attackStrength: number, defenseStrength: number, roll: number): number {
+  const spread = 1 - DAMAGE_SPREAD + roll * DAMAGE_SPREAD * 2;
+  const damage = Math.round(attackStrength * (10 / (10 + defenseStrength)) * spread);
+  return Math.max(1, damage); // Minimum damage of 1
+}
+
+/**
+ * Get the chance of each amount of damage rollDamage can give
+ * @returns Chance (0-1) of each damage amount, by amount
+ */
+export function getDamageChances(attackStrength: number, defenseStrength: number): Map<number, number> {
+  const expected = attackStrength * (10 / (10 + defenseStrength));
+  const low = expected * (1 - DAMAGE_SPREAD);
+  const high = expected * (1 + DAMAGE_SPREAD);
+  const chances = new Map<number, number>();
+
+  if (high <= low) {
+    chances.set(Math.max(1, Math.round(expected)), 1);
+    return chances;
+  }
+
+  // Rolls are spread evenly between low and high, then rounded to the nearest whole amount
+  for (let amount = Math.round(low); amount <= Math.round(high); amount++) {
+    const overlap = Math.min(high, amount + 0.5) - Math.max(low, amount - 0.5);
+    if (overlap <= 0) continue;
+
+    const damage = Math.max(1, amount);
+    chances.set(damage, (chances.get(damage) ?? 0) + overlap / (high - low));
+  }
+
+  return chances;
+}
+
+/**
+ * Get the range of a set of damage chances
+ */
+function getDamageRange(chances: Map<number, number>): DamageRange {
+  const amounts = Array.from(chances.keys());
+  if (amounts.length === 0) return { min: 0, max: 0, expected: 0 };
+
+  let expected = 0;
+  chances.forEach((chance, amount) => {
+    expected += chance * amount;
+  });
+
+  return { min: Math.min(...amounts), max: Math.max(...amounts), expected };
+}
+
+/**
+ * Predict the outcome of a unit attacking another unit without changing anything,
+ * using the same strengths and damage rolls resolveCombat does
+ */
+export function predictCombat(state: GameState, attacker: UnitState, defender: UnitState): CombatPrediction {
+  const attack = createStrength(attacker.attack, getAttackModifiers(state, attacker, defender));
+  const defense = createStrength(defender.defense, getDefenseModifiers(state, defender, isRangedUnit(attacker)));
+  const damageChances = getDamageChances(attack.strength, defense.strength);
+  const counterDefense = canCounterAttack(state, attacker, defender) ? getCounterDefense(state, attacker, defender) : null;
+
+  let defenderKillChance = 0;
+  let attackerKillChance = 0;
+  const counter = { min: Infinity, max: 0, expected: 0 };
+
+  damageChances.forEach((chance, damage) => {
+    if (damage >= defender.health) {
+      defenderKillChance += chance;
+      counter.min = 0;
+      return;
+    }
+    if (!counterDefense) {
+      counter.min = 0;
+      return;
+    }
+
+    // Defenders strike back weakened by the damage just taken
+    const counterAttack = getCounterAttack(defender, defender.health - damage);
+    getDamageChances(counterAttack.strength, counterDefense.strength).forEach((counterChance, counterDamage) => {
+      counter.min = Math.min(counter.min, counterDamage);
+      counter.max = Math.max(counter.max, counterDamage);
+      counter.expected += chance * counterChance * counterDamage;
+
+      if (counterDamage >= attacker.health) {
+        attackerKillChance += chance * counterChance;
+      }
+    });
+  });
+
+  return {
+    attackStrength: attack.strength,
+    defenseStrength: defense.strength,
+    attackModifiers: attack.modifiers,
+    defenseModifiers: defense.modifiers,
+    damage: getDamageRange(damageChances),
+    counterDamage: { ...counter, min: Number.isFinite(counter.min) ? counter.min : 0 },
+    defenderKillChance,
+    attackerKillChance
+  };
+}
+
+/**
+ * Add a fight to the combat log, dropping the oldest beyond its length
+ */
+function logCombat(state: GameState, entry: CombatLogEntry): void {
+  state.combatLog = [...(state.combatLog ?? []), entry].slice(-COMBAT_LOG_LENGTH);
+}
+
+/**
+ * Check if a unit can attack a target position at the given distance
+ */
+function isInAttackRange(attacker: UnitState, distance: number): boolean {
+  // Melee units attack adjacent tiles, ranged units anything within range
+  return distance >= 1 && distance <= Math.max(1, attacker.range);
+}
+
+/**
+ * Check if a unit can attack another unit
+ */
+export function canAttack(state: GameState, attackerId: string, defenderId: string): boolean {
+  const attacker = state.units[attackerId];
+  const defender = state.units[defenderId];
+
+  if (!attacker || !defender) return false;
+  if (attacker.hasActed || attacker.attack <= 0) return false;
+  if (attacker.playerId === defender.playerId) return false;
+
+  return isInAttackRange(attacker, getDistance(state, attacker, defender));
+}
+
+/**
+ * Check if a unit can attack a city
+ */
+export function canAttackCity(state: GameState, attackerId: string, cityId: string): boolean {
+  const attacker = state.units[attackerId];
+  const city = state.cities[cityId];
+
+  if (!attacker || !city) return false;
+  if (attacker.hasActed || attacker.attack <= 0) return false;
+  if (attacker.playerId === city.playerId) return false;
+
+  return isInAttackRange(attacker, getDistance(state, attacker, city));
+}
+
+/**
+ * Resolve combat between two units
+ */
+export function resolveCombat(ctx: RuleContext, attackerId: string, defenderId: string): CombatResult {
+  const { state } = ctx;
+  const attacker = state.units[attackerId];
+  const defender = state.units[defenderId];
+
+  if (!attacker || !defender) {
+    return { damage: 0, counterDamage: 0, attackerKilled: false, defenderKilled: false };
+  }
+
+  // Calculate attack damage
+  const attack = createStrength(attacker.attack, getAttackModifiers(state, attacker, defender));
+  const defense = createStrength(defender.defense, getDefenseModifiers(state, defender, isRangedUnit(attacker)));
+  const damage = rollDamage(attack.strength, defense.strength, ctx.random('combat'));
+
+  attacker.hasActed = true;
+  attacker.movementLeft = 0;
+  attacker.fortification = 0;
+
+  const entry: CombatLogEntry = {
+    turn: state.turn,
+    attackerId,
+    attackerType: attacker.type,
+    attackerPlayerId: attacker.playerId,
+    defenderId,
+    defenderType: defender.type,
+    defenderPlayerId: defender.playerId,
+    attack,
+    defense,
+    damage,
+    counterAttack: null,
+    counterDefense: null,
+    counterDamage: 0,
+    attackerKilled: false,
+    defenderKilled: damageUnit(ctx, defender.id, damage)
+  };
+
+  // Defenders that survive strike back if the attacker is within their reach
+  if (!entry.defenderKilled && canCounterAttack(state, attacker, defender)) {
+    entry.counterAttack = getCounterAttack(defender, defender.health);
+    entry.counterDefense = getCounterDefense(state, attacker, defender);
+    entry.counterDamage = rollDamage(entry.counterAttack.strength, entry.counterDefense.strength, ctx.random('combat'));
+    entry.attackerKilled = damageUnit(ctx, attacker.id, entry.counterDamage);
+  }
+
+  const { counterDamage, attackerKilled, defenderKilled } = entry;
+  logCombat(state, entry);
+
+  ctx.emit(EVENTS.UNIT_ATTACKED, {
+    attackerId,
+    defenderId,
+    damage,
+    counterDamage,
+    attackerKilled,
+    defenderKilled,
+    log: entry
+  });
+
+  // Survivors learn from the fight
+  if (!attackerKilled) {
+    grantExperience(ctx, attackerId, EXPERIENCE_REWARDS.attack + (defenderKilled ? EXPERIENCE_REWARDS.kill : 0));
+  }
+  if (!defenderKilled) {
+    grantExperience(ctx, defenderId, EXPERIENCE_REWARDS.defend);
+  }
+
+  return { damage, counterDamage, attackerKilled, defenderKilled };
+}
@@ -0,0 +1,474 @@
+/**
+ * Conquest rules: cities defending themselves, recovering between sieges and
+ * changing hands.
+ *
+ * Cities strike at nearby enemies and hit back at melee attackers with a
+ * strength from their population, walls and garrison. A city beaten down to no
+ * health falls to the melee unit that attacked it, and its conqueror may keep,
+ * raze or liberate it. Whoever holds every other player's original capital
+ * wins by domination.
+ */
+import { BuildingBonus, getBuildingDefinition } from '../../config/buildings';
+import { ModifierStat } from '../../config/factions';
+import { EXPERIENCE_REWARDS } from '../../config/promotions';
+import { getUnitDefinition } from '../../config/units';
+import { EVENTS } from '../../utils/events';
+import { getDistance, getPlayerCities, getPlayerUnits, getSurroundingPositions, getTile, getTileByKey, getUnitAt } from '../state';
+import { CityState, CombatModifier, CombatStrength, GameState, ProductionItem, RuleContext, UnitState } from '../types';
+import { getCityBuildings } from './buildings';
+import { assignCitizensToWork, calculateCityYields, getFoodToGrow } from './cities';
+import { createStrength, getAttackStrength, getDefenseStrength, isMeleeAttack, rollDamage } from './combat';
+import { getModifierSources } from './modifiers';
+import { grantExperience } from './promotions';
+import { hasTech } from './research';
+import { removeTradeRoutesTo } from './trade';
+import { canTrainUnit, canUnitTypeOccupy, damageUnit, hasAbility, removeUnit } from './units';
+
+// Strength of a city before its population counts
+const CITY_BASE_STRENGTH = 3;
+
+// Strength each citizen adds to its city
+const CITY_STRENGTH_PER_POPULATION = 1;
+
+// Strength a garrison adds for each point of its own attack strength (percent)
+const GARRISON_BONUS = 5;
+
+// Share of its strength a city hits back at melee attackers with
+const CITY_COUNTER_STRENGTH = 0.5;
+
+// How far a city's ranged strike reaches
+export const CITY_STRIKE_RANGE = 2;
+
+// Health a city that is not under siege recovers each turn (of 100)
+const CITY_REGENERATION = 10;
+
+// Health a city is left with when it changes hands
+const CAPTURED_CITY_HEALTH = 25;
+
+// Chance each building is destroyed when its city is captured
+const BUILDING_DESTRUCTION_CHANCE = 0.33;
+
+/**
+ * Result of a unit attacking a city
+ */
+export interface CityCombatResult {
+  damage: number;
+  counterDamage: number;
+  cityDefeated: boolean;
+  captured: boolean;
+}
+
+/**
+ * Get the combat unit standing in a city to defend it, if any
+ */
+function getGarrison(state: GameState, city: CityState): UnitState | undefined {
+  const unit = getUnitAt(state, city.x, city.y);
+  return unit && unit.playerId === city.playerId && unit.attack > 0 ? unit : undefined;
+}
+
+/**
+ * Get everything that strengthens a city: faction bonuses, walls and other
+ * defensive buildings, and its garrison
+ */
+export function getCityDefenseModifiers(state: GameState, city: CityState): CombatModifier[] {
+  const modifiers: CombatModifier[] = getModifierSources(state, city.playerId, ModifierStat.CITY_DEFENSE, { city });
+
+  getCityBuildings(city).forEach(building => {
+    const value = building.effects
+      .filter(effect => effect.bonus === BuildingBonus.CITY_DEFENSE && effect.type === 'percentage')
+      .reduce((total, effect) => total + effect.amount, 0);
+    if (value !== 0) {
+      modifiers.push({ name: building.name, value });
+    }
+  });
+
+  const garrison = getGarrison(state, city);
+  if (garrison) {
+    const name = getUnitDefinition(garrison.type)?.name ?? garrison.type;
+    modifiers.push({ name: `Garrison (${name})`, value: garrison.attack * GARRISON_BONUS });
+  }
+
+  return modifiers;
+}
+
+/**
+ * Get the strength a city strikes and hits back with
+ */
+export function getCityStrength(state: GameState, city: CityState): CombatStrength {
+  const base = CITY_BASE_STRENGTH + city.population * CITY_STRENGTH_PER_POPULATION;
+  return createStrength(base, getCityDefenseModifiers(state, city));
+}
+
+/**
+ * Check if enemy combat units stand around a city, keeping it from recovering
+ */
+export function isCityBesieged(state: GameState, city: CityState): boolean {
+  return getSurroundingPositions(state, city.x, city.y).some(pos => {
+    const unit = getUnitAt(state, pos.x, pos.y);
+    return !!unit && unit.playerId !== city.playerId && unit.attack > 0;
+  });
+}
+
+/**
+ * Ready a city's defences for its owner's turn: it may strike again and, unless
+ * besieged, recovers some health
+ */
+export function refreshCityDefenses(ctx: RuleContext, city: CityState): void {
+  city.hasStruck = false;
+  if (city.health >= city.maxHealth || isCityBesieged(ctx.state, city)) return;
+
+  city.health = Math.min(city.maxHealth, city.health + CITY_REGENERATION);
+
+  ctx.emit(EVENTS.CITY_HEALED, {
+    cityId: city.id,
+    playerId: city.playerId,
+    health: city.health
+  });
+}
+
+/**
+ * Check if a city can strike a unit this turn
+ */
+export function canCityStrike(state: GameState, cityId: string, targetId: string): boolean {
+  const city = state.cities[cityId];
+  const target = state.units[targetId];
+
+  if (!city || !target) return false;
+  if (city.hasStruck || city.health <= 0) return false;
+  if (target.playerId === city.playerId) return false;
+
+  return getDistance(state, city, target) <= CITY_STRIKE_RANGE;
+}
+
+/**
+ * Get the enemy units a city could strike this turn
+ */
+export function getCityStrikeTargets(state: GameState, cityId: string): UnitState[] {
+  return Object.values(state.units).filter(unit => canCityStrike(state, cityId, unit.id));
+}
+
+/**
+ * Strike a unit from a city
+ */
+export function cityStrike(ctx: RuleContext, cityId: string, targetId: string): void {
+  const { state } = ctx;
+  const city = state.cities[cityId];
+  const target = state.units[targetId];
+  if (!city || !target) return;
+
+  const strength = getCityStrength(state, city);
+  // City strikes are ranged, so ranged defences count against them
+  const damage = rollDamage(strength.strength, getDefenseStrength(state, target, true), ctx.random('combat'));
+  city.hasStruck = true;
+
+  const targetKilled = damageUnit(ctx, targetId, damage);
+
+  ctx.emit(EVENTS.CITY_STRUCK, {
+    cityId,
+    playerId: city.playerId,
+    targetId,
+    damage,
+    targetKilled
+  });
+}
+
+/**
+ * Resolve a unit attacking a city (cities use a 0-100 health scale). Melee
+ * attackers take damage back, and take the city if it falls.
+ */
+export function resolveCityCombat(ctx: RuleContext, attackerId: string, cityId: string): CityCombatResult {
+  const { state } = ctx;
+  const attacker = state.units[attackerId];
+  const city = state.cities[cityId];
+
+  if (!attacker || !city) {
+    return { damage: 0, counterDamage: 0, cityDefeated: false, captured: false };
+  }
+
+  // Cities are easier to damage than units
+  const attackStrength = getAttackStrength(state, attacker, city);
+  const rawDamage = Math.max(1, Math.round(attackStrength * 1.5 * (0.8 + ctx.random('combat') * 0.4)));
+
+  // Stronger city defences absorb part of the damage
+  const defenseModifier = getCityDefenseModifiers(state, city).reduce((total, modifier) => total + modifier.value, 0);
+  const damage = Math.round((rawDamage / 15) * 10 * 100 / (100 + defenseModifier));
+
+  const melee = isMeleeAttack(state, attacker, city);
+  attacker.hasActed = true;
+  attacker.movementLeft = 0;
+  attacker.fortification = 0;
+
+  city.health = Math.max(0, city.health - damage);
+  const cityDefeated = city.health <= 0;
+
+  // Standing cities hit back at melee attackers
+  let counterDamage = 0;
+  let attackerKilled = false;
+  if (melee && !cityDefeated) {
+    const counterStrength = getCityStrength(state, city).strength * CITY_COUNTER_STRENGTH;
+    counterDamage = rollDamage(counterStrength, getDefenseStrength(state, attacker), ctx.random('combat'));
+    attackerKilled = damageUnit(ctx, attackerId, counterDamage);
+  }
+
+  ctx.emit(EVENTS.CITY_ATTACKED, {
+    attackerId,
+    cityId,
+    damage,
+    health: city.health,
+    counterDamage,
+    attackerKilled
+  });
+
+  if (!attackerKilled) {
+    grantExperience(ctx, attackerId, EXPERIENCE_REWARDS.attackCity);
+  }
+
+  if (cityDefeated) {
+    ctx.emit(EVENTS.CITY_DEFEATED, {
+      cityId,
+      playerId: city.playerId,
+      attackerPlayerId: attacker.playerId,
+      position: { x: city.x, y: city.y }
+    });
+  }
+
+  // Only melee units that can stand in the city take it; others leave it at no health
+  const captured = cityDefeated && canCaptureCity(state, attacker, city);
+  if (captured) {
+    captureCity(ctx, cityId, attackerId);
+  }
+
+  return { damage, counterDamage, cityDefeated, captured };
+}
+
+/**
+ * Check if a city's new owner could still produce an item it was working on
+ */
+function canStillProduce(state: GameState, city: CityState, item: ProductionItem): boolean {
+  if (item.type === 'unit') return canTrainUnit(state, city, item.id);
+
+  const definition = getBuildingDefinition(item.id);
+  const player = state.players[city.playerId];
+  if (!definition || !player || city.buildings.includes(definition.id)) return false;
+  if (definition.faction && definition.faction !== player.faction) return false;
+  return !definition.requiredTech || hasTech(state, city.playerId, definition.requiredTech);
+}
+
+/**
+ * Hand a city, its territory and what it was producing to another player
+ */
+function transferCity(ctx: RuleContext, city: CityState, playerId: string): void {
+  const { state } = ctx;
+  city.playerId = playerId;
+
+  city.tileKeys.forEach(key => {
+    const tile = getTileByKey(state, key);
+    if (tile) {
+      tile.ownerId = playerId;
+    }
+  });
+
+  city.productionQueue = city.productionQueue.filter(item => canStillProduce(state, city, item));
+  if (city.currentProduction && !canStillProduce(state, city, city.currentProduction)) {
+    city.currentProduction = city.productionQueue.shift() ?? null;
+  }
+
+  assignCitizensToWork(ctx, city);
+  city.yields = calculateCityYields(ctx, city);
+}
+
+/**
+ * Mark a player out of the game once they have no cities and no way to found
+ * one, removing the units they have left
+ */
+function updateElimination(ctx: RuleContext, playerId: string): void {
+  const { state } = ctx;
+  const player = state.players[playerId];
+  if (!player || player.isEliminated) return;
+
+  if (getPlayerCities(state, playerId).length > 0) return;
+  if (getPlayerUnits(state, playerId).some(unit => hasAbility(unit, 'found_city'))) return;
+
+  player.isEliminated = true;
+  getPlayerUnits(state, playerId).forEach(unit => removeUnit(ctx, unit.id));
+
+  ctx.emit(EVENTS.PLAYER_ELIMINATED, { playerId });
+}
+
+/**
+ * Check if a unit could take a city by beating it: it has to attack in melee
+ * and be able to stand on the city's tile, so ships cannot take land cities
+ */
+export function canCaptureCity(state: GameState, unit: UnitState, city: CityState): boolean {
+  const tile = getTile(state, city.x, city.y);
+  return isMeleeAttack(state, unit, city) && !!tile && canUnitTypeOccupy(unit.type, tile);
+}
+
+/**
+ * Take a city that has no health left with the melee unit that beat it: the
+ * garrison is lost, the city shrinks, some buildings are destroyed and the
+ * unit moves in
+ */
+export function captureCity(ctx: RuleContext, cityId: string, unitId: string): void {
+  const { state } = ctx;
+  const city = state.cities[cityId];
+  const unit = state.units[unitId];
+  if (!city || !unit) return;
+  if (!canCaptureCity(state, unit, city)) {
+    console.warn(`${unit.type} cannot take ${city.name}`);
+    return;
+  }
+
+  const previousPlayerId = city.playerId;
+
+  const garrison = getUnitAt(state, city.x, city.y);
+  if (garrison) {
+    removeUnit(ctx, garrison.id);
+  }
+
+  const destroyedBuildings = city.buildings.filter(() => ctx.random('combat') < BUILDING_DESTRUCTION_CHANCE);
+  city.buildings = city.buildings.filter(id => !destroyedBuildings.includes(id));
+  city.population = Math.max(1, city.population - 1);
+  city.foodToGrow = getFoodToGrow(city.population);
+  city.food = Math.min(city.food, city.foodToGrow);
+  city.health = CAPTURED_CITY_HEALTH;
+
+  // A city does not strike in the turn it changes hands
+  city.hasStruck = true;
+
+  transferCity(ctx, city, unit.playerId);
+
+  const from = { x: unit.x, y: unit.y };
+  unit.x = city.x;
+  unit.y = city.y;
+  unit.movementLeft = 0;
+
+  ctx.emit(EVENTS.UNIT_MOVED, {
+    unitId,
+    playerId: unit.playerId,
+    from,
+    newPosition: { x: city.x, y: city.y },
+    path: [from, { x: city.x, y: city.y }],
+    movementLeft: 0
+  });
+
+  ctx.emit(EVENTS.CITY_CAPTURED, {
+    cityId,
+    playerId: unit.playerId,
+    previousPlayerId,
+    unitId,
+    destroyedBuildings,
+    isOriginalCapital: city.isOriginalCapital,
+    tileKeys: [...city.tileKeys]
+  });
+
+  updateElimination(ctx, previousPlayerId);
+  checkDominationVictory(ctx);
+}
+
+/**
+ * Check if a player can raze a city: one they conquered, other than an original capital
+ */
+export function canRazeCity(state: GameState, playerId: string, cityId: string): boolean {
+  const city = state.cities[cityId];
+  return !!city && city.playerId === playerId && city.originalPlayerId !== playerId && !city.isOriginalCapital;
+}
+
+/**
+ * Burn a conquered city to the ground, freeing its territory
+ */
+export function razeCity(ctx: RuleContext, cityId: string): void {
+  const { state } = ctx;
+  const city = state.cities[cityId];
+  if (!city) return;
+
+  city.tileKeys.forEach(key => {
+    const tile = getTileByKey(state, key);
+    if (tile && tile.cityId === city.id) {
+      delete tile.ownerId;
+      delete tile.cityId;
+    }
+  });
+
+  delete state.cities[cityId];
+  removeTradeRoutesTo(state, cityId);
+
+  ctx.emit(EVENTS.CITY_RAZED, {
+    cityId,
+    playerId: city.playerId,
+    originalPlayerId: city.originalPlayerId,
+    name: city.name,
+    position: { x: city.x, y: city.y },
+    tileKeys: [...city.tileKeys]
+  });
+}
+
+/**
+ * Check if a player can liberate a city: one they conquered from a player still known to the game
+ */
+export function canLiberateCity(state: GameState, playerId: string, cityId: string): boolean {
+  const city = state.cities[cityId];
+  return !!city && city.playerId === playerId && city.originalPlayerId !== playerId && !!state.players[city.originalPlayerId];
+}
+
+/**
+ * Give a conquered city back to the player who founded it, bringing them back
+ * into the game if they had been eliminated
+ */
+export function liberateCity(ctx: RuleContext, cityId: string): void {
+  const { state } = ctx;
+  const city = state.cities[cityId];
+  const founder = city ? state.players[city.originalPlayerId] : undefined;
+  if (!city || !founder) return;
+
+  const liberatorId = city.playerId;
+  transferCity(ctx, city, founder.id);
+  founder.isEliminated = false;
+
+  ctx.emit(EVENTS.CITY_LIBERATED, {
+    cityId,
+    playerId: founder.id,
+    liberatorId,
+    tileKeys: [...city.tileKeys]
+  });
+}
+
+/**
+ * Get the city a player founded first, wherever it stands now
+ */
+function getOriginalCapital(state: GameState, playerId: string): CityState | undefined {
+  return Object.values(state.cities).find(city => city.originalPlayerId === playerId && city.isOriginalCapital);
+}
+
+/**
+ * Get the player who has won by domination, if any: the one holding the original
+ * capital of every other player still in the game
+ */
+export function getDominationWinner(state: GameState): string | null {
+  const contenders = state.playerOrder.filter(playerId => !state.players[playerId]?.isEliminated);
+
+  return contenders.find(playerId => state.playerOrder.every(otherId => (
+    otherId === playerId ||
+    state.players[otherId]?.isEliminated ||
+    getOriginalCapital(state, otherId)?.playerId === playerId
+  ))) ?? null;
+}
+
+/**
+ * End the game if a player has won by domination
+ */
+export function checkDominationVictory(ctx: RuleContext): void {
+  const { state } = ctx;
+  if (state.winner) return;
+
+  const winner = getDominationWinner(state);
+  if (!winner) return;
+
+  state.winner = winner;
+
+  ctx.emit(EVENTS.GAME_OVER, {
+    winnerId: winner,
+    victoryType: 'domination',
+    turn: state.turn
+  });
+}
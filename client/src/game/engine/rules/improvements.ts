@@ -0,0 +1,58 @@
+/**
+ * Improvement rules: workers building on tiles
+ */
+import { getImprovementDefinition } from '../../config/improvements';
+import { EXPERIENCE_REWARDS } from '../../config/promotions';
+import { EVENTS } from '../../utils/events';
+import { getTile } from '../state';
+import { GameState, RuleContext } from '../types';
+import { hasAbility } from './units';
+import { grantExperience } from './promotions';
+
+/**
+ * Check if a unit can build an improvement on the tile it stands on: it needs
+ * one of the improvement's abilities, and the tile its terrain or resource
+ */
+export function canBuildImprovement(state: GameState, unitId: string, improvementType: string): boolean {
+  const unit = state.units[unitId];
+  const improvement = getImprovementDefinition(improvementType);
+  if (!unit || !improvement || unit.hasActed) return false;
+  if (!improvement.abilities.some(ability => hasAbility(unit, ability))) return false;
+
+  const tile = getTile(state, unit.x, unit.y);
+  if (!tile || tile.improvement === improvementType) return false;
+
+  // Workers may only improve their own or unclaimed land
+  if (tile.ownerId && tile.ownerId !== unit.playerId) return false;
+
+  return improvement.terrain.includes(tile.terrainType) ||
+    (!!tile.resourceType && !!improvement.resources?.includes(tile.resourceType));
+}
+
+/**
+ * Build an improvement on the tile a worker stands on
+ */
+export function buildImprovement(ctx: RuleContext, unitId: string, improvementType: string): boolean {
+  if (!canBuildImprovement(ctx.state, unitId, improvementType)) {
+    console.warn('This unit cannot build improvements here');
+    return false;
+  }
+
+  const unit = ctx.state.units[unitId];
+  const tile = getTile(ctx.state, unit.x, unit.y)!;
+
+  tile.improvement = improvementType;
+  unit.hasActed = true;
+  unit.movementLeft = 0;
+
+  ctx.emit(EVENTS.IMPROVEMENT_BUILT, {
+    unitId,
+    playerId: unit.playerId,
+    position: { x: tile.x, y: tile.y },
+    improvementType
+  });
+
+  grantExperience(ctx, unitId, EXPERIENCE_REWARDS.buildImprovement);
+
+  return true;
+}
@@ -0,0 +1,117 @@
+/**
+ * Faction modifier rules: which of a player's faction bonuses apply to a city, tile or unit
+ */
+import { FactionModifier, ModifierScope, ModifierStat, getFactionConfig, getFactionModifiers } from '../../config/factions';
+import { getUnitDefinition, isNavalUnitType } from '../../config/units';
+import { getPlayerCities } from '../state';
+import { CityState, GameState, TileState } from '../types';
+
+/**
+ * What a modifier is being checked against
+ */
+export interface ModifierSubject {
+  city?: CityState;
+  tile?: TileState;
+  unitType?: string;
+}
+
+/**
+ * A faction bonus that changes a stat, and by how much
+ */
+export interface ModifierSource {
+  name: string;
+  value: number;
+}
+
+/**
+ * Get a player's capital - the oldest remaining city they founded themselves,
+ * or their oldest city if they have only conquered ones left
+ */
+export function getCapital(state: GameState, playerId: string): CityState | undefined {
+  const cities = getPlayerCities(state, playerId);
+  return cities.find(city => city.originalPlayerId === playerId) ?? cities[0];
+}
+
+/**
+ * Check if a modifier applies to a subject: the subject must match its scope and every condition
+ */
+function appliesTo(state: GameState, playerId: string, modifier: FactionModifier, subject: ModifierSubject): boolean {
+  const { city, tile, unitType } = subject;
+
+  if (modifier.scope === ModifierScope.CITY && !city) return false;
+  if (modifier.scope === ModifierScope.TILE && !tile) return false;
+  if (modifier.scope === ModifierScope.UNIT && !unitType) return false;
+
+  const condition = modifier.condition;
+  if (!condition) return true;
+
+  if (condition.terrain && (!tile || !condition.terrain.includes(tile.terrainType))) return false;
+  if (condition.capital && (!city || getCapital(state, playerId)?.id !== city.id)) return false;
+  if (condition.improvedResource && (!tile?.resourceType || !tile.improvement)) return false;
+  if (condition.navalUnits && (!unitType || !isNavalUnitType(unitType))) return false;
+
+  if (condition.combatUnits) {
+    const definition = unitType ? getUnitDefinition(unitType) : undefined;
+    if (!definition || definition.attackStrength <= 0) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Sum the values of a player's faction modifiers of a stat that apply to a subject
+ */
+export function getModifierTotal(
+  state: GameState,
+  playerId: string,
+  stat: ModifierStat,
+  subject: ModifierSubject = {}
+): number {
+  const player = state.players[playerId];
+  if (!player) return 0;
+
+  return getFactionModifiers(player.faction, stat)
+    .filter(modifier => appliesTo(state, playerId, modifier, subject))
+    .reduce((total, modifier) => total + modifier.value, 0);
+}
+
+/**
+ * Get each of a player's faction bonuses that changes a stat for a subject,
+ * with the total of its modifiers that apply
+ */
+export function getModifierSources(
+  state: GameState,
+  playerId: string,
+  stat: ModifierStat,
+  subject: ModifierSubject = {}
+): ModifierSource[] {
+  const player = state.players[playerId];
+  const faction = player && getFactionConfig(player.faction);
+  if (!faction) return [];
+
+  return faction.bonuses
+    .map(bonus => ({
+      name: bonus.description,
+      value: bonus.modifiers
+        .filter(modifier => modifier.stat === stat && appliesTo(state, playerId, modifier, subject))
+        .reduce((total, modifier) => total + modifier.value, 0)
+    }))
+    .filter(source => source.value !== 0);
+}
+
+/**
+ * Check if any of a player's faction modifiers of a stat apply to a subject
+ */
+export function hasModifier(state: GameState, playerId: string, stat: ModifierStat, subject: ModifierSubject = {}): boolean {
+  const player = state.players[playerId];
+  if (!player) return false;
+
+  return getFactionModifiers(player.faction, stat).some(modifier => appliesTo(state, playerId, modifier, subject));
+}
+
+/**
+ * Change a value by a percentage modifier, rounding to a whole number
+ */
+export function applyPercentage(value: number, percent: number): number {
+  return Math.round(value * (100 + percent) / 100);
+}
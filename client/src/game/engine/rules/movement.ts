@@ -0,0 +1,296 @@
+/**
+ * Movement rules: reachable tiles, paths and unit moves
+ *
+ * Combat units exert a zone of control over the tiles around them: an enemy
+ * unit entering one of those tiles spends all its remaining movement there,
+ * unless it has an ability that lets it slip past.
+ */
+import { findPath } from '../../utils/isometric';
+import { PriorityQueue } from '../../utils/priorityQueue';
+import { EVENTS } from '../../utils/events';
+import { getAdjacentPositions, getCityAt, getTile, getUnitAt, parseTileKey, tileKey } from '../state';
+import { ModifierStat } from '../../config/factions';
+import { isNavalUnitType } from '../../config/units';
+import { PromotionStat } from '../../config/promotions';
+import { GameState, GridPosition, RuleContext, TileState, UnitState } from '../types';
+import { canUnitTypeOccupy, getUnitMovementCost, hasAbility } from './units';
+import { getModifierTotal } from './modifiers';
+import { getPromotionTotal } from './promotions';
+
+/**
+ * Get the movement cost for a unit entering a tile, after faction bonuses and promotions (minimum 1)
+ */
+export function getMoveCost(state: GameState, unit: UnitState, tile: TileState): number {
+  const modifier = getModifierTotal(state, unit.playerId, ModifierStat.MOVEMENT_COST, { unitType: unit.type, tile }) +
+    getPromotionTotal(unit, PromotionStat.MOVEMENT_COST, tile);
+  return Math.max(1, getUnitMovementCost(unit.type, tile) + modifier);
+}
+
+/**
+ * Check if a unit moves freely past enemy zones of control
+ */
+export function ignoresZoneOfControl(unit: UnitState): boolean {
+  return hasAbility(unit, 'ignore_zone_of_control');
+}
+
+/**
+ * Check if a unit exerts a zone of control over another: an enemy combat unit
+ * of the same kind (land or naval)
+ */
+function exertsZoneOfControl(other: UnitState, unit: UnitState): boolean {
+  return other.playerId !== unit.playerId &&
+    other.attack > 0 &&
+    isNavalUnitType(other.type) === isNavalUnitType(unit.type);
+}
+
+/**
+ * Get the keys of the tiles where enemy zones of control would end a unit's movement
+ */
+export function getZoneOfControlKeys(state: GameState, unit: UnitState): Set<string> {
+  const keys = new Set<string>();
+  if (ignoresZoneOfControl(unit)) return keys;
+
+  Object.values(state.units).forEach(other => {
+    if (!exertsZoneOfControl(other, unit)) return;
+
+    getAdjacentPositions(state, other.x, other.y).forEach(pos => keys.add(tileKey(pos.x, pos.y)));
+  });
+  return keys;
+}
+
+/**
+ * Check if entering a position would end a unit's movement in an enemy zone of control
+ */
+export function isInZoneOfControl(state: GameState, unit: UnitState, x: number, y: number): boolean {
+  if (ignoresZoneOfControl(unit)) return false;
+
+  return Object.values(state.units).some(other => (
+    exertsZoneOfControl(other, unit) && getAdjacentPositions(state, other.x, other.y).some(pos => pos.x === x && pos.y === y)
+  ));
+}
+
+/**
+ * Check if a unit may enter a position (terrain, other units and enemy cities)
+ */
+export function canUnitEnter(state: GameState, unit: UnitState, x: number, y: number): boolean {
+  const tile = getTile(state, x, y);
+  if (!tile || !canUnitTypeOccupy(unit.type, tile)) return false;
+
+  const occupant = getUnitAt(state, x, y);
+  if (occupant && occupant.id !== unit.id) return false;
+
+  const city = getCityAt(state, x, y);
+  if (city && city.playerId !== unit.playerId) return false;
+
+  return true;
+}
+
+/**
+ * Build a check of the positions a unit can enter, as canUnitEnter, that looks
+ * up other units and cities once rather than for every tile a search visits
+ */
+function createEntryCheck(state: GameState, unit: UnitState): (x: number, y: number) => boolean {
+  // Blocked tiles by index (y * mapWidth + x), which unlike tile keys needs no string building
+  const blocked = new Set<number>();
+  Object.values(state.units).forEach(other => {
+    if (other.id !== unit.id) blocked.add(other.y * state.mapWidth + other.x);
+  });
+  Object.values(state.cities).forEach(city => {
+    if (city.playerId !== unit.playerId) blocked.add(city.y * state.mapWidth + city.x);
+  });
+
+  return (x, y) => {
+    const tile = getTile(state, x, y);
+    return !!tile && canUnitTypeOccupy(unit.type, tile) && !blocked.has(tile.y * state.mapWidth + tile.x);
+  };
+}
+
+/**
+ * Flood out from a unit with Dijkstra's algorithm to find the cheapest cost of
+ * every position it can reach with its remaining movement points. Entering an
+ * enemy zone of control costs all the movement left, so the flood stops there.
+ * @returns Movement cost of each reachable position by tile key, not counting the unit's own
+ */
+export function getMovementCosts(state: GameState, unit: UnitState): Map<string, number> {
+  const costs = new Map<string, number>();
+  if (unit.movementLeft <= 0 || unit.hasActed) return costs;
+
+  const canEnter = createEntryCheck(state, unit);
+  const zoneOfControl = getZoneOfControlKeys(state, unit);
+  const startKey = tileKey(unit.x, unit.y);
+  costs.set(startKey, 0);
+
+  const open = new PriorityQueue<{ pos: GridPosition, cost: number }>();
+  open.push({ pos: { x: unit.x, y: unit.y }, cost: 0 }, 0);
+
+  while (!open.isEmpty()) {
+    const { pos, cost } = open.pop()!;
+
+    // Skip stale queue entries that were improved upon later
+    if (cost > costs.get(tileKey(pos.x, pos.y))!) continue;
+
+    for (const next of getAdjacentPositions(state, pos.x, pos.y)) {
+      if (!canEnter(next.x, next.y)) continue;
+
+      const key = tileKey(next.x, next.y);
+      let nextCost = cost + getMoveCost(state, unit, getTile(state, next.x, next.y)!);
+      if (nextCost > unit.movementLeft) continue;
+
+      if (zoneOfControl.has(key)) {
+        nextCost = unit.movementLeft;
+      }
+      if (nextCost >= (costs.get(key) ?? Infinity)) continue;
+
+      costs.set(key, nextCost);
+      open.push({ pos: next, cost: nextCost }, nextCost);
+    }
+  }
+
+  costs.delete(startKey);
+  return costs;
+}
+
+/**
+ * Get all positions a unit can reach with its remaining movement points
+ */
+export function getReachableTiles(state: GameState, unit: UnitState): GridPosition[] {
+  return Array.from(getMovementCosts(state, unit).keys()).map(parseTileKey);
+}
+
+/**
+ * Label the areas of the map units of a type can cross between, ignoring other
+ * units and cities. Tiles with the same label are connected. Only land and
+ * naval units differ, so units of the same kind share the labels.
+ * @returns Label of each tile by index (y * mapWidth + x), -1 where the units cannot go
+ */
+export function getMovementRegions(state: GameState, unitType: string): Int32Array {
+  const regions = new Int32Array(state.tiles.length).fill(-1);
+  const canCross = (tile: TileState) => canUnitTypeOccupy(unitType, tile);
+
+  let label = 0;
+  state.tiles.forEach((tile, index) => {
+    if (regions[index] !== -1 || !canCross(tile)) return;
+
+    regions[index] = label;
+    const stack = [tile];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      for (const pos of getAdjacentPositions(state, current.x, current.y)) {
+        const next = getTile(state, pos.x, pos.y)!;
+        const nextIndex = pos.y * state.mapWidth + pos.x;
+        if (regions[nextIndex] !== -1 || !canCross(next)) continue;
+
+        regions[nextIndex] = label;
+        stack.push(next);
+      }
+    }
+    label++;
+  });
+
+  return regions;
+}
+
+/**
+ * Find the cheapest path for a unit to a destination (including the start).
+ * Tiles in an enemy zone of control cost a whole turn of movement to enter.
+ * @param regions The map's movement regions for the unit's kind (see
+ *   getMovementRegions), to give up at once on destinations in another region
+ *   instead of searching the unit's whole region for them
+ */
+export function findUnitPath(
+  state: GameState,
+  unit: UnitState,
+  x: number,
+  y: number,
+  regions?: Int32Array
+): GridPosition[] {
+  if (regions && regions[unit.y * state.mapWidth + unit.x] !== regions[y * state.mapWidth + x]) {
+    return [];
+  }
+
+  const zoneOfControl = getZoneOfControlKeys(state, unit);
+
+  // The search asks for a tile's cost once from each neighbour, so work each out
+  // only once (by tile index; 0 until known, as every cost is at least 1)
+  const entryCosts = new Float64Array(state.mapWidth * state.mapHeight);
+
+  return findPath(
+    unit.x,
+    unit.y,
+    x,
+    y,
+    createEntryCheck(state, unit),
+    (px, py) => {
+      const index = py * state.mapWidth + px;
+      if (entryCosts[index] === 0) {
+        const tile = getTile(state, px, py);
+        const cost = tile ? getMoveCost(state, unit, tile) : 1;
+        entryCosts[index] = zoneOfControl.has(tileKey(px, py)) ? Math.max(cost, unit.maxMovement) : cost;
+      }
+      return entryCosts[index];
+    },
+    state.mapWidth,
+    state.mapHeight,
+    state.wrapX
+  );
+}
+
+/**
+ * Get the movement cost of a unit's path, not counting the starting tile
+ */
+export function getPathCost(state: GameState, unit: UnitState, path: GridPosition[]): number {
+  return path.slice(1).reduce((total, pos) => {
+    const tile = getTile(state, pos.x, pos.y);
+    return total + (tile ? getMoveCost(state, unit, tile) : 0);
+  }, 0);
+}
+
+/**
+ * Check if a unit can move to a destination this turn
+ */
+export function canMoveUnit(state: GameState, unitId: string, x: number, y: number): boolean {
+  const unit = state.units[unitId];
+  if (!unit) return false;
+
+  return getMovementCosts(state, unit).has(tileKey(x, y));
+}
+
+/**
+ * Move a unit to a destination, spending movement points along the path
+ */
+export function moveUnit(ctx: RuleContext, unitId: string, x: number, y: number): boolean {
+  const { state } = ctx;
+  const unit = state.units[unitId];
+
+  if (!unit || !canMoveUnit(state, unitId, x, y)) {
+    console.warn('Destination is out of movement range');
+    return false;
+  }
+
+  const path = findUnitPath(state, unit, x, y);
+  if (path.length === 0) {
+    console.warn('No valid path to destination');
+    return false;
+  }
+
+  const from = { x: unit.x, y: unit.y };
+
+  // Entering an enemy zone of control ends the unit's movement
+  const zoneOfControl = isInZoneOfControl(state, unit, x, y);
+  unit.movementLeft = zoneOfControl ? 0 : Math.max(0, unit.movementLeft - getPathCost(state, unit, path));
+  unit.x = x;
+  unit.y = y;
+  unit.fortification = 0;
+
+  ctx.emit(EVENTS.UNIT_MOVED, {
+    unitId: unit.id,
+    playerId: unit.playerId,
+    from,
+    newPosition: { x, y },
+    path,
+    movementLeft: unit.movementLeft,
+    zoneOfControl
+  });
+
+  return true;
+}
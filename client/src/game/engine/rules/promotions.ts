@@ -0,0 +1,119 @@
+/**
+ * Promotion rules: units earning experience, levelling up and choosing
+ * promotions that change how they fight and move
+ */
+import { LEVEL_EXPERIENCE, PromotionDefinition, PromotionStat, getCategoryPromotions, getPromotionDefinition } from '../../config/promotions';
+import { getUnitDefinition } from '../../config/units';
+import { EVENTS } from '../../utils/events';
+import { GameState, RuleContext, TileState, UnitState } from '../types';
+import { ModifierSource } from './modifiers';
+
+/**
+ * Get the experience a unit needs in total to reach its next level, or null at the top level
+ */
+export function getNextLevelExperience(unit: UnitState): number | null {
+  return LEVEL_EXPERIENCE[unit.level] ?? null;
+}
+
+/**
+ * Get how many promotions a unit has earned but not chosen yet
+ */
+export function getPendingPromotions(unit: UnitState): number {
+  return Math.max(0, unit.level - unit.promotions.length);
+}
+
+/**
+ * Give a unit experience, raising its level at each threshold it passes
+ */
+export function grantExperience(ctx: RuleContext, unitId: string, amount: number): void {
+  const unit = ctx.state.units[unitId];
+  if (!unit || amount <= 0) return;
+
+  unit.experience += amount;
+
+  let nextLevel = getNextLevelExperience(unit);
+  while (nextLevel !== null && unit.experience >= nextLevel) {
+    unit.level++;
+
+    ctx.emit(EVENTS.UNIT_LEVELED_UP, {
+      unitId,
+      playerId: unit.playerId,
+      level: unit.level,
+      experience: unit.experience
+    });
+
+    nextLevel = getNextLevelExperience(unit);
+  }
+}
+
+/**
+ * Get the promotions a unit could choose now: those of its category it does
+ * not have yet whose requirements it meets
+ */
+export function getAvailablePromotions(unit: UnitState): PromotionDefinition[] {
+  const definition = getUnitDefinition(unit.type);
+  if (!definition) return [];
+
+  return getCategoryPromotions(definition.category).filter(promotion => (
+    !unit.promotions.includes(promotion.id) &&
+    (!promotion.requires || promotion.requires.some(id => unit.promotions.includes(id)))
+  ));
+}
+
+/**
+ * Check if a unit can take a promotion now
+ */
+export function canPromoteUnit(state: GameState, unitId: string, promotionId: string): boolean {
+  const unit = state.units[unitId];
+  if (!unit || getPendingPromotions(unit) <= 0) return false;
+
+  return getAvailablePromotions(unit).some(promotion => promotion.id === promotionId);
+}
+
+/**
+ * Give a unit a promotion it has earned
+ */
+export function promoteUnit(ctx: RuleContext, unitId: string, promotionId: string): void {
+  const unit = ctx.state.units[unitId];
+  const promotion = getPromotionDefinition(promotionId);
+  if (!unit || !promotion) return;
+
+  unit.promotions.push(promotionId);
+
+  // Extra movement counts from this turn on
+  const movement = promotion.effects
+    .filter(effect => effect.stat === PromotionStat.MOVEMENT)
+    .reduce((total, effect) => total + effect.value, 0);
+  unit.maxMovement += movement;
+  unit.movementLeft = Math.max(0, unit.movementLeft + movement);
+
+  ctx.emit(EVENTS.UNIT_PROMOTED, {
+    unitId,
+    playerId: unit.playerId,
+    promotionId
+  });
+}
+
+/**
+ * Get each of a unit's promotions that changes a stat, and by how much.
+ * Effects limited to some terrains apply only when given a tile of one of them.
+ */
+export function getPromotionSources(unit: UnitState, stat: PromotionStat, tile?: TileState): ModifierSource[] {
+  return (unit.promotions ?? [])
+    .map(id => getPromotionDefinition(id))
+    .filter((promotion): promotion is PromotionDefinition => !!promotion)
+    .map(promotion => ({
+      name: promotion.name,
+      value: promotion.effects
+        .filter(effect => effect.stat === stat && (!effect.terrain || (!!tile && effect.terrain.includes(tile.terrainType))))
+        .reduce((total, effect) => total + effect.value, 0)
+    }))
+    .filter(source => source.value !== 0);
+}
+
+/**
+ * Sum the changes a unit's promotions make to a stat
+ */
+export function getPromotionTotal(unit: UnitState, stat: PromotionStat, tile?: TileState): number {
+  return getPromotionSources(unit, stat, tile).reduce((total, source) => total + source.value, 0);
+}
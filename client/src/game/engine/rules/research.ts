@@ -0,0 +1,107 @@
+/**
+ * Research rules: available technologies, starting and progressing research
+ */
+import { TECHNOLOGIES, TechnologyDefinition } from '../../config/technologies';
+import { ResourceType } from '../../config/resources';
+import { ModifierStat } from '../../config/factions';
+import { EVENTS } from '../../utils/events';
+import { GameState, ResourceAmounts, RuleContext } from '../types';
+import { applyPercentage, getModifierTotal } from './modifiers';
+
+// Research points needed to complete any technology
+export const RESEARCH_REQUIRED = 100;
+
+// Research points gained each turn while researching
+export const RESEARCH_PER_TURN = 20;
+
+/**
+ * Get the resource cost of a technology for a player, after faction bonuses
+ */
+export function getTechCost(state: GameState, playerId: string, tech: TechnologyDefinition): ResourceAmounts {
+  const faithModifier = getModifierTotal(state, playerId, ModifierStat.TECH_FAITH_COST);
+
+  return {
+    food: 0,
+    production: tech.cost[ResourceType.PRODUCTION] ?? 0,
+    faith: applyPercentage(tech.cost[ResourceType.FAITH], faithModifier)
+  };
+}
+
+/**
+ * Check if a player has researched a technology
+ */
+export function hasTech(state: GameState, playerId: string, techId: string): boolean {
+  return state.players[playerId]?.technologies.includes(techId) ?? false;
+}
+
+/**
+ * Get technologies a player could start researching
+ */
+export function getAvailableTechs(state: GameState, playerId: string): TechnologyDefinition[] {
+  const player = state.players[playerId];
+  if (!player) return [];
+
+  return Object.values(TECHNOLOGIES).filter(tech => {
+    if (player.technologies.includes(tech.id)) return false;
+    return tech.prerequisites.every(prereq => player.technologies.includes(prereq));
+  });
+}
+
+/**
+ * Check if a player can start researching a technology
+ */
+export function canResearch(state: GameState, playerId: string, techId: string): boolean {
+  const player = state.players[playerId];
+  const tech = TECHNOLOGIES[techId];
+  if (!player || !tech) return false;
+
+  if (player.technologies.includes(techId)) return false;
+  if (!tech.prerequisites.every(prereq => player.technologies.includes(prereq))) return false;
+
+  const cost = getTechCost(state, playerId, tech);
+  return player.resources.faith >= cost.faith && player.resources.production >= cost.production;
+}
+
+/**
+ * Start researching a technology, paying its cost up front
+ */
+export function startResearch(ctx: RuleContext, playerId: string, techId: string): boolean {
+  if (!canResearch(ctx.state, playerId, techId)) {
+    console.warn(`Player ${playerId} cannot research ${techId}`);
+    return false;
+  }
+
+  const player = ctx.state.players[playerId];
+  const cost = getTechCost(ctx.state, playerId, TECHNOLOGIES[techId]);
+
+  player.resources.faith -= cost.faith;
+  player.resources.production -= cost.production;
+  player.currentResearch = { techId, progress: 0 };
+
+  ctx.emit(EVENTS.RESEARCH_STARTED, { playerId, techId });
+  ctx.emit(EVENTS.RESOURCES_UPDATED, { playerId, resources: { ...player.resources } });
+
+  return true;
+}
+
+/**
+ * Add research progress for a player, completing the technology when done
+ */
+export function progressResearch(ctx: RuleContext, playerId: string, amount: number = RESEARCH_PER_TURN): void {
+  const player = ctx.state.players[playerId];
+  const research = player?.currentResearch;
+  if (!research) return;
+
+  research.progress += amount;
+
+  if (research.progress >= RESEARCH_REQUIRED) {
+    player.technologies.push(research.techId);
+    player.currentResearch = null;
+
+    ctx.emit(EVENTS.TECH_RESEARCHED, {
+      playerId,
+      techId: research.techId,
+      tech: TECHNOLOGIES[research.techId]
+    });
+  }
+}
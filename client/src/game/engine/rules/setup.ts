@@ -0,0 +1,243 @@
+/**
+ * Setup rules: choosing balanced starting positions, placing each player's
+ * starting units and anything a hand-made map places before the first turn
+ */
+import { FactionType, getFactionConfig } from '../../config/factions';
+import { UnitType } from '../../config/units';
+import { getAdjacentPositions, getDistance, getTile, getUnitAt } from '../state';
+import { GameState, GridPosition, RuleContext } from '../types';
+import { canFoundCity, createCity } from './cities';
+import { createUnit, createUnitNear } from './units';
+import { FRESH_WATER_SITE_SCORE, getWorkedTileYields, hasFreshWater, isTilePassable, scoreYields } from './tiles';
+
+// Minimum distance between two players' starting positions
+const MIN_START_DISTANCE = 5;
+
+// Share of the map's area each player should have to themselves when spacing starts
+const START_SPACING = 0.6;
+
+// Tiles within this distance of a start count towards its potential
+const START_RADIUS = 2;
+
+// Every start should have at least this share of the best start's yield potential
+const MIN_YIELD_SHARE = 0.75;
+
+// Number of best-scoring positions each start is picked from, for variety between seeds
+const START_CHOICES = 5;
+
+/**
+ * Potential of a starting position
+ */
+export interface StartScore {
+  food: number;
+  production: number;
+  faith: number;
+  yieldScore: number; // Weighted total of the yields above
+  biasScore: number; // How well the surroundings match the faction's preferred terrain
+}
+
+/**
+ * A player's chosen start and its score
+ */
+export interface StartReportEntry extends StartScore {
+  playerId: string;
+  faction: FactionType;
+  position: GridPosition;
+}
+
+/**
+ * How fair the starting positions of a map are
+ */
+export interface StartFairnessReport {
+  starts: StartReportEntry[];
+  requiredDistance: number;
+  closestDistance: number | null; // Null with fewer than two players
+  yieldSpread: number; // Share of the best start's yield score the worst start lacks (0 = equal)
+  balanced: boolean; // Starts are far enough apart and none falls short on yields
+}
+
+/**
+ * Get the minimum distance required between starts, growing with the map's area per player
+ */
+export function getMinStartDistance(state: GameState): number {
+  const players = Math.max(1, state.playerOrder.length);
+  const spacing = Math.floor(Math.sqrt(state.mapWidth * state.mapHeight / players) * START_SPACING);
+  return Math.max(MIN_START_DISTANCE, spacing);
+}
+
+/**
+ * Check if a position is a usable start: a city site with a free passable neighbour
+ */
+function isValidStart(state: GameState, playerId: string, pos: GridPosition): boolean {
+  if (!canFoundCity(state, playerId, pos.x, pos.y) || getUnitAt(state, pos.x, pos.y)) return false;
+
+  return getAdjacentPositions(state, pos.x, pos.y).some(next => {
+    const neighbour = getTile(state, next.x, next.y);
+    return neighbour && isTilePassable(neighbour) && !getUnitAt(state, next.x, next.y);
+  });
+}
+
+/**
+ * Score the yields around a position and how well its terrain suits a faction
+ */
+export function scoreStartPosition(state: GameState, pos: GridPosition, faction: FactionType): StartScore {
+  const score: StartScore = { food: 0, production: 0, faith: 0, yieldScore: 0, biasScore: 0 };
+  const { startBias } = getFactionConfig(faction);
+
+  for (let dy = -START_RADIUS; dy <= START_RADIUS; dy++) {
+    for (let dx = -START_RADIUS; dx <= START_RADIUS; dx++) {
+      const tile = getTile(state, pos.x + dx, pos.y + dy);
+      if (!tile) continue;
+
+      const yields = getWorkedTileYields(state, tile);
+      score.food += yields.food;
+      score.production += yields.production;
+      score.faith += yields.faith;
+      score.yieldScore += scoreYields(yields);
+
+      startBias
+        .filter(bias => bias.terrainType === tile.terrainType)
+        .forEach(bias => {
+          score.biasScore += bias.weight;
+        });
+    }
+  }
+
+  // Cities on a river or lake shore grow faster
+  if (hasFreshWater(state, pos.x, pos.y)) {
+    score.yieldScore += FRESH_WATER_SITE_SCORE;
+  }
+
+  return score;
+}
+
+/**
+ * Pick starting positions for every player: spread apart, with similar yield
+ * potential, and on terrain their faction prefers where possible.
+ * Starts fixed by a hand-made map are kept as they are.
+ */
+export function chooseStartPositions(ctx: RuleContext): Record<string, GridPosition> {
+  const { state } = ctx;
+  const requiredDistance = getMinStartDistance(state);
+
+  const starts: Record<string, GridPosition> = { ...state.scenario?.starts };
+  const taken: GridPosition[] = Object.values(starts);
+
+  state.playerOrder.filter(playerId => !starts[playerId]).forEach(playerId => {
+    const faction = state.players[playerId].faction;
+    const candidates = state.tiles
+      .filter(tile => isValidStart(state, playerId, tile))
+      .map(tile => ({ pos: { x: tile.x, y: tile.y }, score: scoreStartPosition(state, tile, faction) }));
+    const minYieldScore = Math.max(0, ...candidates.map(candidate => candidate.score.yieldScore)) * MIN_YIELD_SHARE;
+
+    const farFrom = (distance: number) => candidates.filter(candidate => (
+      taken.every(other => getDistance(state, other, candidate.pos) >= distance)
+    ));
+
+    // Relax the yield threshold, then the spacing, only when the map leaves no other choice
+    let pool = farFrom(requiredDistance).filter(candidate => candidate.score.yieldScore >= minYieldScore);
+    if (pool.length === 0) pool = farFrom(requiredDistance);
+    if (pool.length === 0) pool = farFrom(MIN_START_DISTANCE);
+    if (pool.length === 0) pool = candidates;
+    if (pool.length === 0) {
+      console.warn(`No starting position left for ${playerId}`);
+      return;
+    }
+
+    // Prefer the faction's favoured terrain when any fair start has it
+    const favoured = pool.filter(candidate => candidate.score.biasScore > 0);
+    if (favoured.length > 0) pool = favoured;
+
+    pool.sort((a, b) => (
+      (b.score.yieldScore + b.score.biasScore) - (a.score.yieldScore + a.score.biasScore)
+    ));
+
+    const choices = pool.slice(0, START_CHOICES);
+    const start = choices[Math.floor(ctx.random('setup') * choices.length)].pos;
+    starts[playerId] = start;
+    taken.push(start);
+  });
+
+  return starts;
+}
+
+/**
+ * Report how fair a set of starting positions is
+ */
+export function createStartReport(state: GameState, starts: Record<string, GridPosition>): StartFairnessReport {
+  const entries: StartReportEntry[] = Object.entries(starts).map(([playerId, position]) => {
+    const faction = state.players[playerId].faction;
+    return { playerId, faction, position, ...scoreStartPosition(state, position, faction) };
+  });
+
+  let closestDistance: number | null = null;
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const distance = getDistance(state, entries[i].position, entries[j].position);
+      closestDistance = closestDistance === null ? distance : Math.min(closestDistance, distance);
+    }
+  }
+
+  const yieldScores = entries.map(entry => entry.yieldScore);
+  const best = Math.max(0, ...yieldScores);
+  const worst = Math.min(best, ...yieldScores);
+  const yieldSpread = best > 0 ? (best - worst) / best : 0;
+  const requiredDistance = getMinStartDistance(state);
+
+  return {
+    starts: entries,
+    requiredDistance,
+    closestDistance,
+    yieldSpread,
+    balanced: (closestDistance === null || closestDistance >= requiredDistance) && yieldSpread <= 1 - MIN_YIELD_SHARE
+  };
+}
+
+/**
+ * Place the cities and units a hand-made map gives its players
+ */
+function placeScenario(ctx: RuleContext): void {
+  const { scenario } = ctx.state;
+  if (!scenario) return;
+
+  scenario.cities.forEach(({ playerId, name, x, y, population }) => {
+    const tile = getTile(ctx.state, x, y);
+    if (!ctx.state.players[playerId] || !tile || !isTilePassable(tile) || tile.cityId) {
+      console.warn(`Cannot place a city for ${playerId} at ${x},${y}`);
+      return;
+    }
+
+    createCity(ctx, playerId, x, y, name, population);
+  });
+
+  scenario.units.forEach(({ playerId, type, x, y }) => {
+    if (!ctx.state.players[playerId] || !createUnitNear(ctx, type, playerId, x, y)) {
+      console.warn(`Cannot place a ${type} for ${playerId} at ${x},${y}`);
+    }
+  });
+}
+
+/**
+ * Place what a hand-made map sets up, then give every player a settler and a
+ * warrior at their starting position
+ * @returns Fairness report of the chosen starts
+ */
+export function placeStartingUnits(ctx: RuleContext): StartFairnessReport {
+  placeScenario(ctx);
+  const starts = chooseStartPositions(ctx);
+
+  Object.entries(starts).forEach(([playerId, start]) => {
+    createUnit(ctx, UnitType.SETTLER, playerId, start.x, start.y);
+
+    const escort = getAdjacentPositions(ctx.state, start.x, start.y).find(pos => {
+      const tile = getTile(ctx.state, pos.x, pos.y);
+      return tile && isTilePassable(tile) && !getUnitAt(ctx.state, pos.x, pos.y);
+    });
+
+    if (escort) {
+      createUnit(ctx, UnitType.WARRIOR, playerId, escort.x, escort.y);
+    }
+  });
+
+  return createStartReport(ctx.state, starts);
+}
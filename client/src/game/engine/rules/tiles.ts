@@ -0,0 +1,171 @@
+/**
+ * Tile rules: movement cost, passability, defence and yields
+ */
+import { TerrainType, getTerrainConfig } from '../../config/terrain';
+import { getAdjacentPositions, getTile } from '../state';
+import { GameState, ResourceAmounts, TileState } from '../types';
+
+// Extra food from land watered by a neighbouring river or lake
+const FRESH_WATER_FOOD = 1;
+
+// Extra score for a city site with fresh water next to it
+export const FRESH_WATER_SITE_SCORE = 5;
+
+/**
+ * Get the movement cost for entering a tile
+ */
+export function getTileMovementCost(tile: TileState): number {
+  let cost = getTerrainConfig(tile.terrainType).movementCost;
+
+  // Roads reduce cost by 1 (minimum 1)
+  if (tile.improvement === 'road') {
+    cost = Math.max(1, cost - 1);
+  }
+
+  return cost;
+}
+
+/**
+ * Check if land units can enter a tile
+ */
+export function isTilePassable(tile: TileState): boolean {
+  let passable = getTerrainConfig(tile.terrainType).passable;
+
+  // Bridges make rivers passable
+  if (!passable && tile.improvement === 'bridge' && tile.terrainType === TerrainType.RIVER) {
+    passable = true;
+  }
+
+  return passable;
+}
+
+// Terrain naval units can sail on
+const WATER_TERRAIN = new Set<TerrainType>([TerrainType.COAST, TerrainType.LAKE, TerrainType.OCEAN]);
+
+/**
+ * Check if a tile is open water
+ */
+export function isWaterTile(tile: TileState): boolean {
+  return WATER_TERRAIN.has(tile.terrainType);
+}
+
+/**
+ * Get the defensive bonus (in percent) for a unit standing on a tile
+ */
+export function getTileDefensiveBonus(tile: TileState): number {
+  let bonus = getTerrainConfig(tile.terrainType).defensiveBonus;
+
+  // Forts add 50% defensive bonus
+  if (tile.improvement === 'fort') {
+    bonus += 50;
+  }
+
+  return bonus;
+}
+
+/**
+ * Get the resource yields of a worked tile
+ */
+export function getTileYields(tile: TileState): ResourceAmounts {
+  const terrainConfig = getTerrainConfig(tile.terrainType);
+  const yields = {
+    food: terrainConfig.foodYield,
+    production: terrainConfig.productionYield,
+    faith: terrainConfig.faithYield
+  };
+
+  // Apply modifiers from improvements
+  if (tile.improvement === 'farm') {
+    yields.food += 2;
+  } else if (tile.improvement === 'mine') {
+    yields.production += 2;
+  } else if (tile.improvement === 'lumbermill' && tile.terrainType === TerrainType.FOREST) {
+    yields.production += 1;
+  } else if (tile.improvement === 'pasture') {
+    yields.food += 1;
+  } else if (tile.improvement === 'plantation') {
+    yields.food += 1;
+    yields.production += 1;
+  } else if (tile.improvement === 'temple') {
+    yields.faith += 2;
+  }
+
+  // Apply modifiers from resources that are not yet depleted
+  if (tile.resourceType && tile.resourceAmount && tile.resourceAmount > 0) {
+    switch (tile.resourceType) {
+      case 'grain':
+        yields.food += 1;
+        break;
+      case 'fruit':
+        yields.food += 2;
+        break;
+      case 'animals':
+        yields.food += 1;
+        yields.production += 1;
+        break;
+      case 'wood':
+        yields.production += 1;
+        break;
+      case 'stone':
+        yields.production += 2;
+        break;
+      case 'ore':
+        yields.production += 2;
+        break;
+      case 'herbs':
+        yields.food += 1;
+        yields.faith += 1;
+        break;
+      case 'fish':
+        yields.food += 2;
+        break;
+    }
+  }
+
+  return yields;
+}
+
+/**
+ * Check if a position has a river or lake next to it
+ */
+export function hasFreshWater(state: GameState, x: number, y: number): boolean {
+  return getAdjacentPositions(state, x, y).some(pos => {
+    const terrain = getTile(state, pos.x, pos.y)?.terrainType;
+    return terrain === TerrainType.RIVER || terrain === TerrainType.LAKE;
+  });
+}
+
+/**
+ * Get the yields of a tile worked by a city, including irrigation from fresh water
+ */
+export function getWorkedTileYields(state: GameState, tile: TileState): ResourceAmounts {
+  const yields = getTileYields(tile);
+
+  const isDryLand = isTilePassable(tile) && !isWaterTile(tile) && tile.terrainType !== TerrainType.RIVER;
+  if (isDryLand && hasFreshWater(state, tile.x, tile.y)) {
+    yields.food += FRESH_WATER_FOOD;
+  }
+
+  return yields;
+}
+
+/**
+ * Score yields for working or claiming (food weighted highest for growth)
+ */
+export function scoreYields(yields: ResourceAmounts): number {
+  return yields.food * 1.5 + yields.production + yields.faith * 0.5;
+}
+
+/**
+ * Score a tile on its own yields
+ */
+export function scoreTileYields(tile: TileState): number {
+  return scoreYields(getTileYields(tile));
+}
+
+/**
+ * Score a tile as worked by a city, counting fresh water
+ */
+export function scoreWorkedTile(state: GameState, tile: TileState): number {
+  return scoreYields(getWorkedTileYields(state, tile));
+}
@@ -0,0 +1,122 @@
+/**
+ * Trade rules: merchants linking their home city to another city
+ *
+ * A merchant standing in or next to a city can set up a trade route to it from
+ * the nearest city of its own player, and is used up doing so. Every route
+ * gives its home city extra food and production; routes to another player's
+ * city can earn more through faction bonuses.
+ */
+import { ModifierStat } from '../../config/factions';
+import { EVENTS } from '../../utils/events';
+import { getDistance, getPlayerCities } from '../state';
+import { CityState, GameState, ResourceAmounts, RuleContext } from '../types';
+import { getModifierTotal } from './modifiers';
+import { hasAbility, removeUnit } from './units';
+
+// Routes a city can have going out from it
+export const MAX_TRADE_ROUTES = 2;
+
+// Yields every trade route brings its home city
+const TRADE_ROUTE_YIELDS: ResourceAmounts = { food: 1, production: 1, faith: 0 };
+
+/**
+ * Get the cities a city's trade routes lead to
+ */
+export function getTradeRouteDestinations(state: GameState, city: CityState): CityState[] {
+  return city.tradeRoutes
+    .map(cityId => state.cities[cityId])
+    .filter((destination): destination is CityState => !!destination);
+}
+
+/**
+ * Check if a trade route leads to another player's city
+ */
+export function isForeignTradeRoute(origin: CityState, destination: CityState): boolean {
+  return origin.playerId !== destination.playerId;
+}
+
+/**
+ * Get the city a merchant's trade route to a destination would start from:
+ * the nearest other city of its player
+ */
+export function getTradeRouteOrigin(state: GameState, unitId: string, destinationId: string): CityState | undefined {
+  const unit = state.units[unitId];
+  if (!unit) return undefined;
+
+  return getPlayerCities(state, unit.playerId)
+    .filter(city => city.id !== destinationId)
+    .sort((a, b) => getDistance(state, unit, a) - getDistance(state, unit, b))[0];
+}
+
+/**
+ * Check if a merchant can set up a trade route to a city it stands in or next to
+ */
+export function canEstablishTradeRoute(state: GameState, unitId: string, destinationId: string): boolean {
+  const unit = state.units[unitId];
+  const destination = state.cities[destinationId];
+  if (!unit || !destination || unit.hasActed || !hasAbility(unit, 'trade_route')) return false;
+  if (getDistance(state, unit, destination) > 1) return false;
+
+  const origin = getTradeRouteOrigin(state, unitId, destinationId);
+  if (!origin) return false;
+
+  const routes = origin.tradeRoutes;
+  return routes.length < MAX_TRADE_ROUTES && !routes.includes(destinationId);
+}
+
+/**
+ * Get the cities a merchant could set up a trade route to right now
+ */
+export function getTradeRouteTargets(state: GameState, unitId: string): CityState[] {
+  return Object.values(state.cities).filter(city => canEstablishTradeRoute(state, unitId, city.id));
+}
+
+/**
+ * Set up a trade route to a city with a merchant, using the merchant up
+ */
+export function establishTradeRoute(ctx: RuleContext, unitId: string, destinationId: string): void {
+  const { state } = ctx;
+  const unit = state.units[unitId];
+  const origin = getTradeRouteOrigin(state, unitId, destinationId);
+  const destination = state.cities[destinationId];
+  if (!unit || !origin || !destination) return;
+
+  origin.tradeRoutes = [...origin.tradeRoutes, destinationId];
+  removeUnit(ctx, unitId);
+
+  ctx.emit(EVENTS.TRADE_ROUTE_ESTABLISHED, {
+    playerId: unit.playerId,
+    unitId,
+    originCityId: origin.id,
+    destinationCityId: destinationId,
+    foreign: isForeignTradeRoute(origin, destination)
+  });
+}
+
+/**
+ * Drop every trade route leading to a city that is gone
+ */
+export function removeTradeRoutesTo(state: GameState, cityId: string): void {
+  Object.values(state.cities).forEach(city => {
+    city.tradeRoutes = city.tradeRoutes.filter(id => id !== cityId);
+  });
+}
+
+/**
+ * Get the yields a city's trade routes bring it
+ */
+export function getTradeRouteYields(state: GameState, city: CityState): ResourceAmounts {
+  const yields: ResourceAmounts = { food: 0, production: 0, faith: 0 };
+
+  getTradeRouteDestinations(state, city).forEach(destination => {
+    yields.food += TRADE_ROUTE_YIELDS.food;
+    yields.production += TRADE_ROUTE_YIELDS.production;
+    yields.faith += TRADE_ROUTE_YIELDS.faith;
+
+    if (isForeignTradeRoute(city, destination)) {
+      yields.faith += getModifierTotal(state, city.playerId, ModifierStat.FOREIGN_TRADE_ROUTE_FAITH, { city });
+    }
+  });
+
+  return yields;
+}
@@ -0,0 +1,94 @@
+/**
+ * Turn rules: starting and ending player turns
+ */
+import { EVENTS } from '../../utils/events';
+import { getPlayerCities } from '../state';
+import { RuleContext } from '../types';
+import { processCity } from './cities';
+import { RESEARCH_PER_TURN, progressResearch } from './research';
+import { getCityBonus, getCityMaintenance } from './buildings';
+import { BuildingBonus } from '../../config/buildings';
+import { resetUnitsForTurn } from './units';
+import { refreshCityDefenses } from './conquest';
+
+/**
+ * Start a player's turn - reset units, ready city defences, process cities, pay building maintenance and research
+ */
+export function startTurn(ctx: RuleContext, playerId: string): void {
+  const player = ctx.state.players[playerId];
+  if (!player) return;
+
+  resetUnitsForTurn(ctx, playerId);
+
+  // Cities produce the player's resources and pay for their buildings
+  const cities = getPlayerCities(ctx.state, playerId);
+  let maintenance = 0;
+  let researchBonus = 0;
+
+  cities.forEach(city => {
+    refreshCityDefenses(ctx, city);
+
+    const yields = processCity(ctx, city);
+    player.resources.food += yields.food;
+    player.resources.production += yields.production;
+    player.resources.faith += yields.faith;
+
+    maintenance += getCityMaintenance(city);
+    researchBonus += getCityBonus(city, BuildingBonus.RESEARCH);
+  });
+
+  player.resources.production = Math.max(0, player.resources.production - maintenance);
+
+  progressResearch(ctx, playerId, Math.floor(RESEARCH_PER_TURN * (100 + researchBonus) / 100));
+
+  ctx.emit(EVENTS.RESOURCES_UPDATED, {
+    playerId,
+    resources: { ...player.resources }
+  });
+
+  ctx.emit(EVENTS.TURN_STARTED, {
+    playerId,
+    turn: ctx.state.turn,
+    resources: { ...player.resources }
+  });
+}
+
+/**
+ * Get the player who plays after the given player, skipping eliminated players
+ */
+export function getNextPlayerId(ctx: RuleContext, playerId: string): string {
+  const { playerOrder, players } = ctx.state;
+  const currentIndex = playerOrder.indexOf(playerId);
+
+  for (let offset = 1; offset <= playerOrder.length; offset++) {
+    const nextId = playerOrder[(currentIndex + offset) % playerOrder.length];
+    if (!players[nextId]?.isEliminated) {
+      return nextId;
+    }
+  }
+
+  return playerId;
+}
+
+/**
+ * End the current player's turn and start the next player's turn
+ */
+export function endTurn(ctx: RuleContext): void {
+  const { state } = ctx;
+  const previousPlayerId = state.currentPlayerId;
+  const nextPlayerId = getNextPlayerId(ctx, previousPlayerId);
+
+  ctx.emit(EVENTS.PLAYER_TURN_ENDED, {
+    playerId: previousPlayerId,
+    turn: state.turn
+  });
+
+  // A new round starts when play wraps around to the first player
+  if (state.playerOrder.indexOf(nextPlayerId) <= state.playerOrder.indexOf(previousPlayerId)) {
+    state.turn += 1;
+  }
+
+  state.currentPlayerId = nextPlayerId;
+
+  startTurn(ctx, nextPlayerId);
+}
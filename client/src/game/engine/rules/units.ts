@@ -0,0 +1,237 @@
+/**
+ * Unit rules: training, creation, removal, fortifying and turn resets
+ */
+import { UNITS, UnitType, getUnitDefinition, isNavalUnitType } from '../../config/units';
+import { getAdjacentPositions, getTile, getUnitAt, nextEntityId } from '../state';
+import { EVENTS } from '../../utils/events';
+import { ModifierStat } from '../../config/factions';
+import { ResourceType } from '../../config/resources';
+import { CityState, GameState, RuleContext, TileState, UnitState } from '../types';
+import { getTileMovementCost, isTilePassable, isWaterTile } from './tiles';
+import { hasTech } from './research';
+import { applyPercentage, getModifierTotal } from './modifiers';
+
+// Defence gained for each turn a unit spends fortified (percent)
+export const FORTIFY_BONUS = 10;
+
+// Most turns of fortification that count towards the bonus
+export const MAX_FORTIFICATION = 3;
+
+/**
+ * Check if a unit of the given type can stand on a tile (naval units on water, others on land)
+ */
+export function canUnitTypeOccupy(unitType: string, tile: TileState): boolean {
+  return isNavalUnitType(unitType) ? isWaterTile(tile) : isTilePassable(tile);
+}
+
+/**
+ * Get the movement cost for a unit of the given type entering a tile
+ */
+export function getUnitMovementCost(unitType: string, tile: TileState): number {
+  // Ships move one tile per point whatever the water
+  return isNavalUnitType(unitType) ? 1 : getTileMovementCost(tile);
+}
+
+/**
+ * Check if a city can train a unit type: the owner needs its technology and
+ * faction, and ships need water next to the city to be launched on
+ */
+export function canTrainUnit(state: GameState, city: CityState, unitType: string): boolean {
+  const definition = getUnitDefinition(unitType);
+  if (!definition) return false;
+
+  const player = state.players[city.playerId];
+  if (!player) return false;
+
+  if (definition.faction && definition.faction !== player.faction) return false;
+  if (definition.requiredTech && !hasTech(state, city.playerId, definition.requiredTech)) return false;
+
+  if (isNavalUnitType(unitType)) {
+    return getAdjacentPositions(state, city.x, city.y).some(pos => {
+      const tile = getTile(state, pos.x, pos.y);
+      return tile !== undefined && isWaterTile(tile);
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Get the production a player pays to train a unit type, after faction bonuses
+ */
+export function getUnitProductionCost(state: GameState, playerId: string, unitType: string): number {
+  const definition = getUnitDefinition(unitType);
+  if (!definition) return 0;
+
+  const modifier = getModifierTotal(state, playerId, ModifierStat.PRODUCTION_COST, { unitType });
+  return applyPercentage(definition.cost[ResourceType.PRODUCTION], modifier);
+}
+
+/**
+ * Get the unit types a city can train
+ */
+export function getTrainableUnits(state: GameState, city: CityState): UnitType[] {
+  return (Object.keys(UNITS) as UnitType[]).filter(unitType => canTrainUnit(state, city, unitType));
+}
+
+/**
+ * Create a unit of the given type for a player
+ */
+export function createUnit(
+  ctx: RuleContext,
+  unitType: string,
+  playerId: string,
+  x: number,
+  y: number
+): UnitState | null {
+  const definition = getUnitDefinition(unitType);
+  if (!definition) {
+    console.warn(`Unknown unit type ${unitType}`);
+    return null;
+  }
+
+  if (getUnitAt(ctx.state, x, y)) {
+    console.warn(`Tile ${x},${y} is already occupied`);
+    return null;
+  }
+
+  const unit: UnitState = {
+    id: nextEntityId(ctx.state, 'unit'),
+    type: definition.id,
+    playerId,
+    x,
+    y,
+    health: definition.health,
+    maxHealth: definition.health,
+    movementLeft: definition.movement,
+    maxMovement: definition.movement,
+    attack: definition.attackStrength,
+    defense: definition.defenseStrength,
+    range: definition.range,
+    hasActed: false,
+    experience: 0,
+    level: 0,
+    promotions: [],
+    fortification: 0
+  };
+
+  ctx.state.units[unit.id] = unit;
+
+  ctx.emit(EVENTS.UNIT_CREATED, { unit });
+
+  return unit;
+}
+
+/**
+ * Create a unit on the given position, or on the first free adjacent tile
+ */
+export function createUnitNear(
+  ctx: RuleContext,
+  unitType: string,
+  playerId: string,
+  x: number,
+  y: number
+): UnitState | null {
+  const candidates = [{ x, y }, ...getAdjacentPositions(ctx.state, x, y)];
+
+  for (const pos of candidates) {
+    const tile = getTile(ctx.state, pos.x, pos.y);
+    if (!tile || !canUnitTypeOccupy(unitType, tile) || getUnitAt(ctx.state, pos.x, pos.y)) continue;
+
+    return createUnit(ctx, unitType, playerId, pos.x, pos.y);
+  }
+
+  return null;
+}
+
+/**
+ * Remove a unit from the game
+ */
+export function removeUnit(ctx: RuleContext, unitId: string): void {
+  const unit = ctx.state.units[unitId];
+  if (!unit) return;
+
+  delete ctx.state.units[unitId];
+
+  ctx.emit(EVENTS.UNIT_DIED, {
+    unitId,
+    type: unit.type,
+    playerId: unit.playerId,
+    position: { x: unit.x, y: unit.y }
+  });
+}
+
+/**
+ * Apply damage to a unit, removing it if its health reaches zero
+ */
+export function damageUnit(ctx: RuleContext, unitId: string, amount: number): boolean {
+  const unit = ctx.state.units[unitId];
+  if (!unit) return false;
+
+  unit.health = Math.max(0, unit.health - amount);
+
+  ctx.emit(EVENTS.UNIT_DAMAGED, {
+    unitId,
+    amount,
+    health: unit.health
+  });
+
+  if (unit.health <= 0) {
+    removeUnit(ctx, unitId);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Reset movement and actions of a player's units for a new turn, digging
+ * fortified units in further
+ */
+export function resetUnitsForTurn(ctx: RuleContext, playerId: string): void {
+  Object.values(ctx.state.units)
+    .filter(unit => unit.playerId === playerId)
+    .forEach(unit => {
+      unit.movementLeft = unit.maxMovement;
+      unit.hasActed = false;
+
+      if (unit.fortification > 0) {
+        unit.fortification = Math.min(MAX_FORTIFICATION, unit.fortification + 1);
+      }
+    });
+}
+
+/**
+ * Check if a unit can fortify: a combat unit that has not acted this turn and is not fortified yet
+ */
+export function canFortifyUnit(state: GameState, unitId: string): boolean {
+  const unit = state.units[unitId];
+  return !!unit && unit.attack > 0 && !unit.hasActed && unit.fortification === 0;
+}
+
+/**
+ * Fortify a unit where it stands, spending its turn. It stays fortified,
+ * gaining defence each turn, until it moves or attacks.
+ */
+export function fortifyUnit(ctx: RuleContext, unitId: string): void {
+  const unit = ctx.state.units[unitId];
+  if (!unit) return;
+
+  unit.fortification = 1;
+  unit.hasActed = true;
+  unit.movementLeft = 0;
+
+  ctx.emit(EVENTS.UNIT_FORTIFIED, {
+    unitId,
+    playerId: unit.playerId,
+    position: { x: unit.x, y: unit.y }
+  });
+}
+
+/**
+ * Check if a unit has an ability from its unit definition
+ */
+export function hasAbility(unit: UnitState, abilityId: string): boolean {
+  const definition = getUnitDefinition(unit.type);
+  return definition ? definition.abilities.some(ability => ability.id === abilityId) : false;
+}
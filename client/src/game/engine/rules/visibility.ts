@@ -0,0 +1,198 @@
+/**
+ * Vision rules: the fog of war of each player.
+ *
+ * Units and cities see the tiles around them unless terrain taller than the
+ * viewer's own tile stands in the way. Tiles a player has seen stay explored
+ * and keep how they looked when last seen, so the rest of the game can show
+ * (and the AI can act on) only what each player knows.
+ */
+import { getTerrainConfig } from '../../config/terrain';
+import { getUnitDefinition } from '../../config/units';
+import { EVENTS } from '../../utils/events';
+import { getCityAt, getPlayerCities, getPlayerUnits, getTile, getTileByKey, isInBounds, tileKey, wrapPosition } from '../state';
+import { CityState, GameState, GridPosition, RuleContext, TileMemory, TileState, UnitState } from '../types';
+
+// How far cities see around their centre, on top of their own territory
+export const CITY_SIGHT = 2;
+
+/**
+ * Get how far a unit sees, including the bonus of the terrain it stands on
+ */
+export function getUnitSight(state: GameState, unit: UnitState): number {
+  const sight = getUnitDefinition(unit.type)?.sight ?? 0;
+  const tile = getTile(state, unit.x, unit.y);
+  return sight + (tile ? getTerrainConfig(tile.terrainType).sightBonus : 0);
+}
+
+/**
+ * Check if a viewer can see a position: no tile on the line between them may
+ * be taller than the viewer's own
+ */
+export function hasLineOfSight(state: GameState, from: GridPosition, to: GridPosition): boolean {
+  const fromTile = getTile(state, from.x, from.y);
+  if (!fromTile) return false;
+
+  const eyeHeight = getTerrainConfig(fromTile.terrainType).sightHeight;
+
+  // Look the short way round wrapping maps
+  let dx = to.x - from.x;
+  if (state.wrapX && Math.abs(dx) > state.mapWidth / 2) {
+    dx -= Math.sign(dx) * state.mapWidth;
+  }
+  const dy = to.y - from.y;
+  const steps = Math.max(Math.abs(dx), Math.abs(dy));
+
+  for (let step = 1; step < steps; step++) {
+    const tile = getTile(state, Math.round(from.x + dx * step / steps), Math.round(from.y + dy * step / steps));
+    if (tile && getTerrainConfig(tile.terrainType).sightHeight > eyeHeight) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Add the tiles a viewer sees to a set of tile keys
+ */
+function addVisibleTiles(state: GameState, origin: GridPosition, sight: number, visible: Set<string>): void {
+  for (let dy = -sight; dy <= sight; dy++) {
+    const reach = sight - Math.abs(dy);
+    for (let dx = -reach; dx <= reach; dx++) {
+      const pos = wrapPosition(state, origin.x + dx, origin.y + dy);
+      if (!isInBounds(state, pos.x, pos.y)) continue;
+
+      const key = tileKey(pos.x, pos.y);
+      if (!visible.has(key) && hasLineOfSight(state, origin, { x: origin.x + dx, y: origin.y + dy })) {
+        visible.add(key);
+      }
+    }
+  }
+}
+
+/**
+ * Get the keys of every tile a player's units and cities see
+ */
+export function getVisibleTileKeys(state: GameState, playerId: string): Set<string> {
+  const visible = new Set<string>();
+
+  getPlayerUnits(state, playerId).forEach(unit => {
+    addVisibleTiles(state, unit, getUnitSight(state, unit), visible);
+  });
+
+  getPlayerCities(state, playerId).forEach(city => {
+    city.tileKeys.forEach(key => visible.add(key));
+    addVisibleTiles(state, city, CITY_SIGHT, visible);
+  });
+
+  return visible;
+}
+
+/**
+ * Record how a tile looks now, for when it falls out of sight
+ */
+function rememberTile(state: GameState, tile: TileState): TileMemory {
+  const memory: TileMemory = { turn: state.turn };
+  if (tile.ownerId) {
+    memory.ownerId = tile.ownerId;
+  }
+  if (tile.improvement) {
+    memory.improvement = tile.improvement;
+  }
+
+  const city = getCityAt(state, tile.x, tile.y);
+  if (city) {
+    memory.city = { id: city.id, name: city.name, playerId: city.playerId };
+  }
+
+  return memory;
+}
+
+/**
+ * Work out what a player sees now and remember how those tiles look
+ * @returns Keys of the tiles the player saw for the first time
+ */
+export function refreshPlayerVisibility(state: GameState, playerId: string): string[] {
+  const player = state.players[playerId];
+  if (!player) return [];
+
+  // States from before fog of war have nothing explored yet
+  player.exploredTiles = player.exploredTiles ?? {};
+
+  const visible = getVisibleTileKeys(state, playerId);
+  const revealed: string[] = [];
+
+  visible.forEach(key => {
+    const tile = getTileByKey(state, key)!;
+    if (!player.exploredTiles[key]) {
+      revealed.push(key);
+    }
+    player.exploredTiles[key] = rememberTile(state, tile);
+  });
+
+  player.visibleTiles = Array.from(visible);
+  return revealed;
+}
+
+/**
+ * Refresh every player's vision, telling subscribers whose view changed
+ * @returns Keys of the tiles each player saw for the first time, by player ID
+ */
+export function updateVisibility(ctx: RuleContext): Record<string, string[]> {
+  const revealedBy: Record<string, string[]> = {};
+
+  ctx.state.playerOrder.forEach(playerId => {
+    const player = ctx.state.players[playerId];
+    if (!player) return;
+
+    const before = player.visibleTiles ?? [];
+    const revealed = refreshPlayerVisibility(ctx.state, playerId);
+    revealedBy[playerId] = revealed;
+
+    const after = new Set(player.visibleTiles);
+    if (revealed.length > 0 || before.length !== after.size || before.some(key => !after.has(key))) {
+      ctx.emit(EVENTS.VISIBILITY_CHANGED, {
+        playerId,
+        visibleTiles: [...player.visibleTiles],
+        revealed
+      });
+    }
+  });
+
+  return revealedBy;
+}
+
+/**
+ * Check if a player sees a position now
+ */
+export function isTileVisible(state: GameState, playerId: string, x: number, y: number): boolean {
+  return state.players[playerId]?.visibleTiles.includes(tileKey(x, y)) ?? false;
+}
+
+/**
+ * Check if a player has ever seen a position
+ */
+export function isTileExplored(state: GameState, playerId: string, x: number, y: number): boolean {
+  return !!state.players[playerId]?.exploredTiles[tileKey(x, y)];
+}
+
+/**
+ * Get the units a player can see: their own and any others on tiles in sight
+ */
+export function getVisibleUnits(state: GameState, playerId: string): UnitState[] {
+  const visible = new Set(state.players[playerId]?.visibleTiles ?? []);
+  return Object.values(state.units).filter(unit => (
+    unit.playerId === playerId || visible.has(tileKey(unit.x, unit.y))
+  ));
+}
+
+/**
+ * Get the cities a player knows of: their own and any others they have seen
+ * standing where they are now
+ */
+export function getKnownCities(state: GameState, playerId: string): CityState[] {
+  const explored = state.players[playerId]?.exploredTiles ?? {};
+  return Object.values(state.cities).filter(city => (
+    city.playerId === playerId || explored[tileKey(city.x, city.y)]?.city?.id === city.id
+  ));
+}
@@ -0,0 +1,266 @@
+/**
+ * Versioned save format for games in progress.
+ *
+ * A save is the engine state plus its action log and the state the game
+ * started from (so a saved game can still be replayed), wrapped with a format
+ * version. Loading runs the save through every migration newer than its
+ * version and then reconciles it with the current content tables, so saves
+ * keep opening after the format or the game content changes.
+ */
+import { UNITS } from '../config/units';
+import { BUILDINGS, BuildingType } from '../config/buildings';
+import { TECHNOLOGIES } from '../config/technologies';
+import { PROMOTIONS } from '../config/promotions';
+import { TerrainType } from '../config/terrain';
+import { createRandomState } from '../utils/random';
+import { ActionLogEntry } from './actions';
+import { GameEngine } from './GameEngine';
+import { cloneState } from './state';
+import { refreshPlayerVisibility } from './rules/visibility';
+import { GameState, ProductionItem } from './types';
+
+/**
+ * Current version of the save format
+ */
+export const SAVE_FORMAT_VERSION = 7;
+
+/**
+ * A saved game
+ */
+export interface SaveGame {
+  version: number;
+  savedAt: string;
+  state: GameState;
+  actionLog: ActionLogEntry[];
+  initialState: GameState | null;
+}
+
+/**
+ * Upgrades a save from one version to the next
+ */
+type SaveMigration = (save: any) => any;
+
+/**
+ * Migrations keyed by the version they upgrade from. When the format changes,
+ * bump SAVE_FORMAT_VERSION and add the step from the previous version here.
+ */
+const MIGRATIONS: Record<number, SaveMigration> = {
+  // Version 0 is a bare engine state (e.g. a debug dump) without the wrapper
+  0: save => ({
+    version: 1,
+    savedAt: save.savedAt ?? new Date(0).toISOString(),
+    state: save.state ?? save,
+    actionLog: save.actionLog ?? []
+  }),
+
+  // Version 1 did not keep the starting state, so those games cannot be replayed
+  1: save => ({
+    ...save,
+    version: 2,
+    initialState: null
+  }),
+
+  // Version 2 had no fog of war; vision is worked out when reconciling the state
+  2: save => ({
+    ...save,
+    version: 3
+  }),
+
+  // Version 3 had no unit experience; units start fresh when reconciling the state
+  3: save => ({
+    ...save,
+    version: 4
+  }),
+
+  // Version 4 had no fortifying or combat log; both start empty when reconciling the state
+  4: save => ({
+    ...save,
+    version: 5
+  }),
+
+  // Version 5 had no conquest; cities keep their current owner as founder when reconciling the state
+  5: save => ({
+    ...save,
+    version: 6
+  }),
+
+  // Version 6 had no trade routes; cities start without any when reconciling the state
+  6: save => ({
+    ...save,
+    version: 7
+  })
+};
+
+/**
+ * Create a save of the engine's current game
+ */
+export function createSave(engine: GameEngine): SaveGame {
+  const initialState = engine.getInitialState();
+
+  return {
+    version: SAVE_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    state: cloneState(engine.getState()),
+    actionLog: JSON.parse(JSON.stringify(engine.getActionLog())),
+    initialState: initialState ? cloneState(initialState) : null
+  };
+}
+
+/**
+ * Serialize a save to JSON
+ */
+export function serializeSave(save: SaveGame): string {
+  return JSON.stringify(save);
+}
+
+/**
+ * Parse a save from JSON, migrating it to the current format.
+ * Returns null if the data is not a readable save.
+ */
+export function parseSave(json: string): SaveGame | null {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    console.error('Save data is not valid JSON', error);
+    return null;
+  }
+
+  if (!data || typeof data !== 'object') {
+    console.error('Save data is not an object');
+    return null;
+  }
+
+  return migrateSave(data);
+}
+
+/**
+ * Bring a save of any known version up to the current format
+ */
+export function migrateSave(data: any): SaveGame | null {
+  let save = data;
+  let version: number = typeof save.version === 'number' ? save.version : 0;
+
+  if (version > SAVE_FORMAT_VERSION) {
+    console.error(`Save version ${version} is newer than this game supports (${SAVE_FORMAT_VERSION})`);
+    return null;
+  }
+
+  while (version < SAVE_FORMAT_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      console.error(`No migration from save version ${version}`);
+      return null;
+    }
+
+    save = migration(save);
+    version = save.version;
+  }
+
+  if (!isGameState(save.state)) {
+    console.error('Save does not contain a valid game state');
+    return null;
+  }
+
+  reconcileContent(save.state);
+
+  // A damaged starting state only costs the replay, not the game
+  if (save.initialState && isGameState(save.initialState)) {
+    reconcileContent(save.initialState);
+  } else {
+    save.initialState = null;
+  }
+
+  return save as SaveGame;
+}
+
+/**
+ * Check that the state has the fields the engine relies on
+ */
+function isGameState(state: any): state is GameState {
+  return !!state &&
+    typeof state.turn === 'number' &&
+    typeof state.currentPlayerId === 'string' &&
+    Array.isArray(state.playerOrder) &&
+    Array.isArray(state.tiles) &&
+    state.tiles.length === state.mapWidth * state.mapHeight &&
+    typeof state.players === 'object' &&
+    typeof state.units === 'object' &&
+    typeof state.cities === 'object';
+}
+
+/**
+ * Check that a production item still refers to existing content
+ */
+function isKnownProductionItem(item: ProductionItem): boolean {
+  return item.type === 'unit'
+    ? item.id in UNITS
+    : item.id in BUILDINGS;
+}
+
+/**
+ * Drop references to content that no longer exists and fill in state fields
+ * added since the save was written
+ */
+function reconcileContent(state: GameState): void {
+  const terrainTypes = Object.values(TerrainType) as string[];
+
+  state.randomState = { ...createRandomState(state.seed), ...state.randomState };
+  state.nextEntityId = state.nextEntityId ?? 1;
+  state.combatLog = state.combatLog ?? [];
+  state.winner = state.winner ?? null;
+
+  state.tiles.forEach(tile => {
+    if (!terrainTypes.includes(tile.terrainType)) {
+      tile.terrainType = TerrainType.PLAINS;
+    }
+  });
+
+  Object.values(state.units).forEach(unit => {
+    if (!(unit.type in UNITS)) {
+      console.warn(`Removing unit ${unit.id} of unknown type ${unit.type}`);
+      delete state.units[unit.id];
+      return;
+    }
+
+    // Units of games saved before experience have none yet
+    unit.experience = unit.experience ?? 0;
+    unit.level = unit.level ?? 0;
+    unit.promotions = (unit.promotions ?? []).filter(id => PROMOTIONS[id] !== undefined);
+    unit.fortification = unit.fortification ?? 0;
+  });
+
+  // Cities of games saved before conquest were all founded by their owners, the oldest being the capital
+  const foundedBy = new Set<string>();
+  Object.values(state.cities).forEach(city => {
+    city.originalPlayerId = city.originalPlayerId ?? city.playerId;
+    city.isOriginalCapital = city.isOriginalCapital ?? !foundedBy.has(city.originalPlayerId);
+    city.hasStruck = city.hasStruck ?? false;
+    foundedBy.add(city.originalPlayerId);
+
+    city.tradeRoutes = (city.tradeRoutes ?? []).filter(id => state.cities[id] !== undefined);
+
+    city.buildings = city.buildings.filter(id => BUILDINGS[id as BuildingType] !== undefined);
+    city.productionQueue = (city.productionQueue ?? []).filter(isKnownProductionItem);
+
+    if (city.currentProduction && !isKnownProductionItem(city.currentProduction)) {
+      city.currentProduction = city.productionQueue.shift() ?? null;
+    }
+  });
+
+  Object.values(state.players).forEach(player => {
+    player.technologies = player.technologies.filter(id => TECHNOLOGIES[id] !== undefined);
+
+    if (player.currentResearch && !TECHNOLOGIES[player.currentResearch.techId]) {
+      player.currentResearch = null;
+    }
+
+    // Players of games saved before fog of war have seen only what they see now
+    if (!player.exploredTiles) {
+      player.visibleTiles = [];
+      player.exploredTiles = {};
+      refreshPlayerVisibility(state, player.id);
+    }
+  });
+}
+
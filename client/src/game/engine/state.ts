@@ -0,0 +1,231 @@
+/**
+ * Construction of the game state and lookup helpers shared by all rules
+ */
+import { FactionType, getFactionConfig, getStartingTechs } from '../config/factions';
+import { createRandomState } from '../utils/random';
+import {
+  CityState,
+  GameState,
+  GridPosition,
+  PlayerState,
+  ScenarioSetup,
+  TileState,
+  UnitState
+} from './types';
+
+/**
+ * Player entry used when creating a new game state
+ */
+export interface PlayerSetup {
+  id: string;
+  faction: FactionType;
+  isHuman: boolean;
+}
+
+/**
+ * Options used when creating a new game state
+ */
+export interface GameStateOptions {
+  mapWidth: number;
+  mapHeight: number;
+  seed: number;
+  players: PlayerSetup[];
+  tiles: TileState[];
+  wrapX?: boolean;
+  scenario?: ScenarioSetup;
+}
+
+/**
+ * Create a fresh game state at turn 1
+ */
+export function createGameState(options: GameStateOptions): GameState {
+  const { mapWidth, mapHeight, seed, players, tiles, wrapX, scenario } = options;
+
+  if (tiles.length !== mapWidth * mapHeight) {
+    throw new Error(`Expected ${mapWidth * mapHeight} tiles, got ${tiles.length}`);
+  }
+
+  // Store tiles in row-major order regardless of input order
+  const orderedTiles: TileState[] = new Array(mapWidth * mapHeight);
+  tiles.forEach(tile => {
+    orderedTiles[tile.y * mapWidth + tile.x] = { ...tile };
+  });
+
+  const playerStates: Record<string, PlayerState> = {};
+  players.forEach(player => {
+    const faction = getFactionConfig(player.faction);
+    playerStates[player.id] = {
+      id: player.id,
+      faction: player.faction,
+      isHuman: player.isHuman,
+      resources: { ...faction.startingResources },
+      technologies: getStartingTechs(player.faction),
+      currentResearch: null,
+      isEliminated: false,
+      visibleTiles: [],
+      exploredTiles: {}
+    };
+  });
+
+  const state: GameState = {
+    turn: 1,
+    currentPlayerId: players.length > 0 ? players[0].id : '',
+    playerOrder: players.map(player => player.id),
+    mapWidth,
+    mapHeight,
+    seed,
+    tiles: orderedTiles,
+    players: playerStates,
+    units: {},
+    cities: {},
+    nextEntityId: 1,
+    randomState: createRandomState(seed),
+    combatLog: [],
+    winner: null
+  };
+
+  if (wrapX) {
+    state.wrapX = true;
+  }
+
+  if (scenario) {
+    state.scenario = scenario;
+  }
+
+  return state;
+}
+
+/**
+ * Hand out the next entity id for the given prefix
+ */
+export function nextEntityId(state: GameState, prefix: string): string {
+  const id = `${prefix}_${state.nextEntityId}`;
+  state.nextEntityId += 1;
+  return id;
+}
+
+/**
+ * Key used to refer to a tile position ("x,y")
+ */
+export function tileKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+/**
+ * Parse a tile key back into a position
+ */
+export function parseTileKey(key: string): GridPosition {
+  const [x, y] = key.split(',').map(Number);
+  return { x, y };
+}
+
+/**
+ * Check if coordinates are within the map
+ */
+export function isInBounds(state: GameState, x: number, y: number): boolean {
+  return x >= 0 && x < state.mapWidth && y >= 0 && y < state.mapHeight;
+}
+
+/**
+ * Bring a position onto the map across the joined edges of a wrapping map
+ * (positions past the top or bottom edge are left as they are)
+ */
+export function wrapPosition(state: GameState, x: number, y: number): GridPosition {
+  if (!state.wrapX) return { x, y };
+  return { x: ((x % state.mapWidth) + state.mapWidth) % state.mapWidth, y };
+}
+
+/**
+ * Distance between two positions in grid steps, the short way round on wrapping maps
+ */
+export function getDistance(state: GameState, a: GridPosition, b: GridPosition): number {
+  let dx = Math.abs(a.x - b.x);
+  if (state.wrapX) {
+    dx = Math.min(dx, state.mapWidth - dx);
+  }
+  return dx + Math.abs(a.y - b.y);
+}
+
+/**
+ * Get the tile at a position, wrapping around the east and west edges of wrapping maps
+ */
+export function getTile(state: GameState, x: number, y: number): TileState | undefined {
+  const pos = wrapPosition(state, x, y);
+  if (!isInBounds(state, pos.x, pos.y)) return undefined;
+  return state.tiles[pos.y * state.mapWidth + pos.x];
+}
+
+/**
+ * Get the tile referenced by a tile key
+ */
+export function getTileByKey(state: GameState, key: string): TileState | undefined {
+  const { x, y } = parseTileKey(key);
+  return getTile(state, x, y);
+}
+
+/**
+ * Get the unit standing on a position
+ */
+export function getUnitAt(state: GameState, x: number, y: number): UnitState | undefined {
+  return Object.values(state.units).find(unit => unit.x === x && unit.y === y);
+}
+
+/**
+ * Get the city on a position
+ */
+export function getCityAt(state: GameState, x: number, y: number): CityState | undefined {
+  return Object.values(state.cities).find(city => city.x === x && city.y === y);
+}
+
+/**
+ * Get all units owned by a player
+ */
+export function getPlayerUnits(state: GameState, playerId: string): UnitState[] {
+  return Object.values(state.units).filter(unit => unit.playerId === playerId);
+}
+
+/**
+ * Get all cities owned by a player
+ */
+export function getPlayerCities(state: GameState, playerId: string): CityState[] {
+  return Object.values(state.cities).filter(city => city.playerId === playerId);
+}
+
+/**
+ * Get the 4-way adjacent positions that are on the map
+ */
+export function getAdjacentPositions(state: GameState, x: number, y: number): GridPosition[] {
+  return [
+    wrapPosition(state, x, y - 1), // North
+    wrapPosition(state, x + 1, y), // East
+    wrapPosition(state, x, y + 1), // South
+    wrapPosition(state, x - 1, y)  // West
+  ].filter(pos => isInBounds(state, pos.x, pos.y));
+}
+
+/**
+ * Get the 8-way surrounding positions that are on the map
+ */
+export function getSurroundingPositions(state: GameState, x: number, y: number): GridPosition[] {
+  const positions: GridPosition[] = [];
+
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if (dx === 0 && dy === 0) continue;
+
+      const pos = wrapPosition(state, x + dx, y + dy);
+      if (isInBounds(state, pos.x, pos.y)) {
+        positions.push(pos);
+      }
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Create a deep copy of a game state
+ */
+export function cloneState(state: GameState): GameState {
+  return JSON.parse(JSON.stringify(state));
+}
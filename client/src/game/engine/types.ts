@@ -0,0 +1,250 @@
+/**
+ * Plain-data types describing the headless game state.
+ *
+ * Everything in here is serializable (no Phaser objects, Maps or Sets) so the
+ * same state can be rendered by a scene, validated on a server or advanced by
+ * an automated test without a canvas.
+ */
+import { TerrainType } from '../config/terrain';
+import { FactionType } from '../config/factions';
+import { UnitType } from '../config/units';
+import { RandomStreamName } from '../utils/random';
+
+/**
+ * A position on the map grid
+ */
+export interface GridPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Amounts of each of the three game resources
+ */
+export interface ResourceAmounts {
+  food: number;
+  production: number;
+  faith: number;
+}
+
+/**
+ * State of a single map tile
+ */
+export interface TileState {
+  x: number;
+  y: number;
+  terrainType: TerrainType;
+  elevation: number;
+  resourceType?: string;
+  resourceAmount?: number;
+  improvement?: string;
+  ownerId?: string;
+  cityId?: string;
+}
+
+/**
+ * State of a unit on the map
+ */
+export interface UnitState {
+  id: string;
+  type: UnitType;
+  playerId: string;
+  x: number;
+  y: number;
+  health: number;
+  maxHealth: number;
+  movementLeft: number;
+  maxMovement: number;
+  attack: number;
+  defense: number;
+  range: number;
+  hasActed: boolean;
+  experience: number;
+  level: number; // Levels reached, each earning one promotion
+  promotions: string[]; // Promotion ids, in the order they were chosen
+  fortification: number; // Turns spent fortified, 0 when not fortified
+}
+
+/**
+ * Something that changes a unit's strength in combat
+ */
+export interface CombatModifier {
+  name: string;
+  value: number; // Percent change to strength
+}
+
+/**
+ * A strength used in a fight and how it came about
+ */
+export interface CombatStrength {
+  base: number;
+  strength: number;
+  modifiers: CombatModifier[];
+}
+
+/**
+ * A fight between two units, with everything that decided it
+ */
+export interface CombatLogEntry {
+  turn: number;
+  attackerId: string;
+  attackerType: UnitType;
+  attackerPlayerId: string;
+  defenderId: string;
+  defenderType: UnitType;
+  defenderPlayerId: string;
+  attack: CombatStrength; // The attacker's attack
+  defense: CombatStrength; // The defender's defence
+  damage: number;
+  counterAttack: CombatStrength | null; // The defender striking back, if it did
+  counterDefense: CombatStrength | null; // The attacker's defence against it
+  counterDamage: number;
+  attackerKilled: boolean;
+  defenderKilled: boolean;
+}
+
+/**
+ * Production queue item representing something being built in a city
+ */
+export interface ProductionItem {
+  type: 'unit' | 'building';
+  id: string; // Unit type or building type id
+  name: string;
+  cost: number;
+  progress: number;
+}
+
+/**
+ * State of a city
+ */
+export interface CityState {
+  id: string;
+  name: string;
+  playerId: string;
+  originalPlayerId: string; // Player who founded the city
+  isOriginalCapital: boolean; // The first city its founder built
+  x: number;
+  y: number;
+  population: number;
+  maxPopulation: number;
+  health: number;
+  maxHealth: number;
+  hasStruck: boolean; // Made its ranged strike this turn
+
+  // Accumulated resources
+  food: number;
+  foodToGrow: number;
+  production: number;
+  faith: number;
+
+  // Resources per turn (recalculated every turn)
+  yields: ResourceAmounts;
+
+  // Territory, as tile keys ("x,y")
+  tileKeys: string[];
+  workedTileKeys: string[];
+
+  buildings: string[];
+  currentProduction: ProductionItem | null;
+  productionQueue: ProductionItem[];
+
+  // Cities this city's trade routes lead to
+  tradeRoutes: string[];
+}
+
+/**
+ * Technology currently being researched by a player
+ */
+export interface ResearchState {
+  techId: string;
+  progress: number;
+}
+
+/**
+ * How a player last saw a tile that is now out of their sight
+ */
+export interface TileMemory {
+  turn: number; // Turn the tile was last seen
+  ownerId?: string;
+  improvement?: string;
+  city?: { id: string; name: string; playerId: string };
+}
+
+/**
+ * State of a player
+ */
+export interface PlayerState {
+  id: string;
+  faction: FactionType;
+  isHuman: boolean;
+  resources: ResourceAmounts;
+  technologies: string[];
+  currentResearch: ResearchState | null;
+  isEliminated: boolean;
+
+  // Fog of war, as tile keys ("x,y"): what the player sees now and remembers of every tile seen before
+  visibleTiles: string[];
+  exploredTiles: Record<string, TileMemory>;
+}
+
+/**
+ * Starts, cities and units a hand-made map places for each player
+ */
+export interface ScenarioSetup {
+  starts: Record<string, GridPosition>; // Keyed by player ID
+  cities: { playerId: string; name?: string; x: number; y: number; population?: number }[];
+  units: { playerId: string; type: string; x: number; y: number }[];
+}
+
+/**
+ * Complete state of a game in progress
+ */
+export interface GameState {
+  turn: number;
+  currentPlayerId: string;
+  playerOrder: string[];
+
+  mapWidth: number;
+  mapHeight: number;
+  seed: number;
+  wrapX?: boolean; // The east and west edges of the map join
+
+  // Tiles in row-major order (index = y * mapWidth + x)
+  tiles: TileState[];
+
+  players: Record<string, PlayerState>;
+  units: Record<string, UnitState>;
+  cities: Record<string, CityState>;
+
+  // Counter used to hand out entity ids, so ids do not depend on timing
+  nextEntityId: number;
+
+  // Current state of each random stream, derived from the seed
+  randomState: Record<RandomStreamName, number>;
+
+  // Placements of a hand-made map, applied when the game starts
+  scenario?: ScenarioSetup;
+
+  // Most recent fights between units, oldest first
+  combatLog: CombatLogEntry[];
+
+  // Player who has won the game, once someone has
+  winner: string | null;
+}
+
+/**
+ * A single change applied to the game state, broadcast to subscribers
+ */
+export interface StateChange<T = any> {
+  type: string;
+  payload: T;
+}
+
+/**
+ * Everything a rule function needs besides its own arguments
+ */
+export interface RuleContext {
+  state: GameState;
+  random: (stream: RandomStreamName) => number;
+  emit: (type: string, payload?: any) => void;
+}
@@ -0,0 +1,186 @@
+/**
+ * Player views: what one player of a game is allowed to know of it.
+ *
+ * A view is the game state with everything hidden from that player taken
+ * out: other players' units out of their sight, cities they have not found,
+ * tiles out of sight as they last saw them, other players' holdings and
+ * vision, and the random number streams (from which every combat roll could
+ * be worked out). A server sends each seat its view once and then only the
+ * changes to it after every move.
+ */
+import { createRandomState } from '../utils/random';
+import { getKnownCities, getVisibleUnits } from './rules/visibility';
+import { cloneState, tileKey } from './state';
+import { CityState, GameState, PlayerState, TileMemory, TileState, UnitState } from './types';
+
+/**
+ * Differences between two views of the same player
+ */
+export interface PlayerViewChanges {
+  game: Partial<GameState>; // Other top-level fields that changed (turn, current player, winner, ...)
+  tiles: TileState[]; // Tiles that look different
+  players: Record<string, PlayerState | null>;
+  units: Record<string, UnitState | null>; // Null once a unit has left the view
+  cities: Record<string, CityState | null>;
+}
+
+// Parts of the state diffed entity by entity rather than as a whole
+const ENTITY_FIELDS = ['tiles', 'players', 'units', 'cities'];
+
+/**
+ * Get a tile as a player knows it: as it is while in sight, as last seen once
+ * out of sight, and only its terrain before it is explored
+ */
+function viewTile(tile: TileState, visible: boolean, memory: TileMemory | undefined): TileState {
+  if (visible) return { ...tile };
+
+  const { x, y, terrainType, elevation } = tile;
+  if (!memory) return { x, y, terrainType, elevation };
+
+  const seen: TileState = { ...tile, ownerId: memory.ownerId, improvement: memory.improvement };
+  if (memory.ownerId !== tile.ownerId) {
+    delete seen.cityId;
+  }
+  return seen;
+}
+
+/**
+ * Get another player's city without what only its owner knows
+ */
+function viewForeignCity(city: CityState): CityState {
+  return {
+    ...city,
+    food: 0,
+    production: 0,
+    faith: 0,
+    workedTileKeys: [],
+    currentProduction: null,
+    productionQueue: [],
+    tradeRoutes: []
+  };
+}
+
+/**
+ * Get another player without their holdings and vision
+ */
+function viewForeignPlayer(player: PlayerState): PlayerState {
+  return {
+    ...player,
+    resources: { food: 0, production: 0, faith: 0 },
+    technologies: [],
+    currentResearch: null,
+    visibleTiles: [],
+    exploredTiles: {}
+  };
+}
+
+/**
+ * Create the view a player has of a game
+ */
+export function createPlayerView(state: GameState, playerId: string): GameState {
+  const player = state.players[playerId];
+  const visible = new Set(player?.visibleTiles ?? []);
+  const explored = player?.exploredTiles ?? {};
+
+  return cloneState({
+    ...state,
+    // Without the seed and the streams' positions nobody can predict a roll
+    seed: 0,
+    randomState: createRandomState(0),
+    // The hand-made map's placements were used up when the game started
+    scenario: undefined,
+    tiles: state.tiles.map(tile => {
+      const key = tileKey(tile.x, tile.y);
+      return viewTile(tile, visible.has(key), explored[key]);
+    }),
+    players: Object.fromEntries(Object.values(state.players).map(other => [
+      other.id,
+      other.id === playerId ? other : viewForeignPlayer(other)
+    ])),
+    units: Object.fromEntries(getVisibleUnits(state, playerId).map(unit => [unit.id, unit])),
+    cities: Object.fromEntries(getKnownCities(state, playerId).map(city => [
+      city.id,
+      city.playerId === playerId ? city : viewForeignCity(city)
+    ])),
+    combatLog: state.combatLog.filter(entry => (
+      entry.attackerPlayerId === playerId || entry.defenderPlayerId === playerId
+    ))
+  });
+}
+
+/**
+ * Check if two parts of a state hold the same values
+ */
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Get the entities that were added, changed or removed between two records
+ */
+function diffEntities<T>(before: Record<string, T>, after: Record<string, T>): Record<string, T | null> {
+  const changes: Record<string, T | null> = {};
+
+  Object.entries(after).forEach(([id, entity]) => {
+    if (!isSame(before[id], entity)) {
+      changes[id] = entity;
+    }
+  });
+
+  Object.keys(before).forEach(id => {
+    if (!(id in after)) {
+      changes[id] = null;
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Get what changed between two views of the same player
+ */
+export function diffPlayerViews(before: GameState, after: GameState): PlayerViewChanges {
+  const game: Record<string, unknown> = {};
+  Object.entries(after).forEach(([field, value]) => {
+    if (!ENTITY_FIELDS.includes(field) && !isSame(before[field as keyof GameState], value)) {
+      game[field] = value;
+    }
+  });
+
+  return {
+    game: game as Partial<GameState>,
+    tiles: after.tiles.filter((tile, index) => !isSame(before.tiles[index], tile)),
+    players: diffEntities(before.players, after.players),
+    units: diffEntities(before.units, after.units),
+    cities: diffEntities(before.cities, after.cities)
+  };
+}
+
+/**
+ * Apply changes to an entity record in place
+ */
+function applyEntityChanges<T>(entities: Record<string, T>, changes: Record<string, T | null>): void {
+  Object.entries(changes).forEach(([id, entity]) => {
+    if (entity) {
+      entities[id] = entity;
+    } else {
+      delete entities[id];
+    }
+  });
+}
+
+/**
+ * Get the view that results from applying changes to a view
+ */
+export function applyPlayerViewChanges(view: GameState, changes: PlayerViewChanges): GameState {
+  const next = cloneState({ ...view, ...changes.game });
+
+  changes.tiles.forEach(tile => {
+    next.tiles[tile.y * next.mapWidth + tile.x] = tile;
+  });
+  applyEntityChanges(next.players, changes.players);
+  applyEntityChanges(next.units, changes.units);
+  applyEntityChanges(next.cities, changes.cities);
+
+  return next;
+}
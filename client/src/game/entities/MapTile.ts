@@ -2,6 +2,8 @@ import { TerrainType, getTerrainConfig } from '../config/terrain';
 import { gridToIso, getIsometricDepth } from '../utils/isometric';
 import { generateId } from '@/lib/utils';
 import { eventBus, EVENTS } from '../utils/events';
+import { TileState } from '../engine/types';
+import { getTileDefensiveBonus, getTileMovementCost, getTileYields, isTilePassable } from '../engine/rules/tiles';
 
 /**
  * Interface for tile data used in game scene and map generation
@@ -439,114 +441,76 @@ export class MapTile extends Phaser.GameObjects.Container {
   }
   
   /**
-   * Get the movement cost for this tile
+   * Show the tile as in sight, remembered from an earlier visit, or unexplored
    */
-  getMovementCost(): number {
-    // Get base movement cost from terrain config
-    const terrainConfig = getTerrainConfig(this.terrainType);
-    let cost = terrainConfig.movementCost;
+  setFog(visible: boolean, explored: boolean): void {
+    this.visible = visible;
+    this.explored = visible || explored;
     
-    // Apply modifiers (improvements might reduce cost)
-    if (this.improvement === 'road') {
-      cost = Math.max(1, cost - 1); // Roads reduce cost by 1 (minimum 1)
-    }
+    const alpha = visible ? 1 : this.explored ? 0.5 : 0;
+    if (this.sprite) this.sprite.setAlpha(alpha);
+    if (this.resourceSprite) this.resourceSprite.setAlpha(alpha);
+    if (this.improvementSprite) this.improvementSprite.setAlpha(alpha);
+  }
+  
+  /**
+   * Get the plain tile state used by the rules engine
+   */
+  toState(): TileState {
+    return {
+      x: this.gridX,
+      y: this.gridY,
+      terrainType: this.terrainType,
+      elevation: this.elevation,
+      resourceType: this.resourceType,
+      resourceAmount: this.resourceAmount,
+      improvement: this.improvement,
+      ownerId: this.ownerId
+    };
+  }
+  
+  /**
+   * Sync this tile with its state in the rules engine
+   */
+  applyState(state: TileState): void {
+    this.resourceAmount = state.resourceAmount;
+    this.ownerId = state.ownerId;
     
-    return cost;
+    if (state.improvement !== this.improvement) {
+      if (state.improvement) {
+        this.addImprovement(state.improvement);
+      } else {
+        this.removeImprovement();
+      }
+    }
+  }
+  
+  /**
+   * Get the movement cost for this tile
+   */
+  getMovementCost(): number {
+    return getTileMovementCost(this.toState());
   }
   
   /**
    * Check if this tile is passable
    */
   isPassable(): boolean {
-    // Get base passability from terrain config
-    const terrainConfig = getTerrainConfig(this.terrainType);
-    let passable = terrainConfig.passable;
-    
-    // Improvements might make impassable terrain passable
-    if (!passable && this.improvement === 'bridge' && this.terrainType === TerrainType.RIVER) {
-      passable = true;
-    }
-    
-    return passable;
+    return isTilePassable(this.toState());
   }
   
   /**
    * Get the defensive bonus for this tile
    */
   getDefensiveBonus(): number {
-    // Get base defensive bonus from terrain config
-    const terrainConfig = getTerrainConfig(this.terrainType);
-    let bonus = terrainConfig.defensiveBonus;
-    
-    // Apply modifiers from improvements
-    if (this.improvement === 'fort') {
-      bonus += 50; // Forts add 50% defensive bonus
-    }
-    
-    return bonus;
+    return getTileDefensiveBonus(this.toState());
   }
   
   /**
    * Get the resource yields for this tile
    */
   getYields(): { food: number; production: number; faith: number } {
-    // Get base yields from terrain config
-    const terrainConfig = getTerrainConfig(this.terrainType);
-    const yields = {
-      food: terrainConfig.foodYield,
-      production: terrainConfig.productionYield,
-      faith: terrainConfig.faithYield
-    };
-    
-    // Apply modifiers from improvements
-    if (this.improvement === 'farm') {
-      yields.food += 2;
-    } else if (this.improvement === 'mine') {
-      yields.production += 2;
-    } else if (this.improvement === 'lumbermill' && this.terrainType === TerrainType.FOREST) {
-      yields.production += 1;
-    } else if (this.improvement === 'pasture') {
-      yields.food += 1;
-    } else if (this.improvement === 'plantation') {
-      yields.food += 1;
-      yields.production += 1;
-    } else if (this.improvement === 'temple') {
-      yields.faith += 2;
-    }
-    
-    // Apply modifiers from resources
-    if (this.resourceType && this.resourceAmount && this.resourceAmount > 0) {
-      switch (this.resourceType) {
-        case 'grain':
-          yields.food += 1;
-          break;
-        case 'fruit':
-          yields.food += 2;
-          break;
-        case 'animals':
-          yields.food += 1;
-          yields.production += 1;
-          break;
-        case 'wood':
-          yields.production += 1;
-          break;
-        case 'stone':
-          yields.production += 2;
-          break;
-        case 'ore':
-          yields.production += 2;
-          break;
-        case 'herbs':
-          yields.food += 1;
-          yields.faith += 1;
-          break;
-        case 'fish':
-          yields.food += 2;
-          break;
-      }
-    }
-    
-    return yields;
+    return getTileYields(this.toState());
   }
   
   /**
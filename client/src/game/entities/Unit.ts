@@ -1,54 +1,21 @@
-import { generateId } from '@/lib/utils';
 import { eventBus, EVENTS } from '../utils/events';
-import { findPath, getIsometricDepth, gridToIso } from '../utils/isometric';
+import { getIsometricDepth, gridToIso } from '../utils/isometric';
 import { FactionType } from '../config/factions';
+import { UnitCategory, UnitDefinition, UnitType, getUnitDefinition } from '../config/units';
+import { UnitState } from '../engine/types';
+import { hasAbility } from '../engine/rules/units';
+import { ActionType } from '../engine/actions';
 import { GameScene } from '../scenes/GameScene';
 
-export enum UnitType {
-  WARRIOR = 'warrior',
-  ARCHER = 'archer',
-  BUILDER = 'builder',
-  SETTLER = 'settler',
-}
-
-/**
- * Configuration interface for different unit types
- */
-export interface UnitConfig {
-  type: UnitType;
-  name: string;
-  description: string;
-  attack: number;
-  defense: number;
-  maxHealth: number;
-  maxMovement: number;
-  productionCost: number;
-  faithCost?: number;
-  ranged?: boolean;
-  rangeDistance?: number;
-  special?: string[];
-  textureName: string;
-}
-
-/**
- * Data required to create a unit
- */
-export interface UnitData {
-  type: UnitType;
-  playerId: string;
-  faction: FactionType;
-  position: { x: number, y: number };
-  health?: number;
-  movementLeft?: number;
-}
-
 /**
- * Represents a unit on the game map
+ * Renders a unit from the engine state on the game map
  */
 export class Unit extends Phaser.GameObjects.Container {
   id: string;
   type: UnitType;
+  definition: UnitDefinition;
   name: string;
+  category: UnitCategory;
   playerId: string;
   faction: FactionType;
   
@@ -64,9 +31,7 @@ export class Unit extends Phaser.GameObjects.Container {
   health: number;
   maxHealth: number;
   
-  ranged: boolean;
   rangeDistance: number;
-  special: string[];
   
   // Visual properties
   sprite!: Phaser.GameObjects.Sprite;
@@ -79,13 +44,14 @@ export class Unit extends Phaser.GameObjects.Container {
   private gameScene: GameScene;
   
   /**
-   * Create a new unit
-   * @param scene The Phaser scene
-   * @param data The unit data
+   * Create the view for a unit
+   * @param scene The game scene
+   * @param state The unit's state in the engine
+   * @param faction The faction of the unit's owner
    */
-  constructor(scene: GameScene, data: UnitData, config?: UnitConfig) {
+  constructor(scene: GameScene, state: UnitState, faction: FactionType) {
     // Calculate isometric position for container
-    const isoPos = gridToIso(data.position.x, data.position.y, 64, 32);
+    const isoPos = gridToIso(state.x, state.y, 64, 32);
     
     // Call parent constructor with scene and position
     super(scene, isoPos.x, isoPos.y);
@@ -96,33 +62,28 @@ export class Unit extends Phaser.GameObjects.Container {
     scene.add.existing(this);
     
     // Initialize basic properties
-    this.id = generateId('unit');
-    this.type = data.type;
-    this.playerId = data.playerId;
-    this.faction = data.faction;
-    this.gridX = data.position.x;
-    this.gridY = data.position.y;
-    
-    // Get config for this unit type or use defaults
-    const unitConfig = config || this.getDefaultConfig();
-    
-    // Initialize unit stats from config
-    this.name = unitConfig.name;
-    this.maxHealth = unitConfig.maxHealth;
-    this.health = data.health ?? this.maxHealth;
-    this.attackValue = unitConfig.attack;
-    this.defense = unitConfig.defense;
-    this.maxMovement = unitConfig.maxMovement;
-    this.movementLeft = data.movementLeft ?? this.maxMovement;
-    this.hasActed = false;
-    
-    // Special abilities
-    this.ranged = unitConfig.ranged ?? false;
-    this.rangeDistance = unitConfig.rangeDistance ?? 0;
-    this.special = unitConfig.special ?? [];
+    this.id = state.id;
+    this.type = state.type;
+    this.definition = getUnitDefinition(state.type)!;
+    this.name = this.definition.name;
+    this.category = this.definition.category;
+    this.playerId = state.playerId;
+    this.faction = faction;
+    this.gridX = state.x;
+    this.gridY = state.y;
+    
+    // Stats are copied from the engine state
+    this.health = state.health;
+    this.maxHealth = state.maxHealth;
+    this.attackValue = state.attack;
+    this.defense = state.defense;
+    this.movementLeft = state.movementLeft;
+    this.maxMovement = state.maxMovement;
+    this.hasActed = state.hasActed;
+    this.rangeDistance = state.range;
     
     // Initialize visual representation
-    this.initialize(unitConfig.textureName);
+    this.initialize(state.type);
     
     // Set depth based on position for proper layering
     this.setDepth(getIsometricDepth(this.gridX, this.gridY, 100, 100) + 1);
@@ -307,7 +268,8 @@ export class Unit extends Phaser.GameObjects.Container {
     this.hideMovementRange();
     
     // Get tiles in movement range
-    const tilesInRange = this.getTilesInMovementRange();
+    const engine = this.gameScene.getEngine();
+    const tilesInRange = engine.getReachableTiles(this.id);
     
     // Create movement range indicators
     tilesInRange.forEach(position => {
@@ -327,6 +289,11 @@ export class Unit extends Phaser.GameObjects.Container {
         sprite.setAlpha(0.5);
         sprite.setDepth(tile.depth - 0.5);
         
+        // Mark tiles where an enemy zone of control would end the move
+        if (engine.isInZoneOfControl(this.id, position.x, position.y)) {
+          sprite.setTint(0xff8800);
+        }
+        
         // Add to scene and track for later removal
         this.movementRangeSprites.push(sprite);
         
@@ -353,127 +320,49 @@ export class Unit extends Phaser.GameObjects.Container {
   }
   
   /**
-   * Get all tiles this unit can move to based on remaining movement points
+   * Sync this unit with its state in the engine
    */
-  private getTilesInMovementRange(): { x: number, y: number }[] {
-    const positions: { x: number, y: number }[] = [];
-    const visited = new Set<string>();
-    
-    // Start position
-    const start = { x: this.gridX, y: this.gridY };
-    
-    // Helper function to get key for position
-    const getKey = (x: number, y: number) => `${x},${y}`;
+  applyState(state: UnitState): void {
+    this.health = state.health;
+    this.maxHealth = state.maxHealth;
+    this.movementLeft = state.movementLeft;
+    this.maxMovement = state.maxMovement;
+    this.hasActed = state.hasActed;
     
-    // Queue for BFS
-    const queue: { pos: { x: number, y: number }, movementLeft: number }[] = [
-      { pos: start, movementLeft: this.movementLeft }
-    ];
-    
-    // Mark start as visited
-    visited.add(getKey(start.x, start.y));
+    this.updateHealthBar();
     
-    // BFS to find all reachable tiles
-    while (queue.length > 0) {
-      const { pos, movementLeft } = queue.shift()!;
-      
-      // Add this position to result (except starting position)
-      if (pos.x !== start.x || pos.y !== start.y) {
-        positions.push(pos);
-      }
-      
-      // If no movement left, don't explore further from this node
-      if (movementLeft <= 0) continue;
-      
-      // Get adjacent tiles
-      const adjacentPositions = [
-        { x: pos.x, y: pos.y - 1 }, // North
-        { x: pos.x + 1, y: pos.y }, // East
-        { x: pos.x, y: pos.y + 1 }, // South
-        { x: pos.x - 1, y: pos.y }  // West
-      ];
-      
-      // Check each adjacent position
-      for (const nextPos of adjacentPositions) {
-        const key = getKey(nextPos.x, nextPos.y);
-        
-        // Skip if already visited or out of bounds
-        if (
-          visited.has(key) ||
-          nextPos.x < 0 || 
-          nextPos.x >= this.gameScene.getMapWidth() ||
-          nextPos.y < 0 || 
-          nextPos.y >= this.gameScene.getMapHeight()
-        ) {
-          continue;
-        }
-        
-        // Get the tile at this position
-        const tile = this.gameScene.getTileAt(nextPos.x, nextPos.y);
-        if (!tile || !tile.isPassable()) {
-          continue; // Skip impassable tiles
-        }
-        
-        // Calculate movement cost for this tile
-        const movementCost = tile.getMovementCost();
-        
-        // Only proceed if we have enough movement points left
-        if (movementLeft >= movementCost) {
-          // Mark as visited
-          visited.add(key);
-          
-          // Add to queue with reduced movement points
-          queue.push({
-            pos: nextPos,
-            movementLeft: movementLeft - movementCost
-          });
-        }
-      }
+    // Refresh movement range display
+    if (this.isSelected) {
+      this.hideMovementRange();
+      this.showMovementRange();
     }
-    
-    return positions;
   }
   
   /**
-   * Move this unit to a new grid position
+   * Ask the engine to move this unit to a new grid position
    */
   moveToGridPosition(x: number, y: number): void {
-    // Check if destination is in range
-    const tilesInRange = this.getTilesInMovementRange();
-    const canReach = tilesInRange.some(pos => pos.x === x && pos.y === y);
-    
-    if (!canReach) {
-      console.warn('Destination is out of movement range');
-      return;
-    }
-    
-    // Get path to destination
-    const path = this.findPathTo(x, y);
-    if (!path || path.length === 0) {
-      console.warn('No valid path to destination');
-      return;
-    }
-    
-    // Calculate total movement cost
-    let totalCost = 0;
-    for (let i = 0; i < path.length; i++) {
-      const pos = path[i];
-      const tile = this.gameScene.getTileAt(pos.x, pos.y);
-      if (tile) {
-        totalCost += tile.getMovementCost();
-      }
-    }
-    
-    // Update movement points
-    this.movementLeft -= totalCost;
-    if (this.movementLeft < 0) this.movementLeft = 0;
+    this.gameScene.getEngine().dispatch({
+      type: ActionType.MOVE_UNIT,
+      playerId: this.playerId,
+      unitId: this.id,
+      x,
+      y
+    }, { undoable: true });
+  }
+  
+  /**
+   * Animate this unit along a path the engine has already applied
+   */
+  animateAlongPath(path: { x: number, y: number }[]): void {
+    const destination = path[path.length - 1];
+    if (!destination) return;
     
-    // Update position
-    this.gridX = x;
-    this.gridY = y;
+    this.gridX = destination.x;
+    this.gridY = destination.y;
     
     // Update visual position
-    const isoPos = gridToIso(x, y, 64, 32);
+    const isoPos = gridToIso(destination.x, destination.y, 64, 32);
     
     // Animate movement
     this.scene.tweens.add({
@@ -491,314 +380,54 @@ export class Unit extends Phaser.GameObjects.Container {
           this.hideMovementRange();
           this.showMovementRange();
         }
-        
-        // Emit movement completed event
-        eventBus.emit(EVENTS.UNIT_MOVED, {
-          unitId: this.id,
-          playerId: this.playerId,
-          newPosition: { x, y },
-          movementLeft: this.movementLeft
-        });
       }
     });
   }
   
   /**
-   * Find a path to the destination
-   */
-  private findPathTo(targetX: number, targetY: number): { x: number, y: number }[] | null {
-    return findPath(
-      this.gridX, 
-      this.gridY,
-      targetX,
-      targetY,
-      (x, y) => {
-        const tile = this.gameScene.getTileAt(x, y);
-        return tile ? tile.isPassable() : false;
-      },
-      (x, y) => {
-        const tile = this.gameScene.getTileAt(x, y);
-        return tile ? tile.getMovementCost() : 1;
-      },
-      this.gameScene.getMapWidth(),
-      this.gameScene.getMapHeight()
-    );
-  }
-  
-  /**
-   * Attack another unit
+   * Ask the engine to attack another unit
    */
   attack(targetUnit: Unit): void {
-    // Check if unit has already acted
-    if (this.hasActed) {
-      console.warn('Unit has already acted this turn');
-      return;
-    }
-    
-    // Check if target is in range
-    const inRange = this.isInAttackRange(targetUnit);
-    if (!inRange) {
-      console.warn('Target is out of attack range');
-      return;
-    }
-    
-    // Calculate damage (simplified formula)
-    const damage = Math.max(1, Math.floor(this.attackValue * (100 / (100 + targetUnit.defense))));
-    
-    // Apply damage to target
-    targetUnit.takeDamage(damage);
-    
-    // Mark this unit as having acted
-    this.hasActed = true;
-    
-    // Emit attack event
-    eventBus.emit(EVENTS.UNIT_ATTACKED, {
-      attackerId: this.id,
-      attackerPlayerId: this.playerId,
-      targetId: targetUnit.id,
-      targetPlayerId: targetUnit.playerId,
-      damage,
-      targetRemainingHealth: targetUnit.health
-    });
-  }
-  
-  /**
-   * Check if a target unit is in attack range
-   */
-  private isInAttackRange(targetUnit: Unit): boolean {
-    const dx = Math.abs(this.gridX - targetUnit.gridX);
-    const dy = Math.abs(this.gridY - targetUnit.gridY);
-    
-    if (this.ranged) {
-      // For ranged units, check distance against range
-      return dx + dy <= this.rangeDistance;
-    } else {
-      // For melee units, must be adjacent
-      return (dx === 1 && dy === 0) || (dx === 0 && dy === 1);
-    }
-  }
-  
-  /**
-   * Take damage from an attack
-   */
-  takeDamage(amount: number): void {
-    this.health -= amount;
-    
-    // Ensure health doesn't go below 0
-    if (this.health < 0) {
-      this.health = 0;
-    }
-    
-    // Update health bar
-    this.updateHealthBar();
-    
-    // Check if unit is defeated
-    if (this.health <= 0) {
-      this.destroy();
-      
-      // Emit death event
-      eventBus.emit(EVENTS.UNIT_DIED, {
-        unitId: this.id,
-        type: this.type,
-        playerId: this.playerId,
-        position: { x: this.gridX, y: this.gridY }
-      });
-    }
-  }
-  
-  /**
-   * Heal this unit
-   */
-  heal(amount: number): void {
-    this.health += amount;
-    
-    // Cap health at max
-    if (this.health > this.maxHealth) {
-      this.health = this.maxHealth;
-    }
-    
-    // Update health bar
-    this.updateHealthBar();
-    
-    // Emit heal event
-    eventBus.emit(EVENTS.UNIT_HEALED, {
-      unitId: this.id,
+    this.gameScene.getEngine().dispatch({
+      type: ActionType.ATTACK,
       playerId: this.playerId,
-      amount,
-      newHealth: this.health
-    });
-  }
-  
-  /**
-   * Reset this unit for a new turn
-   */
-  resetForNewTurn(): void {
-    this.movementLeft = this.maxMovement;
-    this.hasActed = false;
-    
-    // Update movement range if selected
-    if (this.isSelected) {
-      this.hideMovementRange();
-      this.showMovementRange();
-    }
-    
-    // Heal unit slightly each turn if it has the "Healing" special ability
-    if (this.special.includes('Healing')) {
-      this.heal(Math.ceil(this.maxHealth * 0.1)); // Heal 10% each turn
-    }
-  }
-  
-  /**
-   * Get the default configuration for this unit type
-   */
-  private getDefaultConfig(): UnitConfig {
-    // These would normally come from a configuration file
-    switch (this.type) {
-      case UnitType.WARRIOR:
-        return {
-          type: UnitType.WARRIOR,
-          name: 'Warrior',
-          description: 'Basic melee combat unit',
-          attack: 10,
-          defense: 10,
-          maxHealth: 50,
-          maxMovement: 2,
-          productionCost: 40,
-          textureName: 'warrior'
-        };
-        
-      case UnitType.ARCHER:
-        return {
-          type: UnitType.ARCHER,
-          name: 'Archer',
-          description: 'Ranged combat unit',
-          attack: 15,
-          defense: 5,
-          maxHealth: 35,
-          maxMovement: 2,
-          productionCost: 60,
-          ranged: true,
-          rangeDistance: 2,
-          textureName: 'archer'
-        };
-        
-      case UnitType.BUILDER:
-        return {
-          type: UnitType.BUILDER,
-          name: 'Builder',
-          description: 'Can build improvements on tiles',
-          attack: 2,
-          defense: 3,
-          maxHealth: 30,
-          maxMovement: 2,
-          productionCost: 50,
-          special: ['CanBuildImprovements'],
-          textureName: 'builder'
-        };
-        
-      case UnitType.SETTLER:
-        return {
-          type: UnitType.SETTLER,
-          name: 'Settler',
-          description: 'Can found new cities',
-          attack: 0,
-          defense: 5,
-          maxHealth: 40,
-          maxMovement: 2,
-          productionCost: 100,
-          special: ['CanFoundCity'],
-          textureName: 'settler'
-        };
-        
-      default:
-        return {
-          type: UnitType.WARRIOR,
-          name: 'Unknown Unit',
-          description: 'Default unit',
-          attack: 5,
-          defense: 5,
-          maxHealth: 40,
-          maxMovement: 2,
-          productionCost: 40,
-          textureName: 'warrior'
-        };
-    }
+      unitId: this.id,
+      target: { kind: 'unit', id: targetUnit.id }
+    }, { undoable: true });
   }
   
   /**
    * Perform the unit's special action (like founding a city or building an improvement)
    */
   performSpecialAction(): void {
-    if (this.hasActed) {
+    const engine = this.gameScene.getEngine();
+    const state = engine.getState().units[this.id];
+    if (!state || state.hasActed) {
       console.warn('Unit has already acted this turn');
       return;
     }
     
-    // Handle different unit types
-    switch (this.type) {
-      case UnitType.SETTLER:
-        this.foundCity();
-        break;
-        
-      case UnitType.BUILDER:
-        // The improvement type would come from UI selection
-        this.buildImprovement('farm');
-        break;
-        
-      default:
-        console.warn('This unit has no special action');
-    }
-  }
-  
-  /**
-   * Found a new city (for Settler units)
-   */
-  private foundCity(): void {
-    if (!this.special.includes('CanFoundCity')) {
-      console.warn('This unit cannot found cities');
-      return;
+    if (hasAbility(state, 'found_city')) {
+      engine.dispatch({ type: ActionType.FOUND_CITY, playerId: this.playerId, unitId: this.id }, { undoable: true });
+    } else if (hasAbility(state, 'build_improvement')) {
+      // The improvement type would come from UI selection
+      engine.dispatch({
+        type: ActionType.BUILD_IMPROVEMENT,
+        playerId: this.playerId,
+        unitId: this.id,
+        improvementType: 'farm'
+      }, { undoable: true });
+    } else {
+      console.warn('This unit has no special action');
     }
-    
-    // Emit event to found a city at current position
-    eventBus.emit(EVENTS.FOUND_CITY, {
-      unitId: this.id,
-      playerId: this.playerId,
-      position: { x: this.gridX, y: this.gridY }
-    });
-    
-    // Unit is consumed when founding a city
-    this.destroy();
   }
   
   /**
-   * Build an improvement on the current tile (for Builder units)
+   * Clean up resources when the unit is removed
    */
-  private buildImprovement(improvementType: string): void {
-    if (!this.special.includes('CanBuildImprovements')) {
-      console.warn('This unit cannot build improvements');
-      return;
-    }
-    
-    // Get the current tile
-    const tile = this.gameScene.getTileAt(this.gridX, this.gridY);
-    if (!tile) {
-      console.warn('No tile found at unit position');
-      return;
-    }
-    
-    // Add the improvement to the tile
-    tile.addImprovement(improvementType);
-    
-    // Mark the unit as having acted
-    this.hasActed = true;
+  destroy(): void {
+    this.hideMovementRange();
     
-    // Emit event
-    eventBus.emit(EVENTS.IMPROVEMENT_BUILT, {
-      unitId: this.id,
-      playerId: this.playerId,
-      tileId: tile.id,
-      position: { x: this.gridX, y: this.gridY },
-      improvementType
-    });
+    super.destroy();
   }
-}
\ No newline at end of file
+}
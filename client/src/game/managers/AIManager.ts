@@ -1,705 +1,650 @@
 /**
  * AIManager handles AI player decision making and actions
+ *
+ * The AI reads the engine state and plays by dispatching the same actions a
+ * human player would, so it can never make a move the rules would reject.
+ * Like a human, it only acts on what its player has seen: units in sight,
+ * cities it has found and land it has explored.
  */
-import * as Phaser from 'phaser';
-import { UnitType } from '../config/units';
-import { BuildingType } from '../config/buildings';
-import { ResourceType } from '../config/resources';
-import { FactionType } from '../config/factions';
-import { phaserEvents, EVENTS, COMMANDS } from '../utils/events';
+import { UNITS, UnitCategory, UnitDefinition, UnitType } from '../config/units';
+import { GameEngine } from '../engine/GameEngine';
+import { ActionType, GameAction } from '../engine/actions';
+import { getAdjacentPositions, getCityAt, getDistance, getPlayerCities, getPlayerUnits, getTile, getUnitAt, isInBounds, wrapPosition } from '../engine/state';
+import { CityState, GridPosition, UnitState } from '../engine/types';
+import { canFortifyUnit, hasAbility } from '../engine/rules/units';
+import { getPendingPromotions } from '../engine/rules/promotions';
+import { FRESH_WATER_SITE_SCORE, hasFreshWater, isTilePassable, scoreWorkedTile } from '../engine/rules/tiles';
+import { canFoundCity } from '../engine/rules/cities';
+import { getKnownCities, getVisibleUnits, isTileExplored } from '../engine/rules/visibility';
+import { CombatPrediction } from '../engine/rules/combat';
+import { RandomFunction, randomPick } from '../utils/random';
+
+// How much a sure kill is worth when scoring attacks, next to a full unit's health of damage
+const KILL_WEIGHT = 1;
+
+// Improvements workers build, most useful first; the first the tile allows is chosen
+const WORKER_IMPROVEMENTS = ['mine', 'pasture', 'plantation', 'lumbermill', 'farm', 'road'];
 
 export class AIManager {
-  private scene: Phaser.Scene;
-  private mapManager: any; // Will be set by GameScene
-  private unitManager: any; // Will be set by GameScene
-  private buildingManager: any; // Will be set by GameScene
-  private resourceManager: any; // Will be set by GameScene
-  private pathfindingManager: any; // Will be set by GameScene
-  private combatManager: any; // Will be set by GameScene
-  private techManager: any; // Will be set by GameScene
-  
-  private aiPlayerId: string = 'ai-player';
-  private aiFaction: FactionType = FactionType.LAMANITE;
-  private aiTargetPlayerId: string = '';
-  
-  constructor(scene: Phaser.Scene) {
-    this.scene = scene;
-  }
+  private engine: GameEngine;
+  private aiPlayerId: string;
+  private random: RandomFunction;
+  private actionDelay: number;
 
   /**
-   * Set dependencies
+   * @param engine The engine running the game
+   * @param aiPlayerId The player this AI controls
+   * @param actionDelay Pause between actions in ms, so moves can be animated
    */
-  setDependencies(
-    mapManager: any, 
-    unitManager: any, 
-    buildingManager: any,
-    resourceManager: any,
-    pathfindingManager: any,
-    combatManager: any,
-    techManager: any,
-    aiPlayerId: string = 'ai-player',
-    aiFaction: FactionType = FactionType.LAMANITE,
-    targetPlayerId: string = ''
-  ): void {
-    this.mapManager = mapManager;
-    this.unitManager = unitManager;
-    this.buildingManager = buildingManager;
-    this.resourceManager = resourceManager;
-    this.pathfindingManager = pathfindingManager;
-    this.combatManager = combatManager;
-    this.techManager = techManager;
-    
+  constructor(engine: GameEngine, aiPlayerId: string, actionDelay: number = 300) {
+    this.engine = engine;
     this.aiPlayerId = aiPlayerId;
-    this.aiFaction = aiFaction;
-    this.aiTargetPlayerId = targetPlayerId;
+    this.random = engine.getRandomStream('ai');
+    this.actionDelay = actionDelay;
   }
 
   /**
-   * Take an AI turn
+   * Get the player this AI controls
+   */
+  getPlayerId(): string {
+    return this.aiPlayerId;
+  }
+
+  /**
+   * Take an AI turn, ending it when all units and cities have been handled
    */
   async takeTurn(): Promise<void> {
-    console.log("AI turn started");
-    
-    // Make sure dependencies are set
-    if (!this.unitManager || !this.buildingManager) {
-      console.warn('Required managers not set in AIManager');
-      return Promise.resolve();
-    }
-    
-    // Get all AI units
-    const aiUnits = this.unitManager.getPlayerUnits(this.aiPlayerId);
-    
-    // Get all AI buildings
-    const aiBuildings = this.buildingManager.getPlayerBuildings(this.aiPlayerId);
-    
-    // Process buildings
-    for (const building of aiBuildings) {
-      await this.processBuilding(building);
-      await this.delay(300); // Small delay between actions
+    const state = this.engine.getState();
+    if (state.currentPlayerId !== this.aiPlayerId) return;
+
+    // Process cities
+    for (const city of getPlayerCities(state, this.aiPlayerId)) {
+      this.strikeFromCity(city);
+      this.processCity(city);
+      await this.delay(this.actionDelay);
     }
-    
-    // Process units
-    for (const unit of aiUnits) {
-      await this.processUnit(unit);
-      await this.delay(300); // Small delay between actions
+
+    // Process units (copy the list, units may be consumed while acting)
+    for (const unit of [...getPlayerUnits(state, this.aiPlayerId)]) {
+      if (!state.units[unit.id]) continue;
+      this.choosePromotions(unit);
+      this.processUnit(unit);
+      await this.delay(this.actionDelay);
     }
-    
+
     // Research technology
     this.researchTechnology();
-    
-    console.log("AI turn completed");
-    return Promise.resolve();
+
+    this.dispatch({ type: ActionType.END_TURN, playerId: this.aiPlayerId });
+  }
+
+  /**
+   * Dispatch an action on behalf of this AI
+   */
+  private dispatch(action: GameAction): boolean {
+    return this.engine.dispatch(action).success;
   }
 
   /**
-   * Process an AI building
+   * Strike the weakest enemy in sight of a city's ranged attack
    */
-  private async processBuilding(building: any): Promise<void> {
-    // Skip buildings under construction
-    if (building.state === 'construction') {
-      return Promise.resolve();
+  private strikeFromCity(city: CityState): void {
+    const visible = new Set(getVisibleUnits(this.engine.getState(), this.aiPlayerId).map(unit => unit.id));
+    const targets = this.engine.getCityStrikeTargets(city.id).filter(unit => visible.has(unit.id));
+    if (targets.length === 0) return;
+
+    const target = targets.reduce((weakest, unit) => unit.health < weakest.health ? unit : weakest);
+    this.dispatch({ type: ActionType.CITY_STRIKE, playerId: this.aiPlayerId, cityId: city.id, targetId: target.id });
+  }
+
+  /**
+   * Decide what an AI city should produce
+   */
+  private processCity(city: CityState): void {
+    // Keep one item in production at a time
+    if (city.currentProduction) return;
+
+    const units = getPlayerUnits(this.engine.getState(), this.aiPlayerId);
+    const workerCount = units.filter(u => u.type === UnitType.WORKER).length;
+    const settlerCount = units.filter(u => u.type === UnitType.SETTLER).length;
+    const militaryCount = units.filter(u => UNITS[u.type].category === UnitCategory.MILITARY).length;
+    const cityCount = getPlayerCities(this.engine.getState(), this.aiPlayerId).length;
+
+    // Priority logic
+    if (militaryCount < cityCount) {
+      this.buildUnit(city, this.getBestMilitaryUnit(city));
+    } else if (workerCount < cityCount) {
+      this.buildUnit(city, UnitType.WORKER);
+    } else if (cityCount < 3 && settlerCount < 1) {
+      this.buildUnit(city, UnitType.SETTLER);
+    } else {
+      this.buildUnit(city, this.getBestMilitaryUnit(city));
     }
+  }
+  
+  /**
+   * Pick the strongest land military unit a city can train
+   */
+  private getBestMilitaryUnit(city: CityState): UnitType {
+    const candidates = this.engine.getTrainableUnits(city.id)
+      .map(unitType => UNITS[unitType])
+      .filter(definition => definition.category === UnitCategory.MILITARY);
+    
+    if (candidates.length === 0) return UnitType.WARRIOR;
     
-    // For city centers, build units based on needs
-    if (building.definition.id === BuildingType.CITY_CENTER) {
-      const resources = this.resourceManager.getResources(this.aiPlayerId);
-      
-      if (!resources) return Promise.resolve();
-      
-      // Decide what to build based on resources and existing units
-      const aiUnits = this.unitManager.getPlayerUnits(this.aiPlayerId);
-      
-      const workerCount = aiUnits.filter(u => u.definition.id === UnitType.WORKER).length;
-      const warriorCount = aiUnits.filter(u => u.definition.id === UnitType.WARRIOR).length;
-      const settlerCount = aiUnits.filter(u => u.definition.id === UnitType.SETTLER).length;
-      
-      // Priority logic
-      if (workerCount < 2 && resources[ResourceType.FOOD] >= 20) {
-        // Build worker
-        this.buildUnit(UnitType.WORKER, building.tileX, building.tileY);
-      } else if (warriorCount < 3 && resources[ResourceType.FOOD] >= 15 && resources[ResourceType.PRODUCTION] >= 15) {
-        // Build warrior
-        this.buildUnit(UnitType.WARRIOR, building.tileX, building.tileY);
-      } else if (aiBuildings.length < 3 && settlerCount < 1 && resources[ResourceType.FOOD] >= 40) {
-        // Build settler
-        this.buildUnit(UnitType.SETTLER, building.tileX, building.tileY);
-      } else if (resources[ResourceType.FOOD] >= 20 && resources[ResourceType.PRODUCTION] >= 10) {
-        // Build more military
-        this.buildUnit(UnitType.WARRIOR, building.tileX, building.tileY);
+    const strength = (definition: UnitDefinition) => definition.attackStrength + definition.defenseStrength;
+    return candidates.reduce((best, definition) => strength(definition) > strength(best) ? definition : best).id;
+  }
+
+  /**
+   * Spend every promotion a unit has earned, picking among those available
+   */
+  private choosePromotions(unit: UnitState): void {
+    while (getPendingPromotions(unit) > 0) {
+      const available = this.engine.getAvailablePromotions(unit.id);
+      if (available.length === 0) return;
+
+      const promotion = randomPick(this.random, available);
+      if (!this.dispatch({ type: ActionType.PROMOTE_UNIT, playerId: this.aiPlayerId, unitId: unit.id, promotionId: promotion.id })) {
+        return;
       }
     }
-    
-    return Promise.resolve();
   }
 
   /**
    * Process an AI unit
    */
-  private async processUnit(unit: any): Promise<void> {
+  private processUnit(unit: UnitState): void {
     // Skip units that have already acted
-    if (unit.hasActed || unit.movementLeft <= 0) {
-      return Promise.resolve();
-    }
-    
-    // Different behavior based on unit type
-    switch (unit.definition.id) {
-      case UnitType.WORKER:
-        await this.handleWorker(unit);
-        break;
-      case UnitType.SETTLER:
-        await this.handleSettler(unit);
-        break;
-      case UnitType.WARRIOR:
-      case UnitType.ARCHER:
-      case UnitType.SPEARMAN:
-      case UnitType.LAMANITE_WARRIOR:
-        await this.handleMilitaryUnit(unit);
-        break;
-      default:
-        // Generic movement for other units
-        await this.moveRandomly(unit);
+    if (unit.hasActed || unit.movementLeft <= 0) return;
+
+    if (hasAbility(unit, 'found_city')) {
+      this.handleSettler(unit);
+    } else if (hasAbility(unit, 'build_improvement')) {
+      this.handleWorker(unit);
+    } else if (hasAbility(unit, 'trade_route')) {
+      this.handleMerchant(unit);
+    } else if (unit.attack > 0) {
+      this.handleMilitaryUnit(unit);
+    } else {
+      // Generic movement for other units
+      this.moveRandomly(unit);
     }
-    
-    return Promise.resolve();
   }
 
   /**
    * Handle worker unit
    */
-  private async handleWorker(unit: any): Promise<void> {
-    // Simple worker behavior: look for resources or build improvements
-    
+  private handleWorker(unit: UnitState): void {
+    const state = this.engine.getState();
+    const tile = getTile(state, unit.x, unit.y);
+
+    // Improve own land that has no improvement yet, except the city centres
+    if (tile && tile.ownerId === this.aiPlayerId && !tile.improvement && !getCityAt(state, unit.x, unit.y)) {
+      const improvementType = WORKER_IMPROVEMENTS.find(type => this.engine.canBuildImprovement(unit.id, type));
+      if (improvementType && this.dispatch({ type: ActionType.BUILD_IMPROVEMENT, playerId: this.aiPlayerId, unitId: unit.id, improvementType })) {
+        return;
+      }
+    }
+
     // Check if there's a resource nearby
-    const nearbyResourceTile = this.findNearbyResourceTile(unit.tileX, unit.tileY, 5);
-    
+    const nearbyResourceTile = this.findNearbyResourceTile(unit.x, unit.y, 5);
     if (nearbyResourceTile) {
-      // Move toward resource
-      return this.moveToward(unit, nearbyResourceTile.x, nearbyResourceTile.y);
+      this.moveToward(unit, nearbyResourceTile.x, nearbyResourceTile.y);
+      return;
     }
-    
+
     // Otherwise, move randomly
-    return this.moveRandomly(unit);
+    this.moveRandomly(unit);
+  }
+
+  /**
+   * Handle merchant unit: trade with a city at hand, preferring foreign ones,
+   * or head for the nearest foreign city
+   */
+  private handleMerchant(unit: UnitState): void {
+    const targets = this.engine.getTradeRouteTargets(unit.id);
+    const target = targets.find(city => city.playerId !== this.aiPlayerId) ?? targets[0];
+    if (target && this.dispatch({ type: ActionType.ESTABLISH_TRADE_ROUTE, playerId: this.aiPlayerId, unitId: unit.id, cityId: target.id })) {
+      return;
+    }
+
+    const foreignCity = this.findNearestEnemyCity(unit.x, unit.y, 20);
+    if (foreignCity) {
+      this.moveToward(unit, foreignCity.x, foreignCity.y);
+      return;
+    }
+
+    this.moveRandomly(unit);
   }
 
   /**
    * Handle settler unit
    */
-  private async handleSettler(unit: any): Promise<void> {
+  private handleSettler(unit: UnitState): void {
     // Check if current position is good for a city
-    if (this.isGoodCityLocation(unit.tileX, unit.tileY)) {
-      // Found city
-      this.foundCity(unit);
-      return Promise.resolve();
+    if (this.isGoodCityLocation(unit.x, unit.y)) {
+      if (this.dispatch({ type: ActionType.FOUND_CITY, playerId: this.aiPlayerId, unitId: unit.id })) {
+        return;
+      }
     }
-    
+
     // Look for a good city location
-    const cityLocation = this.findCityLocation(unit.tileX, unit.tileY, 8);
-    
+    const cityLocation = this.findCityLocation(unit.x, unit.y, 8);
     if (cityLocation) {
-      // Move toward location
-      return this.moveToward(unit, cityLocation.x, cityLocation.y);
+      this.moveToward(unit, cityLocation.x, cityLocation.y);
+      return;
     }
-    
+
     // Otherwise, move randomly exploring
-    return this.moveRandomly(unit);
+    this.moveRandomly(unit);
   }
 
   /**
    * Handle military unit
    */
-  private async handleMilitaryUnit(unit: any): Promise<void> {
-    // Look for enemy units to attack
-    const enemyUnit = this.findNearestEnemyUnit(unit.tileX, unit.tileY, unit.definition.range);
-    
-    if (enemyUnit) {
-      // If already in range, attack
-      if (this.combatManager.canAttack(unit.id, enemyUnit.id)) {
-        return this.attackUnit(unit, enemyUnit);
+  private handleMilitaryUnit(unit: UnitState): void {
+    const state = this.engine.getState();
+
+    // Attack the enemy in range with the best predicted outcome
+    const target = this.findBestAttackTarget(unit);
+    if (target) {
+      this.dispatch({
+        type: ActionType.ATTACK,
+        playerId: this.aiPlayerId,
+        unitId: unit.id,
+        target: { kind: 'unit', id: target.id }
+      });
+      return;
+    }
+
+    // Otherwise, move toward the nearest enemy out of reach
+    const enemyUnit = this.findNearestEnemyUnit(unit.x, unit.y);
+    if (enemyUnit && !this.engine.canAttack(unit.id, enemyUnit.id)) {
+      this.moveToward(unit, enemyUnit.x, enemyUnit.y);
+      return;
+    }
+
+    // Look for enemy cities to attack
+    const enemyCity = this.findNearestEnemyCity(unit.x, unit.y);
+    if (enemyCity) {
+      if (this.engine.canAttackCity(unit.id, enemyCity.id)) {
+        this.dispatch({
+          type: ActionType.ATTACK,
+          playerId: this.aiPlayerId,
+          unitId: unit.id,
+          target: { kind: 'city', id: enemyCity.id }
+        });
+        return;
+      }
+
+      this.moveToward(unit, enemyCity.x, enemyCity.y);
+      return;
+    }
+
+    // Units beyond one per city scout for land this AI has not seen yet
+    if (!this.isGarrison(unit)) {
+      const frontier = this.findExplorationTarget(unit.x, unit.y, 10);
+      if (frontier) {
+        this.moveToward(unit, frontier.x, frontier.y);
+        return;
       }
-      
-      // Otherwise, move toward enemy
-      return this.moveToward(unit, enemyUnit.tileX, enemyUnit.tileY);
     }
-    
-    // Look for enemy buildings to attack
-    const enemyBuilding = this.findNearestEnemyBuilding(unit.tileX, unit.tileY, unit.definition.range);
-    
-    if (enemyBuilding) {
-      // If already in range, attack
-      if (this.combatManager.canAttackBuilding(unit.id, enemyBuilding.id)) {
-        return this.attackBuilding(unit, enemyBuilding);
+
+    // Garrisons standing in one of our cities dig in rather than patrol
+    if (this.isGarrison(unit) && getCityAt(state, unit.x, unit.y)?.playerId === this.aiPlayerId) {
+      if (canFortifyUnit(state, unit.id)) {
+        this.dispatch({ type: ActionType.FORTIFY_UNIT, playerId: this.aiPlayerId, unitId: unit.id });
       }
-      
-      // Otherwise, move toward building
-      return this.moveToward(unit, enemyBuilding.tileX, enemyBuilding.tileY);
+      return;
     }
-    
-    // If no enemies nearby, patrol or move strategically
+
+    // If no enemies nearby, patrol around our cities
     const patrolTarget = this.getPatrolTarget(unit);
-    
     if (patrolTarget) {
-      return this.moveToward(unit, patrolTarget.x, patrolTarget.y);
+      this.moveToward(unit, patrolTarget.x, patrolTarget.y);
+      return;
     }
-    
+
     // Otherwise, move randomly
-    return this.moveRandomly(unit);
+    this.moveRandomly(unit);
   }
 
   /**
-   * Find a nearby resource tile
+   * Check if a military unit is one of those kept near home, one per city
    */
-  private findNearbyResourceTile(startX: number, startY: number, radius: number): { x: number, y: number } | null {
-    if (!this.mapManager) return null;
-    
+  private isGarrison(unit: UnitState): boolean {
+    const state = this.engine.getState();
+    const garrison = getPlayerUnits(state, this.aiPlayerId)
+      .filter(u => u.attack > 0)
+      .slice(0, getPlayerCities(state, this.aiPlayerId).length);
+
+    return garrison.some(u => u.id === unit.id);
+  }
+
+  /**
+   * Find the nearest explored tile a unit can stand on next to unexplored land
+   */
+  private findExplorationTarget(startX: number, startY: number, radius: number): GridPosition | null {
+    const state = this.engine.getState();
+    let closest: GridPosition | null = null;
+    let closestDistance = Infinity;
+
+    for (let ty = startY - radius; ty <= startY + radius; ty++) {
+      for (let tx = startX - radius; tx <= startX + radius; tx++) {
+        const tile = getTile(state, tx, ty);
+        if (!tile || !isTilePassable(tile) || !isTileExplored(state, this.aiPlayerId, tile.x, tile.y)) continue;
+
+        const borders = getAdjacentPositions(state, tile.x, tile.y)
+          .some(pos => !isTileExplored(state, this.aiPlayerId, pos.x, pos.y));
+        const distance = getDistance(state, { x: startX, y: startY }, tile);
+        if (borders && distance > 0 && distance < closestDistance) {
+          closest = { x: tile.x, y: tile.y };
+          closestDistance = distance;
+        }
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Find a nearby tile with a resource
+   */
+  private findNearbyResourceTile(startX: number, startY: number, radius: number): GridPosition | null {
+    const state = this.engine.getState();
+
     for (let y = startY - radius; y <= startY + radius; y++) {
       for (let x = startX - radius; x <= startX + radius; x++) {
-        // Skip if out of bounds
-        if (!this.mapManager.isValidTile(x, y)) continue;
+        const tile = getTile(state, x, y);
+        if (!tile || !isTileExplored(state, this.aiPlayerId, tile.x, tile.y)) continue;
         
-        // Get tile
-        const tile = this.mapManager.getTileAt(x, y);
-        
-        // Check if it's a resource tile
-        if (tile && (
-          tile.type === 'resource_food' || 
-          tile.type === 'resource_production' || 
-          tile.type === 'resource_faith'
-        )) {
+        if (tile.resourceType && !tile.improvement && (x !== startX || y !== startY)) {
           return { x, y };
         }
       }
     }
-    
+
     return null;
   }
 
   /**
-   * Check if a location is good for founding a city
+   * Score the land around a position for a city
    */
-  private isGoodCityLocation(x: number, y: number): boolean {
-    if (!this.mapManager) return false;
-    
-    // Check surrounding resources
-    let resourceCount = 0;
-    
+  private scoreCityLocation(x: number, y: number): number {
+    const state = this.engine.getState();
+    let score = 0;
+
     for (let dy = -2; dy <= 2; dy++) {
       for (let dx = -2; dx <= 2; dx++) {
-        const tx = x + dx;
-        const ty = y + dy;
-        
-        if (!this.mapManager.isValidTile(tx, ty)) continue;
-        
-        const tile = this.mapManager.getTileAt(tx, ty);
-        
-        if (tile && (
-          tile.type === 'resource_food' || 
-          tile.type === 'resource_production' || 
-          tile.type === 'resource_faith'
-        )) {
-          resourceCount++;
+        const tile = getTile(state, x + dx, y + dy);
+        if (tile && !tile.ownerId && isTileExplored(state, this.aiPlayerId, tile.x, tile.y)) {
+          score += scoreWorkedTile(state, tile);
         }
       }
     }
-    
-    // Check distance from other cities
+
+    // Prefer river and lake shores
+    if (hasFreshWater(state, x, y)) {
+      score += FRESH_WATER_SITE_SCORE;
+    }
+
+    return score;
+  }
+
+  /**
+   * Check if a location is good for founding a city
+   */
+  private isGoodCityLocation(x: number, y: number): boolean {
     const nearestCity = this.findNearestCity(x, y);
-    const cityDistance = nearestCity ? 
-      Math.abs(x - nearestCity.tileX) + Math.abs(y - nearestCity.tileY) : 
+    const cityDistance = nearestCity ?
+      getDistance(this.engine.getState(), { x, y }, nearestCity) :
       Infinity;
-    
+
     // Decision criteria
-    return resourceCount >= 2 && cityDistance > 6;
+    return cityDistance > 4 && this.scoreCityLocation(x, y) >= 30;
   }
 
   /**
    * Find a good location for a city
    */
-  private findCityLocation(startX: number, startY: number, radius: number): { x: number, y: number } | null {
-    if (!this.mapManager) return null;
-    
+  private findCityLocation(startX: number, startY: number, radius: number): GridPosition | null {
+    const state = this.engine.getState();
     let bestScore = -1;
-    let bestLocation = null;
-    
-    for (let y = startY - radius; y <= startY + radius; y++) {
-      for (let x = startX - radius; x <= startX + radius; x++) {
-        // Skip if out of bounds or not walkable
-        if (!this.mapManager.isValidTile(x, y) || !this.mapManager.isTileWalkable(x, y)) continue;
-        
-        // Skip if occupied
-        if (this.unitManager.getUnitAt(x, y) || this.buildingManager.getBuildingAt(x, y)) continue;
-        
-        // Calculate score for this location
-        let score = 0;
-        
-        // Count resources in range
-        for (let dy = -2; dy <= 2; dy++) {
-          for (let dx = -2; dx <= 2; dx++) {
-            const tx = x + dx;
-            const ty = y + dy;
-            
-            if (!this.mapManager.isValidTile(tx, ty)) continue;
-            
-            const tile = this.mapManager.getTileAt(tx, ty);
-            
-            if (tile) {
-              if (tile.type === 'resource_food') score += 3;
-              if (tile.type === 'resource_production') score += 2;
-              if (tile.type === 'resource_faith') score += 1;
-              if (tile.type === 'grass') score += 0.5;
-            }
-          }
-        }
-        
+    let bestLocation: GridPosition | null = null;
+
+    for (let ty = startY - radius; ty <= startY + radius; ty++) {
+      for (let tx = startX - radius; tx <= startX + radius; tx++) {
+        // Positions past the edge of wrapping maps come back on the other side
+        const tile = getTile(state, tx, ty);
+        if (!tile) continue;
+
+        const { x, y } = tile;
+        if (!isTileExplored(state, this.aiPlayerId, x, y)) continue;
+        if (!canFoundCity(state, this.aiPlayerId, x, y) || tile.ownerId) continue;
+
+        // Skip if occupied by another unit
+        const occupant = getUnitAt(state, x, y);
+        if (occupant && occupant.id !== getUnitAt(state, startX, startY)?.id) continue;
+
+        let score = this.scoreCityLocation(x, y);
+
         // Distance from other cities (prefer farther)
         const nearestCity = this.findNearestCity(x, y);
-        const cityDistance = nearestCity ? 
-          Math.abs(x - nearestCity.tileX) + Math.abs(y - nearestCity.tileY) : 
+        const cityDistance = nearestCity ?
+          getDistance(state, { x, y }, nearestCity) :
           Infinity;
-        
+
         if (cityDistance < 5) score = 0; // Too close
         if (cityDistance < 8) score *= 0.5; // Reduce score if close
-        
-        // Update best location
+
         if (score > bestScore) {
           bestScore = score;
           bestLocation = { x, y };
         }
       }
     }
-    
+
     return bestLocation;
   }
 
+  /**
+   * Find the enemy unit in range whose attack has the best predicted outcome,
+   * or null if no attack would gain more than it costs
+   */
+  private findBestAttackTarget(unit: UnitState): UnitState | null {
+    let bestTarget: UnitState | null = null;
+    let bestScore = 0;
+
+    getVisibleUnits(this.engine.getState(), this.aiPlayerId).forEach(enemy => {
+      if (enemy.playerId === this.aiPlayerId || !this.engine.canAttack(unit.id, enemy.id)) return;
+
+      const prediction = this.engine.predictCombat(unit.id, enemy.id);
+      if (!prediction) return;
+
+      const score = this.scoreAttack(unit, enemy, prediction);
+      if (score > bestScore) {
+        bestTarget = enemy;
+        bestScore = score;
+      }
+    });
+
+    return bestTarget;
+  }
+
+  /**
+   * Score an attack: the share of the defender's health it is expected to take
+   * and its chance of a kill, less the same for the attacker
+   */
+  private scoreAttack(attacker: UnitState, defender: UnitState, prediction: CombatPrediction): number {
+    const dealt = Math.min(prediction.damage.expected, defender.health) / defender.maxHealth;
+    const taken = Math.min(prediction.counterDamage.expected, attacker.health) / attacker.maxHealth;
+
+    return dealt + prediction.defenderKillChance * KILL_WEIGHT - taken - prediction.attackerKillChance * KILL_WEIGHT;
+  }
+
   /**
    * Find the nearest enemy unit
    */
-  private findNearestEnemyUnit(startX: number, startY: number, maxRange: number = 10): any {
-    if (!this.unitManager) return null;
-    
-    const allUnits = this.unitManager.getAllUnits();
-    let closestUnit = null;
+  private findNearestEnemyUnit(startX: number, startY: number, maxRange: number = 10): UnitState | null {
+    let closestUnit: UnitState | null = null;
     let closestDistance = Infinity;
-    
-    for (const unit of allUnits) {
-      // Skip own units
-      if (unit.playerId === this.aiPlayerId) continue;
-      
-      // Calculate distance
-      const distance = Math.abs(startX - unit.tileX) + Math.abs(startY - unit.tileY);
-      
-      // Check if closer than current closest
+
+    getVisibleUnits(this.engine.getState(), this.aiPlayerId).forEach(unit => {
+      if (unit.playerId === this.aiPlayerId) return;
+
+      const distance = getDistance(this.engine.getState(), { x: startX, y: startY }, unit);
       if (distance <= maxRange && distance < closestDistance) {
         closestUnit = unit;
         closestDistance = distance;
       }
-    }
-    
+    });
+
     return closestUnit;
   }
 
   /**
-   * Find the nearest enemy building
+   * Find the nearest enemy city
    */
-  private findNearestEnemyBuilding(startX: number, startY: number, maxRange: number = 10): any {
-    if (!this.buildingManager) return null;
-    
-    const allBuildings = this.buildingManager.getAllBuildings();
-    let closestBuilding = null;
+  private findNearestEnemyCity(startX: number, startY: number, maxRange: number = 10): CityState | null {
+    let closestCity: CityState | null = null;
     let closestDistance = Infinity;
-    
-    for (const building of allBuildings) {
-      // Skip own buildings
-      if (building.playerId === this.aiPlayerId) continue;
-      
-      // Skip buildings under construction
-      if (building.state === 'construction') continue;
-      
-      // Calculate distance
-      const distance = Math.abs(startX - building.tileX) + Math.abs(startY - building.tileY);
-      
-      // Check if closer than current closest
+
+    getKnownCities(this.engine.getState(), this.aiPlayerId).forEach(city => {
+      if (city.playerId === this.aiPlayerId) return;
+
+      const distance = getDistance(this.engine.getState(), { x: startX, y: startY }, city);
       if (distance <= maxRange && distance < closestDistance) {
-        closestBuilding = building;
+        closestCity = city;
         closestDistance = distance;
       }
-    }
-    
-    return closestBuilding;
+    });
+
+    return closestCity;
   }
 
   /**
-   * Find the nearest city
+   * Find the nearest city of any player that this AI knows of
    */
-  private findNearestCity(startX: number, startY: number): any {
-    if (!this.buildingManager) return null;
-    
-    const allBuildings = this.buildingManager.getAllBuildings();
-    let closestCity = null;
+  private findNearestCity(startX: number, startY: number): CityState | null {
+    let closestCity: CityState | null = null;
     let closestDistance = Infinity;
-    
-    for (const building of allBuildings) {
-      // Only consider city centers
-      if (building.definition.id !== BuildingType.CITY_CENTER) continue;
-      
-      // Calculate distance
-      const distance = Math.abs(startX - building.tileX) + Math.abs(startY - building.tileY);
-      
-      // Check if closer than current closest
+
+    getKnownCities(this.engine.getState(), this.aiPlayerId).forEach(city => {
+      const distance = getDistance(this.engine.getState(), { x: startX, y: startY }, city);
       if (distance < closestDistance) {
-        closestCity = building;
+        closestCity = city;
         closestDistance = distance;
       }
-    }
-    
+    });
+
     return closestCity;
   }
 
   /**
    * Get a patrol target for a military unit
    */
-  private getPatrolTarget(unit: any): { x: number, y: number } | null {
-    // For now, just patrol around nearest friendly city
-    const ownCities = this.buildingManager.getPlayerBuildings(this.aiPlayerId)
-      .filter(b => b.definition.id === BuildingType.CITY_CENTER);
-    
+  private getPatrolTarget(unit: UnitState): GridPosition | null {
+    const ownCities = getPlayerCities(this.engine.getState(), this.aiPlayerId);
     if (ownCities.length === 0) return null;
-    
+
     // Find nearest city
-    let closestCity = null;
+    let closestCity = ownCities[0];
     let closestDistance = Infinity;
-    
+
     for (const city of ownCities) {
-      const distance = Math.abs(unit.tileX - city.tileX) + Math.abs(unit.tileY - city.tileY);
-      
+      const distance = getDistance(this.engine.getState(), unit, city);
       if (distance < closestDistance) {
         closestCity = city;
         closestDistance = distance;
       }
     }
-    
-    if (!closestCity) return null;
-    
+
     // If too far from city, move toward it
     if (closestDistance > 5) {
-      return { x: closestCity.tileX, y: closestCity.tileY };
+      return { x: closestCity.x, y: closestCity.y };
     }
-    
-    // If already close to city, patrol around it
-    // Use a simple algorithm: move to a position a few tiles out in a random direction
-    const patrolRadius = 3;
-    const angle = Math.random() * Math.PI * 2;
-    const dx = Math.round(Math.cos(angle) * patrolRadius);
-    const dy = Math.round(Math.sin(angle) * patrolRadius);
-    
-    const targetX = closestCity.tileX + dx;
-    const targetY = closestCity.tileY + dy;
-    
-    // Ensure target is valid
-    if (this.mapManager.isValidTile(targetX, targetY)) {
-      return { x: targetX, y: targetY };
-    }
-    
-    return null;
-  }
 
-  /**
-   * Move a unit toward a target position
-   */
-  private async moveToward(unit: any, targetX: number, targetY: number): Promise<void> {
-    if (!this.pathfindingManager) return Promise.resolve();
-    
-    // Find path to target
-    const path = this.pathfindingManager.findPath(
-      unit.tileX,
-      unit.tileY,
-      targetX,
-      targetY,
-      unit.movementLeft
+    // If already close to city, move a few tiles out in a random direction
+    const patrolRadius = 3;
+    const angle = this.random() * Math.PI * 2;
+    const target = wrapPosition(
+      this.engine.getState(),
+      closestCity.x + Math.round(Math.cos(angle) * patrolRadius),
+      closestCity.y + Math.round(Math.sin(angle) * patrolRadius)
     );
-    
-    if (path && path.length > 1) {
-      // Move along path
-      unit.moveToGridPosition(path);
-      await this.delay(500); // Wait for movement animation
-    } else {
-      // If no path, mark as acted
-      unit.endTurn();
-    }
-    
-    return Promise.resolve();
+
+    return isInBounds(this.engine.getState(), target.x, target.y) ? target : null;
   }
 
   /**
-   * Move a unit randomly
+   * Move a unit as far as it can along the path toward a target position
    */
-  private async moveRandomly(unit: any): Promise<void> {
-    if (!this.mapManager) return Promise.resolve();
-    
-    // Get potential movement tiles
-    const movementTiles = this.pathfindingManager.getTilesInRange(
-      unit.tileX,
-      unit.tileY,
-      unit.movementLeft
-    );
-    
-    // Filter to only walkable, unoccupied tiles
-    const validTiles = movementTiles.filter(tile => {
-      if (!this.mapManager.isTileWalkable(tile.x, tile.y)) return false;
-      
-      // Check for other units
-      if (this.unitManager.getUnitAt(tile.x, tile.y)) return false;
-      
-      // Check for buildings
-      if (this.buildingManager.getBuildingAt(tile.x, tile.y)) return false;
-      
-      return true;
-    });
-    
-    if (validTiles.length > 0) {
-      // Pick a random tile
-      const randomIndex = Math.floor(Math.random() * validTiles.length);
-      const target = validTiles[randomIndex];
-      
-      // Find path
-      const path = this.pathfindingManager.findPath(
-        unit.tileX,
-        unit.tileY,
-        target.x,
-        target.y,
-        unit.movementLeft
-      );
-      
-      if (path && path.length > 1) {
-        // Move along path
-        unit.moveToGridPosition(path);
-        await this.delay(500); // Wait for movement animation
-      } else {
-        // If no path, mark as acted
-        unit.endTurn();
+  private moveToward(unit: UnitState, targetX: number, targetY: number): void {
+    const path = this.engine.findUnitPath(unit.id, targetX, targetY);
+    const reachable = this.engine.getReachableTiles(unit.id);
+
+    // Walk back from the end of the path to the furthest tile reachable this turn
+    for (let i = path.length - 1; i > 0; i--) {
+      const step = path[i];
+      if (reachable.some(pos => pos.x === step.x && pos.y === step.y)) {
+        this.dispatch({ type: ActionType.MOVE_UNIT, playerId: this.aiPlayerId, unitId: unit.id, x: step.x, y: step.y });
+        return;
       }
-    } else {
-      // No valid moves, mark as acted
-      unit.endTurn();
     }
-    
-    return Promise.resolve();
-  }
 
-  /**
-   * Attack an enemy unit
-   */
-  private async attackUnit(unit: any, target: any): Promise<void> {
-    if (!this.combatManager) return Promise.resolve();
-    
-    // Resolve combat
-    this.combatManager.resolveCombat(unit.id, target.id);
-    
-    // Mark unit as acted
-    unit.endTurn();
-    
-    await this.delay(500); // Wait for attack animation
-    
-    return Promise.resolve();
+    // No path toward the target, explore instead
+    this.moveRandomly(unit);
   }
 
   /**
-   * Attack an enemy building
+   * Move a unit to a random reachable tile
    */
-  private async attackBuilding(unit: any, target: any): Promise<void> {
-    if (!this.combatManager) return Promise.resolve();
-    
-    // Resolve combat
-    this.combatManager.resolveBuildingCombat(unit.id, target.id);
-    
-    // Mark unit as acted
-    unit.endTurn();
-    
-    await this.delay(500); // Wait for attack animation
-    
-    return Promise.resolve();
-  }
+  private moveRandomly(unit: UnitState): void {
+    const reachable = this.engine.getReachableTiles(unit.id);
+    if (reachable.length === 0) return;
 
-  /**
-   * Found a city with a settler
-   */
-  private foundCity(unit: any): void {
-    if (!this.buildingManager) return;
-    
-    // Create city center
-    this.buildingManager.createBuilding(
-      BuildingType.CITY_CENTER,
-      unit.tileX,
-      unit.tileY,
-      this.aiPlayerId,
-      this.aiFaction,
-      true // Start completed
-    );
-    
-    // Remove settler
-    this.unitManager.removeUnit(unit.id);
+    const target = randomPick(this.random, reachable);
+    this.dispatch({ type: ActionType.MOVE_UNIT, playerId: this.aiPlayerId, unitId: unit.id, x: target.x, y: target.y });
   }
 
   /**
-   * Build a unit (from a city)
+   * Queue a unit in a city
    */
-  private buildUnit(unitType: UnitType, cityX: number, cityY: number): void {
-    if (!this.unitManager || !this.mapManager) return;
-    
-    // Find an empty adjacent tile
-    const adjacentTiles = [
-      { x: cityX + 1, y: cityY },
-      { x: cityX - 1, y: cityY },
-      { x: cityX, y: cityY + 1 },
-      { x: cityX, y: cityY - 1 }
-    ];
-    
-    for (const tile of adjacentTiles) {
-      // Check if tile is valid and unoccupied
-      if (!this.mapManager.isValidTile(tile.x, tile.y) || !this.mapManager.isTileWalkable(tile.x, tile.y)) {
-        continue;
-      }
-      
-      if (this.unitManager.getUnitAt(tile.x, tile.y) || this.buildingManager.getBuildingAt(tile.x, tile.y)) {
-        continue;
-      }
-      
-      // Create unit
-      this.unitManager.createUnit(unitType, tile.x, tile.y, this.aiPlayerId, this.aiFaction);
-      break;
-    }
+  private buildUnit(city: CityState, unitType: UnitType): void {
+    this.dispatch({
+      type: ActionType.QUEUE_PRODUCTION,
+      playerId: this.aiPlayerId,
+      cityId: city.id,
+      itemType: 'unit',
+      itemId: unitType
+    });
   }
 
   /**
-   * Research a technology
+   * Start researching a technology if nothing is being researched
    */
   private researchTechnology(): void {
-    if (!this.techManager) return;
-    
-    // Get current research
-    const currentResearch = this.techManager.getCurrentResearch(this.aiPlayerId);
-    
-    // If already researching, progress it
-    if (currentResearch.techId) {
-      this.techManager.progressResearch(this.aiPlayerId, 20); // Simple progress amount
-      return;
-    }
-    
-    // Otherwise, choose a new tech to research
-    const availableTechs = this.techManager.getAvailableTechs(this.aiPlayerId);
-    
-    if (availableTechs.length === 0) return;
-    
-    // Sort by priority (for now, just pick the first one)
-    const techToResearch = availableTechs[0];
-    
-    // Start research
-    this.techManager.startResearch(this.aiPlayerId, techToResearch.id, this.aiFaction);
+    const player = this.engine.getState().players[this.aiPlayerId];
+    if (!player || player.currentResearch) return;
+
+    const availableTechs = this.engine.getAvailableTechs(this.aiPlayerId);
+
+    // Pick the cheapest technology we can afford
+    const affordable = availableTechs
+      .filter(tech => tech.cost.faith <= player.resources.faith)
+      .sort((a, b) => a.cost.faith - b.cost.faith);
+
+    if (affordable.length === 0) return;
+
+    this.dispatch({ type: ActionType.START_RESEARCH, playerId: this.aiPlayerId, techId: affordable[0].id });
   }
 
   /**
    * Utility method to add delay for animations
    */
   private delay(ms: number): Promise<void> {
+    if (ms <= 0) return Promise.resolve();
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
@@ -0,0 +1,264 @@
+/**
+ * MapEditorManager holds a custom map being edited and applies the editor's
+ * tools to it.
+ *
+ * It has no dependency on Phaser: the editor scene forwards pointer input as
+ * grid positions and redraws the tiles each edit reports as changed.
+ */
+import { FactionType } from '../config/factions';
+import { TerrainType } from '../config/terrain';
+import { UnitType } from '../config/units';
+import { GridPosition } from '../engine/types';
+import {
+  CustomMap,
+  CustomMapTile,
+  MAX_ELEVATION,
+  MIN_ELEVATION,
+  getCustomMapTile
+} from '../utils/customMap';
+
+// Edits that can be undone
+const MAX_UNDO_STEPS = 50;
+
+// Largest brush, as the number of tiles across
+export const MAX_BRUSH_SIZE = 5;
+
+// Amount given to resources placed without one
+const DEFAULT_RESOURCE_AMOUNT = 3;
+
+/**
+ * What painting on the map does
+ */
+export type EditorTool = 'terrain' | 'elevation' | 'resource' | 'improvement' | 'start' | 'city' | 'unit' | 'erase';
+
+/**
+ * Current tool and what it places
+ */
+export interface EditorBrush {
+  tool: EditorTool;
+  size: number; // Tiles across, for tools that paint tiles
+  terrainType: TerrainType;
+  elevation: number;
+  resourceType: string | null; // Null clears resources
+  improvement: string | null; // Null clears improvements
+  faction: FactionType; // Owner of placed starts, cities and units
+  unitType: string;
+}
+
+// Tools that change tiles rather than placing starts, cities or units
+const TILE_TOOLS: EditorTool[] = ['terrain', 'elevation', 'resource', 'improvement'];
+
+export class MapEditorManager {
+  private map: CustomMap;
+  private brush: EditorBrush;
+  private undoStack: CustomMap[];
+
+  /**
+   * @param map The map to edit
+   */
+  constructor(map: CustomMap) {
+    this.map = map;
+    this.undoStack = [];
+    this.brush = {
+      tool: 'terrain',
+      size: 1,
+      terrainType: TerrainType.PLAINS,
+      elevation: 3,
+      resourceType: null,
+      improvement: null,
+      faction: FactionType.NEPHITES,
+      unitType: UnitType.WARRIOR
+    };
+  }
+
+  /**
+   * Get the map being edited
+   */
+  getMap(): CustomMap {
+    return this.map;
+  }
+
+  /**
+   * Replace the map being edited, forgetting the edits of the previous one
+   */
+  loadMap(map: CustomMap): void {
+    this.map = map;
+    this.undoStack = [];
+  }
+
+  /**
+   * Get the current brush
+   */
+  getBrush(): EditorBrush {
+    return this.brush;
+  }
+
+  /**
+   * Change some settings of the brush
+   */
+  setBrush(changes: Partial<EditorBrush>): void {
+    this.brush = { ...this.brush, ...changes };
+    this.brush.size = Math.max(1, Math.min(MAX_BRUSH_SIZE, Math.round(this.brush.size)));
+    this.brush.elevation = Math.max(MIN_ELEVATION, Math.min(MAX_ELEVATION, Math.round(this.brush.elevation)));
+  }
+
+  /**
+   * Begin an edit; everything painted until the next one is undone together
+   */
+  beginStroke(): void {
+    this.undoStack.push(JSON.parse(JSON.stringify(this.map)));
+    if (this.undoStack.length > MAX_UNDO_STEPS) {
+      this.undoStack.shift();
+    }
+  }
+
+  /**
+   * Check if there is an edit to undo
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Undo the last edit, returning false if there was none
+   */
+  undo(): boolean {
+    const previous = this.undoStack.pop();
+    if (!previous) return false;
+
+    this.map = previous;
+    return true;
+  }
+
+  /**
+   * Apply the brush centred on a tile
+   * @returns Positions of the tiles that changed
+   */
+  paint(x: number, y: number): GridPosition[] {
+    if (!getCustomMapTile(this.map, x, y)) return [];
+
+    if (!TILE_TOOLS.includes(this.brush.tool)) {
+      return this.placeEntity(x, y) ? [{ x, y }] : [];
+    }
+
+    const changed: GridPosition[] = [];
+    const reach = Math.floor((this.brush.size - 1) / 2);
+
+    for (let dy = -reach; dy <= this.brush.size - 1 - reach; dy++) {
+      for (let dx = -reach; dx <= this.brush.size - 1 - reach; dx++) {
+        const tile = getCustomMapTile(this.map, x + dx, y + dy);
+        if (tile && this.paintTile(tile)) {
+          changed.push({ x: x + dx, y: y + dy });
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Apply the brush to every tile connected to a tile through tiles of the same terrain
+   * @returns Positions of the tiles that changed
+   */
+  fill(x: number, y: number): GridPosition[] {
+    const start = getCustomMapTile(this.map, x, y);
+    if (!start || !TILE_TOOLS.includes(this.brush.tool)) return [];
+
+    const terrain = start.terrainType;
+    const visited = new Set<number>([y * this.map.width + x]);
+    const queue: GridPosition[] = [{ x, y }];
+    const changed: GridPosition[] = [];
+
+    while (queue.length > 0) {
+      const pos = queue.shift()!;
+      const tile = getCustomMapTile(this.map, pos.x, pos.y)!;
+
+      if (this.paintTile(tile)) {
+        changed.push(pos);
+      }
+
+      [[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dx, dy]) => {
+        const next = { x: pos.x + dx, y: pos.y + dy };
+        const index = next.y * this.map.width + next.x;
+        if (visited.has(index) || getCustomMapTile(this.map, next.x, next.y)?.terrainType !== terrain) return;
+
+        visited.add(index);
+        queue.push(next);
+      });
+    }
+
+    return changed;
+  }
+
+  /**
+   * Apply a tile tool to one tile, returning whether anything changed
+   */
+  private paintTile(tile: CustomMapTile): boolean {
+    const before = JSON.stringify(tile);
+
+    switch (this.brush.tool) {
+      case 'terrain':
+        tile.terrainType = this.brush.terrainType;
+        break;
+      case 'elevation':
+        tile.elevation = this.brush.elevation;
+        break;
+      case 'resource':
+        if (this.brush.resourceType) {
+          tile.resourceType = this.brush.resourceType;
+          tile.resourceAmount = tile.resourceAmount || DEFAULT_RESOURCE_AMOUNT;
+        } else {
+          delete tile.resourceType;
+          delete tile.resourceAmount;
+        }
+        break;
+      case 'improvement':
+        if (this.brush.improvement) {
+          tile.improvement = this.brush.improvement;
+        } else {
+          delete tile.improvement;
+        }
+        break;
+    }
+
+    return JSON.stringify(tile) !== before;
+  }
+
+  /**
+   * Place or erase a start, city or unit on a tile, returning whether anything changed
+   */
+  private placeEntity(x: number, y: number): boolean {
+    const { faction, unitType } = this.brush;
+    const at = (entry: GridPosition) => entry.x === x && entry.y === y;
+    const notAt = (entry: GridPosition) => !at(entry);
+
+    switch (this.brush.tool) {
+      case 'start':
+        // Each faction has one start, so placing it again moves it
+        this.map.starts = this.map.starts.filter(start => start.faction !== faction && notAt(start));
+        this.map.starts.push({ faction, x, y });
+        return true;
+
+      case 'city':
+        this.map.cities = this.map.cities.filter(notAt);
+        this.map.cities.push({ faction, x, y });
+        return true;
+
+      case 'unit':
+        this.map.units = this.map.units.filter(notAt);
+        this.map.units.push({ faction, type: unitType, x, y });
+        return true;
+
+      case 'erase': {
+        const count = this.map.starts.length + this.map.cities.length + this.map.units.length;
+        this.map.starts = this.map.starts.filter(notAt);
+        this.map.cities = this.map.cities.filter(notAt);
+        this.map.units = this.map.units.filter(notAt);
+        return this.map.starts.length + this.map.cities.length + this.map.units.length !== count;
+      }
+
+      default:
+        return false;
+    }
+  }
+}
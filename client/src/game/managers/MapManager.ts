@@ -5,6 +5,7 @@ import * as Phaser from 'phaser';
 import { TerrainType, TERRAIN_TILES, TERRAIN_GENERATION, TerrainTile } from '../config/terrain';
 import { phaserEvents, EVENTS } from '../utils/events';
 import { gridToIsometric } from '../utils/isometric';
+import { RandomFunction, createRandom, hashSeed } from '../utils/random';
 
 // Simple noise function for map generation
 function simpleNoise(x: number, y: number, seed: number): number {
@@ -27,6 +28,7 @@ export class MapManager {
   public mapHeight: number;
   public mapSize: 'small' | 'medium' | 'large';
   private mapSeed: number;
+  private random: RandomFunction;
   private tileGroup: Phaser.GameObjects.Group;
 
   constructor(
@@ -38,6 +40,7 @@ export class MapManager {
     this.tiles = new Map();
     this.mapSize = mapSize;
     this.mapSeed = seed;
+    this.random = createRandom(hashSeed(seed, 'map'));
     
     // Set map dimensions based on size
     switch (mapSize) {
@@ -183,13 +186,13 @@ export class MapManager {
           } else if (tile.type === TerrainType.HILL) {
             resourceType = TerrainType.RESOURCE_PRODUCTION;
           } else if (tile.type === TerrainType.FOREST) {
-            const resourceRoll = Math.random();
+            const resourceRoll = this.random();
             resourceType = resourceRoll > 0.6 ? TerrainType.RESOURCE_FAITH : TerrainType.RESOURCE_FOOD;
           } else if (tile.type === TerrainType.DESERT) {
             resourceType = TerrainType.RESOURCE_FAITH;
           } else {
             // Default to random resource
-            const resourceRoll = Math.random();
+            const resourceRoll = this.random();
             if (resourceRoll < 0.33) {
               resourceType = TerrainType.RESOURCE_FOOD;
             } else if (resourceRoll < 0.66) {
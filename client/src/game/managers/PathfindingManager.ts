@@ -3,6 +3,7 @@
  */
 import * as Phaser from 'phaser';
 import { phaserEvents, EVENTS } from '../utils/events';
+import { PriorityQueue } from '../utils/priorityQueue';
 
 interface PathNode {
   x: number;
@@ -60,7 +61,8 @@ export class PathfindingManager {
     }
     
     // A* pathfinding algorithm
-    const openSet: PathNode[] = [];
+    const openSet = new PriorityQueue<PathNode>();
+    const bestNodes: Map<string, PathNode> = new Map();
     const closedSet: Set<string> = new Set();
     
     // Create start node
@@ -74,14 +76,18 @@ export class PathfindingManager {
     startNode.f = startNode.g + startNode.h;
     
     // Add start node to open set
-    openSet.push(startNode);
+    openSet.push(startNode, startNode.f);
+    bestNodes.set(`${startX},${startY}`, startNode);
     
-    while (openSet.length > 0) {
-      // Sort open set by f cost
-      openSet.sort((a, b) => a.f - b.f);
-      
+    while (!openSet.isEmpty()) {
       // Get node with lowest f cost
-      const current = openSet.shift()!;
+      const current = openSet.pop()!;
+      const currentKey = `${current.x},${current.y}`;
+      
+      // Skip stale entries for nodes already reached more cheaply
+      if (closedSet.has(currentKey) || bestNodes.get(currentKey) !== current) {
+        continue;
+      }
       
       // Check if we've reached the goal
       if (current.x === goalX && current.y === goalY) {
@@ -89,7 +95,7 @@ export class PathfindingManager {
       }
       
       // Add current node to closed set
-      closedSet.add(`${current.x},${current.y}`);
+      closedSet.add(currentKey);
       
       // Check if we've exceeded max movement
       if (current.g >= maxMovement) {
@@ -101,9 +107,10 @@ export class PathfindingManager {
       
       for (const neighbor of neighbors) {
         const { x, y } = neighbor;
+        const key = `${x},${y}`;
         
         // Skip if already processed
-        if (closedSet.has(`${x},${y}`)) {
+        if (closedSet.has(key)) {
           continue;
         }
         
@@ -123,32 +130,24 @@ export class PathfindingManager {
           continue;
         }
         
-        // Check if neighbor is in open set
-        const existingIndex = openSet.findIndex(node => node.x === x && node.y === y);
-        
-        if (existingIndex === -1) {
-          // Add new node to open set
-          const hCost = this.heuristic(x, y, goalX, goalY);
-          const newNode: PathNode = {
-            x,
-            y,
-            g: gCost,
-            h: hCost,
-            f: gCost + hCost,
-            parent: current
-          };
-          openSet.push(newNode);
-        } else {
-          // Check if this path to neighbor is better
-          const existingNode = openSet[existingIndex];
-          
-          if (gCost < existingNode.g) {
-            // Update node with better path
-            existingNode.g = gCost;
-            existingNode.f = gCost + existingNode.h;
-            existingNode.parent = current;
-          }
+        // Skip if there is already a path to this neighbor at least as good
+        const existingNode = bestNodes.get(key);
+        if (existingNode && existingNode.g <= gCost) {
+          continue;
         }
+        
+        // Queue the better node; the old entry is skipped when it comes out
+        const hCost = existingNode ? existingNode.h : this.heuristic(x, y, goalX, goalY);
+        const newNode: PathNode = {
+          x,
+          y,
+          g: gCost,
+          h: hCost,
+          f: gCost + hCost,
+          parent: current
+        };
+        bestNodes.set(key, newNode);
+        openSet.push(newNode, newNode.f);
       }
     }
     
@@ -224,19 +223,22 @@ export class PathfindingManager {
     }
     
     const result: { x: number, y: number }[] = [];
-    const visited: Set<string> = new Set();
+    const bestCosts: Map<string, number> = new Map();
     
-    // BFS to find all tiles within range
-    const queue: { x: number, y: number, movement: number }[] = [
-      { x: startX, y: startY, movement: movementPoints }
-    ];
+    // Dijkstra flood fill, so every tile is reached by its cheapest route
+    const queue = new PriorityQueue<{ x: number, y: number, cost: number }>();
+    queue.push({ x: startX, y: startY, cost: 0 }, 0);
+    bestCosts.set(`${startX},${startY}`, 0);
     
-    visited.add(`${startX},${startY}`);
-    result.push({ x: startX, y: startY });
-    
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const { x, y, movement } = current;
+    while (!queue.isEmpty()) {
+      const { x, y, cost } = queue.pop()!;
+      
+      // Skip stale entries for tiles already reached more cheaply
+      if (cost > bestCosts.get(`${x},${y}`)!) {
+        continue;
+      }
+      
+      result.push({ x, y });
       
       // Check neighbors
       const neighbors = this.getNeighbors(x, y);
@@ -245,33 +247,19 @@ export class PathfindingManager {
         const { x: nx, y: ny } = neighbor;
         const key = `${nx},${ny}`;
         
-        // Skip if already visited
-        if (visited.has(key)) {
-          continue;
-        }
-        
         // Skip if not walkable
         if (!this.isWalkable(nx, ny, false)) {
           continue;
         }
         
-        // Calculate movement cost
-        const movementCost = this.mapManager.getTileMovementCost(nx, ny);
-        
-        // Skip if not enough movement points
-        if (movement < movementCost) {
+        // Skip if not enough movement points or already reached more cheaply
+        const nextCost = cost + this.mapManager.getTileMovementCost(nx, ny);
+        if (nextCost > movementPoints || nextCost >= (bestCosts.get(key) ?? Infinity)) {
           continue;
         }
         
-        // Add to result and queue
-        visited.add(key);
-        result.push({ x: nx, y: ny });
-        
-        // Only continue BFS if we have movement points left
-        const remainingMovement = movement - movementCost;
-        if (remainingMovement > 0) {
-          queue.push({ x: nx, y: ny, movement: remainingMovement });
-        }
+        bestCosts.set(key, nextCost);
+        queue.push({ x: nx, y: ny, cost: nextCost }, nextCost);
       }
     }
     
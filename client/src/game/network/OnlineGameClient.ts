@@ -0,0 +1,143 @@
+import { GAME_SOCKET_PATH, ClientMessage, ServerMessage } from '@shared/multiplayer';
+import { ActionWithoutPlayer } from '../engine/actions';
+
+// Delay before the first reconnection attempt, doubled after each failure (ms)
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+export type OnlineMessageListener = (message: ServerMessage) => void;
+
+/**
+ * Connection to the server's online game socket.
+ *
+ * Watched games are subscribed again after every reconnection, passing the
+ * version of the view already held so the server only resends it when it changed.
+ */
+export class OnlineGameClient {
+  private socket: WebSocket | null = null;
+  private listeners: Set<OnlineMessageListener> = new Set();
+  private watchedGames: Map<number, () => number | undefined> = new Map();
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed: boolean = false;
+
+  /**
+   * Open the socket, reconnecting whenever it drops until disconnected
+   */
+  connect(): void {
+    if (this.socket) return;
+    this.closed = false;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(`${protocol}//${window.location.host}${GAME_SOCKET_PATH}`);
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.reconnectAttempts = 0;
+      this.watchedGames.forEach((getVersion, gameId) => {
+        this.send({ type: 'subscribe', gameId, version: getVersion() });
+      });
+    });
+
+    socket.addEventListener('message', (event) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.warn('Ignoring unreadable message from the game server', error);
+        return;
+      }
+
+      if (message.type === 'error') {
+        console.warn(`Game server error: ${message.message}`);
+      }
+
+      this.listeners.forEach(listener => listener(message));
+    });
+
+    socket.addEventListener('close', () => {
+      this.socket = null;
+      if (!this.closed) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Close the socket for good
+   */
+  disconnect(): void {
+    this.closed = true;
+    this.watchedGames.clear();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Listen for server messages
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: OnlineMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Receive a game's updates
+   * @param getVersion Version of the view held locally, or undefined to get the whole game
+   */
+  watchGame(gameId: number, getVersion: () => number | undefined = () => undefined): void {
+    this.watchedGames.set(gameId, getVersion);
+    this.send({ type: 'subscribe', gameId, version: getVersion() });
+  }
+
+  /**
+   * Stop receiving a game's updates
+   */
+  unwatchGame(gameId: number): void {
+    if (!this.watchedGames.delete(gameId)) return;
+    this.send({ type: 'unsubscribe', gameId });
+  }
+
+  /**
+   * Submit a move for the server to validate and apply
+   */
+  sendAction(gameId: number, action: ActionWithoutPlayer): boolean {
+    if (!this.send({ type: 'action', gameId, action })) {
+      console.warn('Cannot send a move while disconnected from the game server');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Send a message if the socket is open
+   */
+  private send(message: ClientMessage): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return false;
+
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  /**
+   * Try to reconnect, waiting longer after each failed attempt
+   */
+  private scheduleReconnect(): void {
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+}
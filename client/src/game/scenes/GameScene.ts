@@ -1,30 +1,56 @@
 import * as Phaser from 'phaser';
-import { MapTile, TileData } from '../entities/MapTile';
-import { TerrainType } from '../config/terrain';
+import { MapTile } from '../entities/MapTile';
+import { Unit } from '../entities/Unit';
+import { City } from '../entities/City';
 import { FactionType } from '../config/factions';
-import { EVENTS, COMMANDS, phaserEvents, dispatchDOMEvent, handleDOMEvent, cleanupDOMEventHandlers } from '../utils/events';
-import { getTilePosition, gridToIsometric } from '../utils/isometric';
-import { generateMap } from '../utils/mapGenerator';
-import { MapManager } from '../managers/MapManager';
-import { UnitManager } from '../managers/UnitManager';
-import { BuildingManager } from '../managers/BuildingManager';
-import { ResourceManager } from '../managers/ResourceManager';
-import { TechManager } from '../managers/TechManager';
+import { EVENTS, COMMANDS, eventBus, dispatchDOMEvent, handleDOMEvent, cleanupDOMEventHandlers } from '../utils/events';
+import { getTilePosition, wrapScreenPosition } from '../utils/isometric';
+import { DEFAULT_MAP_SIZE, MapShape, MapType, flattenMap, generateMap } from '../utils/mapGenerator';
+import { CustomMap, createScenario, customMapToGrid } from '../utils/customMap';
+import { GameEngine } from '../engine/GameEngine';
+import { AIManager } from '../managers/AIManager';
+import { ActionType, ActionWithoutPlayer, GameAction } from '../engine/actions';
+import { SaveGame, createSave, migrateSave, parseSave, serializeSave } from '../engine/save';
+import { Replay, ReplayPlayer, createReplay, parseReplay, serializeReplay } from '../engine/replay';
+import { PlayerViewChanges, applyPlayerViewChanges } from '../engine/view';
+import { PlayerSetup, createGameState, getPlayerCities, getPlayerUnits, parseTileKey, tileKey } from '../engine/state';
+import { GameState, StateChange, TileMemory, TileState } from '../engine/types';
+import { OnlineGameClient } from '../network/OnlineGameClient';
+import type { ServerMessage } from '@shared/multiplayer';
 
-// Default map dimensions
-const DEFAULT_MAP_WIDTH = 20;
-const DEFAULT_MAP_HEIGHT = 20;
+// Default map dimensions and terrain
+const DEFAULT_MAP_WIDTH = DEFAULT_MAP_SIZE.width;
+const DEFAULT_MAP_HEIGHT = DEFAULT_MAP_SIZE.height;
+const DEFAULT_MAP_TYPE: MapType = 'nephiLands';
+
+// Time between replay actions at normal speed (ms)
+const REPLAY_STEP_DELAY = 500;
 
 // Interface for game config
 export interface GameConfig {
   mapWidth?: number;
   mapHeight?: number;
+  mapType?: MapType;
+  mapShape?: MapShape;
+  wrapX?: boolean; // Join the east and west edges of the map
   players?: {
     id: string;
     faction: FactionType;
     isHuman: boolean;
   }[];
   seed?: number;
+  customMap?: CustomMap; // Play this hand-made map instead of generating one
+  save?: SaveGame; // Resume this saved game instead of starting a new one
+  replay?: Replay; // Watch this replay instead of playing
+  online?: OnlineGameConfig; // Play the save as this seat of a server-hosted game
+}
+
+// A seat in a game hosted by the server
+export interface OnlineGameConfig {
+  gameId: number;
+  playerId: string;
+  client: OnlineGameClient;
+  version: number; // Number of the server's actions behind the seat's view
 }
 
 /**
@@ -34,17 +60,46 @@ export class GameScene extends Phaser.Scene {
   // Map properties
   private mapWidth: number;
   private mapHeight: number;
+  private mapType: MapType;
+  private mapShape: MapShape = 'natural';
+  private wrapX: boolean = false;
+  private customMap: CustomMap | null = null;
   private tiles: Map<string, MapTile>;
   private seed: number;
   
+  // Rules engine and the views rendering its state
+  private engine!: GameEngine;
+  private unsubscribeEngine: (() => void) | null = null;
+  private units: Map<string, Unit>;
+  private cities: Map<string, City>;
+  
+  // Computer players, keyed by player ID
+  private aiPlayers: Map<string, AIManager>;
+  
   // Camera controls
   private isDragging: boolean = false;
   private lastPointerPosition: { x: number, y: number } | null = null;
   private zoomLevel: number = 1;
   
-  // Player data
-  private players: Map<string, PlayerData>;
-  private currentPlayerId: string;
+  // Players taking part in the game
+  private playerSetups: PlayerSetup[];
+  
+  // Saved game to resume, if any
+  private save: SaveGame | null = null;
+  
+  // Replay being watched, if any
+  private replay: Replay | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private replayTimer: Phaser.Time.TimerEvent | null = null;
+  private replaySpeed: number = 1;
+  
+  // Online game this device plays one seat of, if any
+  private online: OnlineGameConfig | null = null;
+  private unsubscribeOnline: (() => void) | null = null;
+  
+  // Hot-seat: the human whose view is shown, and where each human left the camera
+  private viewingPlayerId: string | null = null;
+  private playerCameras: Map<string, { x: number, y: number, zoom: number }> = new Map();
   
   // UI state
   private selectedEntityId: string | null = null;
@@ -59,12 +114,15 @@ export class GameScene extends Phaser.Scene {
     
     // Initialize collections
     this.tiles = new Map();
-    this.players = new Map();
+    this.units = new Map();
+    this.cities = new Map();
+    this.aiPlayers = new Map();
+    this.playerSetups = [];
     
     // Default properties
     this.mapWidth = DEFAULT_MAP_WIDTH;
     this.mapHeight = DEFAULT_MAP_HEIGHT;
-    this.currentPlayerId = '';
+    this.mapType = DEFAULT_MAP_TYPE;
     this.seed = Date.now();
     
     // Initialize graphics objects
@@ -78,36 +136,52 @@ export class GameScene extends Phaser.Scene {
     // Set map dimensions
     this.mapWidth = config.mapWidth || DEFAULT_MAP_WIDTH;
     this.mapHeight = config.mapHeight || DEFAULT_MAP_HEIGHT;
+    this.mapType = config.mapType ?? DEFAULT_MAP_TYPE;
+    this.mapShape = config.mapShape ?? 'natural';
+    this.wrapX = config.wrapX ?? false;
     
-    // Set random seed if provided
-    if (config.seed) {
+    // Set random seed if provided; the same seed always reproduces the same game
+    if (config.seed !== undefined) {
       this.seed = config.seed;
     }
     
     // Initialize players
-    this.players.clear();
-    
-    if (config.players && config.players.length > 0) {
-      config.players.forEach(player => {
-        this.players.set(player.id, {
-          id: player.id,
-          faction: player.faction,
-          isHuman: player.isHuman,
-          units: new Map(),
-          cities: new Map(),
-          buildings: new Map(),
-          resources: {
-            food: 0,
-            production: 0,
-            faith: 0
-          },
-          technologies: new Set(),
-          visibility: new Set()
-        });
-      });
-      
-      // Set first player as current
-      this.currentPlayerId = config.players[0].id;
+    this.playerSetups = config.players ? [...config.players] : [];
+    
+    // A hand-made map decides the map's size
+    this.customMap = config.customMap ?? null;
+    if (this.customMap) {
+      this.mapWidth = this.customMap.width;
+      this.mapHeight = this.customMap.height;
+      this.wrapX = false;
+    }
+    
+    // A saved game brings its own map and players
+    this.save = config.save ?? null;
+    if (this.save) {
+      const { state } = this.save;
+      this.mapWidth = state.mapWidth;
+      this.mapHeight = state.mapHeight;
+      this.wrapX = state.wrapX ?? false;
+      this.seed = state.seed;
+      this.playerSetups = state.playerOrder.map(id => ({
+        id,
+        faction: state.players[id].faction,
+        isHuman: state.players[id].isHuman
+      }));
+    }
+    
+    // Online games arrive as the seat's view of the server's game
+    this.online = config.online ?? null;
+    
+    // So does a replay
+    this.replay = config.replay ?? null;
+    if (this.replay) {
+      this.mapWidth = this.replay.settings.mapWidth;
+      this.mapHeight = this.replay.settings.mapHeight;
+      this.wrapX = this.replay.initialState.wrapX ?? false;
+      this.seed = this.replay.seed;
+      this.playerSetups = [...this.replay.settings.players];
     }
   }
   
@@ -146,13 +220,45 @@ export class GameScene extends Phaser.Scene {
     // Set up debug graphics
     this.debugGraphics = this.add.graphics();
     
-    // Generate map
-    this.generateMap();
+    // Watch a replay, resume a saved game, or create a new game on a hand-made or generated map
+    if (this.replay) {
+      this.replayPlayer = new ReplayPlayer(this.replay);
+      this.engine = this.replayPlayer.getEngine();
+    } else if (this.save) {
+      this.engine = new GameEngine(this.save.state, this.save.actionLog, this.save.initialState);
+    } else {
+      const tiles = this.generateMap();
+      this.engine = new GameEngine(createGameState({
+        mapWidth: this.mapWidth,
+        mapHeight: this.mapHeight,
+        seed: this.seed,
+        players: this.playerSetups,
+        tiles,
+        wrapX: this.wrapX,
+        scenario: this.customMap ? createScenario(this.customMap, this.playerSetups) : undefined
+      }));
+    }
     
-    // Set up camera bounds based on map size
+    // Render every change the engine applies to the state
+    this.unsubscribeEngine = this.engine.subscribe((change, state) => this.handleStateChange(change, state));
+    
+    this.createTileViews();
+    
+    // Computer players act through the same actions as humans (replays only repeat them)
+    this.aiPlayers.clear();
+    this.playerSetups
+      .filter(p => !p.isHuman && !this.replayPlayer && !this.online)
+      .forEach(p => this.aiPlayers.set(p.id, new AIManager(this.engine, p.id)));
+    
+    // Set up camera bounds based on map size; on wrapping maps the camera
+    // scrolls freely east and west and is brought back across the seam
     const mapWidthPx = this.mapWidth * 64; // Approximate pixel width
     const mapHeightPx = this.mapHeight * 32; // Approximate pixel height
-    this.cameras.main.setBounds(-mapWidthPx/2, -100, mapWidthPx * 2, mapHeightPx * 2);
+    if (this.wrapX) {
+      this.cameras.main.removeBounds();
+    } else {
+      this.cameras.main.setBounds(-mapWidthPx/2, -100, mapWidthPx * 2, mapHeightPx * 2);
+    }
     
     // Set up input handlers
     this.setupInputHandlers();
@@ -160,9 +266,21 @@ export class GameScene extends Phaser.Scene {
     // Set up DOM event handlers for communication with React
     this.setupEventHandlers();
     
+    // Release handlers when the scene stops or restarts (e.g. to load a save)
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
+    
+    // Follow the moves every seat makes on the server
+    if (this.online) {
+      const { client, gameId } = this.online;
+      this.unsubscribeOnline = client.subscribe(message => this.handleOnlineMessage(message));
+      client.watchGame(gameId, () => this.online?.version);
+    }
+    
+    const state = this.engine.getState();
+    
     // Notify that game is initialized
     dispatchDOMEvent(COMMANDS.GAME_INITIALIZED, {
-      players: Array.from(this.players.values()).map(p => ({
+      players: this.playerSetups.map(p => ({
         id: p.id,
         faction: p.faction,
         isHuman: p.isHuman
@@ -171,57 +289,456 @@ export class GameScene extends Phaser.Scene {
         width: this.mapWidth,
         height: this.mapHeight
       },
-      currentTurn: 1,
-      currentPlayerId: this.currentPlayerId
+      currentTurn: state.turn,
+      currentPlayerId: state.currentPlayerId
     });
     
-    // Start first turn
-    this.startTurn(this.currentPlayerId);
+    if (this.replayPlayer) {
+      // The replay has already started its game, so build the views directly
+      this.createEntityViews();
+      this.notifyReplayUpdated();
+    } else if (this.save) {
+      // Units and cities already exist, so build their views directly
+      this.createEntityViews();
+      dispatchDOMEvent(COMMANDS.GAME_LOADED, { savedAt: this.save.savedAt, turn: state.turn });
+      dispatchDOMEvent(COMMANDS.TURN_STARTED, {
+        playerId: state.currentPlayerId,
+        turn: state.turn,
+        resources: state.players[state.currentPlayerId]?.resources
+      });
+      this.handleTurnStarted(state.currentPlayerId);
+      
+    } else {
+      // Place starting units and start the first turn
+      this.engine.startGame();
+      
+      const startReport = this.engine.getStartReport();
+      if (startReport && !startReport.balanced) {
+        console.warn('This map could not give every player a fair start', startReport);
+      }
+    }
   }
   
   /**
-   * Generate the game map
+   * Get the terrain of the game map: the hand-made map if there is one,
+   * otherwise one generated from the selected map type and seed
    */
-  private generateMap(): void {
+  private generateMap(): TileState[] {
+    const map = this.customMap
+      ? customMapToGrid(this.customMap)
+      : generateMap({
+        width: this.mapWidth,
+        height: this.mapHeight,
+        seed: this.seed,
+        terrainType: this.mapType,
+        shape: this.mapShape,
+        wrapX: this.wrapX
+      });
+    
+    // Keep what the rules need; visibility is decided by the views
+    return flattenMap(map).map(({ x, y, terrainType, elevation, resourceType, resourceAmount, improvement }) => {
+      const tile: TileState = { x, y, terrainType, elevation };
+      if (resourceType) {
+        tile.resourceType = resourceType;
+        tile.resourceAmount = resourceAmount;
+      }
+      if (improvement) {
+        tile.improvement = improvement;
+      }
+      return tile;
+    });
+  }
+  
+  /**
+   * Create the tile views for the engine's map
+   */
+  private createTileViews(): void {
     // Clear existing tiles
+    this.tiles.forEach(tile => tile.destroy());
     this.tiles.clear();
     
-    // We're not adding tiles to the map container anymore since tiles are containers themselves
+    this.engine.getState().tiles.forEach(tileState => {
+      // Create the tile (it's already added to the scene in its constructor)
+      const tile = new MapTile(this, tileState);
+      
+      // Store in tiles map for easy lookup
+      this.tiles.set(`tile_${tileState.x}_${tileState.y}`, tile);
+    });
     
-    // Create random terrain distribution
-    // In a real implementation, we would use a more sophisticated algorithm
-    const terrainTypes = Object.values(TerrainType);
+    this.applyTileFog();
+  }
+  
+  /**
+   * Create the unit and city views for a state that already has them
+   */
+  private createEntityViews(): void {
+    this.units.forEach(unit => unit.destroy());
+    this.units.clear();
+    this.cities.forEach(city => city.destroy());
+    this.cities.clear();
     
-    // Generate tiles in a staggered grid pattern for isometric view
-    for (let y = 0; y < this.mapHeight; y++) {
-      for (let x = 0; x < this.mapWidth; x++) {
-        // Use simple random terrain for now
-        // Would be replaced with proper map generation algorithm
-        const terrainIndex = Math.floor(Math.random() * terrainTypes.length);
-        const terrainType = terrainTypes[terrainIndex];
-        
-        // In a real implementation, we would determine elevation based on
-        // map generation algorithm, for now just use random values
-        const elevation = 0; // For now, keep all at same elevation
-        
-        // Create tile data
-        const tileData: TileData = {
-          x: x,
-          y: y,
-          terrainType,
-          elevation,
-          visible: true, // Start with all tiles visible for testing
-          explored: true // Start with all tiles explored for testing
-        };
+    const state = this.engine.getState();
+    
+    Object.values(state.cities).forEach(cityState => {
+      const owner = state.players[cityState.playerId];
+      this.cities.set(cityState.id, new City(this, cityState, owner.faction));
+    });
+    
+    Object.values(state.units).forEach(unitState => {
+      const owner = state.players[unitState.playerId];
+      this.units.set(unitState.id, new Unit(this, unitState, owner.faction));
+    });
+    
+    this.applyEntityFog();
+  }
+  
+  /**
+   * Get the vision the map is drawn with, or null to show everything
+   * (replays and games between computer players)
+   */
+  private getViewedVision(): { playerId: string | null, visible: Set<string>, explored: Record<string, TileMemory> } | null {
+    if (this.replayPlayer) return null;
+    
+    let playerId: string | null;
+    if (this.online) {
+      playerId = this.online.playerId;
+    } else if (this.isHotSeat()) {
+      // Nobody sees anything while the device is being passed on
+      playerId = this.viewingPlayerId;
+    } else {
+      const human = this.playerSetups.find(p => p.isHuman);
+      if (!human) return null;
+      playerId = human.id;
+    }
+    
+    const player = playerId ? this.engine.getState().players[playerId] : undefined;
+    return {
+      playerId,
+      visible: new Set(player?.visibleTiles ?? []),
+      explored: player?.exploredTiles ?? {}
+    };
+  }
+  
+  /**
+   * Draw a tile as the viewing player knows it: as it is while in sight, as
+   * last seen once out of sight, and not at all before it is explored
+   */
+  private syncTile(state: GameState, x: number, y: number, vision = this.getViewedVision()): void {
+    const tile = this.getTileAt(x, y);
+    const tileState = state.tiles[y * state.mapWidth + x];
+    if (!tile || !tileState) return;
+    
+    const key = tileKey(x, y);
+    if (!vision || vision.visible.has(key)) {
+      tile.applyState(tileState);
+      tile.setFog(true, true);
+      return;
+    }
+    
+    const memory = vision.explored[key];
+    tile.applyState({ ...tileState, ownerId: memory?.ownerId, improvement: memory?.improvement });
+    tile.setFog(false, !!memory);
+  }
+  
+  /**
+   * Draw every tile with the viewing player's fog of war
+   */
+  private applyTileFog(): void {
+    const state = this.engine.getState();
+    const vision = this.getViewedVision();
+    state.tiles.forEach(tileState => this.syncTile(state, tileState.x, tileState.y, vision));
+  }
+  
+  /**
+   * Show the viewing player's own units and cities, other units in sight and
+   * other cities they have found
+   */
+  private applyEntityFog(): void {
+    const state = this.engine.getState();
+    const vision = this.getViewedVision();
+    
+    this.units.forEach((unit, id) => {
+      const unitState = state.units[id];
+      unit.setVisible(!vision || (!!unitState && (
+        unitState.playerId === vision.playerId || vision.visible.has(tileKey(unitState.x, unitState.y))
+      )));
+    });
+    
+    this.cities.forEach((city, id) => {
+      const cityState = state.cities[id];
+      city.setVisible(!vision || (!!cityState && (
+        cityState.playerId === vision.playerId || vision.explored[tileKey(cityState.x, cityState.y)]?.city?.id === id
+      )));
+    });
+  }
+  
+  /**
+   * Update the views after the engine changed the game state
+   */
+  private handleStateChange(change: StateChange, state: GameState): void {
+    const { type, payload } = change;
+    
+    switch (type) {
+      case EVENTS.STATE_RESET:
+        // The whole state was replaced, rebuild every view
+        this.createTileViews();
+        this.createEntityViews();
+        break;
+      
+      case EVENTS.UNIT_CREATED: {
+        const owner = state.players[payload.unit.playerId];
+        this.units.set(payload.unit.id, new Unit(this, payload.unit, owner.faction));
+        this.applyEntityFog();
+        break;
+      }
+      
+      case EVENTS.UNIT_MOVED:
+        this.units.get(payload.unitId)?.animateAlongPath(payload.path);
+        this.syncUnit(state, payload.unitId);
+        this.applyEntityFog();
+        break;
+      
+      case EVENTS.UNIT_DAMAGED:
+      case EVENTS.UNIT_LEVELED_UP:
+      case EVENTS.UNIT_PROMOTED:
+      case EVENTS.UNIT_FORTIFIED:
+        this.syncUnit(state, payload.unitId);
+        break;
+      
+      case EVENTS.UNIT_ATTACKED:
+        this.syncUnit(state, payload.attackerId);
+        break;
+      
+      case EVENTS.UNIT_DIED:
+        this.units.get(payload.unitId)?.destroy();
+        this.units.delete(payload.unitId);
+        break;
+      
+      case EVENTS.CITY_FOUNDED: {
+        const owner = state.players[payload.city.playerId];
+        this.cities.set(payload.city.id, new City(this, payload.city, owner.faction));
+        this.applyEntityFog();
+        break;
+      }
+      
+      case EVENTS.VISIBILITY_CHANGED:
+        if (payload.playerId === this.getViewedVision()?.playerId) {
+          this.applyTileFog();
+          this.applyEntityFog();
+        }
+        break;
+      
+      case EVENTS.CITY_CLAIMED_TILE:
+      case EVENTS.IMPROVEMENT_BUILT: {
+        const { x, y } = payload.position;
+        this.syncTile(state, x, y);
         
-        // Create tile object
-        // Create the tile (it's already added to the scene in its constructor)
-        const tile = new MapTile(this, tileData);
+        if (payload.unitId) {
+          this.syncUnit(state, payload.unitId);
+        }
+        if (payload.cityId) {
+          this.syncCity(state, payload.cityId);
+        }
+        break;
+      }
+      
+      case EVENTS.CITY_ATTACKED:
+        this.syncUnit(state, payload.attackerId);
+        this.syncCity(state, payload.cityId);
+        break;
+      
+      case EVENTS.CITY_CAPTURED:
+      case EVENTS.CITY_LIBERATED: {
+        // Redraw the city in its new owner's colours, along with its territory
+        const cityState = state.cities[payload.cityId];
+        this.cities.get(payload.cityId)?.destroy();
+        if (cityState) {
+          this.cities.set(payload.cityId, new City(this, cityState, state.players[cityState.playerId].faction));
+        }
+        this.syncTiles(state, payload.tileKeys);
+        this.applyEntityFog();
         
-        // Store in tiles map for easy lookup
-        const tileId = `tile_${x}_${y}`;
-        this.tiles.set(tileId, tile);
+        // Let whoever took the city from this device decide what to do with it
+        if (type === EVENTS.CITY_CAPTURED && cityState && !this.replayPlayer && payload.playerId === this.getViewedVision()?.playerId) {
+          dispatchDOMEvent(COMMANDS.CITY_CAPTURED, {
+            cityId: payload.cityId,
+            name: cityState.name,
+            destroyedBuildings: payload.destroyedBuildings,
+            canRaze: this.engine.canRazeCity(payload.playerId, payload.cityId),
+            canLiberate: this.engine.canLiberateCity(payload.playerId, payload.cityId)
+          });
+        }
+        break;
       }
+      
+      case EVENTS.CITY_RAZED:
+        this.cities.get(payload.cityId)?.destroy();
+        this.cities.delete(payload.cityId);
+        this.syncTiles(state, payload.tileKeys);
+        break;
+      
+      case EVENTS.GAME_OVER:
+        dispatchDOMEvent(COMMANDS.GAME_OVER, payload);
+        break;
+      
+      case EVENTS.TRADE_ROUTE_ESTABLISHED:
+        this.syncCity(state, payload.originCityId);
+        break;
+      
+      case EVENTS.CITY_HEALED:
+      case EVENTS.CITY_GREW:
+      case EVENTS.CITY_PROCESSED:
+      case EVENTS.CITY_PRODUCTION_CHANGED:
+      case EVENTS.CITY_BUILT_BUILDING:
+        this.syncCity(state, payload.cityId);
+        break;
+      
+      case EVENTS.TURN_STARTED:
+        // Units of the player whose turn starts have been reset
+        Object.values(state.units)
+          .filter(unit => unit.playerId === payload.playerId)
+          .forEach(unit => this.syncUnit(state, unit.id));
+        
+        dispatchDOMEvent(COMMANDS.TURN_STARTED, payload);
+        this.handleTurnStarted(payload.playerId);
+        break;
+      
+      case EVENTS.RESOURCES_UPDATED:
+        dispatchDOMEvent(COMMANDS.RESOURCES_UPDATED, payload);
+        break;
+      
+      case EVENTS.HISTORY_CHANGED:
+        // Undo is only offered to people playing locally, the server's moves are final
+        if (!this.replayPlayer && !this.online) {
+          dispatchDOMEvent(COMMANDS.HISTORY_CHANGED, payload);
+        }
+        break;
+    }
+    
+    // Let the rest of the game react to the change as well
+    eventBus.emit(type, payload);
+  }
+  
+  /**
+   * Hand the turn to the player whose turn just started (or was loaded)
+   */
+  private handleTurnStarted(playerId: string): void {
+    // Let the AI play once the engine has finished starting the turn
+    if (this.aiPlayers.has(playerId)) {
+      this.time.delayedCall(0, () => this.aiPlayers.get(playerId)?.takeTurn());
+      return;
+    }
+    
+    // Another human shares this device: hide the map until they take over
+    if (this.isHotSeat() && playerId !== this.viewingPlayerId) {
+      this.beginHandoff(playerId);
+    }
+  }
+  
+  /**
+   * Check if several humans take turns on this device
+   */
+  private isHotSeat(): boolean {
+    return !this.replayPlayer && !this.online && this.playerSetups.filter(p => p.isHuman).length > 1;
+  }
+  
+  /**
+   * Check if a hot-seat player's turn started but they have not taken over yet
+   */
+  private isAwaitingHandoff(): boolean {
+    return this.isHotSeat() &&
+      !this.isAITurn() &&
+      this.viewingPlayerId !== this.engine.getState().currentPlayerId;
+  }
+  
+  /**
+   * Put away the current human's view and ask the UI to pass the device on
+   */
+  private beginHandoff(playerId: string): void {
+    if (this.viewingPlayerId) {
+      const camera = this.cameras.main;
+      this.playerCameras.set(this.viewingPlayerId, { x: camera.scrollX, y: camera.scrollY, zoom: camera.zoom });
+    }
+    this.viewingPlayerId = null;
+    
+    // Nothing the previous player selected carries over
+    this.units.forEach(unit => {
+      unit.select(false);
+      unit.hideMovementRange();
+    });
+    this.cities.forEach(city => {
+      city.select(false);
+      city.hideCityBorders();
+    });
+    this.selectedEntityId = null;
+    this.hoveredTileId = null;
+    
+    // Hide the map until the next player takes over
+    this.applyTileFog();
+    this.applyEntityFog();
+    
+    const state = this.engine.getState();
+    dispatchDOMEvent(COMMANDS.HOTSEAT_HANDOFF, {
+      playerId,
+      faction: state.players[playerId]?.faction,
+      turn: state.turn
+    });
+  }
+  
+  /**
+   * Show the map to the human who has taken over the device
+   */
+  private completeHandoff(playerId: string): void {
+    if (playerId !== this.engine.getState().currentPlayerId) return;
+    
+    this.viewingPlayerId = playerId;
+    this.applyTileFog();
+    this.applyEntityFog();
+    
+    // Return to where this player left the camera, or to their own land
+    const saved = this.playerCameras.get(playerId);
+    if (saved) {
+      this.zoomLevel = saved.zoom;
+      this.cameras.main.setZoom(saved.zoom);
+      this.cameras.main.setScroll(saved.x, saved.y);
+      return;
+    }
+    
+    const state = this.engine.getState();
+    const home = getPlayerCities(state, playerId)[0] ?? getPlayerUnits(state, playerId)[0];
+    if (home) {
+      const position = getTilePosition(home.x, home.y);
+      this.cameras.main.centerOn(position.x, position.y);
+    }
+  }
+  
+  /**
+   * Copy a unit's engine state onto its view
+   */
+  private syncUnit(state: GameState, unitId: string): void {
+    const unitState = state.units[unitId];
+    if (unitState) {
+      this.units.get(unitId)?.applyState(unitState);
+    }
+  }
+  
+  /**
+   * Redraw a set of tiles, given as tile keys
+   */
+  private syncTiles(state: GameState, keys: string[]): void {
+    keys.forEach(key => {
+      const { x, y } = parseTileKey(key);
+      this.syncTile(state, x, y);
+    });
+  }
+  
+  /**
+   * Copy a city's engine state onto its view
+   */
+  private syncCity(state: GameState, cityId: string): void {
+    const cityState = state.cities[cityId];
+    if (cityState) {
+      this.cities.get(cityId)?.applyState(cityState);
     }
   }
   
@@ -304,9 +821,193 @@ export class GameScene extends Phaser.Scene {
       this.cameras.main.pan(position.x, position.y, 500, Phaser.Math.Easing.Cubic.Out);
     });
     
-    // Handle end turn event
+    // Player commands from the UI become actions of the player whose turn it is
     handleDOMEvent<void>(this, COMMANDS.END_TURN, () => {
-      this.endTurn();
+      this.dispatchPlayerAction({ type: ActionType.END_TURN });
+    });
+    
+    // The next hot-seat player is at the device
+    handleDOMEvent<{playerId: string}>(this, COMMANDS.HOTSEAT_READY, (data) => {
+      this.completeHandoff(data.playerId);
+    });
+    
+    // Take back or repeat moves made this turn
+    handleDOMEvent<void>(this, COMMANDS.UNDO, () => {
+      if (this.replayPlayer || this.online || this.isAITurn() || this.isAwaitingHandoff()) return;
+      this.engine.undo();
+    });
+    
+    handleDOMEvent<void>(this, COMMANDS.REDO, () => {
+      if (this.replayPlayer || this.online || this.isAITurn() || this.isAwaitingHandoff()) return;
+      this.engine.redo();
+    });
+    
+    handleDOMEvent<{unitId: string, x: number, y: number}>(this, COMMANDS.MOVE_UNIT, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.MOVE_UNIT, unitId: data.unitId, x: data.x, y: data.y });
+    });
+    
+    handleDOMEvent<{unitId: string, targetId: string, targetKind?: 'unit' | 'city'}>(this, COMMANDS.ATTACK_WITH_UNIT, (data) => {
+      this.dispatchPlayerAction({
+        type: ActionType.ATTACK,
+        unitId: data.unitId,
+        target: { kind: data.targetKind ?? 'unit', id: data.targetId }
+      });
+    });
+    
+    handleDOMEvent<{unitId: string, promotionId: string}>(this, COMMANDS.PROMOTE_UNIT, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.PROMOTE_UNIT, unitId: data.unitId, promotionId: data.promotionId });
+    });
+    
+    handleDOMEvent<{unitId: string}>(this, COMMANDS.FORTIFY_UNIT, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.FORTIFY_UNIT, unitId: data.unitId });
+    });
+    
+    handleDOMEvent<{unitId: string, cityId: string}>(this, COMMANDS.ESTABLISH_TRADE_ROUTE, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.ESTABLISH_TRADE_ROUTE, unitId: data.unitId, cityId: data.cityId });
+    });
+    
+    handleDOMEvent<{cityId: string, targetId: string}>(this, COMMANDS.CITY_STRIKE, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.CITY_STRIKE, cityId: data.cityId, targetId: data.targetId });
+    });
+    
+    handleDOMEvent<{cityId: string}>(this, COMMANDS.RAZE_CITY, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.RAZE_CITY, cityId: data.cityId });
+    });
+    
+    handleDOMEvent<{cityId: string}>(this, COMMANDS.LIBERATE_CITY, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.LIBERATE_CITY, cityId: data.cityId });
+    });
+    
+    handleDOMEvent<{unitId: string, name?: string}>(this, COMMANDS.FOUND_CITY, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.FOUND_CITY, unitId: data.unitId, name: data.name });
+    });
+    
+    handleDOMEvent<{unitId: string, improvementType: string}>(this, COMMANDS.BUILD_IMPROVEMENT, (data) => {
+      this.dispatchPlayerAction({
+        type: ActionType.BUILD_IMPROVEMENT,
+        unitId: data.unitId,
+        improvementType: data.improvementType
+      });
+    });
+    
+    handleDOMEvent<{cityId: string, itemType: 'unit' | 'building', itemId: string}>(this, COMMANDS.QUEUE_PRODUCTION, (data) => {
+      this.dispatchPlayerAction({
+        type: ActionType.QUEUE_PRODUCTION,
+        cityId: data.cityId,
+        itemType: data.itemType,
+        itemId: data.itemId
+      });
+    });
+    
+    handleDOMEvent<{techId: string}>(this, COMMANDS.RESEARCH_TECH, (data) => {
+      this.dispatchPlayerAction({ type: ActionType.START_RESEARCH, techId: data.techId });
+    });
+    
+    // Save the game in progress; the UI decides where to store it
+    handleDOMEvent<void>(this, COMMANDS.SAVE_GAME, () => {
+      const save = createSave(this.engine);
+      dispatchDOMEvent(COMMANDS.GAME_SAVED, { save, json: serializeSave(save) });
+    });
+    
+    // Start a new game with the map and players chosen in the menu
+    handleDOMEvent<GameConfig>(this, COMMANDS.START_GAME, (config) => {
+      this.scene.restart(config);
+    });
+    
+    // Leave the game for the map editor
+    handleDOMEvent<void>(this, COMMANDS.OPEN_MAP_EDITOR, () => {
+      this.scene.start('MapEditorScene', {});
+    });
+    
+    // Replace the current game with a saved one
+    handleDOMEvent<{json: string}>(this, COMMANDS.LOAD_GAME, (data) => {
+      const save = parseSave(data.json);
+      if (!save) {
+        console.warn('Could not load saved game');
+        return;
+      }
+      
+      this.scene.restart({ save });
+    });
+    
+    // Export the game so far as a replay
+    handleDOMEvent<void>(this, COMMANDS.EXPORT_REPLAY, () => {
+      const replay = this.replayPlayer ? this.replayPlayer.getReplay() : createReplay(this.engine);
+      if (!replay) return;
+      
+      dispatchDOMEvent(COMMANDS.REPLAY_EXPORTED, { replay, json: serializeReplay(replay) });
+    });
+    
+    // Join an online game once the server has sent it
+    handleDOMEvent<{gameId: number, playerId: string}>(this, COMMANDS.PLAY_ONLINE_GAME, (data) => {
+      const client = new OnlineGameClient();
+      const stopListening = client.subscribe(message => {
+        if (message.type !== 'game_state' || message.gameId !== data.gameId) return;
+        stopListening();
+        
+        const save = migrateSave(message.save);
+        if (!save) {
+          console.warn('Could not load online game');
+          client.disconnect();
+          return;
+        }
+        
+        this.scene.restart({
+          save,
+          online: { gameId: data.gameId, playerId: data.playerId, client, version: message.version }
+        });
+      });
+      
+      client.watchGame(data.gameId);
+      client.connect();
+    });
+    
+    // Switch to watching a replay
+    handleDOMEvent<{json: string}>(this, COMMANDS.LOAD_REPLAY, (data) => {
+      const replay = parseReplay(data.json);
+      if (!replay) {
+        console.warn('Could not load replay');
+        return;
+      }
+      
+      this.scene.restart({ replay });
+    });
+    
+    // Replay playback controls
+    handleDOMEvent<void>(this, COMMANDS.REPLAY_PLAY, () => {
+      this.playReplay();
+    });
+    
+    handleDOMEvent<void>(this, COMMANDS.REPLAY_PAUSE, () => {
+      this.pauseReplay();
+    });
+    
+    handleDOMEvent<{direction: 'forward' | 'back', by: 'action' | 'turn'}>(this, COMMANDS.REPLAY_STEP, (data) => {
+      if (!this.replayPlayer) return;
+      
+      this.pauseReplay();
+      if (data.direction === 'forward' && data.by === 'turn') {
+        this.replayPlayer.stepForwardTurn();
+      } else if (data.direction === 'forward') {
+        this.replayPlayer.stepForward();
+      } else if (data.by === 'turn') {
+        this.replayPlayer.stepBackTurn();
+      } else {
+        this.replayPlayer.stepBack();
+      }
+      this.notifyReplayUpdated();
+    });
+    
+    handleDOMEvent<{speed: number}>(this, COMMANDS.REPLAY_SET_SPEED, (data) => {
+      this.replaySpeed = Phaser.Math.Clamp(data.speed, 0.25, 16);
+      
+      // Restart the timer so the new speed applies right away
+      if (this.replayTimer) {
+        this.pauseReplay();
+        this.playReplay();
+      } else {
+        this.notifyReplayUpdated();
+      }
     });
     
     // Handle toggle grid event
@@ -317,65 +1018,138 @@ export class GameScene extends Phaser.Scene {
   }
   
   /**
-   * Start a player's turn
+   * Dispatch an action from the UI on behalf of the player whose turn it is
    */
-  private startTurn(playerId: string): void {
-    const player = this.players.get(playerId);
-    if (!player) return;
+  private dispatchPlayerAction(action: ActionWithoutPlayer): void {
+    // Nobody plays while a replay is shown or the device is being passed on
+    if (this.replayPlayer || this.isAwaitingHandoff()) return;
     
-    // Reset unit movement and actions
-    player.units.forEach(unit => {
-      unit.movementLeft = unit.maxMovement;
-      unit.hasActed = false;
-    });
+    const playerId = this.engine.getState().currentPlayerId;
     
-    // Calculate resource production
-    this.calculateResourceProduction(playerId);
+    // Online the server applies the move and sends every seat what it changed
+    if (this.online) {
+      if (playerId !== this.online.playerId) return;
+      this.online.client.sendAction(this.online.gameId, action);
+      return;
+    }
     
-    // Notify UI of turn start
-    dispatchDOMEvent(COMMANDS.TURN_STARTED, {
-      playerId,
-      turn: 1, // In a real implementation this would be the actual turn number
-      resources: player.resources
-    });
+    // Only a human at this device can take a move back
+    this.engine.dispatch({ ...action, playerId } as GameAction, { undoable: !this.isAITurn() });
+  }
+  
+  /**
+   * Apply updates from the server hosting the online game
+   */
+  private handleOnlineMessage(message: ServerMessage): void {
+    if (!this.online || !('gameId' in message) || message.gameId !== this.online.gameId) return;
+    
+    switch (message.type) {
+      case 'update': {
+        if (message.version <= this.online.version) break;
+        
+        // Missed some moves: ask for the whole view again
+        if (message.fromVersion !== this.online.version) {
+          console.warn(`Online game out of sync at action ${this.online.version}, resynchronizing`);
+          this.online.client.watchGame(this.online.gameId, () => this.online?.version);
+          break;
+        }
+        
+        const state = applyPlayerViewChanges(this.engine.getState(), message.changes as PlayerViewChanges);
+        this.showOnlineView(state, message.version);
+        break;
+      }
+      
+      case 'game_state': {
+        const save = migrateSave(message.save);
+        if (save) {
+          this.showOnlineView(save.state, message.version);
+        }
+        break;
+      }
+      
+      case 'your_turn':
+        dispatchDOMEvent(COMMANDS.ONLINE_YOUR_TURN, { playerId: message.playerId, turn: message.turn });
+        break;
+      
+      case 'action_rejected':
+        console.warn(`Move rejected by the server: ${message.error}`);
+        break;
+    }
   }
   
   /**
-   * End the current player's turn and advance to next player
+   * Replace the game with the seat's latest view from the server
    */
-  private endTurn(): void {
-    // Find the next player
-    const playerIds = Array.from(this.players.keys());
-    const currentIndex = playerIds.indexOf(this.currentPlayerId);
-    const nextIndex = (currentIndex + 1) % playerIds.length;
-    const nextPlayerId = playerIds[nextIndex];
+  private showOnlineView(state: GameState, version: number): void {
+    if (!this.online) return;
     
-    // Set as current player
-    this.currentPlayerId = nextPlayerId;
+    const before = this.engine.getState();
+    this.online.version = version;
+    this.engine.resetState(state, []);
     
-    // Start the next player's turn
-    this.startTurn(nextPlayerId);
+    if (state.turn !== before.turn || state.currentPlayerId !== before.currentPlayerId) {
+      dispatchDOMEvent(COMMANDS.TURN_STARTED, {
+        playerId: state.currentPlayerId,
+        turn: state.turn,
+        resources: state.players[this.online.playerId]?.resources
+      });
+    }
+  }
+  
+  /**
+   * Check if a computer player is taking its turn
+   */
+  private isAITurn(): boolean {
+    return this.aiPlayers.has(this.engine.getState().currentPlayerId);
   }
   
   /**
-   * Calculate resource production for a player at start of turn
+   * Start playing the replay from the current position
    */
-  private calculateResourceProduction(playerId: string): void {
-    const player = this.players.get(playerId);
-    if (!player) return;
+  private playReplay(): void {
+    if (!this.replayPlayer || this.replayTimer || this.replayPlayer.isAtEnd()) return;
     
-    // In a real implementation, we would calculate based on
-    // cities, improvements, and other factors
+    this.replayTimer = this.time.addEvent({
+      delay: REPLAY_STEP_DELAY / this.replaySpeed,
+      loop: true,
+      callback: () => {
+        this.replayPlayer?.stepForward();
+        if (this.replayPlayer?.isAtEnd()) {
+          this.pauseReplay();
+        } else {
+          this.notifyReplayUpdated();
+        }
+      }
+    });
     
-    // For now, just add some fixed resources
-    player.resources.food += 10;
-    player.resources.production += 10;
-    player.resources.faith += 5;
+    this.notifyReplayUpdated();
+  }
+  
+  /**
+   * Stop playing the replay
+   */
+  private pauseReplay(): void {
+    if (this.replayTimer) {
+      this.replayTimer.remove();
+      this.replayTimer = null;
+    }
     
-    // Notify UI of resource update
-    dispatchDOMEvent(COMMANDS.RESOURCES_UPDATED, {
-      playerId,
-      resources: player.resources
+    this.notifyReplayUpdated();
+  }
+  
+  /**
+   * Tell the UI where playback is
+   */
+  private notifyReplayUpdated(): void {
+    if (!this.replayPlayer) return;
+    
+    dispatchDOMEvent(COMMANDS.REPLAY_UPDATED, {
+      position: this.replayPlayer.getPosition(),
+      length: this.replayPlayer.getLength(),
+      turn: this.engine.getState().turn,
+      currentPlayerId: this.engine.getState().currentPlayerId,
+      playing: this.replayTimer !== null,
+      speed: this.replaySpeed
     });
   }
   
@@ -410,6 +1184,23 @@ export class GameScene extends Phaser.Scene {
    */
   update(time: number, delta: number): void {
     // Update animations and game logic here
+    if (this.wrapX) {
+      this.wrapCamera();
+    }
+  }
+  
+  /**
+   * Bring the camera back onto the map after it scrolls past the joined east or west edge
+   */
+  private wrapCamera(): void {
+    const camera = this.cameras.main;
+    const centre = camera.midPoint;
+    const wrapped = wrapScreenPosition(centre.x, centre.y, this.mapWidth);
+    
+    if (wrapped.x !== centre.x || wrapped.y !== centre.y) {
+      camera.scrollX += wrapped.x - centre.x;
+      camera.scrollY += wrapped.y - centre.y;
+    }
   }
   
   /**
@@ -426,6 +1217,13 @@ export class GameScene extends Phaser.Scene {
     return this.tiles.get(id);
   }
   
+  /**
+   * Get the rules engine driving this scene
+   */
+  public getEngine(): GameEngine {
+    return this.engine;
+  }
+  
   /**
    * Get the map width
    */
@@ -452,68 +1250,37 @@ export class GameScene extends Phaser.Scene {
     
     // Clean up DOM event handlers
     cleanupDOMEventHandlers(this);
+    
+    // Stop rendering engine changes
+    if (this.unsubscribeEngine) {
+      this.unsubscribeEngine();
+      this.unsubscribeEngine = null;
+    }
+    
+    // Stop any replay playback
+    if (this.replayTimer) {
+      this.replayTimer.remove();
+      this.replayTimer = null;
+    }
+    if (this.replayPlayer) {
+      this.replayPlayer = null;
+      dispatchDOMEvent(COMMANDS.REPLAY_UPDATED, null);
+    }
+    
+    // Leave the online game
+    if (this.online) {
+      this.unsubscribeOnline?.();
+      this.unsubscribeOnline = null;
+      this.online.client.disconnect();
+      this.online = null;
+    }
+    
+    // Phaser destroys the game objects, forget the views that wrapped them
+    this.tiles.clear();
+    this.units.clear();
+    this.cities.clear();
+    this.aiPlayers.clear();
+    this.viewingPlayerId = null;
+    this.playerCameras.clear();
   }
 }
-
-/**
- * Interface for player data
- */
-export interface PlayerData {
-  id: string;
-  faction: FactionType;
-  isHuman: boolean;
-  units: Map<string, Unit>;
-  cities: Map<string, City>;
-  buildings: Map<string, Building>;
-  resources: {
-    food: number;
-    production: number;
-    faith: number;
-  };
-  technologies: Set<string>;
-  visibility: Set<string>; // Set of visible tile IDs
-}
-
-/**
- * Basic interface for units
- */
-export interface Unit {
-  id: string;
-  type: string;
-  playerId: string;
-  position: { x: number, y: number };
-  movementLeft: number;
-  maxMovement: number;
-  hasActed: boolean;
-  health: number;
-  maxHealth: number;
-}
-
-/**
- * Basic interface for cities
- */
-export interface City {
-  id: string;
-  name: string;
-  playerId: string;
-  position: { x: number, y: number };
-  population: number;
-  maxPopulation: number;
-  health: number;
-  maxHealth: number;
-  tileIds: string[]; // tiles that belong to this city's territory
-}
-
-/**
- * Basic interface for buildings
- */
-export interface Building {
-  id: string;
-  type: string;
-  playerId: string;
-  position: { x: number, y: number };
-  health?: number;
-  maxHealth?: number;
-  constructionProgress?: number;
-  totalConstructionCost?: number;
-}
\ No newline at end of file
@@ -1,6 +1,8 @@
 import * as Phaser from 'phaser';
 import { EVENTS, phaserEvents } from '../utils/events';
 import { FactionType } from '../config/factions';
+import type { GameConfig } from './GameScene';
+import { DEFAULT_MAP_SIZE } from '../utils/mapGenerator';
 
 /**
  * Main menu scene for game
@@ -72,23 +74,21 @@ export class MainMenuScene extends Phaser.Scene {
     this.sound.play('click');
     
     // Game settings to pass to the game scene
-    const gameSettings = {
-      mapSettings: {
-        width: 20,
-        height: 20,
-        seed: Math.floor(Math.random() * 1000000),
-        terrainType: 'nephiLands' // Default terrain type based on faction could be set here
-      },
+    const gameSettings: GameConfig = {
+      mapWidth: DEFAULT_MAP_SIZE.width,
+      mapHeight: DEFAULT_MAP_SIZE.height,
+      mapType: 'nephiLands', // Default terrain type based on faction could be set here
+      seed: Math.floor(Math.random() * 1000000),
       players: [
         {
           id: 'player_1',
           faction: this.selectedFaction,
-          type: 'human'
+          isHuman: true
         },
         {
           id: 'player_2',
           faction: FactionType.LAMANITES,
-          type: 'ai'
+          isHuman: false
         }
       ]
     };
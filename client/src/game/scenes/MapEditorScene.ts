@@ -0,0 +1,332 @@
+import * as Phaser from 'phaser';
+import { MapTile } from '../entities/MapTile';
+import { getFactionConfig } from '../config/factions';
+import { getUnitDefinition } from '../config/units';
+import { COMMANDS, dispatchDOMEvent, handleDOMEvent, cleanupDOMEventHandlers } from '../utils/events';
+import { gridToIso, isoToGrid } from '../utils/isometric';
+import { DEFAULT_MAP_SIZE, MapType, generateMap } from '../utils/mapGenerator';
+import {
+  CustomMap,
+  createBlankMap,
+  createMapFromGenerated,
+  customMapToGrid,
+  getMapPlayers,
+  parseCustomMap,
+  serializeCustomMap
+} from '../utils/customMap';
+import { EditorBrush, MapEditorManager } from '../managers/MapEditorManager';
+import type { GameConfig } from './GameScene';
+import { GridPosition } from '../engine/types';
+
+// Tile dimensions used to turn pointer positions into grid positions
+const TILE_WIDTH = 64;
+const TILE_HEIGHT = 32;
+
+/**
+ * Map to open in the editor
+ */
+export interface MapEditorConfig {
+  map?: CustomMap; // Edit this map instead of a new one
+}
+
+/**
+ * Settings of a new map, blank or generated as a starting point
+ */
+export interface NewMapSettings {
+  width: number;
+  height: number;
+  mapType?: MapType; // Start from a generated map of this type
+  seed?: number;
+}
+
+/**
+ * State of the editor shown by the editor panel
+ */
+export interface EditorStatus {
+  name: string;
+  width: number;
+  height: number;
+  brush: EditorBrush;
+  fill: boolean;
+  canUndo: boolean;
+}
+
+/**
+ * Scene for painting custom maps by hand
+ */
+export class MapEditorScene extends Phaser.Scene {
+  private editor!: MapEditorManager;
+  private tiles: Map<string, MapTile>;
+  private markers: Phaser.GameObjects.Text[];
+
+  // Whether clicks flood-fill instead of painting with the brush
+  private fill: boolean = false;
+
+  // Pointer state: painting with the left button, panning with the right
+  private isPainting: boolean = false;
+  private lastPaintedTile: string | null = null;
+  private lastPointerPosition: { x: number, y: number } | null = null;
+  private zoomLevel: number = 1;
+
+  constructor() {
+    super({ key: 'MapEditorScene' });
+    this.tiles = new Map();
+    this.markers = [];
+  }
+
+  /**
+   * Open the given map, or a new blank one
+   */
+  init(config: MapEditorConfig): void {
+    const map = config.map ?? createBlankMap(DEFAULT_MAP_SIZE.width, DEFAULT_MAP_SIZE.height);
+    this.editor = new MapEditorManager(map);
+    this.fill = false;
+  }
+
+  create(): void {
+    this.cameras.main.setZoom(this.zoomLevel);
+
+    this.renderMap();
+    this.setupInputHandlers();
+    this.setupEventHandlers();
+
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
+
+    this.notifyUpdated();
+  }
+
+  /**
+   * Redraw every tile and marker of the map
+   */
+  private renderMap(): void {
+    this.tiles.forEach(tile => tile.destroy());
+    this.tiles.clear();
+
+    customMapToGrid(this.editor.getMap()).forEach(row => row.forEach(tileData => {
+      this.tiles.set(`${tileData.x},${tileData.y}`, new MapTile(this, { ...tileData, visible: true, explored: true }));
+    }));
+
+    const { width, height } = this.editor.getMap();
+    const mapWidthPx = width * TILE_WIDTH;
+    const mapHeightPx = height * TILE_HEIGHT;
+    this.cameras.main.setBounds(-mapWidthPx / 2, -100, mapWidthPx * 2, mapHeightPx * 2);
+
+    this.renderMarkers();
+  }
+
+  /**
+   * Redraw the given tiles after an edit
+   */
+  private renderTiles(positions: GridPosition[]): void {
+    const map = this.editor.getMap();
+
+    positions.forEach(({ x, y }) => {
+      const key = `${x},${y}`;
+      this.tiles.get(key)?.destroy();
+      this.tiles.set(key, new MapTile(this, { x, y, ...map.tiles[y * map.width + x], visible: true, explored: true }));
+    });
+  }
+
+  /**
+   * Redraw the labels of starts, cities and units
+   */
+  private renderMarkers(): void {
+    this.markers.forEach(marker => marker.destroy());
+    this.markers = [];
+
+    const map = this.editor.getMap();
+    const addMarker = (pos: GridPosition, label: string, color: string, offsetY: number) => {
+      const iso = gridToIso(pos.x, pos.y, TILE_WIDTH, TILE_HEIGHT);
+      const marker = this.add.text(iso.x, iso.y - TILE_HEIGHT / 2 + offsetY, label, {
+        font: 'bold 12px Arial',
+        color: '#ffffff',
+        backgroundColor: color,
+        padding: { left: 3, right: 3, top: 1, bottom: 1 }
+      });
+      marker.setOrigin(0.5).setDepth(10);
+      this.markers.push(marker);
+    };
+
+    map.starts.forEach(start => addMarker(start, 'Start', getFactionConfig(start.faction).color, -12));
+    map.cities.forEach(city => addMarker(city, city.name ?? 'City', getFactionConfig(city.faction).color, 0));
+    map.units.forEach(unit => (
+      addMarker(unit, getUnitDefinition(unit.type)?.name ?? unit.type, getFactionConfig(unit.faction).color, 12)
+    ));
+  }
+
+  /**
+   * Get the grid position under the pointer
+   */
+  private getPointerTile(pointer: Phaser.Input.Pointer): GridPosition | null {
+    // Tile sprites hang from their position, so their centre is half a tile higher
+    const grid = isoToGrid(pointer.worldX, pointer.worldY + TILE_HEIGHT / 2, TILE_WIDTH, TILE_HEIGHT);
+    const { width, height } = this.editor.getMap();
+
+    return grid.x >= 0 && grid.y >= 0 && grid.x < width && grid.y < height ? grid : null;
+  }
+
+  /**
+   * Apply the current tool to the tile under the pointer
+   */
+  private paintAt(pointer: Phaser.Input.Pointer): void {
+    const pos = this.getPointerTile(pointer);
+    if (!pos) return;
+
+    // Dragging over the same tile paints it only once
+    const key = `${pos.x},${pos.y}`;
+    if (key === this.lastPaintedTile) return;
+    this.lastPaintedTile = key;
+
+    const changed = this.fill ? this.editor.fill(pos.x, pos.y) : this.editor.paint(pos.x, pos.y);
+    this.renderTiles(changed);
+    this.renderMarkers();
+  }
+
+  /**
+   * Set up painting, panning and zooming with the pointer
+   */
+  private setupInputHandlers(): void {
+    this.input.mouse?.disableContextMenu();
+
+    this.input.on('wheel', (pointer: Phaser.Input.Pointer, gameObjects: any, deltaX: number, deltaY: number) => {
+      const zoomChange = deltaY > 0 ? -0.1 : 0.1;
+      this.zoomLevel = Phaser.Math.Clamp(this.zoomLevel + zoomChange, 0.5, 2.0);
+      this.cameras.main.setZoom(this.zoomLevel);
+    });
+
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      if (pointer.rightButtonDown()) {
+        this.lastPointerPosition = { x: pointer.x, y: pointer.y };
+        return;
+      }
+
+      // Everything painted until the button is released is undone together
+      this.editor.beginStroke();
+      this.isPainting = true;
+      this.lastPaintedTile = null;
+      this.paintAt(pointer);
+    });
+
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (this.lastPointerPosition) {
+        this.cameras.main.scrollX -= (pointer.x - this.lastPointerPosition.x) / this.cameras.main.zoom;
+        this.cameras.main.scrollY -= (pointer.y - this.lastPointerPosition.y) / this.cameras.main.zoom;
+        this.lastPointerPosition = { x: pointer.x, y: pointer.y };
+      } else if (this.isPainting && !this.fill) {
+        this.paintAt(pointer);
+      }
+    });
+
+    this.input.on('pointerup', () => {
+      if (this.isPainting) {
+        this.notifyUpdated();
+      }
+      this.isPainting = false;
+      this.lastPointerPosition = null;
+    });
+  }
+
+  /**
+   * Set up DOM event handlers for the editor panel
+   */
+  private setupEventHandlers(): void {
+    handleDOMEvent<Partial<EditorBrush>>(this, COMMANDS.EDITOR_SET_BRUSH, (changes) => {
+      this.editor.setBrush(changes);
+      this.notifyUpdated();
+    });
+
+    handleDOMEvent<{fill: boolean}>(this, COMMANDS.EDITOR_SET_FILL, (data) => {
+      this.fill = data.fill;
+      this.notifyUpdated();
+    });
+
+    handleDOMEvent<void>(this, COMMANDS.EDITOR_UNDO, () => {
+      if (this.editor.undo()) {
+        this.renderMap();
+        this.notifyUpdated();
+      }
+    });
+
+    // Start over on a blank or generated map
+    handleDOMEvent<NewMapSettings>(this, COMMANDS.EDITOR_NEW_MAP, ({ width, height, mapType, seed }) => {
+      const map = mapType
+        ? createMapFromGenerated('Untitled Map', generateMap({ width, height, seed, terrainType: mapType }))
+        : createBlankMap(width, height);
+
+      this.editor.loadMap(map);
+      this.renderMap();
+      this.notifyUpdated();
+    });
+
+    // Hand the map to the panel to download, under the name chosen there
+    handleDOMEvent<{name?: string}>(this, COMMANDS.EDITOR_EXPORT_MAP, (data) => {
+      const map = this.editor.getMap();
+      if (data?.name) {
+        map.name = data.name;
+      }
+
+      dispatchDOMEvent(COMMANDS.EDITOR_MAP_EXPORTED, { map, json: serializeCustomMap(map) });
+    });
+
+    handleDOMEvent<{json: string}>(this, COMMANDS.EDITOR_IMPORT_MAP, (data) => {
+      const map = parseCustomMap(data.json);
+      if (!map) {
+        console.warn('Could not import map');
+        return;
+      }
+
+      this.editor.loadMap(map);
+      this.renderMap();
+      this.notifyUpdated();
+    });
+
+    // Play the map against computer players of the other factions placed on it
+    handleDOMEvent<void>(this, COMMANDS.EDITOR_PLAY_MAP, () => {
+      const config: GameConfig = {
+        customMap: this.editor.getMap(),
+        players: getMapPlayers(this.editor.getMap()),
+        seed: Math.floor(Math.random() * 1000000000)
+      };
+
+      this.scene.start('GameScene', config);
+    });
+
+    handleDOMEvent<GameConfig>(this, COMMANDS.START_GAME, (config) => {
+      this.scene.start('GameScene', config);
+    });
+  }
+
+  /**
+   * Tell the editor panel about the current map and brush
+   */
+  private notifyUpdated(): void {
+    const { name, width, height } = this.editor.getMap();
+    const status: EditorStatus = {
+      name,
+      width,
+      height,
+      brush: this.editor.getBrush(),
+      fill: this.fill,
+      canUndo: this.editor.canUndo()
+    };
+
+    dispatchDOMEvent(COMMANDS.EDITOR_UPDATED, status);
+  }
+
+  /**
+   * Clean up when leaving the editor
+   */
+  shutdown(): void {
+    this.input.off('wheel');
+    this.input.off('pointerdown');
+    this.input.off('pointermove');
+    this.input.off('pointerup');
+
+    cleanupDOMEventHandlers(this);
+
+    this.tiles.forEach(tile => tile.destroy());
+    this.tiles.clear();
+    this.markers.forEach(marker => marker.destroy());
+    this.markers = [];
+  }
+}
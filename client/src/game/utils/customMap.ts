@@ -0,0 +1,335 @@
+/**
+ * Hand-made maps, designed in the map editor and saved as JSON.
+ *
+ * A custom map file looks like this:
+ *
+ *   {
+ *     "version": 1,
+ *     "name": "Land of Zarahemla",
+ *     "width": 20,
+ *     "height": 20,
+ *     "tiles": [
+ *       { "terrainType": "plains", "elevation": 3, "resourceType": "grain", "resourceAmount": 3 },
+ *       { "terrainType": "hills", "elevation": 6, "improvement": "mine" },
+ *       ...
+ *     ],
+ *     "starts": [{ "faction": "nephites", "x": 4, "y": 5 }],
+ *     "cities": [{ "faction": "nephites", "name": "Zarahemla", "x": 6, "y": 4, "population": 3 }],
+ *     "units": [{ "faction": "lamanites", "type": "warrior", "x": 14, "y": 12 }]
+ *   }
+ *
+ * - tiles: one entry per tile in row-major order (index = y * width + x).
+ *   terrainType is a TerrainType value and elevation runs from 0 to 10;
+ *   resourceType, resourceAmount and improvement are optional.
+ * - starts: where the settler and warrior of the player of a faction begin.
+ *   Players without a start get one chosen the same way as on generated maps.
+ * - cities and units: placed for the player of their faction before the
+ *   first turn. population is optional and defaults to a new city's.
+ *
+ * Starts, cities and units name a faction rather than a player, so one map
+ * can be played by any set of players; entries of factions nobody plays are
+ * left out.
+ */
+import { FactionType } from '../config/factions';
+import { IMPROVEMENTS } from '../config/improvements';
+import { TerrainType } from '../config/terrain';
+import { getUnitDefinition } from '../config/units';
+import type { PlayerSetup } from '../engine/state';
+import { ScenarioSetup } from '../engine/types';
+import { MapTileData } from './mapGenerator';
+
+/**
+ * Current version of the custom map format
+ */
+export const CUSTOM_MAP_FORMAT_VERSION = 1;
+
+// Elevation range of custom map tiles
+export const MIN_ELEVATION = 0;
+export const MAX_ELEVATION = 10;
+
+// Limits on custom map dimensions
+const MIN_MAP_SIZE = 4;
+const MAX_MAP_SIZE = 128;
+
+/**
+ * Resources that can be placed on tiles
+ */
+export const MAP_RESOURCES = ['grain', 'fruit', 'animals', 'wood', 'stone', 'ore', 'herbs', 'fish'];
+
+/**
+ * Improvements that can be placed on tiles
+ */
+export const MAP_IMPROVEMENTS = Object.keys(IMPROVEMENTS);
+
+/**
+ * Terrain and contents of a tile of a custom map
+ */
+export interface CustomMapTile {
+  terrainType: TerrainType;
+  elevation: number;
+  resourceType?: string;
+  resourceAmount?: number;
+  improvement?: string;
+}
+
+/**
+ * Starting position of a faction
+ */
+export interface CustomMapStart {
+  faction: FactionType;
+  x: number;
+  y: number;
+}
+
+/**
+ * City placed on the map before the game starts
+ */
+export interface CustomMapCity {
+  faction: FactionType;
+  name?: string;
+  x: number;
+  y: number;
+  population?: number;
+}
+
+/**
+ * Unit placed on the map before the game starts
+ */
+export interface CustomMapUnit {
+  faction: FactionType;
+  type: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * A hand-made map
+ */
+export interface CustomMap {
+  version: number;
+  name: string;
+  width: number;
+  height: number;
+  tiles: CustomMapTile[];
+  starts: CustomMapStart[];
+  cities: CustomMapCity[];
+  units: CustomMapUnit[];
+}
+
+/**
+ * Create a map of a single terrain with nothing placed on it
+ */
+export function createBlankMap(width: number, height: number, terrainType: TerrainType = TerrainType.PLAINS): CustomMap {
+  return {
+    version: CUSTOM_MAP_FORMAT_VERSION,
+    name: 'Untitled Map',
+    width,
+    height,
+    tiles: Array.from({ length: width * height }, () => ({ terrainType, elevation: 3 })),
+    starts: [],
+    cities: [],
+    units: []
+  };
+}
+
+/**
+ * Create a custom map from a generated one, to edit it further
+ */
+export function createMapFromGenerated(name: string, map: MapTileData[][]): CustomMap {
+  const height = map.length;
+  const width = height > 0 ? map[0].length : 0;
+  const tiles: CustomMapTile[] = [];
+
+  map.forEach(row => row.forEach(({ terrainType, elevation, resourceType, resourceAmount, improvement }) => {
+    const tile: CustomMapTile = { terrainType, elevation };
+    if (resourceType) {
+      tile.resourceType = resourceType;
+      tile.resourceAmount = resourceAmount;
+    }
+    if (improvement) {
+      tile.improvement = improvement;
+    }
+    tiles.push(tile);
+  }));
+
+  return { version: CUSTOM_MAP_FORMAT_VERSION, name, width, height, tiles, starts: [], cities: [], units: [] };
+}
+
+/**
+ * Get the tile of a custom map at a position, or null if it is off the map
+ */
+export function getCustomMapTile(map: CustomMap, x: number, y: number): CustomMapTile | null {
+  if (x < 0 || y < 0 || x >= map.width || y >= map.height) return null;
+  return map.tiles[y * map.width + x];
+}
+
+/**
+ * Convert a custom map to the grid generateMap returns, so it can be used
+ * anywhere a generated map can
+ */
+export function customMapToGrid(map: CustomMap): MapTileData[][] {
+  return Array.from({ length: map.height }, (_, y) => (
+    Array.from({ length: map.width }, (_, x) => ({ x, y, ...map.tiles[y * map.width + x] }))
+  ));
+}
+
+/**
+ * Get the players of a game on a custom map: a human for the faction of the
+ * first start and computer players for the other starts, or for the first
+ * other faction if the map has a single start
+ */
+export function getMapPlayers(map: CustomMap): PlayerSetup[] {
+  const factions = Array.from(new Set(map.starts.map(start => start.faction)));
+  (Object.values(FactionType) as FactionType[]).forEach(faction => {
+    if (factions.length < 2 && !factions.includes(faction)) {
+      factions.push(faction);
+    }
+  });
+
+  return factions.map((faction, index) => ({
+    id: `player_${index + 1}`,
+    faction,
+    isHuman: index === 0
+  }));
+}
+
+/**
+ * Hand a custom map's starts, cities and units to the players of their factions
+ */
+export function createScenario(map: CustomMap, players: PlayerSetup[]): ScenarioSetup {
+  const playerOf = (faction: FactionType) => players.find(player => player.faction === faction)?.id;
+  const scenario: ScenarioSetup = { starts: {}, cities: [], units: [] };
+
+  map.starts.forEach(({ faction, x, y }) => {
+    const playerId = playerOf(faction);
+    if (playerId && !scenario.starts[playerId]) {
+      scenario.starts[playerId] = { x, y };
+    }
+  });
+
+  map.cities.forEach(({ faction, ...city }) => {
+    const playerId = playerOf(faction);
+    if (playerId) {
+      scenario.cities.push({ playerId, ...city });
+    }
+  });
+
+  map.units.forEach(({ faction, ...unit }) => {
+    const playerId = playerOf(faction);
+    if (playerId) {
+      scenario.units.push({ playerId, ...unit });
+    }
+  });
+
+  return scenario;
+}
+
+/**
+ * Serialize a custom map to JSON
+ */
+export function serializeCustomMap(map: CustomMap): string {
+  return JSON.stringify(map, null, 2);
+}
+
+/**
+ * Parse a custom map from JSON, returning null if it is not a valid map
+ */
+export function parseCustomMap(json: string): CustomMap | null {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    console.error('Custom map is not valid JSON', error);
+    return null;
+  }
+
+  return validateCustomMap(data);
+}
+
+/**
+ * Check every part of a custom map, returning it or null with the first problem logged
+ */
+export function validateCustomMap(data: any): CustomMap | null {
+  if (!data || typeof data !== 'object') {
+    console.error('Custom map is not an object');
+    return null;
+  }
+
+  if (data.version !== CUSTOM_MAP_FORMAT_VERSION) {
+    console.error(`Unsupported custom map version ${data.version} (expected ${CUSTOM_MAP_FORMAT_VERSION})`);
+    return null;
+  }
+
+  const { width, height } = data;
+  if (!isWholeNumberIn(width, MIN_MAP_SIZE, MAX_MAP_SIZE) || !isWholeNumberIn(height, MIN_MAP_SIZE, MAX_MAP_SIZE)) {
+    console.error(`Custom map must be between ${MIN_MAP_SIZE} and ${MAX_MAP_SIZE} tiles across`);
+    return null;
+  }
+
+  if (!Array.isArray(data.tiles) || data.tiles.length !== width * height) {
+    console.error(`Custom map needs ${width * height} tiles`);
+    return null;
+  }
+
+  const badTile = data.tiles.findIndex((tile: any) => !isCustomMapTile(tile));
+  if (badTile >= 0) {
+    console.error(`Custom map tile ${badTile % width},${Math.floor(badTile / width)} is not valid`);
+    return null;
+  }
+
+  const onMap = (entry: any) => isWholeNumberIn(entry?.x, 0, width - 1) && isWholeNumberIn(entry?.y, 0, height - 1);
+  const isFaction = (entry: any) => (Object.values(FactionType) as string[]).includes(entry?.faction);
+
+  const starts = data.starts ?? [];
+  const cities = data.cities ?? [];
+  const units = data.units ?? [];
+
+  if (!Array.isArray(starts) || !starts.every((start: any) => isFaction(start) && onMap(start))) {
+    console.error('Custom map has an invalid start position');
+    return null;
+  }
+
+  const isCity = (city: any) => isFaction(city) && onMap(city) &&
+    (city.name === undefined || typeof city.name === 'string') &&
+    (city.population === undefined || isWholeNumberIn(city.population, 1, 100));
+  if (!Array.isArray(cities) || !cities.every(isCity)) {
+    console.error('Custom map has an invalid city');
+    return null;
+  }
+
+  const isUnit = (unit: any) => isFaction(unit) && onMap(unit) && !!getUnitDefinition(unit.type);
+  if (!Array.isArray(units) || !units.every(isUnit)) {
+    console.error('Custom map has an invalid unit');
+    return null;
+  }
+
+  return {
+    version: CUSTOM_MAP_FORMAT_VERSION,
+    name: typeof data.name === 'string' ? data.name : 'Untitled Map',
+    width,
+    height,
+    tiles: data.tiles,
+    starts,
+    cities,
+    units
+  };
+}
+
+/**
+ * Check that a value is a whole number within a range
+ */
+function isWholeNumberIn(value: any, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Check that a value is a valid custom map tile
+ */
+function isCustomMapTile(tile: any): tile is CustomMapTile {
+  return !!tile &&
+    (Object.values(TerrainType) as string[]).includes(tile.terrainType) &&
+    isWholeNumberIn(tile.elevation, MIN_ELEVATION, MAX_ELEVATION) &&
+    (tile.resourceType === undefined || MAP_RESOURCES.includes(tile.resourceType)) &&
+    (tile.resourceAmount === undefined || isWholeNumberIn(tile.resourceAmount, 0, 100)) &&
+    (tile.improvement === undefined || MAP_IMPROVEMENTS.includes(tile.improvement));
+}
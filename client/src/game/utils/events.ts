@@ -22,6 +22,9 @@ export const EVENTS = {
   UNIT_HOVERED: 'unit-hovered',
   UNIT_DIED: 'unit-died',
   UNIT_HEALED: 'unit-healed',
+  UNIT_LEVELED_UP: 'unit-leveled-up',
+  UNIT_PROMOTED: 'unit-promoted',
+  UNIT_FORTIFIED: 'unit-fortified',
   
   // Terrain events
   BUILD_IMPROVEMENT: 'build-improvement',
@@ -29,6 +32,7 @@ export const EVENTS = {
   IMPROVEMENT_DESTROYED: 'improvement-destroyed',
   TILE_SELECTED: 'tile-selected',
   TILE_DESELECTED: 'tile-deselected',
+  VISIBILITY_CHANGED: 'visibility-changed',
   
   // City events
   FOUND_CITY: 'found-city',
@@ -42,7 +46,14 @@ export const EVENTS = {
   CITY_PRODUCED_UNIT: 'city-produced-unit',
   CITY_BUILT_BUILDING: 'city-built-building',
   CITY_PRODUCTION_CHANGED: 'city-production-changed',
+  CITY_ATTACKED: 'city-attacked',
   CITY_DEFEATED: 'city-defeated',
+  CITY_STRUCK: 'city-struck',
+  CITY_HEALED: 'city-healed',
+  CITY_CAPTURED: 'city-captured',
+  CITY_RAZED: 'city-razed',
+  CITY_LIBERATED: 'city-liberated',
+  TRADE_ROUTE_ESTABLISHED: 'trade-route-established',
   PRODUCE_UNIT: 'produce-unit',
   PRODUCE_BUILDING: 'produce-building',
   BUILDING_CONSTRUCTED: 'building-constructed',
@@ -57,11 +68,19 @@ export const EVENTS = {
   TURN_STARTED: 'turn-started',
   PLAYER_TURN_ENDED: 'player-turn-ended',
   PLAYER_TURN_STARTED: 'player-turn-started',
+  PLAYER_ELIMINATED: 'player-eliminated',
   
   // Technology events
   RESEARCH_TECH: 'research-tech',
+  RESEARCH_STARTED: 'research-started',
   TECH_RESEARCHED: 'tech-researched',
   
+  // Action events
+  ACTION_APPLIED: 'action-applied',
+  ACTION_REJECTED: 'action-rejected',
+  STATE_RESET: 'state-reset',
+  HISTORY_CHANGED: 'history-changed',
+  
   // Game lifecycle events
   GAME_START: 'game-start',
   GAME_OVER: 'game-over',
@@ -138,6 +157,41 @@ export const COMMANDS = {
   RESUME_GAME: 'resume-game',
   RESTART_GAME: 'restart-game',
   END_TURN: 'end-turn',
+  UNDO: 'undo',
+  REDO: 'redo',
+  HISTORY_CHANGED: 'history-changed',
+  HOTSEAT_HANDOFF: 'hotseat-handoff',
+  HOTSEAT_READY: 'hotseat-ready',
+  SAVE_GAME: 'save-game',
+  GAME_SAVED: 'game-saved',
+  LOAD_GAME: 'load-game',
+  GAME_LOADED: 'game-loaded',
+  EXPORT_REPLAY: 'export-replay',
+  REPLAY_EXPORTED: 'replay-exported',
+  LOAD_REPLAY: 'load-replay',
+  
+  // Map editor commands
+  OPEN_MAP_EDITOR: 'open-map-editor',
+  EDITOR_NEW_MAP: 'editor-new-map',
+  EDITOR_SET_BRUSH: 'editor-set-brush',
+  EDITOR_SET_FILL: 'editor-set-fill',
+  EDITOR_UNDO: 'editor-undo',
+  EDITOR_UPDATED: 'editor-updated',
+  EDITOR_EXPORT_MAP: 'editor-export-map',
+  EDITOR_MAP_EXPORTED: 'editor-map-exported',
+  EDITOR_IMPORT_MAP: 'editor-import-map',
+  EDITOR_PLAY_MAP: 'editor-play-map',
+  
+  // Replay playback commands
+  REPLAY_PLAY: 'replay-play',
+  REPLAY_PAUSE: 'replay-pause',
+  REPLAY_STEP: 'replay-step',
+  REPLAY_SET_SPEED: 'replay-set-speed',
+  REPLAY_UPDATED: 'replay-updated',
+  
+  // Online game commands
+  PLAY_ONLINE_GAME: 'play-online-game',
+  ONLINE_YOUR_TURN: 'online-your-turn',
   
   // Camera commands
   MOVE_CAMERA: 'move-camera',
@@ -148,10 +202,23 @@ export const COMMANDS = {
   SELECT_UNIT: 'select-unit',
   MOVE_UNIT: 'move-unit',
   ATTACK_WITH_UNIT: 'attack-with-unit',
+  PROMOTE_UNIT: 'promote-unit',
+  FORTIFY_UNIT: 'fortify-unit',
+  ESTABLISH_TRADE_ROUTE: 'establish-trade-route',
   
   // Building commands
   BUILD_IMPROVEMENT: 'build-improvement',
   FOUND_CITY: 'found-city',
+  QUEUE_PRODUCTION: 'queue-production',
+  
+  // City commands
+  CITY_STRIKE: 'city-strike',
+  RAZE_CITY: 'raze-city',
+  LIBERATE_CITY: 'liberate-city',
+  CITY_CAPTURED: 'city-captured',
+  
+  // Research commands
+  RESEARCH_TECH: 'research-tech',
   
   // Resource commands
   GATHER_RESOURCE: 'gather-resource',
@@ -159,7 +226,8 @@ export const COMMANDS = {
   // UI feedback
   TOGGLE_GRID: 'toggle-grid',
   RESOURCES_UPDATED: 'resources-updated',
-  TURN_STARTED: 'turn-started'
+  TURN_STARTED: 'turn-started',
+  GAME_OVER: 'game-over'
 };
 
 // Interface for components that need event handling
@@ -1,6 +1,7 @@
 /**
  * Utility functions for isometric grid calculations
  */
+import { PriorityQueue } from './priorityQueue';
 
 // Default tile dimensions
 const DEFAULT_TILE_WIDTH = 64;
@@ -55,37 +56,78 @@ export function getIsometricDepth(x: number, y: number, mapWidth: number, mapHei
   return (x + y) / (mapWidth + mapHeight);
 }
 
+/**
+ * Bring an x coordinate back onto a map whose east and west edges join
+ */
+export function wrapGridX(x: number, mapWidth: number): number {
+  return ((x % mapWidth) + mapWidth) % mapWidth;
+}
+
+/**
+ * Move a screen position by whole map widths so that the column under it is
+ * on a map whose east and west edges join
+ */
+export function wrapScreenPosition(x: number, y: number, mapWidth: number, tileWidth: number = DEFAULT_TILE_WIDTH, tileHeight: number = DEFAULT_TILE_HEIGHT): { x: number, y: number } {
+  const gridX = (x / (tileWidth / 2) + y / (tileHeight / 2)) / 2;
+  const laps = Math.floor(gridX / mapWidth);
+  if (laps === 0) return { x, y };
+  
+  // One map width east is half a map width of tiles right and down on screen
+  const lap = gridToIso(mapWidth, 0, tileWidth, tileHeight);
+  return { x: x - laps * lap.x, y: y - laps * lap.y };
+}
+
+/**
+ * Horizontal distance between two columns, the short way round when the map wraps
+ * @param wrapWidth Width of the map if its east and west edges join
+ */
+function columnDistance(x1: number, x2: number, wrapWidth?: number): number {
+  const dx = Math.abs(x2 - x1);
+  return wrapWidth ? Math.min(dx, wrapWidth - dx) : dx;
+}
+
 /**
  * Calculate the distance between two grid positions
+ * @param wrapWidth Width of the map if its east and west edges join
  */
-export function gridDistance(x1: number, y1: number, x2: number, y2: number): number {
-  return Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
+export function gridDistance(x1: number, y1: number, x2: number, y2: number, wrapWidth?: number): number {
+  return Math.sqrt(Math.pow(columnDistance(x1, x2, wrapWidth), 2) + Math.pow(y2 - y1, 2));
 }
 
 /**
  * Calculate Manhattan distance (grid steps) between two positions
+ * @param wrapWidth Width of the map if its east and west edges join
+ */
+export function manhattanDistance(x1: number, y1: number, x2: number, y2: number, wrapWidth?: number): number {
+  return columnDistance(x1, x2, wrapWidth) + Math.abs(y2 - y1);
+}
+
+/**
+ * Bring a position onto the map, or null if it is off the map
  */
-export function manhattanDistance(x1: number, y1: number, x2: number, y2: number): number {
-  return Math.abs(x2 - x1) + Math.abs(y2 - y1);
+function toMapPosition(x: number, y: number, mapWidth: number, mapHeight: number, wrapX: boolean): { x: number, y: number } | null {
+  const nx = wrapX ? wrapGridX(x, mapWidth) : x;
+  return nx >= 0 && nx < mapWidth && y >= 0 && y < mapHeight ? { x: nx, y } : null;
 }
 
 /**
  * Get all grid positions within a certain range of a position
+ * @param wrapX Whether the east and west edges of the map join
  */
-export function getTilesInRange(x: number, y: number, range: number, mapWidth: number, mapHeight: number): { x: number, y: number }[] {
+export function getTilesInRange(x: number, y: number, range: number, mapWidth: number, mapHeight: number, wrapX: boolean = false): { x: number, y: number }[] {
   const tiles: { x: number, y: number }[] = [];
+  const seen = new Set<string>();
   
   for (let dx = -range; dx <= range; dx++) {
     for (let dy = -range; dy <= range; dy++) {
-      const nx = x + dx;
-      const ny = y + dy;
+      // Calculate Manhattan distance to ensure we're getting a diamond shape
+      if (Math.abs(dx) + Math.abs(dy) > range) continue;
       
-      // Make sure position is within map bounds
-      if (nx >= 0 && nx < mapWidth && ny >= 0 && ny < mapHeight) {
-        // Calculate Manhattan distance to ensure we're getting a diamond shape
-        if (Math.abs(dx) + Math.abs(dy) <= range) {
-          tiles.push({ x: nx, y: ny });
-        }
+      // Make sure position is within map bounds (a wide range on a narrow wrapping map can meet itself)
+      const pos = toMapPosition(x + dx, y + dy, mapWidth, mapHeight, wrapX);
+      if (pos && !seen.has(`${pos.x},${pos.y}`)) {
+        seen.add(`${pos.x},${pos.y}`);
+        tiles.push(pos);
       }
     }
   }
@@ -95,8 +137,9 @@ export function getTilesInRange(x: number, y: number, range: number, mapWidth: n
 
 /**
  * Get the adjacent tiles to a position
+ * @param wrapX Whether the east and west edges of the map join
  */
-export function getAdjacentTiles(x: number, y: number, mapWidth: number, mapHeight: number): { x: number, y: number }[] {
+export function getAdjacentTiles(x: number, y: number, mapWidth: number, mapHeight: number, wrapX: boolean = false): { x: number, y: number }[] {
   const directions = [
     { dx: 0, dy: -1 },   // North
     { dx: 1, dy: 0 },    // East
@@ -105,14 +148,15 @@ export function getAdjacentTiles(x: number, y: number, mapWidth: number, mapHeig
   ];
   
   return directions
-    .map(dir => ({ x: x + dir.dx, y: y + dir.dy }))
-    .filter(pos => pos.x >= 0 && pos.x < mapWidth && pos.y >= 0 && pos.y < mapHeight);
+    .map(dir => toMapPosition(x + dir.dx, y + dir.dy, mapWidth, mapHeight, wrapX))
+    .filter((pos): pos is { x: number, y: number } => pos !== null);
 }
 
 /**
  * Get the diagonal tiles to a position
+ * @param wrapX Whether the east and west edges of the map join
  */
-export function getDiagonalTiles(x: number, y: number, mapWidth: number, mapHeight: number): { x: number, y: number }[] {
+export function getDiagonalTiles(x: number, y: number, mapWidth: number, mapHeight: number, wrapX: boolean = false): { x: number, y: number }[] {
   const directions = [
     { dx: 1, dy: -1 },   // Northeast
     { dx: 1, dy: 1 },    // Southeast
@@ -121,17 +165,18 @@ export function getDiagonalTiles(x: number, y: number, mapWidth: number, mapHeig
   ];
   
   return directions
-    .map(dir => ({ x: x + dir.dx, y: y + dir.dy }))
-    .filter(pos => pos.x >= 0 && pos.x < mapWidth && pos.y >= 0 && pos.y < mapHeight);
+    .map(dir => toMapPosition(x + dir.dx, y + dir.dy, mapWidth, mapHeight, wrapX))
+    .filter((pos): pos is { x: number, y: number } => pos !== null);
 }
 
 /**
  * Get all tiles surrounding a position (adjacent + diagonal)
+ * @param wrapX Whether the east and west edges of the map join
  */
-export function getSurroundingTiles(x: number, y: number, mapWidth: number, mapHeight: number): { x: number, y: number }[] {
+export function getSurroundingTiles(x: number, y: number, mapWidth: number, mapHeight: number, wrapX: boolean = false): { x: number, y: number }[] {
   return [
-    ...getAdjacentTiles(x, y, mapWidth, mapHeight),
-    ...getDiagonalTiles(x, y, mapWidth, mapHeight)
+    ...getAdjacentTiles(x, y, mapWidth, mapHeight, wrapX),
+    ...getDiagonalTiles(x, y, mapWidth, mapHeight, wrapX)
   ];
 }
 
@@ -145,6 +190,7 @@ export function getSurroundingTiles(x: number, y: number, mapWidth: number, mapH
  * @param getMovementCost Function that returns the movement cost for a tile
  * @param mapWidth Width of the map
  * @param mapHeight Height of the map
+ * @param wrapX Whether the east and west edges of the map join
  */
 export function findPath(
   startX: number, 
@@ -154,119 +200,82 @@ export function findPath(
   isPassable: (x: number, y: number) => boolean,
   getMovementCost: (x: number, y: number) => number,
   mapWidth: number,
-  mapHeight: number
+  mapHeight: number,
+  wrapX: boolean = false
 ): { x: number, y: number }[] {
-  // Implementation of A* pathfinding algorithm
-  
-  // Node representation for the algorithm
-  interface Node {
-    x: number;
-    y: number;
-    g: number; // Cost from start to this node
-    h: number; // Heuristic (estimated cost from this node to target)
-    f: number; // Total cost (g + h)
-    parent: Node | null;
-  }
+  // A* over a binary heap, keeping the cheapest known cost of every tile
+  const key = (x: number, y: number) => y * mapWidth + x;
   
-  // Helper function to calculate heuristic (Manhattan distance)
+  // Heuristic: Manhattan distance, the short way round on wrapping maps
   const heuristic = (x: number, y: number): number => {
-    return Math.abs(targetX - x) + Math.abs(targetY - y);
+    return manhattanDistance(x, y, targetX, targetY, wrapX ? mapWidth : undefined);
   };
   
-  // Initialize open and closed lists
-  const openList: Node[] = [];
-  const closedList: Map<string, boolean> = new Map();
+  // Nothing can reach a tile that cannot be entered, so don't search the whole map for it
+  const isStart = startX === targetX && startY === targetY;
+  if (!isStart && !isPassable(targetX, targetY)) {
+    return [];
+  }
   
-  // Create start node
-  const startNode: Node = {
-    x: startX,
-    y: startY,
-    g: 0,
-    h: heuristic(startX, startY),
-    f: heuristic(startX, startY),
-    parent: null
-  };
+  // Per-tile search state in flat arrays indexed by tile key, far cheaper than
+  // maps; the queue holds tile keys too rather than allocating an entry per push
+  const tileCount = mapWidth * mapHeight;
+  const bestCost = new Float64Array(tileCount).fill(Infinity);
+  const cameFrom = new Int32Array(tileCount).fill(-1);
+  const closed = new Uint8Array(tileCount);
+  const open = new PriorityQueue<number>();
+  bestCost[key(startX, startY)] = 0;
+  open.push(key(startX, startY), heuristic(startX, startY));
   
-  // Add start node to open list
-  openList.push(startNode);
+  // North, east, south and west
+  const directionsX = [0, 1, 0, -1];
+  const directionsY = [-1, 0, 1, 0];
+  const targetKey = key(targetX, targetY);
   
-  // Loop until we find the path or exhaust possibilities
-  while (openList.length > 0) {
-    // Find node with lowest f cost
-    let currentIndex = 0;
-    for (let i = 0; i < openList.length; i++) {
-      if (openList[i].f < openList[currentIndex].f) {
-        currentIndex = i;
-      }
-    }
+  // Among tiles with the same estimate, expand the one nearest the target
+  // first. Costs are whole numbers and this adds less than 1, so paths stay
+  // the cheapest, but open ground no longer floods out in every direction.
+  const tieBreak = 1 / (mapWidth + mapHeight + 1);
+  
+  while (!open.isEmpty()) {
+    const currentKey = open.pop()!;
     
-    // Get the current node
-    const currentNode = openList[currentIndex];
+    // Skip entries for tiles a cheaper path has already settled
+    if (closed[currentKey]) continue;
+    closed[currentKey] = 1;
     
-    // Check if we've reached the target
-    if (currentNode.x === targetX && currentNode.y === targetY) {
-      // Reconstruct path
+    // Reconstruct the path once the target comes out of the queue
+    if (currentKey === targetKey) {
       const path: { x: number, y: number }[] = [];
-      let current: Node | null = currentNode;
       
-      while (current !== null) {
-        path.unshift({ x: current.x, y: current.y });
-        current = current.parent;
+      for (let step = currentKey; step !== -1; step = cameFrom[step]) {
+        path.push({ x: step % mapWidth, y: Math.floor(step / mapWidth) });
       }
       
-      return path;
+      return path.reverse();
     }
     
-    // Remove current node from open list and add to closed list
-    openList.splice(currentIndex, 1);
-    closedList.set(`${currentNode.x},${currentNode.y}`, true);
+    const x = currentKey % mapWidth;
+    const y = (currentKey - x) / mapWidth;
     
-    // Check all adjacent tiles
-    const directions = [
-      { dx: 0, dy: -1 },  // North
-      { dx: 1, dy: 0 },   // East
-      { dx: 0, dy: 1 },   // South
-      { dx: -1, dy: 0 }   // West
-    ];
-    
-    for (const dir of directions) {
-      const nextX = currentNode.x + dir.dx;
-      const nextY = currentNode.y + dir.dy;
-      
-      // Check if position is valid
-      if (
-        nextX >= 0 && nextX < mapWidth &&
-        nextY >= 0 && nextY < mapHeight &&
-        isPassable(nextX, nextY) &&
-        !closedList.has(`${nextX},${nextY}`)
-      ) {
-        // Calculate costs
-        const movementCost = getMovementCost(nextX, nextY);
-        const gCost = currentNode.g + movementCost;
-        const hCost = heuristic(nextX, nextY);
-        const fCost = gCost + hCost;
-        
-        // Check if node is already in open list with a better path
-        const existingNodeIndex = openList.findIndex(node => node.x === nextX && node.y === nextY);
-        
-        if (existingNodeIndex === -1 || gCost < openList[existingNodeIndex].g) {
-          // Create new node or update existing one
-          const newNode: Node = {
-            x: nextX,
-            y: nextY,
-            g: gCost,
-            h: hCost,
-            f: fCost,
-            parent: currentNode
-          };
-          
-          if (existingNodeIndex === -1) {
-            openList.push(newNode);
-          } else {
-            openList[existingNodeIndex] = newNode;
-          }
-        }
+    for (let dir = 0; dir < 4; dir++) {
+      const nextY = y + directionsY[dir];
+      let nextX = x + directionsX[dir];
+      if (wrapX) {
+        nextX = wrapGridX(nextX, mapWidth);
       }
+      if (nextX < 0 || nextX >= mapWidth || nextY < 0 || nextY >= mapHeight) continue;
+      
+      const nextKey = key(nextX, nextY);
+      if (closed[nextKey] || !isPassable(nextX, nextY)) continue;
+      
+      const g = bestCost[currentKey] + getMovementCost(nextX, nextY);
+      if (g >= bestCost[nextKey]) continue;
+      
+      bestCost[nextKey] = g;
+      cameFrom[nextKey] = currentKey;
+      const h = heuristic(nextX, nextY);
+      open.push(nextKey, g + h + h * tieBreak);
     }
   }
   
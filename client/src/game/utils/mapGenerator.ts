@@ -1,13 +1,60 @@
 import { TerrainType } from '../config/terrain';
-import { createNoise2D, type NoiseFunction2D } from 'simplex-noise';
+import { createNoise2D, createNoise3D, type NoiseFunction2D, type NoiseFunction3D } from 'simplex-noise';
+import { RandomFunction, createRandom, hashSeed } from './random';
+
+export type MapType = 'nephiLands' | 'lamaniteLands' | 'jarediteWilderness' | 'landBountiful' | 'landDesolation' | 'random';
+
+export type MapShape = 'natural' | 'continents' | 'pangaea' | 'archipelago' | 'inlandSea';
 
 export interface MapConfig {
   width: number;
   height: number;
   seed?: number;
-  terrainType: 'nephiLands' | 'lamaniteLands' | 'jarediteWilderness' | 'landBountiful' | 'landDesolation' | 'random';
+  terrainType: MapType;
+  shape?: MapShape; // Where land and sea lie; 'natural' leaves it to the map type
+  wrapX?: boolean; // The east and west edges of the map join
 }
 
+/**
+ * Map types offered when setting up a new game
+ */
+export const MAP_TYPES: Record<MapType, { name: string; description: string }> = {
+  nephiLands: { name: 'Land of Nephi', description: 'Fertile central plains and rivers between eastern and western mountains' },
+  lamaniteLands: { name: 'Lamanite Lands', description: 'Jungle and forests with scattered hills' },
+  jarediteWilderness: { name: 'Jaredite Wilderness', description: 'Rugged plains and hills with few forests' },
+  landBountiful: { name: 'Land Bountiful', description: 'A fertile coast of forests and water' },
+  landDesolation: { name: 'Land Desolation', description: 'Harsh mountains and deserts' },
+  random: { name: 'Random', description: 'A mix of every kind of terrain' }
+};
+
+/**
+ * Map shapes offered when setting up a new game
+ */
+export const MAP_SHAPES: Record<MapShape, { name: string; description: string }> = {
+  natural: { name: 'Natural', description: 'Land and water as the map type shapes them' },
+  continents: { name: 'Continents', description: 'Two or three large landmasses divided by ocean' },
+  pangaea: { name: 'Pangaea', description: 'One great landmass surrounded by ocean' },
+  archipelago: { name: 'Archipelago', description: 'Many small islands scattered across the sea' },
+  inlandSea: { name: 'Inland Sea', description: 'Land all around a great sea in the middle' }
+};
+
+/**
+ * Map sizes offered when setting up a new game
+ */
+export const MAP_SIZES: { id: string; name: string; width: number; height: number }[] = [
+  { id: 'duel', name: 'Duel', width: 24, height: 16 },
+  { id: 'small', name: 'Small', width: 32, height: 20 },
+  { id: 'standard', name: 'Standard', width: 44, height: 28 },
+  { id: 'large', name: 'Large', width: 64, height: 40 },
+  { id: 'huge', name: 'Huge', width: 96, height: 60 },
+  { id: 'giant', name: 'Giant', width: 128, height: 80 }
+];
+
+/**
+ * Size a new game uses unless another is chosen
+ */
+export const DEFAULT_MAP_SIZE = MAP_SIZES[2];
+
 export interface MapTileData {
   x: number;
   y: number;
@@ -25,46 +72,344 @@ export interface MapTileData {
  * Generate a complete map based on configuration
  */
 export function generateMap(config: MapConfig): MapTileData[][] {
-  const { width, height, seed = Date.now(), terrainType } = config;
+  const { width, height, seed = Date.now(), terrainType, shape = 'natural', wrapX = false } = config;
   
   // Initialize the map grid
   const map: MapTileData[][] = Array(height)
     .fill(null)
     .map(() => Array(width).fill(null));
   
-  // Create seeded noise generators
-  const noise2D = createNoise2D(() => seed / 10000000);
+  // Noise and resource rolls share the map stream, so one seed gives one map
+  const random = createRandom(hashSeed(seed, 'map'));
+  const noise2D = createNoise2D(random);
   
   // Generate terrain based on the selected type
   switch (terrainType) {
     case 'nephiLands':
-      generateNephiLands(map, noise2D, width, height);
+      generateNephiLands(map, noise2D, random, width, height);
       break;
     case 'lamaniteLands':
-      generateLamaniteLands(map, noise2D, width, height);
+      generateLamaniteLands(map, noise2D, random, width, height);
       break;
     case 'jarediteWilderness':
-      generateJarediteWilderness(map, noise2D, width, height);
+      generateJarediteWilderness(map, noise2D, random, width, height);
       break;
     case 'landBountiful':
-      generateLandBountiful(map, noise2D, width, height);
+      generateLandBountiful(map, noise2D, random, width, height);
       break;
     case 'landDesolation':
-      generateLandDesolation(map, noise2D, width, height);
+      generateLandDesolation(map, noise2D, random, width, height);
       break;
     case 'random':
     default:
-      generateRandomTerrain(map, noise2D, width, height);
+      generateRandomTerrain(map, noise2D, random, width, height);
       break;
   }
   
+  // Shapes other than the natural one redraw the coastline over the terrain
+  if (shape !== 'natural') {
+    applyMapShape(map, shape, createRandom(hashSeed(seed, 'shape')), width, height, wrapX);
+  }
+  
+  // Water follows the land each generator shaped
+  simulateWater(map, random, width, height, wrapX);
+  
   return map;
 }
 
+// Share of the map each shape leaves as land
+const SHAPE_LAND_SHARE: Record<Exclude<MapShape, 'natural'>, number> = {
+  continents: 0.4,
+  pangaea: 0.45,
+  archipelago: 0.3,
+  inlandSea: 0.65
+};
+
+// Scale of the noise that roughens coastlines, and of the noise archipelago islands rise from
+const COAST_NOISE_SCALE = 0.12;
+const ISLAND_NOISE_SCALE = 0.3;
+
+/**
+ * Sample noise so that it continues seamlessly across the joined edges of wrapping maps
+ */
+function sampleShapeNoise(noise3D: NoiseFunction3D, x: number, y: number, scale: number, width: number, wrapX: boolean): number {
+  if (!wrapX) {
+    return noise3D(x * scale, y * scale, 0);
+  }
+  
+  // Wrap the map's columns around a cylinder with the same circumference
+  const radius = width * scale / (2 * Math.PI);
+  const angle = (x / width) * 2 * Math.PI;
+  return noise3D(Math.cos(angle) * radius, y * scale, Math.sin(angle) * radius);
+}
+
+/**
+ * How close a position is to a column, measured the short way round on wrapping maps
+ */
+function getColumnDistance(x: number, column: number, width: number, wrapX: boolean): number {
+  const dx = Math.abs(x - column);
+  return wrapX ? Math.min(dx, width - dx) : dx;
+}
+
+/**
+ * How close a position is to the middle of the land (1 at the centre, 0 at the edges).
+ * Wrapping maps have no east or west edge, so the middle can be any column.
+ */
+function getCentrality(x: number, y: number, centreX: number, width: number, height: number, wrapX: boolean): number {
+  const dx = getColumnDistance(x, centreX, width, wrapX) / (width / 2);
+  const dy = Math.abs(y - (height - 1) / 2) / (height / 2);
+  return 1 - Math.sqrt(dx * dx + dy * dy) / Math.SQRT2;
+}
+
+/**
+ * Score how strongly a position should be land under a map shape
+ */
+function getLandScore(
+  shape: Exclude<MapShape, 'natural'>,
+  noise3D: NoiseFunction3D,
+  middle: number,
+  centres: number[],
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  wrapX: boolean
+): number {
+  const coastNoise = sampleShapeNoise(noise3D, x, y, COAST_NOISE_SCALE, width, wrapX);
+  const centrality = getCentrality(x, y, middle, width, height, wrapX);
+  
+  switch (shape) {
+    case 'pangaea':
+      return centrality + coastNoise * 0.35;
+    case 'inlandSea':
+      return -centrality + coastNoise * 0.3;
+    case 'archipelago':
+      return sampleShapeNoise(noise3D, x, y, ISLAND_NOISE_SCALE, width, wrapX) + centrality * 0.3;
+    case 'continents': {
+      // Land gathers around a few centres spread from west to east, kept apart by ocean
+      const nearest = Math.min(...centres.map(centre => getColumnDistance(x, centre, width, wrapX)));
+      const spread = width / (centres.length * 2);
+      return (1 - nearest / spread) * 0.6 + (1 - Math.abs(y - (height - 1) / 2) / (height / 2)) * 0.4 + coastNoise * 0.35;
+    }
+  }
+}
+
+/**
+ * Redraw land and sea to a map shape: the highest-scoring share of tiles stays
+ * land and the rest becomes ocean
+ */
+function applyMapShape(
+  map: MapTileData[][],
+  shape: Exclude<MapShape, 'natural'>,
+  random: RandomFunction,
+  width: number,
+  height: number,
+  wrapX: boolean
+): void {
+  const noise3D = createNoise3D(random);
+  const continentCount = 2 + Math.floor(random() * 2);
+  
+  // Flat maps centre their land; wrapping maps can put it anywhere around the world
+  const middle = wrapX ? random() * width : (width - 1) / 2;
+  const centres = Array.from({ length: continentCount }, (_, i) => (
+    wrapX ? (middle + i * width / continentCount) % width : (i + 0.5) * width / continentCount
+  ));
+  
+  const scored = flattenMap(map).map(tile => ({
+    tile,
+    score: getLandScore(shape, noise3D, middle, centres, tile.x, tile.y, width, height, wrapX)
+  }));
+  scored.sort((a, b) => b.score - a.score);
+  
+  const landCount = Math.round(scored.length * SHAPE_LAND_SHARE[shape]);
+  scored.forEach(({ tile }, index) => {
+    const isWater = tile.terrainType === TerrainType.OCEAN || tile.terrainType === TerrainType.COAST;
+    
+    if (index >= landCount) {
+      tile.terrainType = TerrainType.OCEAN;
+      tile.elevation = Math.min(tile.elevation, 1);
+      if (tile.resourceType !== 'fish') {
+        delete tile.resourceType;
+        delete tile.resourceAmount;
+      }
+    } else if (isWater) {
+      // Sea the map type placed where the shape wants land is raised into plains
+      tile.terrainType = TerrainType.PLAINS;
+      tile.elevation = Math.max(tile.elevation, 2);
+      delete tile.resourceType;
+      delete tile.resourceAmount;
+    }
+  });
+}
+
+// Tiles of land per river traced from the highlands
+const TILES_PER_RIVER = 80;
+
+// Share of land, by elevation, that rivers may spring from
+const RIVER_SOURCE_SHARE = 0.2;
+
+// Rivers shorter than this that don't reach water are dropped
+const MIN_RIVER_LENGTH = 3;
+
+// Basins at or below this elevation fill with water
+const MAX_LAKE_ELEVATION = 4;
+
+// Terrain rivers flow into
+const WATER_TERRAIN = new Set<TerrainType>([TerrainType.LAKE, TerrainType.OCEAN, TerrainType.COAST]);
+
+/**
+ * Get the tiles next to a position in the four main directions
+ */
+function getOrthogonalNeighbors(map: MapTileData[][], x: number, y: number, wrapX: boolean): MapTileData[] {
+  return [
+    getTile(map, x, y - 1, wrapX),
+    getTile(map, x + 1, y, wrapX),
+    getTile(map, x, y + 1, wrapX),
+    getTile(map, x - 1, y, wrapX)
+  ].filter((tile): tile is MapTileData => tile !== null);
+}
+
+/**
+ * Replace noise-placed rivers with ones that flow downhill, fill basins with
+ * lakes and wrap land next to the sea in coast
+ */
+function simulateWater(map: MapTileData[][], random: RandomFunction, width: number, height: number, wrapX: boolean): void {
+  // Rivers are traced from elevation below, not left where the noise put them
+  flattenMap(map)
+    .filter(tile => tile.terrainType === TerrainType.RIVER)
+    .forEach(tile => {
+      tile.terrainType = TerrainType.PLAINS;
+    });
+  
+  fillBasins(map, width, height, wrapX);
+  traceRivers(map, random, width, height, wrapX);
+  wrapCoastlines(map, wrapX);
+}
+
+/**
+ * Turn land lower than all its neighbours into lakes
+ */
+function fillBasins(map: MapTileData[][], width: number, height: number, wrapX: boolean): void {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const tile = map[y][x];
+      if (WATER_TERRAIN.has(tile.terrainType) || tile.elevation > MAX_LAKE_ELEVATION) continue;
+      
+      const neighbors = getNeighbors(map, x, y, wrapX);
+      if (neighbors.length === 8 && neighbors.every(neighbor => neighbor.elevation > tile.elevation)) {
+        makeLake(tile);
+      }
+    }
+  }
+}
+
+/**
+ * Turn a tile into a lake
+ */
+function makeLake(tile: MapTileData): void {
+  tile.terrainType = TerrainType.LAKE;
+  delete tile.resourceType;
+  delete tile.resourceAmount;
+}
+
+/**
+ * Trace rivers from high land downhill until they reach water, join another
+ * river, leave the map or end in a basin, which becomes a lake
+ */
+function traceRivers(map: MapTileData[][], random: RandomFunction, width: number, height: number, wrapX: boolean): void {
+  const land = flattenMap(map).filter(tile => !WATER_TERRAIN.has(tile.terrainType));
+  if (land.length === 0) return;
+  
+  // Springs are the highest land, in random order
+  const byElevation = [...land].sort((a, b) => b.elevation - a.elevation);
+  const sources = byElevation.slice(0, Math.max(1, Math.floor(land.length * RIVER_SOURCE_SHARE)));
+  const riverCount = Math.max(1, Math.round(land.length / TILES_PER_RIVER));
+  
+  let traced = 0;
+  while (traced < riverCount && sources.length > 0) {
+    const source = sources.splice(Math.floor(random() * sources.length), 1)[0];
+    
+    // Keep springs apart so rivers spread over the map
+    const nearRiver = getNeighbors(map, source.x, source.y, wrapX).some(tile => tile.terrainType === TerrainType.RIVER);
+    if (nearRiver || source.terrainType === TerrainType.RIVER) continue;
+    
+    if (traceRiver(map, random, source, width * height, wrapX)) {
+      traced++;
+    }
+  }
+}
+
+/**
+ * Follow the land downhill from a spring, turning the course into river
+ * @returns Whether a river was made
+ */
+function traceRiver(map: MapTileData[][], random: RandomFunction, source: MapTileData, maxLength: number, wrapX: boolean): boolean {
+  const course: MapTileData[] = [];
+  const visited = new Set<MapTileData>([source]);
+  let current = source;
+  let outcome: 'water' | 'river' | 'edge' | 'basin' = 'basin';
+  
+  while (course.length < maxLength) {
+    const neighbors = getOrthogonalNeighbors(map, current.x, current.y, wrapX).filter(tile => !visited.has(tile));
+    
+    if (neighbors.some(tile => WATER_TERRAIN.has(tile.terrainType))) {
+      outcome = 'water';
+      break;
+    }
+    if (neighbors.some(tile => tile.terrainType === TerrainType.RIVER)) {
+      outcome = 'river';
+      break;
+    }
+    
+    // Water never flows uphill; at the edge it runs off the map
+    const lowest = Math.min(...neighbors.map(tile => tile.elevation));
+    if (neighbors.length === 0 || lowest > current.elevation) {
+      const onEdge = getOrthogonalNeighbors(map, current.x, current.y, wrapX).length < 4;
+      outcome = onEdge ? 'edge' : 'basin';
+      break;
+    }
+    
+    const downhill = neighbors.filter(tile => tile.elevation === lowest);
+    current = downhill[Math.floor(random() * downhill.length)];
+    visited.add(current);
+    course.push(current);
+  }
+  
+  if (course.length === 0) return false;
+  if (outcome !== 'water' && outcome !== 'river' && course.length < MIN_RIVER_LENGTH) return false;
+  
+  // A river that ends in a basin pools into a lake
+  if (outcome === 'basin') {
+    course.pop();
+    makeLake(current);
+  }
+  
+  course.forEach(tile => {
+    if (tile.terrainType === TerrainType.MOUNTAINS) return;
+    tile.terrainType = TerrainType.RIVER;
+    delete tile.resourceType;
+    delete tile.resourceAmount;
+  });
+  
+  return true;
+}
+
+/**
+ * Make sea next to land coast, and coast away from land open ocean
+ */
+function wrapCoastlines(map: MapTileData[][], wrapX: boolean): void {
+  flattenMap(map)
+    .filter(tile => tile.terrainType === TerrainType.OCEAN || tile.terrainType === TerrainType.COAST)
+    .forEach(tile => {
+      const touchesLand = getNeighbors(map, tile.x, tile.y, wrapX).some(neighbor => !WATER_TERRAIN.has(neighbor.terrainType));
+      tile.terrainType = touchesLand ? TerrainType.COAST : TerrainType.OCEAN;
+    });
+}
+
 /**
  * Generate Nephi lands - fertile with mountains to the east and west, rivers, and central plains
  */
-function generateNephiLands(map: MapTileData[][], noise2D: NoiseFunction2D, width: number, height: number): void {
+function generateNephiLands(map: MapTileData[][], noise2D: NoiseFunction2D, random: RandomFunction, width: number, height: number): void {
   // Elevation noise parameters
   const mountainScale = 0.08;
   const detailScale = 0.2;
@@ -131,16 +476,16 @@ function generateNephiLands(map: MapTileData[][], noise2D: NoiseFunction2D, widt
       };
       
       // Add resources based on terrain
-      if (Math.random() < 0.1) {  // 10% chance for resources
+      if (random() < 0.1) {  // 10% chance for resources
         if (terrainType === TerrainType.MOUNTAINS) {
           map[y][x].resourceType = 'ore';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 1;
         } else if (terrainType === TerrainType.FOREST) {
           map[y][x].resourceType = 'wood';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 1;
         } else if (terrainType === TerrainType.PLAINS) {
           map[y][x].resourceType = 'grain';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 1;
         }
       }
     }
@@ -150,7 +495,7 @@ function generateNephiLands(map: MapTileData[][], noise2D: NoiseFunction2D, widt
 /**
  * Generate Lamanite lands - jungle and forests with scattered hills
  */
-function generateLamaniteLands(map: MapTileData[][], noise2D: NoiseFunction2D, width: number, height: number): void {
+function generateLamaniteLands(map: MapTileData[][], noise2D: NoiseFunction2D, random: RandomFunction, width: number, height: number): void {
   // Scale parameters for noise
   const baseScale = 0.07;
   const detailScale = 0.15;
@@ -199,16 +544,16 @@ function generateLamaniteLands(map: MapTileData[][], noise2D: NoiseFunction2D, w
       };
       
       // Add resources
-      if (Math.random() < 0.12) {  // 12% chance for resources - more abundant
+      if (random() < 0.12) {  // 12% chance for resources - more abundant
         if (terrainType === TerrainType.JUNGLE) {
           map[y][x].resourceType = 'fruit';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 1;
         } else if (terrainType === TerrainType.FOREST) {
           map[y][x].resourceType = 'wood';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 1;
         } else if (terrainType === TerrainType.SWAMP) {
           map[y][x].resourceType = 'herbs';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 3) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 3) + 1;
         }
       }
     }
@@ -218,7 +563,7 @@ function generateLamaniteLands(map: MapTileData[][], noise2D: NoiseFunction2D, w
 /**
  * Generate Jaredite wilderness - rugged with plains and hills, fewer forests
  */
-function generateJarediteWilderness(map: MapTileData[][], noise2D: NoiseFunction2D, width: number, height: number): void {
+function generateJarediteWilderness(map: MapTileData[][], noise2D: NoiseFunction2D, random: RandomFunction, width: number, height: number): void {
   // Scale parameters for noise
   const baseScale = 0.05;
   const detailScale = 0.12;
@@ -240,9 +585,9 @@ function generateJarediteWilderness(map: MapTileData[][], noise2D: NoiseFunction
         terrainType = TerrainType.MOUNTAINS;
       } else if (elevation > 0.55) {
         terrainType = TerrainType.HILLS;
-      } else if (elevation > 0.35 && Math.random() > 0.7) {
+      } else if (elevation > 0.35 && random() > 0.7) {
         terrainType = TerrainType.FOREST;
-      } else if (elevation < 0.2 && Math.random() > 0.8) {
+      } else if (elevation < 0.2 && random() > 0.8) {
         terrainType = TerrainType.LAKE;
       } else {
         terrainType = TerrainType.PLAINS;
@@ -259,16 +604,16 @@ function generateJarediteWilderness(map: MapTileData[][], noise2D: NoiseFunction
       };
       
       // Add resources - more mineral-rich
-      if (Math.random() < 0.1) {
+      if (random() < 0.1) {
         if (terrainType === TerrainType.MOUNTAINS) {
           map[y][x].resourceType = 'ore';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 6) + 2; // More abundant ore
+          map[y][x].resourceAmount = Math.floor(random() * 6) + 2; // More abundant ore
         } else if (terrainType === TerrainType.HILLS) {
           map[y][x].resourceType = 'stone';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 4) + 1;
-        } else if (terrainType === TerrainType.PLAINS && Math.random() > 0.5) {
+          map[y][x].resourceAmount = Math.floor(random() * 4) + 1;
+        } else if (terrainType === TerrainType.PLAINS && random() > 0.5) {
           map[y][x].resourceType = 'animals';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 3) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 3) + 1;
         }
       }
     }
@@ -278,7 +623,7 @@ function generateJarediteWilderness(map: MapTileData[][], noise2D: NoiseFunction
 /**
  * Generate Land Bountiful - fertile coastal region with forests and water
  */
-function generateLandBountiful(map: MapTileData[][], noise2D: NoiseFunction2D, width: number, height: number): void {
+function generateLandBountiful(map: MapTileData[][], noise2D: NoiseFunction2D, random: RandomFunction, width: number, height: number): void {
   // Scale parameters for noise
   const baseScale = 0.06;
   const detailScale = 0.15;
@@ -337,16 +682,16 @@ function generateLandBountiful(map: MapTileData[][], noise2D: NoiseFunction2D, w
       };
       
       // Add resources - abundant and varied
-      if (Math.random() < 0.15) {  // 15% chance for resources - very bountiful
+      if (random() < 0.15) {  // 15% chance for resources - very bountiful
         if (terrainType === TerrainType.COAST) {
           map[y][x].resourceType = 'fish';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 2;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 2;
         } else if (terrainType === TerrainType.FOREST) {
           map[y][x].resourceType = 'fruit';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 4) + 2;
+          map[y][x].resourceAmount = Math.floor(random() * 4) + 2;
         } else if (terrainType === TerrainType.PLAINS) {
           map[y][x].resourceType = 'grain';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 2;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 2;
         }
       }
     }
@@ -356,7 +701,7 @@ function generateLandBountiful(map: MapTileData[][], noise2D: NoiseFunction2D, w
 /**
  * Generate Land Desolation - harsh landscape with mountains, deserts
  */
-function generateLandDesolation(map: MapTileData[][], noise2D: NoiseFunction2D, width: number, height: number): void {
+function generateLandDesolation(map: MapTileData[][], noise2D: NoiseFunction2D, random: RandomFunction, width: number, height: number): void {
   // Scale parameters for noise
   const baseScale = 0.07;
   const detailScale = 0.2;
@@ -378,13 +723,13 @@ function generateLandDesolation(map: MapTileData[][], noise2D: NoiseFunction2D,
         terrainType = TerrainType.MOUNTAINS;
       } else if (elevation > 0.6) {
         terrainType = TerrainType.HILLS;
-      } else if (elevation < 0.3 && Math.random() > 0.85) {
+      } else if (elevation < 0.3 && random() > 0.85) {
         // Sparse water
         terrainType = TerrainType.LAKE;
-      } else if (Math.random() > 0.7) {
+      } else if (random() > 0.7) {
         // Abundant desert
         terrainType = TerrainType.DESERT;
-      } else if (Math.random() > 0.9 && elevation > 0.4) {
+      } else if (random() > 0.9 && elevation > 0.4) {
         // Very sparse forests
         terrainType = TerrainType.FOREST;
       } else {
@@ -403,13 +748,13 @@ function generateLandDesolation(map: MapTileData[][], noise2D: NoiseFunction2D,
       };
       
       // Add resources - sparse
-      if (Math.random() < 0.05) {  // Only 5% chance for resources
+      if (random() < 0.05) {  // Only 5% chance for resources
         if (terrainType === TerrainType.MOUNTAINS) {
           map[y][x].resourceType = 'ore';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 3) + 1;
-        } else if (terrainType === TerrainType.DESERT && Math.random() > 0.7) {
+          map[y][x].resourceAmount = Math.floor(random() * 3) + 1;
+        } else if (terrainType === TerrainType.DESERT && random() > 0.7) {
           map[y][x].resourceType = 'stone';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 2) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 2) + 1;
         }
       }
     }
@@ -419,7 +764,7 @@ function generateLandDesolation(map: MapTileData[][], noise2D: NoiseFunction2D,
 /**
  * Generate random varied terrain
  */
-function generateRandomTerrain(map: MapTileData[][], noise2D: NoiseFunction2D, width: number, height: number): void {
+function generateRandomTerrain(map: MapTileData[][], noise2D: NoiseFunction2D, random: RandomFunction, width: number, height: number): void {
   // Scale parameters for noise
   const baseScale = 0.06;
   const detailScale = 0.2;
@@ -472,19 +817,19 @@ function generateRandomTerrain(map: MapTileData[][], noise2D: NoiseFunction2D, w
       };
       
       // Add resources
-      if (Math.random() < 0.1) {
+      if (random() < 0.1) {
         if (terrainType === TerrainType.MOUNTAINS) {
           map[y][x].resourceType = 'ore';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 1;
         } else if (terrainType === TerrainType.FOREST) {
           map[y][x].resourceType = 'wood';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 1;
         } else if (terrainType === TerrainType.PLAINS) {
           map[y][x].resourceType = 'grain';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 5) + 1;
-        } else if (terrainType === TerrainType.DESERT && Math.random() > 0.7) {
+          map[y][x].resourceAmount = Math.floor(random() * 5) + 1;
+        } else if (terrainType === TerrainType.DESERT && random() > 0.7) {
           map[y][x].resourceType = 'stone';
-          map[y][x].resourceAmount = Math.floor(Math.random() * 3) + 1;
+          map[y][x].resourceAmount = Math.floor(random() * 3) + 1;
         }
       }
     }
@@ -507,18 +852,22 @@ export function isInBounds(x: number, y: number, width: number, height: number):
 
 /**
  * Get a specific tile from the map
+ * @param wrapX Whether the east and west edges of the map join
  */
-export function getTile(map: MapTileData[][], x: number, y: number): MapTileData | null {
-  if (isInBounds(x, y, map[0].length, map.length)) {
-    return map[y][x];
+export function getTile(map: MapTileData[][], x: number, y: number, wrapX: boolean = false): MapTileData | null {
+  const width = map[0].length;
+  const wrappedX = wrapX ? ((x % width) + width) % width : x;
+  if (isInBounds(wrappedX, y, width, map.length)) {
+    return map[y][wrappedX];
   }
   return null;
 }
 
 /**
  * Get all neighbor tiles for a given position
+ * @param wrapX Whether the east and west edges of the map join
  */
-export function getNeighbors(map: MapTileData[][], x: number, y: number): MapTileData[] {
+export function getNeighbors(map: MapTileData[][], x: number, y: number, wrapX: boolean = false): MapTileData[] {
   const directions = [
     { dx: 0, dy: -1 },  // North
     { dx: 1, dy: -1 },  // Northeast
@@ -531,6 +880,6 @@ export function getNeighbors(map: MapTileData[][], x: number, y: number): MapTil
   ];
   
   return directions
-    .map(dir => getTile(map, x + dir.dx, y + dir.dy))
+    .map(dir => getTile(map, x + dir.dx, y + dir.dy, wrapX))
     .filter((tile): tile is MapTileData => tile !== null);
 }
\ No newline at end of file
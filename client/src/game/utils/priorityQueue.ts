@@ -0,0 +1,109 @@
+/**
+ * Binary min-heap priority queue used by pathfinding
+ *
+ * Items with equal priority come out in the order they were pushed, so
+ * searches that use the queue stay deterministic.
+ */
+
+export class PriorityQueue<T> {
+  // The heap is kept as parallel arrays rather than an entry object per item,
+  // so searches pushing thousands of items do not churn the garbage collector
+  private items: T[] = [];
+  private priorities: number[] = [];
+  private orders: number[] = []; // Push order, to break ties between equal priorities
+  private pushed: number = 0;
+
+  /**
+   * Number of items waiting in the queue
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Check if the queue has no items left
+   */
+  isEmpty(): boolean {
+    return this.items.length === 0;
+  }
+
+  /**
+   * Add an item with a priority (lower comes out first)
+   */
+  push(item: T, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    this.orders.push(this.pushed++);
+    this.siftUp(this.items.length - 1);
+  }
+
+  /**
+   * Remove and return the item with the lowest priority, or undefined if empty
+   */
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    const lastOrder = this.orders.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      this.orders[0] = lastOrder;
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  /**
+   * Check if the entry at one index should come out before the one at another
+   */
+  private isBefore(a: number, b: number): boolean {
+    const { priorities, orders } = this;
+    return priorities[a] < priorities[b] || (priorities[a] === priorities[b] && orders[a] < orders[b]);
+  }
+
+  /**
+   * Swap the entries at two indexes
+   */
+  private swap(a: number, b: number): void {
+    const { items, priorities, orders } = this;
+    [items[a], items[b]] = [items[b], items[a]];
+    [priorities[a], priorities[b]] = [priorities[b], priorities[a]];
+    [orders[a], orders[b]] = [orders[b], orders[a]];
+  }
+
+  /**
+   * Move an entry up until its parent comes before it
+   */
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      if (!this.isBefore(index, parentIndex)) break;
+
+      this.swap(index, parentIndex);
+      index = parentIndex;
+    }
+  }
+
+  /**
+   * Move an entry down until it comes before both its children
+   */
+  private siftDown(index: number): void {
+    const length = this.items.length;
+
+    while (true) {
+      const left = index * 2 + 1;
+      if (left >= length) break;
+
+      const right = left + 1;
+      const child = right < length && this.isBefore(right, left) ? right : left;
+      if (!this.isBefore(child, index)) break;
+
+      this.swap(index, child);
+      index = child;
+    }
+  }
+}
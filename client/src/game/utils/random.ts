@@ -0,0 +1,96 @@
+/**
+ * Deterministic, seedable random numbers
+ *
+ * Every subsystem draws from its own named stream derived from the game seed,
+ * so adding a roll in combat does not shift the numbers the map generator or
+ * the AI see. Stream state is a plain number, which keeps it serializable.
+ */
+
+/**
+ * Named random streams used by the game
+ */
+export type RandomStreamName = 'map' | 'setup' | 'combat' | 'cities' | 'ai';
+
+/**
+ * Function returning a float in [0, 1), like Math.random
+ */
+export type RandomFunction = () => number;
+
+/**
+ * Hash a seed together with a stream name into a 32-bit stream seed
+ */
+export function hashSeed(seed: number, name: string): number {
+  // FNV-1a over the seed digits and the stream name
+  let hash = 0x811c9dc5;
+  const input = `${Math.floor(seed)}:${name}`;
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Advance a mulberry32 state, returning the new state and a float in [0, 1)
+ */
+export function nextRandom(state: number): { state: number, value: number } {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+
+  return { state: nextState, value };
+}
+
+/**
+ * Create a standalone random function from a seed
+ */
+export function createRandom(seed: number): RandomFunction {
+  let state = seed >>> 0;
+
+  return () => {
+    const result = nextRandom(state);
+    state = result.state;
+    return result.value;
+  };
+}
+
+/**
+ * Create the initial state of every stream for a game seed
+ */
+export function createRandomState(seed: number): Record<RandomStreamName, number> {
+  return {
+    map: hashSeed(seed, 'map'),
+    setup: hashSeed(seed, 'setup'),
+    combat: hashSeed(seed, 'combat'),
+    cities: hashSeed(seed, 'cities'),
+    ai: hashSeed(seed, 'ai')
+  };
+}
+
+/**
+ * Draw from a stream whose state lives in a plain record, updating it in place
+ */
+export function drawRandom(states: Record<RandomStreamName, number>, stream: RandomStreamName): number {
+  const result = nextRandom(states[stream]);
+  states[stream] = result.state;
+  return result.value;
+}
+
+/**
+ * Get a random integer in [0, maxExclusive)
+ */
+export function randomInt(random: RandomFunction, maxExclusive: number): number {
+  return Math.floor(random() * maxExclusive);
+}
+
+/**
+ * Pick a random element of a non-empty array
+ */
+export function randomPick<T>(random: RandomFunction, items: T[]): T {
+  return items[randomInt(random, items.length)];
+}
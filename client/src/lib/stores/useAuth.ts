@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import type { PublicUser } from '@shared/schema';
+
+// Signed-in account state
+interface AuthState {
+  user: PublicUser | null;
+  // Whether the session has been checked with the server yet
+  checked: boolean;
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchUser: () => Promise<void>;
+  register: (username: string, password: string) => Promise<boolean>;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  clearError: () => void;
+}
+
+/**
+ * Call an account endpoint, throwing the server's message when it fails
+ */
+async function authRequest<T>(method: string, url: string, data?: unknown): Promise<T | null> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { 'Content-Type': 'application/json' } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: 'include'
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message ?? res.statusText);
+  }
+
+  return res.status === 204 ? null : res.json();
+}
+
+export const useAuth = create<AuthState>((set) => {
+  // Sign in or up, keeping the error to show in the form
+  const authenticate = async (url: string, username: string, password: string) => {
+    set({ loading: true, error: null });
+    try {
+      const user = await authRequest<PublicUser>('POST', url, { username, password });
+      set({ user, checked: true, loading: false });
+      return true;
+    } catch (error) {
+      set({ loading: false, error: (error as Error).message });
+      return false;
+    }
+  };
+
+  return {
+    user: null,
+    checked: false,
+    loading: false,
+    error: null,
+
+    fetchUser: async () => {
+      set({ loading: true });
+      try {
+        const user = await authRequest<PublicUser>('GET', '/api/user');
+        set({ user, checked: true, loading: false });
+      } catch {
+        // Not signed in
+        set({ user: null, checked: true, loading: false });
+      }
+    },
+
+    register: (username, password) => authenticate('/api/register', username, password),
+
+    login: (username, password) => authenticate('/api/login', username, password),
+
+    logout: async () => {
+      try {
+        await authRequest('POST', '/api/logout');
+      } catch (error) {
+        console.warn('Failed to sign out', error);
+      }
+      set({ user: null, error: null });
+    },
+
+    clearError: () => set({ error: null })
+  };
+});
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { FactionType } from '@/game/config/factions';
 import { generateId } from '@/lib/utils';
+import { DEFAULT_MAP_SIZE, type MapShape, type MapType } from '@/game/utils/mapGenerator';
 
 // Game phases
 export enum GamePhase {
@@ -39,7 +40,9 @@ export interface MapSettings {
   width: number;
   height: number;
   seed?: number;
-  terrainType: 'nephiLands' | 'lamaniteLands' | 'jarediteWilderness' | 'landBountiful' | 'landDesolation' | 'random';
+  terrainType: MapType;
+  shape?: MapShape;
+  wrapX?: boolean; // The east and west edges of the map join
 }
 
 // Game settings
@@ -57,6 +60,12 @@ export interface SelectedEntity {
   data: any; // Will contain entity-specific data
 }
 
+// UI state kept for each player, so hot-seat players don't see each other's
+export interface PlayerUIState {
+  selectedEntity: SelectedEntity | null;
+  activePanel: string | null;
+}
+
 // Game state
 export interface GameState {
   // Game status
@@ -75,6 +84,11 @@ export interface GameState {
   // UI state
   selectedEntity: SelectedEntity | null;
   hoveredTileId: string | null;
+  activePanel: string | null;
+  
+  // Hot-seat: UI state of players who are not at the device, and who is next
+  playerUIStates: Record<string, PlayerUIState>;
+  pendingHandoffPlayerId: string | null;
   
   // Actions
   initializeGame: (players: Partial<Player>[], settings: Partial<GameSettings>) => void;
@@ -83,6 +97,9 @@ export interface GameState {
   addResources: (playerId: string, resources: Partial<Resources>) => void;
   selectEntity: (entity: SelectedEntity | null) => void;
   setHoveredTile: (tileId: string | null) => void;
+  setActivePanel: (panel: string | null) => void;
+  beginHandoff: (playerId: string) => void;
+  completeHandoff: () => void;
   setCurrentPlayerId: (playerId: string) => void;
   addTechnology: (playerId: string, technology: string) => void;
   eliminatePlayer: (playerId: string) => void;
@@ -101,8 +118,8 @@ export const useGameState = create<GameState>((set, get) => ({
   
   settings: {
     mapSettings: {
-      width: 20,
-      height: 20,
+      width: DEFAULT_MAP_SIZE.width,
+      height: DEFAULT_MAP_SIZE.height,
       terrainType: 'nephiLands'
     },
     difficulty: 'normal',
@@ -112,6 +129,10 @@ export const useGameState = create<GameState>((set, get) => ({
   
   selectedEntity: null,
   hoveredTileId: null,
+  activePanel: null,
+  
+  playerUIStates: {},
+  pendingHandoffPlayerId: null,
   
   // Actions
   initializeGame: (players, settingsOverride) => {
@@ -235,6 +256,43 @@ export const useGameState = create<GameState>((set, get) => ({
     set({ hoveredTileId: tileId });
   },
   
+  setActivePanel: (panel) => {
+    set({ activePanel: panel });
+  },
+  
+  beginHandoff: (playerId) => {
+    const { localPlayerId, selectedEntity, activePanel, playerUIStates } = get();
+    
+    // Put away the UI of the player leaving the device
+    const savedStates = localPlayerId
+      ? { ...playerUIStates, [localPlayerId]: { selectedEntity, activePanel } }
+      : playerUIStates;
+    
+    set({
+      playerUIStates: savedStates,
+      pendingHandoffPlayerId: playerId,
+      selectedEntity: null,
+      activePanel: null,
+      hoveredTileId: null
+    });
+  },
+  
+  completeHandoff: () => {
+    const { pendingHandoffPlayerId, playerUIStates } = get();
+    if (!pendingHandoffPlayerId) return;
+    
+    // Bring back the UI the arriving player left behind
+    const restored = playerUIStates[pendingHandoffPlayerId];
+    
+    set({
+      localPlayerId: pendingHandoffPlayerId,
+      currentPlayerId: pendingHandoffPlayerId,
+      pendingHandoffPlayerId: null,
+      selectedEntity: restored?.selectedEntity ?? null,
+      activePanel: restored?.activePanel ?? null
+    });
+  },
+  
   setCurrentPlayerId: (playerId) => {
     if (get().players[playerId]) {
       set({ currentPlayerId: playerId });
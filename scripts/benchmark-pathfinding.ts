@@ -0,0 +1,131 @@
+/**
+ * Benchmark of unit pathfinding and movement ranges on the largest map size.
+ *
+ * Generates a giant (128x80) map, starts a game on it, spreads armies of both
+ * players over it (so other units block tiles and zones of control slow
+ * moves down) and times path queries between random land tiles, then movement
+ * range floods for every unit. Exits with an error if the slowest path
+ * queries (the 95th percentile) are over budget.
+ *
+ *   npm run bench:pathfinding
+ */
+import { performance } from 'perf_hooks';
+import { FactionType } from '../client/src/game/config/factions';
+import { UnitType } from '../client/src/game/config/units';
+import { GameEngine } from '../client/src/game/engine/GameEngine';
+import { createGameState, getCityAt, getUnitAt } from '../client/src/game/engine/state';
+import { RuleContext } from '../client/src/game/engine/types';
+import { isTilePassable } from '../client/src/game/engine/rules/tiles';
+import { createUnit } from '../client/src/game/engine/rules/units';
+import { flattenMap, generateMap, MAP_SIZES } from '../client/src/game/utils/mapGenerator';
+
+// Time 95% of path queries must stay under, in milliseconds
+const PATH_P95_BUDGET_MS = 5;
+
+// Number of path queries to time, after some untimed ones to warm up
+const PATH_QUERIES = 500;
+const WARMUP_QUERIES = 50;
+
+// Units added for each player, and the types they cycle through
+const UNITS_PER_PLAYER = 40;
+const ARMY = [UnitType.WARRIOR, UnitType.ARCHER, UnitType.SWORDSMAN, UnitType.CHARIOT, UnitType.HUNTER, UnitType.WORKER];
+
+const SEED = 20240611;
+
+/**
+ * Summarize a list of timings
+ * @returns The 95th percentile
+ */
+function summarize(label: string, timings: number[]): number {
+  const sorted = [...timings].sort((a, b) => a - b);
+  const average = sorted.reduce((total, time) => total + time, 0) / sorted.length;
+  const p95 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+  const max = sorted[sorted.length - 1];
+
+  console.log(`${label}: ${sorted.length} queries, avg ${average.toFixed(3)} ms, p95 ${p95.toFixed(3)} ms, max ${max.toFixed(3)} ms`);
+  return p95;
+}
+
+const size = MAP_SIZES.find(s => s.id === 'giant')!;
+const tiles = flattenMap(generateMap({ width: size.width, height: size.height, seed: SEED, terrainType: 'random', shape: 'pangaea' }));
+
+const engine = new GameEngine(createGameState({
+  mapWidth: size.width,
+  mapHeight: size.height,
+  seed: SEED,
+  players: [
+    { id: 'player_1', faction: FactionType.NEPHITES, isHuman: false },
+    { id: 'player_2', faction: FactionType.LAMANITES, isHuman: false }
+  ],
+  tiles
+}));
+engine.startGame();
+
+const state = engine.getState();
+const land = state.tiles.filter(tile => isTilePassable(tile));
+
+// Simple seeded generator so every run asks the same questions
+let next = SEED;
+const random = () => {
+  next = (next * 1103515245 + 12345) % 2147483648;
+  return next / 2147483648;
+};
+
+// Spread both players' armies over free land tiles
+const ctx: RuleContext = { state, random: () => random(), emit: () => undefined };
+state.playerOrder.forEach(playerId => {
+  for (let placed = 0; placed < UNITS_PER_PLAYER;) {
+    const tile = land[Math.floor(random() * land.length)];
+    if (getUnitAt(state, tile.x, tile.y) || getCityAt(state, tile.x, tile.y)) continue;
+
+    createUnit(ctx, ARMY[placed % ARMY.length], playerId, tile.x, tile.y);
+    placed++;
+  }
+});
+
+const units = Object.values(state.units);
+console.log(`Map ${size.width}x${size.height}, ${land.length} passable tiles, ${units.length} units`);
+
+/**
+ * Ask for the path of a unit to a random land tile
+ */
+function queryPath(index: number): boolean {
+  const unit = units[index % units.length];
+  const target = land[Math.floor(random() * land.length)];
+  return engine.findUnitPath(unit.id, target.x, target.y).length > 0;
+}
+
+for (let i = 0; i < WARMUP_QUERIES; i++) {
+  queryPath(i);
+}
+
+const pathTimings: number[] = [];
+let found = 0;
+for (let i = 0; i < PATH_QUERIES; i++) {
+  const start = performance.now();
+  const reachable = queryPath(i);
+  pathTimings.push(performance.now() - start);
+
+  if (reachable) found++;
+}
+const pathP95 = summarize('Path queries', pathTimings);
+console.log(`  ${found} of ${PATH_QUERIES} targets reachable`);
+
+const rangeTimings: number[] = units.map(unit => {
+  const start = performance.now();
+  engine.getReachableTiles(unit.id);
+  return performance.now() - start;
+});
+summarize('Movement ranges', rangeTimings);
+
+const cachedTimings: number[] = units.map(unit => {
+  const start = performance.now();
+  engine.getReachableTiles(unit.id);
+  return performance.now() - start;
+});
+summarize('Cached movement ranges', cachedTimings);
+
+if (pathP95 > PATH_P95_BUDGET_MS) {
+  console.error(`95% of path queries take up to ${pathP95.toFixed(3)} ms, over the ${PATH_P95_BUDGET_MS} ms budget`);
+  process.exit(1);
+}
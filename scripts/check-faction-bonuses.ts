@@ -0,0 +1,157 @@
+/**
+ * Check that every faction bonus changes the game.
+ *
+ * For each modifier a faction declares, builds a small world and measures the
+ * value the rule that consumes the modifier's stat works out, once with the
+ * faction as configured and once with that stat's modifiers taken away. The
+ * measurement has to move in the direction of the modifier (a cost cut must
+ * lower the cost, a strength bonus must raise the strength). Exits with an
+ * error if any bonus makes no difference.
+ *
+ *   npm run check:factions
+ */
+import { BuildingType } from '../client/src/game/config/buildings';
+import { FactionType, ModifierStat, getFactionConfig, getFactionModifiers } from '../client/src/game/config/factions';
+import { TECHNOLOGIES } from '../client/src/game/config/technologies';
+import { TerrainType } from '../client/src/game/config/terrain';
+import { UnitType } from '../client/src/game/config/units';
+import { createGameState, getTile } from '../client/src/game/engine/state';
+import { CityState, GameState, RuleContext, TileState } from '../client/src/game/engine/types';
+import { calculateCityYields, canFoundCity, createCity } from '../client/src/game/engine/rules/cities';
+import { getAttackStrength } from '../client/src/game/engine/rules/combat';
+import { getCityStrength } from '../client/src/game/engine/rules/conquest';
+import { getMoveCost } from '../client/src/game/engine/rules/movement';
+import { getTechCost } from '../client/src/game/engine/rules/research';
+import { getTradeRouteYields } from '../client/src/game/engine/rules/trade';
+import { createUnit, getUnitProductionCost } from '../client/src/game/engine/rules/units';
+
+const PLAYER = 'player_1';
+const RIVAL = 'player_2';
+const MAP_SIZE = 12;
+const SEED = 20240611;
+
+/**
+ * A small all-plains world with a capital for the player and a city for a rival
+ */
+interface World {
+  ctx: RuleContext;
+  state: GameState;
+  capital: CityState;
+  rivalCity: CityState;
+}
+
+/**
+ * Build a world where the player plays the given faction
+ */
+function createWorld(faction: FactionType): World {
+  const tiles: TileState[] = [];
+  for (let y = 0; y < MAP_SIZE; y++) {
+    for (let x = 0; x < MAP_SIZE; x++) {
+      tiles.push({ x, y, terrainType: TerrainType.PLAINS, elevation: 3 });
+    }
+  }
+
+  const rivalFaction = Object.values(FactionType).find(other => other !== faction)!;
+  const state = createGameState({
+    mapWidth: MAP_SIZE,
+    mapHeight: MAP_SIZE,
+    seed: SEED,
+    players: [
+      { id: PLAYER, faction, isHuman: false },
+      { id: RIVAL, faction: rivalFaction, isHuman: false }
+    ],
+    tiles
+  });
+  const ctx: RuleContext = { state, random: () => 0.5, emit: () => undefined };
+
+  const capital = createCity(ctx, PLAYER, 2, 2, 'Capital', 1);
+  const rivalCity = createCity(ctx, RIVAL, 9, 9, 'Rival', 1);
+  return { ctx, state, capital, rivalCity };
+}
+
+/**
+ * Get a tile of the world, changing its terrain
+ */
+function setTerrain(world: World, x: number, y: number, terrainType: TerrainType): TileState {
+  const tile = getTile(world.state, x, y)!;
+  tile.terrainType = terrainType;
+  return tile;
+}
+
+/**
+ * How to measure each stat through the rule that consumes it
+ */
+const MEASUREMENTS: Record<ModifierStat, (world: World) => number> = {
+  [ModifierStat.TECH_FAITH_COST]: ({ state }) => getTechCost(state, PLAYER, TECHNOLOGIES.writing).faith,
+  [ModifierStat.STARTING_TECH]: ({ state }) => state.players[PLAYER].technologies.filter(id => TECHNOLOGIES[id]).length,
+  [ModifierStat.FAITH_YIELD]: ({ ctx, capital }) => calculateCityYields(ctx, capital).faith,
+  [ModifierStat.PRODUCTION_YIELD]: world => {
+    const tile = getTile(world.state, 3, 2)!;
+    tile.resourceType = 'ore';
+    tile.resourceAmount = 3;
+    tile.improvement = 'mine';
+    world.capital.workedTileKeys = ['3,2'];
+    return calculateCityYields(world.ctx, world.capital).production;
+  },
+  [ModifierStat.BUILDING_PRODUCTION]: ({ ctx, capital }) => {
+    capital.buildings = [BuildingType.MINE];
+    return calculateCityYields(ctx, capital).production;
+  },
+  [ModifierStat.CITY_DEFENSE]: ({ state, capital }) => getCityStrength(state, capital).strength,
+  [ModifierStat.ATTACK_STRENGTH]: world => {
+    const unit = createUnit(world.ctx, UnitType.WARRIOR, PLAYER, 5, 5)!;
+    return getAttackStrength(world.state, unit);
+  },
+  [ModifierStat.MOVEMENT_COST]: world => {
+    const unit = createUnit(world.ctx, UnitType.WARRIOR, PLAYER, 5, 5)!;
+    return getMoveCost(world.state, unit, setTerrain(world, 5, 6, TerrainType.FOREST));
+  },
+  [ModifierStat.STARTING_POPULATION]: ({ ctx }) => createCity(ctx, PLAYER, 6, 2).population,
+  [ModifierStat.PRODUCTION_COST]: ({ state }) => getUnitProductionCost(state, PLAYER, UnitType.BARGE_CAPTAIN),
+  [ModifierStat.FOREIGN_TRADE_ROUTE_FAITH]: ({ state, capital, rivalCity }) => {
+    capital.tradeRoutes = [rivalCity.id];
+    return getTradeRouteYields(state, capital).faith;
+  },
+  [ModifierStat.FOUND_CITY]: world => {
+    setTerrain(world, 6, 6, TerrainType.COAST);
+    return canFoundCity(world.state, PLAYER, 6, 6) ? 1 : 0;
+  }
+};
+
+/**
+ * Measure a stat for a faction with that stat's modifiers taken away
+ */
+function measureWithout(faction: FactionType, stat: ModifierStat): number {
+  const config = getFactionConfig(faction);
+  const bonuses = config.bonuses;
+  config.bonuses = bonuses.map(bonus => ({ ...bonus, modifiers: bonus.modifiers.filter(modifier => modifier.stat !== stat) }));
+
+  try {
+    return MEASUREMENTS[stat](createWorld(faction));
+  } finally {
+    config.bonuses = bonuses;
+  }
+}
+
+let failures = 0;
+
+Object.values(FactionType).forEach(faction => {
+  const config = getFactionConfig(faction);
+  const stats = new Set(config.bonuses.flatMap(bonus => bonus.modifiers.map(modifier => modifier.stat)));
+
+  stats.forEach(stat => {
+    const value = getFactionModifiers(faction, stat).reduce((total, modifier) => total + modifier.value, 0);
+    const withBonus = MEASUREMENTS[stat](createWorld(faction));
+    const withoutBonus = measureWithout(faction, stat);
+    const works = Math.sign(withBonus - withoutBonus) === Math.sign(value);
+
+    const bonus = config.bonuses.find(entry => entry.modifiers.some(modifier => modifier.stat === stat))!;
+    console.log(`${works ? 'ok  ' : 'FAIL'} ${config.name} / ${bonus.description} (${stat}): ${withoutBonus} -> ${withBonus}`);
+    if (!works) failures++;
+  });
+});
+
+if (failures > 0) {
+  console.error(`${failures} faction bonuses make no difference`);
+  process.exit(1);
+}
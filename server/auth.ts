@@ -0,0 +1,212 @@
+import type { IncomingMessage } from "http";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { fromZodError } from "zod-validation-error";
+import {
+  registerUserSchema,
+  loginUserSchema,
+  type User as SelectUser,
+  type PublicUser,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// How long a login lasts without being used (ms)
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a password with a random salt, stored as "hash.salt"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+/**
+ * Check a password against a stored hash
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Users are sent to clients without their password hash
+function toPublicUser({ password: _password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+
+  // Fine for local play, but logins won't survive a restart
+  log("SESSION_SECRET is not set, using a random one", "auth");
+  return randomBytes(32).toString("hex");
+}
+
+let sessionMiddleware: ReturnType<typeof session> | null = null;
+
+/**
+ * Add cookie sessions, local username/password login and the account routes
+ */
+export function setupAuth(app: Express) {
+  const production = app.get("env") === "production";
+  if (production) {
+    // Secure cookies are set behind the hosting proxy's TLS
+    app.set("trust proxy", 1);
+  }
+
+  sessionMiddleware = session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: production,
+      maxAge: SESSION_MAX_AGE,
+    },
+  });
+
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account simply ends the session
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { username, password } = parsed.data;
+    if (await storage.getUserByUsername(username)) {
+      return res.status(409).json({ message: "Username is already taken" });
+    }
+
+    const user = await storage.createUser({
+      username,
+      password: await hashPassword(password),
+    });
+
+    req.login(user, (error) => {
+      if (error) return next(error);
+      res.status(201).json(toPublicUser(user));
+    });
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Incorrect username or password" });
+      }
+
+      // Start a fresh session so a session id set before login can't be reused
+      req.session.regenerate((regenerateError) => {
+        if (regenerateError) return next(regenerateError);
+
+        req.login(user, (loginError) => {
+          if (loginError) return next(loginError);
+          res.json(toPublicUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+
+    res.json(toPublicUser(req.user));
+  });
+}
+
+/**
+ * Resolve the signed-in user of a WebSocket upgrade from its session cookie
+ */
+export async function getRequestUserId(req: IncomingMessage): Promise<number | null> {
+  const middleware = sessionMiddleware;
+  if (!middleware) return null;
+
+  // Upgrades skip Express, so run the session middleware on the raw request
+  const request = req as Request;
+  await new Promise<void>((resolve) => middleware(request, {} as Response, () => resolve()));
+
+  const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+  if (typeof userId !== "number") return null;
+
+  const user = await storage.getUser(userId);
+  return user ? user.id : null;
+}
+
+/**
+ * Resolve the signed-in user into res.locals.userId, answering 401 when there is none
+ */
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not signed in" });
+  }
+
+  res.locals.userId = req.user.id;
+  next();
+}
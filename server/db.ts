@@ -0,0 +1,22 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Open a connection pool to the Postgres database at DATABASE_URL
+ */
+export function createPool(connectionString: string) {
+  return new Pool({ connectionString });
+}
+
+/**
+ * Create the Drizzle client for a connection pool
+ */
+export function createDb(pool: Pool) {
+  return drizzle({ client: pool, schema });
+}
+
+export type Database = ReturnType<typeof createDb>;
@@ -0,0 +1,443 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { OnlineGame } from "@shared/schema";
+import { GAME_SOCKET_PATH, clientMessageSchema, type ClientMessage, type ServerMessage } from "@shared/multiplayer";
+import { storage } from "./storage";
+import { getRequestUserId } from "./auth";
+import { log } from "./vite";
+
+// The rules engine is plain TypeScript without browser dependencies, so the
+// server validates moves with exactly the code the clients run
+import { GameEngine } from "../client/src/game/engine/GameEngine";
+import type { ActionResult, GameAction } from "../client/src/game/engine/actions";
+import { SAVE_FORMAT_VERSION, createSave, migrateSave, type SaveGame } from "../client/src/game/engine/save";
+import { createGameState } from "../client/src/game/engine/state";
+import type { GameState, TileState } from "../client/src/game/engine/types";
+import { createPlayerView, diffPlayerViews, type PlayerViewChanges } from "../client/src/game/engine/view";
+import { FactionType } from "../client/src/game/config/factions";
+import { flattenMap, generateMap } from "../client/src/game/utils/mapGenerator";
+
+// A started game held in memory while someone is watching it
+interface GameSession {
+  engine: GameEngine;
+  seats: OnlineGame["seats"];
+  // What each seat has been sent of the game, by player ID
+  views: Map<string, GameState>;
+  // Writes to storage are chained so they land in the order actions were applied
+  persisting: Promise<unknown>;
+}
+
+const sessions = new Map<number, GameSession>();
+
+// Open sockets per user (for turn notifications), and per game with the
+// player each socket sees the game as (for updates)
+const userSockets = new Map<number, Set<WebSocket>>();
+const gameSubscribers = new Map<number, Map<WebSocket, string>>();
+
+/**
+ * Send a message to one socket if it is still open
+ */
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Send a message to everyone watching a game
+ */
+function broadcast(gameId: number, message: ServerMessage) {
+  gameSubscribers.get(gameId)?.forEach((_playerId, socket) => send(socket, message));
+}
+
+/**
+ * Send a message to every open socket of a user
+ */
+function sendToUser(userId: number, message: ServerMessage) {
+  userSockets.get(userId)?.forEach((socket) => send(socket, message));
+}
+
+/**
+ * Check if a faction id names a playable faction
+ */
+export function isFaction(faction: string): faction is FactionType {
+  return (Object.values(FactionType) as string[]).includes(faction);
+}
+
+/**
+ * Get the first faction not already taken in a lobby
+ */
+export function getFreeFaction(takenFactions: string[]): FactionType | undefined {
+  return Object.values(FactionType).find((faction) => !takenFactions.includes(faction));
+}
+
+/**
+ * Create the authoritative game for a lobby that is starting
+ */
+export function createOnlineGameSave(game: OnlineGame) {
+  const { settings, seats } = game;
+  const seed = settings.seed ?? Date.now();
+
+  const tiles: TileState[] = flattenMap(generateMap({
+    width: settings.mapWidth,
+    height: settings.mapHeight,
+    seed,
+    terrainType: settings.terrainType,
+  })).map(({ visible: _visible, explored: _explored, ...tile }) => tile);
+
+  const engine = new GameEngine(createGameState({
+    mapWidth: settings.mapWidth,
+    mapHeight: settings.mapHeight,
+    seed,
+    players: seats.map((seat) => ({
+      id: seat.playerId,
+      faction: seat.faction as FactionType,
+      isHuman: true,
+    })),
+    tiles,
+  }));
+  engine.startGame();
+
+  return createSave(engine);
+}
+
+/**
+ * Get the in-memory session of a started game, loading it from storage
+ */
+async function getSession(gameId: number): Promise<GameSession | null> {
+  const existing = sessions.get(gameId);
+  if (existing) return existing;
+
+  const game = await storage.getOnlineGame(gameId);
+  if (!game || game.status === "lobby" || !game.save) return null;
+
+  const save = migrateSave(game.save);
+  if (!save) {
+    log(`online game ${gameId} has an unreadable save`, "multiplayer");
+    return null;
+  }
+
+  // Another request may have loaded it while we waited
+  const loaded = sessions.get(gameId);
+  if (loaded) return loaded;
+
+  const engine = new GameEngine(save.state, save.actionLog, save.initialState);
+  const session: GameSession = {
+    engine,
+    seats: game.seats,
+    views: new Map(game.seats.map((seat) => [seat.playerId, createPlayerView(engine.getState(), seat.playerId)])),
+    persisting: Promise.resolve(),
+  };
+  sessions.set(gameId, session);
+  return session;
+}
+
+/**
+ * Drop a session from memory once its writes have landed, if the game is over
+ * or nobody is watching it. It is loaded from storage again when next needed.
+ */
+function releaseSession(gameId: number) {
+  const session = sessions.get(gameId);
+  if (!session) return;
+
+  const { persisting } = session;
+  void persisting.then(() => {
+    if (sessions.get(gameId) !== session) return;
+
+    // Moves made while waiting are still being written
+    if (session.persisting !== persisting) {
+      releaseSession(gameId);
+      return;
+    }
+
+    if (session.engine.getWinner() !== null || !gameSubscribers.get(gameId)?.size) {
+      sessions.delete(gameId);
+    }
+  });
+}
+
+/**
+ * Stop sending a game's updates to a socket
+ */
+function removeSubscriber(gameId: number, socket: WebSocket) {
+  const subscribers = gameSubscribers.get(gameId);
+  if (!subscribers?.delete(socket) || subscribers.size > 0) return;
+
+  gameSubscribers.delete(gameId);
+  releaseSession(gameId);
+}
+
+/**
+ * Tell the player whose turn it is, wherever they are connected
+ */
+function notifyTurn(gameId: number, session: GameSession) {
+  const state = session.engine.getState();
+  const seat = session.seats.find((s) => s.playerId === state.currentPlayerId);
+  if (!seat) return;
+
+  sendToUser(seat.userId, {
+    type: "your_turn",
+    gameId,
+    playerId: seat.playerId,
+    turn: state.turn,
+  });
+}
+
+/**
+ * Wrap a seat's view of a game as a save its client can load
+ */
+function createSeatSave(view: GameState): SaveGame {
+  return {
+    version: SAVE_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    state: view,
+    actionLog: [],
+    initialState: null,
+  };
+}
+
+/**
+ * Send a subscriber its view of the game, unless it already has the latest
+ */
+async function syncSubscriber(socket: WebSocket, gameId: number, playerId: string, version?: number) {
+  const game = await storage.getOnlineGame(gameId);
+  if (!game) return;
+
+  if (game.status === "lobby") {
+    send(socket, { type: "lobby", gameId, status: "lobby", seats: game.seats });
+    return;
+  }
+
+  const session = await getSession(gameId);
+  const view = session?.views.get(playerId);
+  if (!session || !view) return;
+
+  const currentVersion = session.engine.getActionLog().length;
+  if (version === currentVersion) return;
+
+  send(socket, {
+    type: "game_state",
+    gameId,
+    version: currentVersion,
+    save: createSeatSave(view),
+    seats: session.seats,
+  });
+}
+
+/**
+ * Send every subscriber the changes a move made to its view of the game
+ */
+function broadcastViewChanges(gameId: number, session: GameSession, fromVersion: number) {
+  const state = session.engine.getState();
+  const version = session.engine.getActionLog().length;
+
+  const changesBySeat = new Map<string, PlayerViewChanges>();
+  session.views.forEach((before, playerId) => {
+    const after = createPlayerView(state, playerId);
+    changesBySeat.set(playerId, diffPlayerViews(before, after));
+    session.views.set(playerId, after);
+  });
+
+  gameSubscribers.get(gameId)?.forEach((playerId, socket) => {
+    const changes = changesBySeat.get(playerId);
+    if (changes) {
+      send(socket, { type: "update", gameId, fromVersion, version, changes });
+    }
+  });
+}
+
+/**
+ * Validate and apply a move submitted by a user
+ */
+async function submitAction(
+  socket: WebSocket,
+  userId: number,
+  gameId: number,
+  action: Extract<ClientMessage, { type: "action" }>["action"],
+) {
+  const session = await getSession(gameId);
+  if (!session) {
+    send(socket, { type: "action_rejected", gameId, error: "Game is not being played" });
+    return;
+  }
+
+  // Moves must not land on a session that was dropped while this was waiting
+  if (sessions.get(gameId) !== session) {
+    await submitAction(socket, userId, gameId, action);
+    return;
+  }
+
+  const seat = session.seats.find((s) => s.userId === userId);
+  if (!seat) {
+    send(socket, { type: "action_rejected", gameId, error: "You have no seat in this game" });
+    return;
+  }
+
+  // Players only ever act for their own seat; the rules check the rest
+  const { engine } = session;
+  const fromVersion = engine.getActionLog().length;
+  const previousPlayerId = engine.getState().currentPlayerId;
+  const gameAction: GameAction = { ...action, playerId: seat.playerId };
+
+  // A rules bug must not take the server down with it
+  let result: ActionResult;
+  try {
+    result = engine.dispatch(gameAction);
+  } catch (error) {
+    log(`online game ${gameId} failed to apply ${action.type}: ${error}`, "multiplayer");
+    send(socket, { type: "action_rejected", gameId, error: "Invalid action" });
+    return;
+  }
+
+  if (!result.success) {
+    send(socket, { type: "action_rejected", gameId, error: result.error ?? "Invalid action" });
+    return;
+  }
+
+  broadcastViewChanges(gameId, session, fromVersion);
+
+  if (engine.getState().currentPlayerId !== previousPlayerId) {
+    notifyTurn(gameId, session);
+  }
+
+  // The game ends as soon as an action produces a winner
+  const finished = engine.getWinner() !== null;
+  const save = createSave(engine);
+  session.persisting = session.persisting
+    .then(() => storage.updateOnlineGame(gameId, finished ? { save, status: "finished" } : { save }))
+    .then((game) => {
+      if (finished && game) notifyLobbyUpdated(game);
+    })
+    .catch((error) => log(`failed to store online game ${gameId}: ${error}`, "multiplayer"));
+
+  // Games that are over, or that nobody is watching, do not stay in memory
+  releaseSession(gameId);
+}
+
+/**
+ * Tell everyone in a lobby that its seats or status changed
+ */
+export function notifyLobbyUpdated(game: OnlineGame) {
+  broadcast(game.id, {
+    type: "lobby",
+    gameId: game.id,
+    status: game.status as "lobby" | "active" | "finished",
+    seats: game.seats,
+  });
+}
+
+/**
+ * Announce a game that has just started to its players
+ */
+export async function notifyGameStarted(game: OnlineGame) {
+  notifyLobbyUpdated(game);
+
+  const session = await getSession(game.id);
+  if (!session) return;
+
+  gameSubscribers.get(game.id)?.forEach((playerId, socket) => {
+    syncSubscriber(socket, game.id, playerId).catch((error) => {
+      log(`failed to send online game ${game.id}: ${error}`, "multiplayer");
+      send(socket, { type: "error", message: "Something went wrong, please try again" });
+    });
+  });
+  notifyTurn(game.id, session);
+  releaseSession(game.id);
+}
+
+/**
+ * Handle a new socket once its user is known
+ */
+function handleConnection(socket: WebSocket, userId: number) {
+  const sockets = userSockets.get(userId) ?? new Set<WebSocket>();
+  sockets.add(socket);
+  userSockets.set(userId, sockets);
+
+  const subscribed = new Set<number>();
+
+  socket.on("message", async (raw) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(raw.toString());
+    } catch {
+      send(socket, { type: "error", message: "Messages must be JSON" });
+      return;
+    }
+
+    const parsed = clientMessageSchema.safeParse(data);
+    if (!parsed.success) {
+      send(socket, { type: "error", message: "Unknown message" });
+      return;
+    }
+
+    const message = parsed.data;
+
+    // Storage and session errors go back to the sender instead of escaping the handler
+    try {
+        const game = await storage.getOnlineGame(message.gameId);
+      const seat = game?.seats.find((s) => s.userId === userId);
+      if (!seat) {
+        send(socket, { type: "error", message: "You have no seat in this game" });
+        return;
+      }
+
+      switch (message.type) {
+        case "subscribe": {
+          const subscribers = gameSubscribers.get(message.gameId) ?? new Map<WebSocket, string>();
+          subscribers.set(socket, seat.playerId);
+          gameSubscribers.set(message.gameId, subscribers);
+          subscribed.add(message.gameId);
+
+          await syncSubscriber(socket, message.gameId, seat.playerId, message.version);
+          break;
+        }
+
+        case "unsubscribe":
+          removeSubscriber(message.gameId, socket);
+          subscribed.delete(message.gameId);
+          break;
+
+        case "action":
+          await submitAction(socket, userId, message.gameId, message.action);
+          break;
+      }
+    } catch (error) {
+      log(`failed to handle ${message.type} for online game ${message.gameId}: ${error}`, "multiplayer");
+      send(socket, { type: "error", message: "Something went wrong, please try again" });
+    }
+  });
+
+  socket.on("close", () => {
+    userSockets.get(userId)?.delete(socket);
+    subscribed.forEach((gameId) => removeSubscriber(gameId, socket));
+  });
+}
+
+/**
+ * Accept game WebSocket connections on the HTTP server, leaving other
+ * upgrades (such as Vite's HMR socket) alone
+ */
+export function attachGameSocket(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req: IncomingMessage, socket, head) => {
+    // Errors close the socket instead of escaping the handler
+    try {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+      if (pathname !== GAME_SOCKET_PATH) return;
+
+      const userId = await getRequestUserId(req);
+      if (userId === null) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, userId));
+    } catch (error) {
+      log(`failed to open a game socket: ${error}`, "multiplayer");
+      socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+      socket.destroy();
+    }
+  });
+}
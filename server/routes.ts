@@ -1,15 +1,237 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
+import { randomInt } from "crypto";
+import {
+  insertSavedGameSchema,
+  updateSavedGameSchema,
+  createOnlineGameSchema,
+  joinOnlineGameSchema,
+  type OnlineGame,
+} from "@shared/schema";
 import { storage } from "./storage";
+import { requireUser, setupAuth } from "./auth";
+import {
+  attachGameSocket,
+  createOnlineGameSave,
+  getFreeFaction,
+  isFaction,
+  notifyGameStarted,
+  notifyLobbyUpdated,
+} from "./multiplayer";
+
+// Lobby codes players share to join a game (no look-alike characters)
+const LOBBY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const LOBBY_CODE_LENGTH = 6;
+
+/**
+ * Create a random lobby code
+ */
+function createLobbyCode(): string {
+  return Array.from({ length: LOBBY_CODE_LENGTH }, () => LOBBY_CODE_ALPHABET[randomInt(LOBBY_CODE_ALPHABET.length)]).join("");
+}
+
+/**
+ * Parse the numeric id route parameter, answering 400 when it is invalid
+ */
+function parseId(req: Request, res: Response): number | null {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    res.status(400).json({ message: "Invalid id" });
+    return null;
+  }
+  return id;
+}
+
+// Online games are shown to players without their game state, which goes over the socket
+function toOnlineGameResponse({ save: _save, ...game }: OnlineGame) {
+  return game;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  // Accounts and login sessions
+  setupAuth(app);
+
+  // Saved game slots of the requesting user
+  app.use("/api/games", requireUser);
+
+  app.get("/api/games", async (_req, res) => {
+    const games = await storage.listSavedGames(res.locals.userId);
+    res.json(games);
+  });
+
+  app.post("/api/games", async (req, res) => {
+    const parsed = insertSavedGameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const game = await storage.createSavedGame(res.locals.userId, parsed.data);
+    res.status(201).json(game);
+  });
+
+  app.get("/api/games/:id", async (req, res) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    const game = await storage.getSavedGame(res.locals.userId, id);
+    if (!game) {
+      return res.status(404).json({ message: "Saved game not found" });
+    }
+
+    res.json(game);
+  });
+
+  app.put("/api/games/:id", async (req, res) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    const parsed = updateSavedGameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const game = await storage.updateSavedGame(res.locals.userId, id, parsed.data);
+    if (!game) {
+      return res.status(404).json({ message: "Saved game not found" });
+    }
+
+    res.json(game);
+  });
+
+  app.delete("/api/games/:id", async (req, res) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    const deleted = await storage.deleteSavedGame(res.locals.userId, id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Saved game not found" });
+    }
+
+    res.status(204).end();
+  });
+
+  // Online games: lobbies, seats and starting; moves are played over the game socket
+  app.use("/api/online-games", requireUser);
+
+  app.get("/api/online-games", async (_req, res) => {
+    const games = await storage.listOnlineGames(res.locals.userId);
+    res.json(games);
+  });
+
+  app.post("/api/online-games", async (req, res) => {
+    const parsed = createOnlineGameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { settings, faction } = parsed.data;
+    if (!isFaction(faction)) {
+      return res.status(400).json({ message: `Unknown faction ${faction}` });
+    }
+
+    const game = await storage.createOnlineGame({
+      code: createLobbyCode(),
+      hostUserId: res.locals.userId,
+      settings,
+      seats: [{ playerId: "player_1", userId: res.locals.userId, username: req.user!.username, faction }],
+    });
+    res.status(201).json(toOnlineGameResponse(game));
+  });
+
+  app.post("/api/online-games/join", async (req, res) => {
+    const parsed = joinOnlineGameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const game = await storage.getOnlineGameByCode(parsed.data.code);
+    if (!game) {
+      return res.status(404).json({ message: "No game with that code" });
+    }
+
+    // Joining again (e.g. from another machine) just returns the game
+    if (game.seats.some((seat) => seat.userId === res.locals.userId)) {
+      return res.json(toOnlineGameResponse(game));
+    }
+
+    if (game.status !== "lobby") {
+      return res.status(409).json({ message: "This game has already started" });
+    }
+    if (game.seats.length >= game.settings.maxPlayers) {
+      return res.status(409).json({ message: "This game is full" });
+    }
+
+    // Take the requested faction, or the first one nobody has
+    const takenFactions = game.seats.map((seat) => seat.faction);
+    const faction = parsed.data.faction ?? getFreeFaction(takenFactions);
+    if (!faction || !isFaction(faction)) {
+      return res.status(400).json({ message: "Choose a faction" });
+    }
+    if (takenFactions.includes(faction)) {
+      return res.status(409).json({ message: "Another player already has that faction" });
+    }
+
+    // If another player joined or the game started in the meantime, the seat is not added
+    const updated = await storage.addOnlineGameSeat(game.id, game.seats, {
+      playerId: `player_${game.seats.length + 1}`,
+      userId: res.locals.userId,
+      username: req.user!.username,
+      faction,
+    });
+    if (!updated) {
+      return res.status(409).json({ message: "The lobby changed while joining, please try again" });
+    }
+
+    notifyLobbyUpdated(updated);
+    res.json(toOnlineGameResponse(updated));
+  });
+
+  app.get("/api/online-games/:id", async (req, res) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    const game = await storage.getOnlineGame(id);
+    if (!game || !game.seats.some((seat) => seat.userId === res.locals.userId)) {
+      return res.status(404).json({ message: "Online game not found" });
+    }
+
+    res.json(toOnlineGameResponse(game));
+  });
+
+  app.post("/api/online-games/:id/start", async (req, res) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    const game = await storage.getOnlineGame(id);
+    if (!game || !game.seats.some((seat) => seat.userId === res.locals.userId)) {
+      return res.status(404).json({ message: "Online game not found" });
+    }
+    if (game.hostUserId !== res.locals.userId) {
+      return res.status(403).json({ message: "Only the host can start the game" });
+    }
+    if (game.status !== "lobby") {
+      return res.status(409).json({ message: "This game has already started" });
+    }
+    if (game.seats.length < 2) {
+      return res.status(409).json({ message: "Waiting for more players" });
+    }
+
+    const updated = await storage.updateOnlineGame(id, {
+      status: "active",
+      save: createOnlineGameSave(game),
+    });
+    await notifyGameStarted(updated!);
+    res.json(toOnlineGameResponse(updated!));
+  });
 
   const httpServer = createServer(app);
 
+  // Live updates and moves for online games
+  attachGameSocket(httpServer);
+
   return httpServer;
 }
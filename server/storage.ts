@@ -1,21 +1,84 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type { Pool } from "@neondatabase/serverless";
+import {
+  users,
+  savedGames,
+  onlineGames,
+  type User,
+  type InsertUser,
+  type SavedGame,
+  type SavedGameSummary,
+  type InsertSavedGame,
+  type UpdateSavedGame,
+  type OnlineGame,
+  type OnlineGameSummary,
+  type OnlineGameSeat,
+  type InsertOnlineGame,
+} from "@shared/schema";
+import { createDb, createPool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// How often the in-memory session store drops expired sessions (ms)
+const SESSION_PRUNE_INTERVAL = 24 * 60 * 60 * 1000;
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  // Where login sessions are kept, alongside the rest of the data
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  listSavedGames(userId: number): Promise<SavedGameSummary[]>;
+  getSavedGame(userId: number, id: number): Promise<SavedGame | undefined>;
+  createSavedGame(userId: number, game: InsertSavedGame): Promise<SavedGame>;
+  updateSavedGame(userId: number, id: number, game: UpdateSavedGame): Promise<SavedGame | undefined>;
+  deleteSavedGame(userId: number, id: number): Promise<boolean>;
+
+  createOnlineGame(game: InsertOnlineGame): Promise<OnlineGame>;
+  getOnlineGame(id: number): Promise<OnlineGame | undefined>;
+  getOnlineGameByCode(code: string): Promise<OnlineGame | undefined>;
+  listOnlineGames(userId: number): Promise<OnlineGameSummary[]>;
+  updateOnlineGame(id: number, update: Partial<Pick<OnlineGame, "status" | "seats" | "save">>): Promise<OnlineGame | undefined>;
+  // Adds the seat only if the game is still a lobby with exactly the given seats
+  addOnlineGameSeat(id: number, seats: OnlineGameSeat[], seat: OnlineGameSeat): Promise<OnlineGame | undefined>;
+}
+
+// Strip the save payload for slot listings
+function toSummary({ data: _data, ...summary }: SavedGame): SavedGameSummary {
+  return summary;
+}
+
+// Strip the game state for online game listings
+function toOnlineSummary({ save: _save, ...summary }: OnlineGame): OnlineGameSummary {
+  return summary;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private savedGames: Map<number, SavedGame>;
+  private onlineGames: Map<number, OnlineGame>;
+  sessionStore: session.Store;
   currentId: number;
+  currentSavedGameId: number;
+  currentOnlineGameId: number;
 
   constructor() {
     this.users = new Map();
+    this.savedGames = new Map();
+    this.onlineGames = new Map();
+    this.sessionStore = new MemoryStore({ checkPeriod: SESSION_PRUNE_INTERVAL });
     this.currentId = 1;
+    this.currentSavedGameId = 1;
+    this.currentOnlineGameId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +97,254 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async listSavedGames(userId: number): Promise<SavedGameSummary[]> {
+    return Array.from(this.savedGames.values())
+      .filter((game) => game.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(toSummary);
+  }
+
+  async getSavedGame(userId: number, id: number): Promise<SavedGame | undefined> {
+    const game = this.savedGames.get(id);
+    return game && game.userId === userId ? game : undefined;
+  }
+
+  async createSavedGame(userId: number, insertGame: InsertSavedGame): Promise<SavedGame> {
+    const id = this.currentSavedGameId++;
+    const now = new Date();
+    const game: SavedGame = {
+      id,
+      userId,
+      name: insertGame.name,
+      version: insertGame.data.version,
+      turn: insertGame.data.state.turn,
+      data: insertGame.data,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.savedGames.set(id, game);
+    return game;
+  }
+
+  async updateSavedGame(userId: number, id: number, update: UpdateSavedGame): Promise<SavedGame | undefined> {
+    const existing = await this.getSavedGame(userId, id);
+    if (!existing) return undefined;
+
+    const game: SavedGame = {
+      ...existing,
+      name: update.name ?? existing.name,
+      version: update.data.version,
+      turn: update.data.state.turn,
+      data: update.data,
+      updatedAt: new Date(),
+    };
+    this.savedGames.set(id, game);
+    return game;
+  }
+
+  async deleteSavedGame(userId: number, id: number): Promise<boolean> {
+    const existing = await this.getSavedGame(userId, id);
+    if (!existing) return false;
+
+    return this.savedGames.delete(id);
+  }
+
+  async createOnlineGame(insertGame: InsertOnlineGame): Promise<OnlineGame> {
+    const id = this.currentOnlineGameId++;
+    const now = new Date();
+    const game: OnlineGame = {
+      id,
+      code: insertGame.code,
+      hostUserId: insertGame.hostUserId,
+      status: insertGame.status ?? "lobby",
+      settings: insertGame.settings,
+      seats: insertGame.seats,
+      save: insertGame.save ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.onlineGames.set(id, game);
+    return game;
+  }
+
+  async getOnlineGame(id: number): Promise<OnlineGame | undefined> {
+    return this.onlineGames.get(id);
+  }
+
+  async getOnlineGameByCode(code: string): Promise<OnlineGame | undefined> {
+    return Array.from(this.onlineGames.values()).find(
+      (game) => game.code === code,
+    );
+  }
+
+  async listOnlineGames(userId: number): Promise<OnlineGameSummary[]> {
+    return Array.from(this.onlineGames.values())
+      .filter((game) => game.seats.some((seat) => seat.userId === userId))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(toOnlineSummary);
+  }
+
+  async updateOnlineGame(id: number, update: Partial<Pick<OnlineGame, "status" | "seats" | "save">>): Promise<OnlineGame | undefined> {
+    const existing = this.onlineGames.get(id);
+    if (!existing) return undefined;
+
+    const game: OnlineGame = { ...existing, ...update, updatedAt: new Date() };
+    this.onlineGames.set(id, game);
+    return game;
+  }
+
+  async addOnlineGameSeat(id: number, seats: OnlineGameSeat[], seat: OnlineGameSeat): Promise<OnlineGame | undefined> {
+    const existing = this.onlineGames.get(id);
+    if (!existing || existing.status !== "lobby" || JSON.stringify(existing.seats) !== JSON.stringify(seats)) {
+      return undefined;
+    }
+
+    return this.updateOnlineGame(id, { seats: [...seats, seat] });
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+  sessionStore: session.Store;
+
+  constructor(pool: Pool) {
+    this.db = createDb(pool);
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listSavedGames(userId: number): Promise<SavedGameSummary[]> {
+    return this.db
+      .select({
+        id: savedGames.id,
+        userId: savedGames.userId,
+        name: savedGames.name,
+        version: savedGames.version,
+        turn: savedGames.turn,
+        createdAt: savedGames.createdAt,
+        updatedAt: savedGames.updatedAt,
+      })
+      .from(savedGames)
+      .where(eq(savedGames.userId, userId))
+      .orderBy(desc(savedGames.updatedAt));
+  }
+
+  async getSavedGame(userId: number, id: number): Promise<SavedGame | undefined> {
+    const [game] = await this.db
+      .select()
+      .from(savedGames)
+      .where(and(eq(savedGames.id, id), eq(savedGames.userId, userId)));
+    return game;
+  }
+
+  async createSavedGame(userId: number, insertGame: InsertSavedGame): Promise<SavedGame> {
+    const [game] = await this.db
+      .insert(savedGames)
+      .values({
+        userId,
+        name: insertGame.name,
+        version: insertGame.data.version,
+        turn: insertGame.data.state.turn,
+        data: insertGame.data,
+      })
+      .returning();
+    return game;
+  }
+
+  async updateSavedGame(userId: number, id: number, update: UpdateSavedGame): Promise<SavedGame | undefined> {
+    const [game] = await this.db
+      .update(savedGames)
+      .set({
+        ...(update.name !== undefined ? { name: update.name } : {}),
+        version: update.data.version,
+        turn: update.data.state.turn,
+        data: update.data,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(savedGames.id, id), eq(savedGames.userId, userId)))
+      .returning();
+    return game;
+  }
+
+  async deleteSavedGame(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(savedGames)
+      .where(and(eq(savedGames.id, id), eq(savedGames.userId, userId)))
+      .returning({ id: savedGames.id });
+    return deleted.length > 0;
+  }
+
+  async createOnlineGame(insertGame: InsertOnlineGame): Promise<OnlineGame> {
+    const [game] = await this.db.insert(onlineGames).values(insertGame).returning();
+    return game;
+  }
+
+  async getOnlineGame(id: number): Promise<OnlineGame | undefined> {
+    const [game] = await this.db.select().from(onlineGames).where(eq(onlineGames.id, id));
+    return game;
+  }
+
+  async getOnlineGameByCode(code: string): Promise<OnlineGame | undefined> {
+    const [game] = await this.db.select().from(onlineGames).where(eq(onlineGames.code, code));
+    return game;
+  }
+
+  async listOnlineGames(userId: number): Promise<OnlineGameSummary[]> {
+    return this.db
+      .select({
+        id: onlineGames.id,
+        code: onlineGames.code,
+        hostUserId: onlineGames.hostUserId,
+        status: onlineGames.status,
+        settings: onlineGames.settings,
+        seats: onlineGames.seats,
+        createdAt: onlineGames.createdAt,
+        updatedAt: onlineGames.updatedAt,
+      })
+      .from(onlineGames)
+      .where(sql`${onlineGames.seats} @> ${JSON.stringify([{ userId }])}::jsonb`)
+      .orderBy(desc(onlineGames.updatedAt));
+  }
+
+  async updateOnlineGame(id: number, update: Partial<Pick<OnlineGame, "status" | "seats" | "save">>): Promise<OnlineGame | undefined> {
+    const [game] = await this.db
+      .update(onlineGames)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(onlineGames.id, id))
+      .returning();
+    return game;
+  }
+
+  async addOnlineGameSeat(id: number, seats: OnlineGameSeat[], seat: OnlineGameSeat): Promise<OnlineGame | undefined> {
+    const [game] = await this.db
+      .update(onlineGames)
+      .set({ seats: [...seats, seat], updatedAt: new Date() })
+      .where(and(
+        eq(onlineGames.id, id),
+        eq(onlineGames.status, "lobby"),
+        sql`${onlineGames.seats} = ${JSON.stringify(seats)}::jsonb`,
+      ))
+      .returning();
+    return game;
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise keep data in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createPool(process.env.DATABASE_URL))
+  : new MemStorage();
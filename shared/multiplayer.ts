@@ -0,0 +1,68 @@
+import { z } from "zod";
+import type { OnlineGameSeat, OnlineGameStatus } from "./schema";
+import { ActionType } from "../client/src/game/engine/actions";
+
+// WebSocket endpoint for online games
+export const GAME_SOCKET_PATH = "/ws/games";
+
+const id = z.string().min(1);
+
+// A move as a client sends it: every game action, without the acting player
+export const gameActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal(ActionType.MOVE_UNIT), unitId: id, x: z.number().int(), y: z.number().int() }),
+  z.object({
+    type: z.literal(ActionType.ATTACK),
+    unitId: id,
+    target: z.object({ kind: z.enum(["unit", "city"]), id }),
+  }),
+  z.object({ type: z.literal(ActionType.FOUND_CITY), unitId: id, name: z.string().optional() }),
+  z.object({ type: z.literal(ActionType.BUILD_IMPROVEMENT), unitId: id, improvementType: id }),
+  z.object({ type: z.literal(ActionType.PROMOTE_UNIT), unitId: id, promotionId: id }),
+  z.object({ type: z.literal(ActionType.FORTIFY_UNIT), unitId: id }),
+  z.object({ type: z.literal(ActionType.ESTABLISH_TRADE_ROUTE), unitId: id, cityId: id }),
+  z.object({ type: z.literal(ActionType.CITY_STRIKE), cityId: id, targetId: id }),
+  z.object({ type: z.literal(ActionType.RAZE_CITY), cityId: id }),
+  z.object({ type: z.literal(ActionType.LIBERATE_CITY), cityId: id }),
+  z.object({
+    type: z.literal(ActionType.QUEUE_PRODUCTION),
+    cityId: id,
+    itemType: z.enum(["unit", "building"]),
+    itemId: id,
+  }),
+  z.object({ type: z.literal(ActionType.START_RESEARCH), techId: id }),
+  z.object({ type: z.literal(ActionType.END_TURN) }),
+]);
+
+// Messages sent by clients
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  // Start receiving a game's updates. The seat's view of the game is sent back
+  // unless the client's version (the number of actions behind its view) is current.
+  z.object({
+    type: z.literal("subscribe"),
+    gameId: z.number().int().positive(),
+    version: z.number().int().nonnegative().optional(),
+  }),
+  z.object({
+    type: z.literal("unsubscribe"),
+    gameId: z.number().int().positive(),
+  }),
+  // A move by the sender's seat; the server fills in the player
+  z.object({
+    type: z.literal("action"),
+    gameId: z.number().int().positive(),
+    action: gameActionSchema,
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// Messages sent by the server
+export type ServerMessage =
+  | { type: "lobby"; gameId: number; status: OnlineGameStatus; seats: OnlineGameSeat[] }
+  // The seat's whole view of the game, sent when subscribing without the current version
+  | { type: "game_state"; gameId: number; version: number; save: unknown; seats: OnlineGameSeat[] }
+  // Changes the actions from fromVersion to version made to the seat's view
+  | { type: "update"; gameId: number; fromVersion: number; version: number; changes: unknown }
+  | { type: "your_turn"; gameId: number; playerId: string; turn: number }
+  | { type: "action_rejected"; gameId: number; error: string }
+  | { type: "error"; message: string };
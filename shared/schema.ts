@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,5 +13,114 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Account details accepted when signing up
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3).max(32)
+    .regex(/^[A-Za-z0-9_-]+$/, "Username may only contain letters, numbers, _ and -"),
+  password: z.string().min(8).max(128),
+});
+
+export const loginUserSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type LoginUser = z.infer<typeof loginUserSchema>;
 export type User = typeof users.$inferSelect;
+// A user as sent to clients, never including the password hash
+export type PublicUser = Omit<User, "password">;
+
+export const savedGames = pgTable("saved_games", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  version: integer("version").notNull(),
+  turn: integer("turn").notNull(),
+  data: jsonb("data").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// A save produced by the client's save format (client/src/game/engine/save.ts).
+// Only the envelope and the fields the slot list needs are checked here; the
+// client migrates and validates the game state itself when loading.
+export const savePayloadSchema = z.object({
+  version: z.number().int().positive(),
+  savedAt: z.string(),
+  state: z.object({
+    turn: z.number().int().positive(),
+    currentPlayerId: z.string(),
+    playerOrder: z.array(z.string()),
+    mapWidth: z.number().int().positive(),
+    mapHeight: z.number().int().positive(),
+    tiles: z.array(z.record(z.unknown())),
+    players: z.record(z.record(z.unknown())),
+    units: z.record(z.record(z.unknown())),
+    cities: z.record(z.record(z.unknown())),
+  }).passthrough(),
+  actionLog: z.array(z.record(z.unknown())),
+  initialState: z.record(z.unknown()).nullable().optional(),
+});
+
+export const insertSavedGameSchema = createInsertSchema(savedGames).pick({
+  name: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+  data: savePayloadSchema,
+});
+
+export const updateSavedGameSchema = insertSavedGameSchema.partial({ name: true });
+
+export type SavePayload = z.infer<typeof savePayloadSchema>;
+export type InsertSavedGame = z.infer<typeof insertSavedGameSchema>;
+export type UpdateSavedGame = z.infer<typeof updateSavedGameSchema>;
+export type SavedGame = typeof savedGames.$inferSelect;
+export type SavedGameSummary = Omit<SavedGame, "data">;
+
+// A player's place in an online game
+export interface OnlineGameSeat {
+  playerId: string;
+  userId: number;
+  username: string;
+  faction: string;
+}
+
+export const onlineGameSettingsSchema = z.object({
+  mapWidth: z.number().int().min(10).max(100).default(20),
+  mapHeight: z.number().int().min(10).max(100).default(20),
+  terrainType: z.enum(["nephiLands", "lamaniteLands", "jarediteWilderness", "landBountiful", "landDesolation", "random"]).default("random"),
+  seed: z.number().int().optional(),
+  maxPlayers: z.number().int().min(2).max(4).default(4),
+});
+
+export type OnlineGameSettings = z.infer<typeof onlineGameSettingsSchema>;
+
+export const onlineGames = pgTable("online_games", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  hostUserId: integer("host_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // lobby -> active -> finished
+  status: text("status").notNull().default("lobby"),
+  settings: jsonb("settings").$type<OnlineGameSettings>().notNull(),
+  seats: jsonb("seats").$type<OnlineGameSeat[]>().notNull(),
+  // Authoritative game in the client save format, once started
+  save: jsonb("save"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const createOnlineGameSchema = z.object({
+  settings: onlineGameSettingsSchema,
+  faction: z.string(),
+});
+
+export const joinOnlineGameSchema = z.object({
+  code: z.string().trim().toUpperCase().length(6),
+  faction: z.string().optional(),
+});
+
+export type OnlineGameStatus = "lobby" | "active" | "finished";
+export type OnlineGame = typeof onlineGames.$inferSelect;
+export type InsertOnlineGame = typeof onlineGames.$inferInsert;
+export type OnlineGameSummary = Omit<OnlineGame, "save">;